@@ -97,7 +97,11 @@ export async function handleGetAnswersHistory(input: GetAnswersHistoryInput) {
 			category: a.category,
 			difficulty: a.difficulty,
 			selectedAnswerIndex: a.selectedAnswerIndex,
+			selectedAnswerIndices: a.selectedAnswerIndices,
+			answerText: a.answerText,
+			freeTextAnswer: a.freeTextAnswer,
 			isCorrect: a.isCorrect,
+			score: a.score,
 			answeredAt: a.answeredAt,
 		})),
 	};
@@ -34,6 +34,7 @@ export async function handleGetUserProfile(input: GetUserProfileInput) {
 			yearsOfExperience: profile.yearsOfExperience,
 			focusAreas: profile.focusAreas,
 			selfAssessment: profile.selfAssessment,
+			language: profile.language,
 			createdAt: profile.createdAt,
 			updatedAt: profile.updatedAt,
 		},
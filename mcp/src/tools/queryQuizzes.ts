@@ -51,13 +51,17 @@ export async function handleQueryQuizzes(input: QueryQuizzesInput) {
 			mergeRequestId: q.mergeRequestId,
 			accountId: q.accountId,
 			questionText: q.questionText,
+			questionType: q.questionType ?? "multiple_choice",
 			category: q.category,
 			difficulty: q.difficulty,
 			status: q.status,
 			options: q.options,
 			correctAnswerIndex: q.correctAnswerIndex,
+			correctAnswerIndices: q.correctAnswerIndices,
+			acceptedAnswers: q.acceptedAnswers,
 			explanation: q.explanation,
 			diffReference: q.diffReference,
+			language: q.language ?? "ja",
 			createdAt: q.createdAt,
 		})),
 	};
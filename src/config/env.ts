@@ -1,16 +1,20 @@
 import "dotenv/config";
 import { z } from "zod";
+import { LanguageSchema } from "../types/index.js";
 
 // T010: 環境変数管理モジュール
 // ローカル開発: .env ファイルから読み込み
 // 本番環境: Secret Manager から読み込み（将来実装）
 
-const EnvSchema = z.object({
+const EnvObjectSchema = z.object({
 	/** APIサーバーポート */
 	PORT: z.coerce.number().default(3000),
 
-	/** Google Cloud Project ID (also used for Vertex AI authentication) */
-	GOOGLE_CLOUD_PROJECT: z.string().min(1),
+	/**
+	 * Google Cloud Project ID (also used for Vertex AI authentication)
+	 * QUIZ_GENERATOR=vertex の場合は必須。local の場合は省略でき、Firestore は Emulator 使用時はダミーのプロジェクトID、それ以外は実行環境のプロジェクトを使う
+	 */
+	GOOGLE_CLOUD_PROJECT: z.string().min(1).optional(),
 
 	/** Firestore Emulator Host (ローカル開発用) */
 	FIRESTORE_EMULATOR_HOST: z.string().optional(),
@@ -32,6 +36,85 @@ const EnvSchema = z.object({
 
 	/** Bot動作のベースURL（PRコメント内のリンク用） */
 	APP_BASE_URL: z.string().url().optional().default("http://localhost:3000"),
+
+	/**
+	 * クイズ生成プロバイダー
+	 * - vertex: Vertex AI Gemini（GCP認証が必要）
+	 * - local: diffからテンプレートで決定的に生成（オフライン・テスト用）
+	 */
+	QUIZ_GENERATOR: z.enum(["vertex", "local"]).default("vertex"),
+
+	/** クイズ検証に失敗した場合を含む、1回の出題あたりの最大生成回数 */
+	QUIZ_VERIFICATION_MAX_ATTEMPTS: z.coerce
+		.number()
+		.int()
+		.min(1)
+		.max(5)
+		.default(3),
+
+	/**
+	 * 既定の表示・出題言語
+	 * ユーザープロファイルとリポジトリ（リクエストの language）の指定がない場合に使用
+	 */
+	DEFAULT_LANGUAGE: LanguageSchema.default("ja"),
+
+	/**
+	 * 同じPR/MRでクイズを作り直すのに必要な、前回生成時からの最小変更行数
+	 * 0 の場合は差分が同一のときだけ既存のクイズを返す
+	 */
+	QUIZ_REGENERATE_MIN_CHANGED_LINES: z.coerce.number().int().min(0).default(20),
+
+	/**
+	 * 差分のプロンプトインジェクションのリスクスコア (0-100) がこの値以上ならクイズを生成しない
+	 * 0 の場合はスコアの記録のみ行い、生成は止めない
+	 */
+	QUIZ_INJECTION_REFUSAL_THRESHOLD: z.coerce
+		.number()
+		.int()
+		.min(0)
+		.max(100)
+		.default(60),
+
+	/**
+	 * /quiz コマンドで1ユーザーが24時間に追加生成できる回数
+	 * 0 の場合は /quiz を受け付けない
+	 */
+	QUIZ_ON_DEMAND_USER_DAILY_LIMIT: z.coerce.number().int().min(0).default(3),
+
+	/**
+	 * /quiz コマンドで1つのPR/MRに追加生成できる回数（全ユーザーの合計）
+	 * 0 の場合は /quiz を受け付けない
+	 */
+	QUIZ_ON_DEMAND_PR_LIMIT: z.coerce.number().int().min(0).default(5),
+
+	/** 難易度の再計算で実測の難易度を決めるのに必要な最小回答数（クイズ単位・問題の型単位） */
+	QUIZ_CALIBRATION_MIN_ANSWERS: z.coerce.number().int().min(1).default(10),
+
+	/**
+	 * クイズ生成プロンプトの実験設定（"バージョン=重み" のカンマ区切り、例: "5=90,5-behavior=10"）
+	 * PR/MRごとに重みに応じてバージョンを割り当てる。未設定の場合は既定のバージョンのみ
+	 */
+	QUIZ_PROMPT_EXPERIMENT: z.string().optional(),
+
+	/** LLM呼び出しの最大試行回数（一時的なエラー・不正な出力の再試行を含む） */
+	LLM_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(6).default(3),
+
+	/** LLM再試行の初回待機時間（ミリ秒、以降は指数的に増加） */
+	LLM_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(1000),
+
+	/** LLM呼び出し1回あたりのタイムアウト（ミリ秒） */
+	LLM_TIMEOUT_MS: z.coerce.number().int().min(1000).default(60_000),
+});
+
+/** Vertex AI の設定は選択した生成プロバイダーが vertex の場合のみ要求する */
+const EnvSchema = EnvObjectSchema.superRefine((value, ctx) => {
+	if (value.QUIZ_GENERATOR === "vertex" && !value.GOOGLE_CLOUD_PROJECT) {
+		ctx.addIssue({
+			code: "custom",
+			path: ["GOOGLE_CLOUD_PROJECT"],
+			message: "Required when QUIZ_GENERATOR=vertex",
+		});
+	}
 });
 
 export type Env = z.infer<typeof EnvSchema>;
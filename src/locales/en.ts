@@ -0,0 +1,893 @@
+import type {
+	AccuracyTrendParams,
+	ArgumentIssue,
+	CommandHelpEntry,
+	HistoryEntryParams,
+	Messages,
+	ProfileChange,
+	ProfileSummaryParams,
+	StatsReportParams,
+} from "./types.js";
+
+/** 単数・複数形を付けた件数表記 */
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** コマンドの形式と例 */
+function formatCommandUsage(command: CommandHelpEntry): string {
+	return `**Format:**
+\`\`\`
+${command.syntax.join("\n")}
+\`\`\`
+
+**Examples:**
+${command.examples.map((e) => `- \`${e.command}\` - ${e.description}`).join("\n")}`;
+}
+
+/** コマンドの別名（なければ空文字） */
+function formatAliases(command: CommandHelpEntry): string {
+	return command.aliases.length > 0
+		? ` (alias: ${command.aliases.map((a) => `\`${a}\``).join(", ")})`
+		: "";
+}
+
+/** 正答率の推移（比較できる回答数がなければその旨） */
+function formatTrend(trend?: AccuracyTrendParams): string {
+	if (!trend) {
+		return "not enough answers yet";
+	}
+	const diff = trend.recentRate - trend.previousRate;
+	const icon = diff > 0 ? "📈" : diff < 0 ? "📉" : "➡️";
+	return `last ${trend.window} answers ${trend.recentRate.toFixed(1)}% (previous ${trend.window}: ${trend.previousRate.toFixed(1)}%, ${diff >= 0 ? "+" : ""}${diff.toFixed(1)} pts) ${icon}`;
+}
+
+/** 学習のおすすめ（注力分野・次のステップがなければ空文字） */
+function formatRecommendations(params: StatsReportParams): string {
+	const items = [
+		...(params.focusAreas.length > 0
+			? [`Focus areas: ${params.focusAreas.join(", ")}`]
+			: []),
+		...params.nextSteps,
+	];
+	return items.length > 0
+		? `\n**Recommendations:**\n${items.map((item) => `- ${item}`).join("\n")}\n`
+		: "";
+}
+
+/** 履歴の結果（記述式は得点も表示） */
+function formatHistoryResult(entry: HistoryEntryParams): string {
+	const score =
+		entry.scorePercent !== undefined ? ` (${entry.scorePercent}%)` : "";
+	switch (entry.result) {
+		case "correct":
+			return `✅ Correct${score}`;
+		case "incorrect":
+			return `❌ Incorrect${score}`;
+		case "skipped":
+			return "⏭️ Skipped";
+	}
+}
+
+/** 引数の検証エラー1件（どの項目にどの値が指定できないか） */
+function formatArgumentIssue(issue: ArgumentIssue): string {
+	const key = `\`${issue.key}\``;
+	const allowed = issue.allowed
+		? ` (allowed: ${issue.allowed.map((a) => `\`${a}\``).join(", ")})`
+		: "";
+	const bound = (direction: string) =>
+		issue.origin === "string"
+			? `${key} must be ${direction} ${issue.limit} characters (got ${issue.size})`
+			: issue.origin === "array"
+				? `${key} accepts ${direction} ${plural(issue.limit ?? 0, "value")} (got ${issue.size})`
+				: `${key} must be ${direction} ${issue.limit} (got \`${issue.value}\`)`;
+
+	switch (issue.kind) {
+		case "invalid_value":
+			return `${key} cannot be \`${issue.value}\`${allowed}`;
+		case "unknown_key":
+			return `${key} is not a valid parameter${allowed}`;
+		case "too_big":
+			return bound("at most");
+		case "too_small":
+			return bound("at least");
+		case "invalid_type":
+			if (issue.value === undefined) {
+				return `${key} is required`;
+			}
+			return issue.expected === "number" || issue.expected === "int"
+				? `${key} must be ${issue.expected === "int" ? "a whole number" : "a number"} (got \`${issue.value}\`)`
+				: `${key} has an invalid format (got \`${issue.value}\`)`;
+		case "other":
+			return issue.key ? `${key}: ${issue.message}` : issue.message;
+	}
+}
+
+/** プロファイルの設定内容 */
+function formatProfileSummary(p: ProfileSummaryParams): string {
+	return `- Experience level: ${p.experienceLevel}
+- Years of experience: ${p.yearsOfExperience}
+- Focus areas: ${p.focusAreas}${p.careerGoal ? `\n- Career goal: ${p.careerGoal}` : ""}
+- Self-assessment: ${p.selfAssessment}
+- Language: ${p.language}`;
+}
+
+/** プロファイルの変更内容（変更がなければその旨） */
+function formatProfileChanges(changes: ProfileChange[]): string {
+	return changes.length > 0
+		? changes.map((c) => `- ${c.field}: ${c.before} → ${c.after}`).join("\n")
+		: "Nothing changed";
+}
+
+/**
+ * 英語メッセージカタログ
+ */
+export const en: Messages = {
+	dateLocale: "en-US",
+
+	labels: {
+		category: {
+			bug_fix: "Bug Fix",
+			performance: "Performance",
+			refactoring: "Refactoring",
+			security: "Security",
+			logic: "Logic",
+		},
+		difficulty: {
+			easy: "Easy",
+			medium: "Medium",
+			hard: "Hard",
+		},
+		questionType: {
+			multiple_choice: "Multiple choice",
+			true_false: "True / False",
+			multi_select: "Select all that apply",
+			ordering: "Ordering",
+			fill_in_blank: "Fill in the blank",
+			free_text: "Free text",
+		},
+		experienceLevel: {
+			junior: "Junior (1-2 years)",
+			mid: "Mid-level (3-5 years)",
+			senior: "Senior (5+ years)",
+		},
+		language: {
+			ja: "日本語",
+			en: "English",
+		},
+		notSet: "Not set",
+		unknownError: "Unknown error",
+	},
+
+	answerFormat: {
+		multipleChoice: (optionCount) =>
+			`Reply with one option number (1-${optionCount})`,
+		trueFalse: "Reply 1 if the statement is true or 2 if it is false",
+		multiSelect: "Reply with every correct option number, comma-separated",
+		ordering:
+			"Reply with all option numbers in the correct order, comma-separated",
+		fillInBlank:
+			'Reply with the word that fills the blank (wrap it in "" if it contains spaces)',
+		fillInBlankExample: '"word"',
+		freeText:
+			"Explain in a few sentences, prefixed with text: (multiple lines are allowed)",
+		freeTextExample: "text: your answer",
+		noAnswer: "(no answer)",
+	},
+
+	quizComment: {
+		optionsLead: "**Options:**",
+		multiSelectOptionsLead: "**Options (select all that apply):**",
+		orderingOptionsLead: "**Items to order:**",
+		single: (p) => `## 🎯 Your MR Quiz is ready!
+
+A quiz has been generated from your changes.
+Check your understanding before the code review!
+
+### 📝 Quiz
+**Type:** ${p.questionType}
+**Category:** ${p.category}
+**Difficulty:** ${p.difficulty}
+
+**Question:**
+${p.questionText}
+
+${p.optionsSection}
+
+### 💡 How to answer
+${p.instruction}. Reply to this comment in the following format:
+
+\`\`\`
+/answer ${p.example} ${p.quizId}
+\`\`\`
+
+**Important:** Copy the Quiz ID (\`${p.quizId}\`) and paste it after your answer.${p.profileGuide}
+
+---
+*Quiz ID: \`${p.quizId}\`*
+*Generated by MR Quiz Bot*
+`,
+		setQuestion: (p) => `### Question ${p.questionNumber} (${p.questionType})
+**Category:** ${p.category} / **Difficulty:** ${p.difficulty}
+
+${p.questionText}
+
+${p.optionsSection}
+
+*${p.instruction}*`,
+		set: (p) => `## 🎯 Your MR Quiz is ready! (${p.questionCount} questions)
+
+Several quizzes have been generated from your changes.
+Check your understanding before the code review!
+
+${p.questionsSection}
+
+### 💡 How to answer
+Reply to this comment with \`question:answer\` pairs (all at once or one question at a time):
+
+\`\`\`
+/answer ${p.exampleAnswers} ${p.quizSetId}
+\`\`\`
+
+**Important:** Copy the Quiz Set ID (\`${p.quizSetId}\`) and paste it after your answers.${p.profileGuide}
+
+---
+*Quiz Set ID: \`${p.quizSetId}\`*
+*Generated by MR Quiz Bot*
+`,
+		profileGuide: `
+
+---
+
+### 🆕 First time here?
+
+Set up your profile to get better-suited quizzes (optional):
+
+\`\`\`
+/profile experience=mid years=3 focus=security,performance
+\`\`\`
+
+**Parameters:**
+- \`experience\`: junior / mid / senior
+- \`years\`: years of experience (number)
+- \`focus\`: focus areas (up to 5, comma-separated)
+  - bug_fix, performance, refactoring, security, logic
+- \`goal\`: career goal (text, optional)
+- \`lang\`: language for comments and quizzes (ja / en, optional)
+
+**Example:**
+\`\`\`
+/profile experience=senior years=5 focus=performance,security goal="Become a full-stack engineer" lang=en
+\`\`\`
+
+*Your profile will be used for future quizzes*`,
+		generationError: (reason, code) => `## ⚠️ Quiz generation error
+
+An error occurred while generating the quiz.
+
+${reason}
+${code ? `\nError code: \`${code}\`\n` : ""}
+---
+*Generated by MR Quiz Bot*
+`,
+		anchorLabel: (questionNumber) =>
+			`📍 Question ${questionNumber} is about this change`,
+		reviewerLead: (accountId) =>
+			`@${accountId} You have been asked to review this PR. This quiz is about what to verify before approving it.\n\n`,
+		onDemandLead: (accountId) =>
+			`@${accountId} Here is the extra quiz you requested on this PR's diff.\n\n`,
+		injectionNotice: `## ℹ️ Quiz generation skipped
+
+This change contains text that an AI model could read as instructions (phrases like "ignore previous instructions", role markers, or JSON specifying answers).
+To avoid posting a quiz that may have been influenced by that text, no quiz was generated for this PR.
+
+Such text is often there for legitimate reasons, such as prompt or test data changes. No action is needed.
+
+---
+*Generated by MR Quiz Bot*
+`,
+	},
+
+	generationErrors: {
+		quotaExceeded:
+			"The AI model's usage limit was reached. Push a new commit after a while to generate the quiz again.",
+		safetyBlocked:
+			"The changes triggered the AI model's safety filter, so no quiz could be generated for this PR.",
+		timeout:
+			"The AI model timed out. If the diff is large, splitting the PR makes generation easier.",
+		unavailable:
+			"The AI model is temporarily unavailable. Push a new commit after a while to generate the quiz again.",
+		malformedOutput:
+			"The AI model's response could not be read. Push a new commit to generate the quiz again.",
+		invalidOutput:
+			"The AI model returned an incomplete quiz. Push a new commit to generate the quiz again.",
+		qualityRejected:
+			"No generated quiz passed the quality checks. This diff may not be suitable for a quiz.",
+		noQuizzableChanges:
+			"All changed files are lockfiles, build output, binaries or otherwise excluded, so no quiz was generated.",
+		unknown: "An unexpected error occurred. Please contact the administrator.",
+	},
+
+	answer: {
+		correct: (p) => `## ✅ Correct!
+
+**Your answer:** ${p.answer}
+**${p.grading ? "Model answer" : "Correct answer"}:** ${p.correctAnswer}${
+			p.grading
+				? `\n**Score:** ${p.grading.scorePercent}%\n**Feedback:** ${p.grading.feedback}`
+				: ""
+		}
+
+**Category:** ${p.category}
+**Difficulty:** ${p.difficulty}
+
+### 📖 Explanation
+${p.explanation}
+
+### 📊 Your stats
+- Total answers: ${p.stats.totalQuizzes}
+- Accuracy: ${p.stats.correctRate.toFixed(1)}%
+- Accuracy by category (top 3):
+${p.categoryStats.length > 0 ? p.categoryStats.map((s) => `  - ${s}`).join("\n") : "  - No data yet"}${
+	p.milestones.length > 0
+		? `\n\n---\n\n🎉 **New milestone reached!**\n${p.milestones.map((m) => `- ${m}`).join("\n")}`
+		: ""
+}
+
+---
+*Answered at: ${p.answeredAt}*`,
+		incorrect: (p) => `## ❌ Incorrect
+
+**Your answer:** ${p.answer}
+**${p.grading ? "Model answer" : "Correct answer"}:** ${p.correctAnswer}${
+			p.grading
+				? `\n**Score:** ${p.grading.scorePercent}%\n**Feedback:** ${p.grading.feedback}`
+				: ""
+		}
+
+**Category:** ${p.category}
+**Difficulty:** ${p.difficulty}
+
+### 📖 Explanation
+${p.explanation}
+
+### 📊 Your stats
+- Total answers: ${p.stats.totalQuizzes}
+- Accuracy: ${p.stats.correctRate.toFixed(1)}%
+
+### 💡 Recommended next steps
+${p.weakCategories ? `Weak categories: ${p.weakCategories}` : ""}
+${p.nextSteps.map((step) => `- ${step}`).join("\n")}
+
+---
+*Answered at: ${p.answeredAt}*
+*Good luck on the next quiz!*`,
+		alreadyAnswered: (p) => `## ℹ️ Already answered
+
+You have already answered this quiz.
+
+**Your answer:** ${p.answer} ${p.isCorrect ? "✅" : "❌"} (${p.isCorrect ? "correct" : "incorrect"})
+**Answered at:** ${p.answeredAt}
+
+### 📊 Current stats
+- Total answers: ${p.stats.totalQuizzes}
+- Accuracy: ${p.stats.correctRate.toFixed(1)}%
+
+---
+*Open a new PR to get a new quiz*`,
+		setQuestionResult: (
+			p,
+		) => `### Question ${p.questionNumber}: ${p.isCorrect ? "✅ Correct" : "❌ Incorrect"}${p.alreadyAnswered ? " (already answered)" : ""}
+
+**Your answer:** ${p.answer}
+**${p.grading ? "Model answer" : "Correct answer"}:** ${p.correctAnswer}${
+			p.grading
+				? `\n**Score:** ${p.grading.scorePercent}%\n**Feedback:** ${p.grading.feedback}`
+				: ""
+		}
+
+${p.explanation}`,
+		setResult: (
+			p,
+		) => `## 📝 Quiz set results (${p.correctCount} / ${p.answeredCount} correct)
+
+${p.sections}${
+	p.unansweredQuestionNumbers.length > 0
+		? `\n\n**Unanswered questions:** ${p.unansweredQuestionNumbers.join(", ")}`
+		: ""
+}
+
+### 📊 Your stats
+- Total answers: ${p.stats.totalQuizzes}
+- Accuracy: ${p.stats.correctRate.toFixed(1)}%`,
+		quizNotFound: `## ❌ Quiz not found
+
+No quiz for you was found on this PR.
+Commands only work on quizzes addressed to you.
+
+To specify the quiz ID explicitly:
+\`\`\`
+/answer 2 quiz_abc123
+\`\`\`
+
+Otherwise, make sure a quiz has been posted on this PR.`,
+		invalidAnswerForQuiz: (instruction, example) => `## ❌ Invalid answer
+
+${instruction}.
+
+**Correct format:**
+\`\`\`
+/answer ${example}
+\`\`\``,
+		invalidQuestionNumber: (questionCount) => `## ❌ Invalid question number
+
+This quiz set has questions 1-${questionCount}.
+
+**Correct format:**
+\`\`\`
+/answer 1:2 2:4
+\`\`\`
+
+**Examples:**
+- \`/answer 2:3\` - answer question 2 with option 3
+- \`/answer 1:1 2:4\` - answer questions 1 and 2 at once`,
+		rubricFeedback: (p) =>
+			[
+				p.met.length > 0 ? `Covered: ${p.met.join(" / ")}` : "",
+				p.missed.length > 0 ? `Missing: ${p.missed.join(" / ")}` : "",
+			]
+				.filter((line) => line.length > 0)
+				.join("\n"),
+	},
+
+	hint: {
+		revealed: (p) => `## 💡 Hint ${p.hints.length}/${p.total}
+
+${p.hints.map((hint, i) => `${i + 1}. ${hint}`).join("\n")}
+
+---
+*If you answer correctly after using hints, it counts as ${p.creditPercent}% of a correct answer in your skill stats.${p.hints.length < p.total ? " Comment `/hint` again for the next hint." : ""}*`,
+		exhausted: (p) => `## 💡 All hints have been shown
+
+${p.hints.map((hint, i) => `${i + 1}. ${hint}`).join("\n")}
+
+---
+*A correct answer counts as ${p.creditPercent}% in your skill stats. Reply with \`/answer\` to answer.*`,
+		notRecipient: `## ℹ️ Cannot show hints
+
+You can only get hints for quizzes addressed to you.`,
+		noHints: `## ℹ️ This quiz has no hints
+
+Reply with \`/answer\` to answer.`,
+		alreadyAnswered: `## ℹ️ Already answered
+
+You have already answered this quiz, so hints are no longer available.`,
+		invalidQuestionNumber: (questionCount) => `## ❌ Invalid question number
+
+This quiz set has questions 1-${questionCount}.
+
+**Example:** \`/hint 2\` - show one hint for question 2`,
+	},
+
+	explain: {
+		answered: (p) => `## 💬 Answer to your follow-up question
+
+> ${p.question.replace(/\n/g, "\n> ")}
+
+${p.answer}
+
+---
+*You can ask ${p.remaining} more follow-up question(s) about this quiz. Answers are based on the quiz, its explanation and the diff it was generated from.*`,
+		notRecipient: `## ℹ️ Cannot ask about this quiz
+
+You can only ask follow-up questions about quizzes addressed to you.`,
+		notAnswered: `## ℹ️ Not answered yet
+
+Follow-up questions are available after you answer. Reply with \`/answer\` first.`,
+		limitReached: (limit) => `## ℹ️ Follow-up limit reached
+
+You can ask up to ${limit} follow-up questions per quiz.`,
+		unavailable: (explanation) => `## ℹ️ Follow-up questions are not available
+
+The current quiz generator cannot answer follow-up questions. Here is the explanation again.
+
+### 📖 Explanation
+${explanation}`,
+		invalidQuestionNumber: (questionCount) => `## ❌ Invalid question number
+
+This quiz set has questions 1-${questionCount}.
+
+**Example:** \`/explain 2: question\` - ask about question 2`,
+	},
+
+	skip: {
+		skipped: (p) => `## ⏭️ Quiz skipped
+
+${p.questionNumbers.length > 0 ? `Skipped the unanswered questions of the quiz set (${p.questionNumbers.join(", ")}).` : "Skipped the quiz for this PR."}${p.reason ? `\n\n**Reason:** ${p.reason}` : ""}
+
+---
+*Skipped quizzes are not counted in your accuracy; they are recorded as your skip rate in your skill stats*`,
+		alreadySkipped: `## ℹ️ Already skipped
+
+You have already skipped this quiz.`,
+		alreadyAnswered: `## ℹ️ Already answered
+
+Answered quizzes cannot be skipped.`,
+		notRecipient: `## ℹ️ Cannot skip this quiz
+
+You can only skip quizzes that were posted for you.`,
+		disabled: `## ℹ️ Skipping is disabled
+
+This repository does not allow skipping quizzes. Reply with \`/answer\` to answer.`,
+		answerSkipped: `## ℹ️ This quiz was skipped
+
+Skipped quizzes cannot be answered.`,
+	},
+
+	onDemandQuiz: {
+		userLimitReached: (limit) => `## ℹ️ Extra quiz limit reached
+
+You can use \`/quiz\` up to ${plural(limit, "time")} every 24 hours. Please try again later.`,
+		pullRequestLimitReached: (
+			limit,
+		) => `## ℹ️ Extra quiz limit reached for this PR
+
+\`/quiz\` can be used up to ${plural(limit, "time")} on this PR.`,
+		disabled: `## ℹ️ Extra quizzes are disabled
+
+Adding quizzes with \`/quiz\` is currently not available.`,
+		unknownPullRequest: `## ℹ️ Could not add a quiz
+
+The quiz could not be added because the details of this PR could not be retrieved.`,
+	},
+
+	stats: {
+		report: (p) => `## 📊 Your Learning Stats
+
+**Overall:**
+- Total answers: ${p.overall.totalQuizzes}
+- Accuracy: ${p.overall.correctRate.toFixed(1)}%
+- Skip rate: ${p.skipRate.toFixed(1)}%
+- Trend: ${formatTrend(p.trend)}
+
+**By category:**
+| Category | Answers | Accuracy | Skip rate |
+|---|---|---|---|
+${p.categories.map((c) => `| ${c.category} | ${c.totalQuizzes} | ${c.correctRate.toFixed(1)}% | ${c.skipRate.toFixed(1)}% |`).join("\n")}
+${p.milestones.length > 0 ? `\n**Recent milestones:**\n${p.milestones.map((m) => `- 🏆 ${m.achievement} (${m.achievedAt})`).join("\n")}\n` : ""}${formatRecommendations(p)}
+---
+*Comment \`/history\` to see your recent quiz results*`,
+		noData: `## 📊 Your Learning Stats
+
+You haven't answered any quizzes yet. Answer a quiz posted on a PR with \`/answer\` and your stats will show up here.`,
+	},
+
+	history: {
+		list: (entries) => `## 🕘 Recent Quizzes (${entries.length})
+
+| Result | Category | PR | Date |
+|---|---|---|---|
+${entries.map((e) => `| ${formatHistoryResult(e)} | ${e.category} | ${e.mergeRequest} | ${e.date} |`).join("\n")}
+
+---
+*Comment \`/stats\` to see your overall stats*`,
+		empty: `## 🕘 Recent Quizzes
+
+You haven't answered or skipped any quizzes yet.`,
+	},
+
+	profile: {
+		updated: (
+			p,
+		) => `## ${p.isNew ? "🎉" : "✅"} Profile ${p.isNew ? "created" : "updated"}
+
+**Changes:**
+${formatProfileChanges(p.changes)}
+
+**Settings:**
+${formatProfileSummary(p)}
+
+Future quizzes will take these settings into account.
+You can change your profile at any time with the same command and check it with \`/profile show\`.
+
+---
+*Your profile focuses quizzes on your weak areas and raises the difficulty in your strong ones*`,
+		show: (p) => `## 📝 Your profile
+
+${formatProfileSummary(p)}
+
+**Change:** \`/profile focus=performance,security\`
+**Self-assessment:** \`/profile assess security=3 performance=4\`
+**Reset:** \`/profile reset\``,
+		reset: `## 🗑️ Profile reset
+
+Your experience, focus areas, career goal, self-assessment and language settings have been deleted.
+Future quizzes will be based on your answer history and use the repository's default language.`,
+		notFound: `## 📝 No profile yet
+
+Set one up with something like \`/profile experience=mid years=3\` (comment \`/profile\` alone for details).`,
+		fields: {
+			experienceLevel: "Experience level",
+			yearsOfExperience: "Years of experience",
+			focusAreas: "Focus areas",
+			careerGoal: "Career goal",
+			language: "Language",
+			selfAssessment: (category) => `Self-assessment (${category})`,
+		},
+		help: `## 📝 How to use the profile command
+
+Setting up a profile lets the bot pick quizzes that suit you better.
+
+### Command format
+\`\`\`
+/profile experience=mid years=3 focus=security,performance goal="Your goal"
+/profile assess security=3 performance=4
+/profile show
+/profile reset
+\`\`\`
+
+- \`show\` - show your current profile
+- \`reset\` - delete your profile and start over
+- \`assess\` - rate yourself from 1 to 5 per category (categories you leave out keep their rating)
+
+### Parameters
+
+**experience** (or exp)
+- \`junior\` - Junior (1-2 years)
+- \`mid\` - Mid-level (3-5 years)
+- \`senior\` - Senior (5+ years)
+
+**years** (or year)
+- Years of experience (number)
+
+**focus**
+- Areas you want to focus on (up to 5, comma-separated)
+- Choices: \`bug_fix\`, \`performance\`, \`refactoring\`, \`security\`, \`logic\`
+
+**goal**
+- Career goal (optional, up to 500 characters)
+- Wrap it in quotes: \`goal="Become a full-stack engineer"\`
+
+**lang** (or language)
+- Language for comments and quizzes (optional)
+- Choices: \`ja\` (Japanese), \`en\` (English)
+- Falls back to the repository default when not set
+
+**Categories for assess**
+- \`bug_fix\`, \`performance\`, \`refactoring\`, \`security\`, \`logic\`
+- A whole number from 1 (weak) to 5 (strong)
+
+### Examples
+
+**Basic setup:**
+\`\`\`
+/profile experience=mid years=3
+\`\`\`
+
+**Focus areas:**
+\`\`\`
+/profile experience=senior focus=performance,security
+\`\`\`
+
+**Everything:**
+\`\`\`
+/profile experience=mid years=3 focus=security,performance goal="Become a security engineer"
+\`\`\`
+
+**Partial updates work too:**
+\`\`\`
+/profile focus=refactoring,logic
+\`\`\`
+
+**Get quizzes in Japanese:**
+\`\`\`
+/profile lang=ja
+\`\`\`
+
+**Rate yourself:**
+\`\`\`
+/profile assess security=2 logic=4
+\`\`\`
+
+---
+*You can update your profile at any time*`,
+	},
+
+	commands: {
+		list: (commands) => `## 📖 Available commands
+
+${commands.map((c) => `- \`${c.syntax[0]}\` - ${c.description}${formatAliases(c)}`).join("\n")}
+
+Comment \`/help <command>\` (for example \`/help answer\`) to see how to use a command.`,
+		detail: (command) => `## 📖 \`${command.name}\`${formatAliases(command)}
+
+${command.description}
+
+${formatCommandUsage(command)}`,
+		unknownHelpTopic: (topic, commands) => `## ❌ Unknown command: \`${topic}\`
+
+Available commands: ${commands.map((c) => `\`${c.name}\``).join(", ")}`,
+		invalidArguments: (p) => `## ❌ Invalid \`${p.command.name}\` command
+
+${p.issues.length > 0 ? `Please check the following:\n${p.issues.map((issue) => `- ${formatArgumentIssue(issue)}`).join("\n")}` : "The command format is not valid."}
+
+${formatCommandUsage(p.command)}`,
+		failed: (command) => `## ❌ Failed to process \`${command}\`
+
+An error occurred while processing the command. Please try again later.`,
+	},
+
+	commandHelp: {
+		answer: {
+			syntax: [
+				"/answer <answer>",
+				"/answer <question number>:<answer> <question number>:<answer>",
+				"/answer [question number] text: <answer>",
+			],
+			description: "Answer the quiz posted on this PR",
+			examples: [
+				{
+					command: "/answer 3",
+					description:
+						"choose option 3 in a multiple choice or true/false question",
+				},
+				{
+					command: "/answer 1,3",
+					description: "choose options 1 and 3 in a select-all question",
+				},
+				{
+					command: "/answer 3,1,2,4",
+					description: "answer an ordering question",
+				},
+				{
+					command: '/answer "use client"',
+					description: "answer a fill-in-the-blank question",
+				},
+				{
+					command: "/answer text: Because...",
+					description: "answer a free-text question",
+				},
+				{
+					command: "/answer 1:2 2:1,3",
+					description: "answer each question of a quiz set",
+				},
+			],
+		},
+		hint: {
+			syntax: ["/hint", "/hint <question number>"],
+			description: "Show the next hint for a quiz before you answer",
+			examples: [
+				{ command: "/hint", description: "show one hint for the posted quiz" },
+				{
+					command: "/hint 2",
+					description: "show one hint for question 2 of a quiz set",
+				},
+			],
+		},
+		explain: {
+			syntax: ["/explain <question>", "/explain <question number>: <question>"],
+			description: "Ask a follow-up question about a quiz you have answered",
+			examples: [
+				{
+					command: "/explain Isn't option 2 also correct?",
+					description: "ask about the quiz you answered",
+				},
+				{
+					command: "/explain 2: Why isn't the order reversed?",
+					description: "ask about question 2 of a quiz set",
+				},
+			],
+		},
+		skip: {
+			syntax: ["/skip", "/skip <reason>"],
+			description:
+				"Skip the quiz posted for you (not counted in your accuracy)",
+			examples: [
+				{ command: "/skip", description: "skip the quiz for this PR" },
+				{
+					command: "/skip Documentation-only change",
+					description: "skip with a reason",
+				},
+			],
+		},
+		quiz: {
+			syntax: [
+				"/quiz",
+				"/quiz category=<bug_fix|performance|refactoring|security|logic> difficulty=<easy|medium|hard>",
+			],
+			description: "Get an extra quiz for yourself on this PR's diff",
+			examples: [
+				{ command: "/quiz", description: "add a quiz picked for you" },
+				{
+					command: "/quiz category=security difficulty=hard",
+					description: "add a hard security quiz",
+				},
+			],
+		},
+		stats: {
+			syntax: ["/stats"],
+			description:
+				"Show your accuracy, trend, milestones and learning recommendations",
+			examples: [{ command: "/stats", description: "show your stats" }],
+		},
+		history: {
+			syntax: ["/history", "/history <count>"],
+			description: "Show your recent quiz results (10 by default, up to 30)",
+			examples: [
+				{ command: "/history", description: "show the last 10 quizzes" },
+				{ command: "/history 20", description: "show the last 20 quizzes" },
+			],
+		},
+		profile: {
+			syntax: [
+				'/profile experience=<junior|mid|senior> years=<number> focus=<areas> goal="<goal>" lang=<ja|en>',
+				"/profile assess <area>=<1-5> ...",
+				"/profile show",
+				"/profile reset",
+				"/profile",
+			],
+			description:
+				"Set, show or reset your experience, focus areas, self-assessment and language (comment `/profile` alone for details)",
+			examples: [
+				{
+					command: "/profile experience=mid years=3",
+					description: "set your experience",
+				},
+				{
+					command: "/profile focus=performance,security",
+					description: "set the areas you want to focus on",
+				},
+				{
+					command: "/profile lang=ja",
+					description: "get quizzes and comments in Japanese",
+				},
+				{
+					command: "/profile assess security=3 performance=4",
+					description: "rate yourself per area",
+				},
+				{
+					command: "/profile show",
+					description: "show your current profile",
+				},
+			],
+		},
+		help: {
+			syntax: ["/help", "/help <command>"],
+			description: "Show the available commands",
+			examples: [
+				{ command: "/help", description: "list all commands" },
+				{
+					command: "/help answer",
+					description: "show how to use `/answer`",
+				},
+			],
+		},
+	},
+
+	recommendations: {
+		getStarted: "Start answering quizzes to build up your skill data",
+		improveCategory: (category, correctRate) =>
+			`Deepen your understanding of ${category} (current accuracy: ${correctRate}%)`,
+		masteredCategory: (category) =>
+			`You have mastered ${category}! Try more advanced questions`,
+		juniorMilestone: "50 quizzes answered! Try mid-level questions next",
+	},
+
+	localQuiz: {
+		changeCount: (added, removed) =>
+			`${plural(added, "line")} added, ${plural(removed, "line")} removed`,
+		explanation: (path, added, removed, fileCount) =>
+			`\`${path}\` has ${plural(added, "line")} added and ${plural(removed, "line")} removed (out of ${plural(fileCount, "changed file")}).`,
+		trueFalseQuestion: (path, claimedAdded) =>
+			`This change adds ${plural(claimedAdded, "line")} to \`${path}\`.`,
+		fillInBlankQuestion: (path) =>
+			`This change adds ____ lines to \`${path}\`.`,
+		multipleChoiceQuestion: (path) =>
+			`Which of the following correctly describes the size of the change to \`${path}\`?`,
+		hints: (path, removed) => [
+			`Look at the diff of \`${path}\`.`,
+			"Added lines start with `+`. Do not count removed lines starting with `-`.",
+			`\`${path}\` has ${plural(removed, "line")} removed.`,
+		],
+	},
+};
@@ -0,0 +1,35 @@
+import { env } from "../config/env.js";
+import type { Language } from "../types/index.js";
+import { en } from "./en.js";
+import { ja } from "./ja.js";
+import type { Messages } from "./types.js";
+
+/**
+ * メッセージカタログ
+ * 言語の決定とカタログの取得を行う
+ */
+
+export type { Messages } from "./types.js";
+
+const catalogs: Record<Language, Messages> = { ja, en };
+
+/**
+ * 表示・出題言語を決定する
+ * 指定された候補のうち最初に設定されているものを使い、どれもなければ既定言語を使う
+ * 例: resolveLanguage(profile?.language, repositoryLanguage)
+ */
+export function resolveLanguage(
+	...candidates: Array<Language | null | undefined>
+): Language {
+	return (
+		candidates.find((language): language is Language => !!language) ??
+		env.DEFAULT_LANGUAGE
+	);
+}
+
+/**
+ * 指定言語のメッセージカタログを取得（省略時は既定言語）
+ */
+export function getMessages(language?: Language): Messages {
+	return catalogs[resolveLanguage(language)];
+}
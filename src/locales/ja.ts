@@ -0,0 +1,885 @@
+import type {
+	AccuracyTrendParams,
+	ArgumentIssue,
+	CommandHelpEntry,
+	HistoryEntryParams,
+	Messages,
+	ProfileChange,
+	ProfileSummaryParams,
+	StatsReportParams,
+} from "./types.js";
+
+/** コマンドの形式と例 */
+function formatCommandUsage(command: CommandHelpEntry): string {
+	return `**正しい形式:**
+\`\`\`
+${command.syntax.join("\n")}
+\`\`\`
+
+**例:**
+${command.examples.map((e) => `- \`${e.command}\` - ${e.description}`).join("\n")}`;
+}
+
+/** コマンドの別名（なければ空文字） */
+function formatAliases(command: CommandHelpEntry): string {
+	return command.aliases.length > 0
+		? `（別名: ${command.aliases.map((a) => `\`${a}\``).join("、")}）`
+		: "";
+}
+
+/** 正答率の推移（比較できる回答数がなければその旨） */
+function formatTrend(trend?: AccuracyTrendParams): string {
+	if (!trend) {
+		return "推移を表示できるほどの回答がまだありません";
+	}
+	const diff = trend.recentRate - trend.previousRate;
+	const icon = diff > 0 ? "📈" : diff < 0 ? "📉" : "➡️";
+	return `直近${trend.window}問 ${trend.recentRate.toFixed(1)}%（その前の${trend.window}問 ${trend.previousRate.toFixed(1)}%、${diff >= 0 ? "+" : ""}${diff.toFixed(1)}pt）${icon}`;
+}
+
+/** 学習のおすすめ（注力分野・次のステップがなければ空文字） */
+function formatRecommendations(params: StatsReportParams): string {
+	const items = [
+		...(params.focusAreas.length > 0
+			? [`注力分野: ${params.focusAreas.join("、")}`]
+			: []),
+		...params.nextSteps,
+	];
+	return items.length > 0
+		? `\n**学習のおすすめ:**\n${items.map((item) => `- ${item}`).join("\n")}\n`
+		: "";
+}
+
+/** 履歴の結果（記述式は得点も表示） */
+function formatHistoryResult(entry: HistoryEntryParams): string {
+	const score =
+		entry.scorePercent !== undefined ? `（${entry.scorePercent}点）` : "";
+	switch (entry.result) {
+		case "correct":
+			return `✅ 正解${score}`;
+		case "incorrect":
+			return `❌ 不正解${score}`;
+		case "skipped":
+			return "⏭️ スキップ";
+	}
+}
+
+/** 引数の検証エラー1件（どの項目にどの値が指定できないか） */
+function formatArgumentIssue(issue: ArgumentIssue): string {
+	const key = `\`${issue.key}\``;
+	const allowed = issue.allowed
+		? `（指定できる値: ${issue.allowed.map((a) => `\`${a}\``).join(", ")}）`
+		: "";
+	const bound = (direction: string) =>
+		issue.origin === "string"
+			? `${key} は${issue.limit}文字${direction}で指定してください（指定: ${issue.size}文字）`
+			: issue.origin === "array"
+				? `${key} は${issue.limit}個${direction}で指定してください（指定: ${issue.size}個）`
+				: `${key} は${issue.limit}${direction}で指定してください（指定: \`${issue.value}\`）`;
+
+	switch (issue.kind) {
+		case "invalid_value":
+			return `${key} に \`${issue.value}\` は指定できません${allowed}`;
+		case "unknown_key":
+			return `${key} は指定できない項目です${allowed}`;
+		case "too_big":
+			return bound(issue.origin === "number" ? "以下" : "以内");
+		case "too_small":
+			return bound("以上");
+		case "invalid_type":
+			if (issue.value === undefined) {
+				return `${key} を指定してください`;
+			}
+			return issue.expected === "number" || issue.expected === "int"
+				? `${key} には${issue.expected === "int" ? "整数" : "数値"}を指定してください（指定: \`${issue.value}\`）`
+				: `${key} の形式が正しくありません（指定: \`${issue.value}\`）`;
+		case "other":
+			return issue.key ? `${key}: ${issue.message}` : issue.message;
+	}
+}
+
+/** プロファイルの設定内容 */
+function formatProfileSummary(p: ProfileSummaryParams): string {
+	return `- 経験レベル: ${p.experienceLevel}
+- 経験年数: ${p.yearsOfExperience}年
+- 注力分野: ${p.focusAreas}${p.careerGoal ? `\n- キャリア目標: ${p.careerGoal}` : ""}
+- 自己評価: ${p.selfAssessment}
+- 表示言語: ${p.language}`;
+}
+
+/** プロファイルの変更内容（変更がなければその旨） */
+function formatProfileChanges(changes: ProfileChange[]): string {
+	return changes.length > 0
+		? changes.map((c) => `- ${c.field}: ${c.before} → ${c.after}`).join("\n")
+		: "変更はありません";
+}
+
+/**
+ * 日本語メッセージカタログ
+ */
+export const ja: Messages = {
+	dateLocale: "ja-JP",
+
+	labels: {
+		category: {
+			bug_fix: "バグ修正",
+			performance: "パフォーマンス",
+			refactoring: "リファクタリング",
+			security: "セキュリティ",
+			logic: "ロジック",
+		},
+		difficulty: {
+			easy: "易しい",
+			medium: "普通",
+			hard: "難しい",
+		},
+		questionType: {
+			multiple_choice: "4択",
+			true_false: "○×",
+			multi_select: "複数選択",
+			ordering: "並べ替え",
+			fill_in_blank: "穴埋め",
+			free_text: "記述式",
+		},
+		experienceLevel: {
+			junior: "ジュニア (1-2年)",
+			mid: "ミッドレベル (3-5年)",
+			senior: "シニア (5年以上)",
+		},
+		language: {
+			ja: "日本語",
+			en: "English",
+		},
+		notSet: "未設定",
+		unknownError: "不明なエラー",
+	},
+
+	answerFormat: {
+		multipleChoice: (optionCount) =>
+			`選択肢の番号（1〜${optionCount}）を1つ回答してください`,
+		trueFalse: "正しい場合は 1、誤りの場合は 2 で回答してください",
+		multiSelect: "当てはまる選択肢の番号をすべてカンマ区切りで回答してください",
+		ordering:
+			"すべての選択肢の番号を正しい順にカンマ区切りで並べて回答してください",
+		fillInBlank:
+			'空欄に入る語句を回答してください（空白を含む場合は "" で囲んでください）',
+		fillInBlankExample: '"語句"',
+		freeText:
+			"あなたの考えを数文で記述し、先頭に text: を付けて回答してください（複数行可）",
+		freeTextExample: "text: あなたの回答",
+		noAnswer: "（回答なし）",
+	},
+
+	quizComment: {
+		optionsLead: "**選択肢:**",
+		multiSelectOptionsLead: "**選択肢（当てはまるものをすべて選択）:**",
+		orderingOptionsLead: "**並べ替える項目:**",
+		single: (p) => `## 🎯 MR Quiz が生成されました！
+
+あなたの変更内容に基づいてクイズが生成されました。
+コードレビュー前に理解度をチェックしましょう！
+
+### 📝 クイズ内容
+**形式:** ${p.questionType}
+**カテゴリ:** ${p.category}
+**難易度:** ${p.difficulty}
+
+**問題:**
+${p.questionText}
+
+${p.optionsSection}
+
+### 💡 回答方法
+${p.instruction}。このコメントに以下のフォーマットで返信してください：
+
+\`\`\`
+/answer ${p.example} ${p.quizId}
+\`\`\`
+
+**重要:** Quiz ID（\`${p.quizId}\`）をコピーして、回答の後に貼り付けてください。${p.profileGuide}
+
+---
+*Quiz ID: \`${p.quizId}\`*
+*MR Quiz Bot により自動生成*
+`,
+		setQuestion: (p) => `### 問題 ${p.questionNumber}（${p.questionType}）
+**カテゴリ:** ${p.category} / **難易度:** ${p.difficulty}
+
+${p.questionText}
+
+${p.optionsSection}
+
+*${p.instruction}*`,
+		set: (p) => `## 🎯 MR Quiz が生成されました！（全${p.questionCount}問）
+
+あなたの変更内容に基づいて複数のクイズが生成されました。
+コードレビュー前に理解度をチェックしましょう！
+
+${p.questionsSection}
+
+### 💡 回答方法
+このコメントに \`問題番号:回答\` の形式で返信してください（まとめて回答・1問ずつ回答のどちらも可）：
+
+\`\`\`
+/answer ${p.exampleAnswers} ${p.quizSetId}
+\`\`\`
+
+**重要:** Quiz Set ID（\`${p.quizSetId}\`）をコピーして、回答の後に貼り付けてください。${p.profileGuide}
+
+---
+*Quiz Set ID: \`${p.quizSetId}\`*
+*MR Quiz Bot により自動生成*
+`,
+		profileGuide: `
+
+---
+
+### 🆕 初めての方へ
+
+より最適なクイズを出題するために、プロファイル設定をお願いします（任意）：
+
+\`\`\`
+/profile experience=mid years=3 focus=security,performance
+\`\`\`
+
+**パラメータ:**
+- \`experience\`: junior / mid / senior
+- \`years\`: 経験年数（数値）
+- \`focus\`: 注力分野（最大5つ、カンマ区切り）
+  - bug_fix, performance, refactoring, security, logic
+- \`goal\`: キャリア目標（文字列、省略可）
+- \`lang\`: 表示・出題言語（ja / en、省略可）
+
+**例:**
+\`\`\`
+/profile experience=senior years=5 focus=performance,security goal="フルスタックエンジニアを目指しています"
+\`\`\`
+
+*設定したプロファイルは今後のクイズ出題に反映されます*`,
+		generationError: (reason, code) => `## ⚠️ クイズ生成エラー
+
+クイズの生成中にエラーが発生しました。
+
+${reason}
+${code ? `\nエラーコード: \`${code}\`\n` : ""}
+---
+*MR Quiz Bot により自動生成*
+`,
+		anchorLabel: (questionNumber) =>
+			`📍 問題 ${questionNumber} はこの変更から出題されています`,
+		reviewerLead: (accountId) =>
+			`@${accountId} さん、このPRのレビュー依頼を受けています。承認する前に確認すべき点についてのクイズです。\n\n`,
+		onDemandLead: (accountId) =>
+			`@${accountId} さんのリクエストで、このPRの差分から追加のクイズを出題します。\n\n`,
+		injectionNotice: `## ℹ️ クイズの自動生成を見送りました
+
+この変更には、AIへの指示として解釈されうる記述（「以前の指示を無視」のような文言、ロールの区切り、正解を指定するJSON など）が含まれていました。
+意図しない内容のクイズが出題されるのを避けるため、このPRではクイズを自動生成していません。
+
+プロンプトやテストデータの変更など、正当な理由でこうした記述が含まれることもあります。特に対応は必要ありません。
+
+---
+*MR Quiz Bot により自動生成*
+`,
+	},
+
+	generationErrors: {
+		quotaExceeded:
+			"AIモデルの利用上限に達しました。しばらく待ってから新しいコミットをプッシュすると再生成されます。",
+		safetyBlocked:
+			"変更内容がAIモデルの安全性フィルタに該当したため、このPRではクイズを生成できませんでした。",
+		timeout:
+			"AIモデルの応答がタイムアウトしました。差分が大きい場合は、PRを分割すると生成しやすくなります。",
+		unavailable:
+			"AIモデルが一時的に利用できません。しばらく待ってから新しいコミットをプッシュすると再生成されます。",
+		malformedOutput:
+			"AIモデルの応答を読み取れませんでした。新しいコミットをプッシュすると再生成されます。",
+		invalidOutput:
+			"AIモデルが不完全なクイズを返しました。新しいコミットをプッシュすると再生成されます。",
+		qualityRejected:
+			"品質チェックに合格するクイズを生成できませんでした。この差分は出題に向いていない可能性があります。",
+		noQuizzableChanges:
+			"変更されたファイルがすべてロックファイル・生成物・バイナリなどの出題対象外だったため、クイズを生成しませんでした。",
+		unknown: "予期しないエラーが発生しました。管理者にお問い合わせください。",
+	},
+
+	answer: {
+		correct: (p) => `## ✅ 正解です！
+
+**あなたの回答:** ${p.answer}
+**${p.grading ? "模範解答" : "正解"}:** ${p.correctAnswer}${
+			p.grading
+				? `\n**得点:** ${p.grading.scorePercent}%\n**採点コメント:** ${p.grading.feedback}`
+				: ""
+		}
+
+**カテゴリ:** ${p.category}
+**難易度:** ${p.difficulty}
+
+### 📖 解説
+${p.explanation}
+
+### 📊 あなたの成績
+- 累計回答数: ${p.stats.totalQuizzes}問
+- 正答率: ${p.stats.correctRate.toFixed(1)}%
+- カテゴリ別正答率（上位3つ）:
+${p.categoryStats.length > 0 ? p.categoryStats.map((s) => `  - ${s}`).join("\n") : "  - データなし"}${
+	p.milestones.length > 0
+		? `\n\n---\n\n🎉 **新しいマイルストーン達成！**\n${p.milestones.map((m) => `- ${m}`).join("\n")}`
+		: ""
+}
+
+---
+*回答日時: ${p.answeredAt}*`,
+		incorrect: (p) => `## ❌ 不正解です
+
+**あなたの回答:** ${p.answer}
+**${p.grading ? "模範解答" : "正解"}:** ${p.correctAnswer}${
+			p.grading
+				? `\n**得点:** ${p.grading.scorePercent}%\n**採点コメント:** ${p.grading.feedback}`
+				: ""
+		}
+
+**カテゴリ:** ${p.category}
+**難易度:** ${p.difficulty}
+
+### 📖 解説
+${p.explanation}
+
+### 📊 あなたの成績
+- 累計回答数: ${p.stats.totalQuizzes}問
+- 正答率: ${p.stats.correctRate.toFixed(1)}%
+
+### 💡 おすすめ学習
+${p.weakCategories ? `苦手カテゴリ: ${p.weakCategories}` : ""}
+${p.nextSteps.map((step) => `- ${step}`).join("\n")}
+
+---
+*回答日時: ${p.answeredAt}*
+*次のクイズで頑張りましょう！*`,
+		alreadyAnswered: (p) => `## ℹ️ 既に回答済みです
+
+このクイズには既に回答しています。
+
+**あなたの回答:** ${p.answer} ${p.isCorrect ? "✅" : "❌"} (${p.isCorrect ? "正解" : "不正解"})
+**回答日時:** ${p.answeredAt}
+
+### 📊 現在の成績
+- 累計回答数: ${p.stats.totalQuizzes}問
+- 正答率: ${p.stats.correctRate.toFixed(1)}%
+
+---
+*新しいPRを作成すると新しいクイズが出題されます*`,
+		setQuestionResult: (
+			p,
+		) => `### 問題 ${p.questionNumber}: ${p.isCorrect ? "✅ 正解" : "❌ 不正解"}${p.alreadyAnswered ? "（回答済み）" : ""}
+
+**あなたの回答:** ${p.answer}
+**${p.grading ? "模範解答" : "正解"}:** ${p.correctAnswer}${
+			p.grading
+				? `\n**得点:** ${p.grading.scorePercent}%\n**採点コメント:** ${p.grading.feedback}`
+				: ""
+		}
+
+${p.explanation}`,
+		setResult: (
+			p,
+		) => `## 📝 クイズセットの回答結果（${p.correctCount} / ${p.answeredCount} 問正解）
+
+${p.sections}${
+	p.unansweredQuestionNumbers.length > 0
+		? `\n\n**未回答の問題:** ${p.unansweredQuestionNumbers.join(", ")}`
+		: ""
+}
+
+### 📊 あなたの成績
+- 累計回答数: ${p.stats.totalQuizzes}問
+- 正答率: ${p.stats.correctRate.toFixed(1)}%`,
+		quizNotFound: `## ❌ クイズが見つかりません
+
+このPRであなたに出題されたクイズが見つかりませんでした。
+コマンドを使えるのは自分に出題されたクイズだけです。
+
+クイズIDを明示的に指定する場合:
+\`\`\`
+/answer 2 quiz_abc123
+\`\`\`
+
+または、PRにクイズが投稿されていることを確認してください。`,
+		invalidAnswerForQuiz: (instruction, example) => `## ❌ 無効な回答です
+
+${instruction}。
+
+**正しい形式:**
+\`\`\`
+/answer ${example}
+\`\`\``,
+		invalidQuestionNumber: (questionCount) => `## ❌ 無効な問題番号です
+
+このクイズセットの問題は 1〜${questionCount} です。
+
+**正しい形式:**
+\`\`\`
+/answer 1:2 2:4
+\`\`\`
+
+**例:**
+- \`/answer 2:3\` - 問題2に選択肢3で回答
+- \`/answer 1:1 2:4\` - 問題1と問題2にまとめて回答`,
+		rubricFeedback: (p) =>
+			[
+				p.met.length > 0 ? `押さえられている点: ${p.met.join(" / ")}` : "",
+				p.missed.length > 0
+					? `触れられていない点: ${p.missed.join(" / ")}`
+					: "",
+			]
+				.filter((line) => line.length > 0)
+				.join("\n"),
+	},
+
+	hint: {
+		revealed: (p) => `## 💡 ヒント ${p.hints.length}/${p.total}
+
+${p.hints.map((hint, i) => `${i + 1}. ${hint}`).join("\n")}
+
+---
+*ヒントを使って正解した場合、スキル統計には正解の${p.creditPercent}%として反映されます。${p.hints.length < p.total ? "もう一度 `/hint` とコメントすると次のヒントを表示します。" : ""}*`,
+		exhausted: (p) => `## 💡 ヒントはすべて表示済みです
+
+${p.hints.map((hint, i) => `${i + 1}. ${hint}`).join("\n")}
+
+---
+*正解した場合、スキル統計には正解の${p.creditPercent}%として反映されます。\`/answer\` で回答してください。*`,
+		notRecipient: `## ℹ️ ヒントを表示できません
+
+ヒントを表示できるのは自分に出題されたクイズだけです。`,
+		noHints: `## ℹ️ このクイズにはヒントがありません
+
+\`/answer\` で回答してください。`,
+		alreadyAnswered: `## ℹ️ 既に回答済みです
+
+このクイズには既に回答しているため、ヒントは表示できません。`,
+		invalidQuestionNumber: (questionCount) => `## ❌ 無効な問題番号です
+
+このクイズセットの問題は 1〜${questionCount} です。
+
+**例:** \`/hint 2\` - 問題2のヒントを1つ表示`,
+	},
+
+	explain: {
+		answered: (p) => `## 💬 追加の質問への回答
+
+> ${p.question.replace(/\n/g, "\n> ")}
+
+${p.answer}
+
+---
+*このクイズへの追加の質問はあと${p.remaining}回できます。回答はクイズ・解説・出題元の差分に基づいて生成しています。*`,
+		notRecipient: `## ℹ️ 質問できません
+
+追加の質問ができるのは自分に出題されたクイズだけです。`,
+		notAnswered: `## ℹ️ まだ回答していません
+
+追加の質問は回答後にできます。先に \`/answer\` で回答してください。`,
+		limitReached: (limit) => `## ℹ️ 追加の質問の上限に達しました
+
+1つのクイズにできる追加の質問は${limit}回までです。`,
+		unavailable: (explanation) => `## ℹ️ 追加の質問には対応していません
+
+現在のクイズ生成プロバイダーでは追加の質問に回答できません。解説を再掲します。
+
+### 📖 解説
+${explanation}`,
+		invalidQuestionNumber: (questionCount) => `## ❌ 無効な問題番号です
+
+このクイズセットの問題は 1〜${questionCount} です。
+
+**例:** \`/explain 2: 質問\` - 問題2について質問`,
+	},
+
+	skip: {
+		skipped: (p) => `## ⏭️ クイズをスキップしました
+
+${p.questionNumbers.length > 0 ? `クイズセットの未回答の問題（${p.questionNumbers.join(", ")}）をスキップしました。` : "このPRのクイズをスキップしました。"}${p.reason ? `\n\n**理由:** ${p.reason}` : ""}
+
+---
+*スキップしたクイズは正答率に含まれず、スキル統計のスキップ率として記録されます*`,
+		alreadySkipped: `## ℹ️ 既にスキップしています
+
+このクイズは既にスキップしています。`,
+		alreadyAnswered: `## ℹ️ 既に回答済みです
+
+回答済みのクイズはスキップできません。`,
+		notRecipient: `## ℹ️ スキップできません
+
+スキップできるのは自分に出題されたクイズだけです。`,
+		disabled: `## ℹ️ スキップは無効になっています
+
+このリポジトリではクイズのスキップが許可されていません。\`/answer\` で回答してください。`,
+		answerSkipped: `## ℹ️ スキップしたクイズです
+
+スキップしたクイズには回答できません。`,
+	},
+
+	onDemandQuiz: {
+		userLimitReached: (limit) => `## ℹ️ 追加のクイズの上限に達しました
+
+\`/quiz\` でクイズを追加できるのは24時間に${limit}回までです。時間をおいて再度お試しください。`,
+		pullRequestLimitReached: (
+			limit,
+		) => `## ℹ️ このPRの追加のクイズの上限に達しました
+
+このPRで \`/quiz\` でクイズを追加できるのは${limit}回までです。`,
+		disabled: `## ℹ️ 追加のクイズは無効になっています
+
+\`/quiz\` によるクイズの追加は現在受け付けていません。`,
+		unknownPullRequest: `## ℹ️ クイズを追加できません
+
+このPRの情報を取得できなかったため、クイズを追加できませんでした。`,
+	},
+
+	stats: {
+		report: (p) => `## 📊 学習の成績
+
+**全体:**
+- 累計回答数: ${p.overall.totalQuizzes}問
+- 正答率: ${p.overall.correctRate.toFixed(1)}%
+- スキップ率: ${p.skipRate.toFixed(1)}%
+- 推移: ${formatTrend(p.trend)}
+
+**カテゴリ別:**
+| カテゴリ | 回答数 | 正答率 | スキップ率 |
+|---|---|---|---|
+${p.categories.map((c) => `| ${c.category} | ${c.totalQuizzes} | ${c.correctRate.toFixed(1)}% | ${c.skipRate.toFixed(1)}% |`).join("\n")}
+${p.milestones.length > 0 ? `\n**最近のマイルストーン:**\n${p.milestones.map((m) => `- 🏆 ${m.achievement}（${m.achievedAt}）`).join("\n")}\n` : ""}${formatRecommendations(p)}
+---
+*\`/history\` で最近のクイズの結果を確認できます*`,
+		noData: `## 📊 学習の成績
+
+まだ回答したクイズがありません。PRに出題されたクイズに \`/answer\` で回答すると、ここに成績が表示されます。`,
+	},
+
+	history: {
+		list: (entries) => `## 🕘 最近のクイズ（${entries.length}件）
+
+| 結果 | カテゴリ | PR | 日時 |
+|---|---|---|---|
+${entries.map((e) => `| ${formatHistoryResult(e)} | ${e.category} | ${e.mergeRequest} | ${e.date} |`).join("\n")}
+
+---
+*\`/stats\` で全体の成績を確認できます*`,
+		empty: `## 🕘 最近のクイズ
+
+まだ回答・スキップしたクイズがありません。`,
+	},
+
+	profile: {
+		updated: (
+			p,
+		) => `## ${p.isNew ? "🎉" : "✅"} プロファイルを${p.isNew ? "作成" : "更新"}しました
+
+**変更内容:**
+${formatProfileChanges(p.changes)}
+
+**設定内容:**
+${formatProfileSummary(p)}
+
+今後のクイズはこの情報を考慮して出題されます。
+プロファイルはいつでも同じコマンドで変更でき、\`/profile show\` で確認できます。
+
+---
+*プロファイル設定により、苦手分野を重点的に、得意分野はより高難易度で出題されます*`,
+		show: (p) => `## 📝 現在のプロファイル
+
+${formatProfileSummary(p)}
+
+**変更:** \`/profile focus=performance,security\`
+**自己評価:** \`/profile assess security=3 performance=4\`
+**リセット:** \`/profile reset\``,
+		reset: `## 🗑️ プロファイルをリセットしました
+
+経験・注力分野・キャリア目標・自己評価・表示言語の設定を削除しました。
+今後のクイズは回答履歴をもとに、リポジトリの既定言語で出題されます。`,
+		notFound: `## 📝 プロファイルは未設定です
+
+\`/profile experience=mid years=3\` のように設定できます（詳しい使い方は \`/profile\`）。`,
+		fields: {
+			experienceLevel: "経験レベル",
+			yearsOfExperience: "経験年数",
+			focusAreas: "注力分野",
+			careerGoal: "キャリア目標",
+			language: "表示言語",
+			selfAssessment: (category) => `自己評価（${category}）`,
+		},
+		help: `## 📝 プロファイルコマンドの使い方
+
+プロファイルを設定すると、より最適なクイズが出題されるようになります。
+
+### コマンド形式
+\`\`\`
+/profile experience=mid years=3 focus=security,performance goal="目標"
+/profile assess security=3 performance=4
+/profile show
+/profile reset
+\`\`\`
+
+- \`show\` - 現在のプロファイルを表示
+- \`reset\` - プロファイルを削除して未設定に戻す
+- \`assess\` - カテゴリごとの自己評価（1〜5）を設定（指定しなかったカテゴリの評価はそのまま）
+
+### パラメータ
+
+**experience** (または exp)
+- \`junior\` - ジュニア（1-2年）
+- \`mid\` - ミッドレベル（3-5年）
+- \`senior\` - シニア（5年以上）
+
+**years** (または year)
+- 経験年数（数値）
+
+**focus**
+- 注力したい分野（最大5つ、カンマ区切り）
+- 選択肢: \`bug_fix\`, \`performance\`, \`refactoring\`, \`security\`, \`logic\`
+
+**goal**
+- キャリア目標（任意、最大500文字）
+- 引用符で囲む: \`goal="フルスタックエンジニアを目指しています"\`
+
+**lang** (または language)
+- コメントとクイズの表示言語（任意）
+- 選択肢: \`ja\`（日本語）, \`en\`（英語）
+- 未設定の場合はリポジトリの既定言語を使用します
+
+**assess のカテゴリ**
+- \`bug_fix\`, \`performance\`, \`refactoring\`, \`security\`, \`logic\`
+- 1（苦手）〜 5（得意）の整数
+
+### 例
+
+**基本的な設定:**
+\`\`\`
+/profile experience=mid years=3
+\`\`\`
+
+**注力分野を指定:**
+\`\`\`
+/profile experience=senior focus=performance,security
+\`\`\`
+
+**すべて指定:**
+\`\`\`
+/profile experience=mid years=3 focus=security,performance goal="セキュリティエンジニアを目指してます"
+\`\`\`
+
+**部分的な更新も可能:**
+\`\`\`
+/profile focus=refactoring,logic
+\`\`\`
+
+**英語で出題してほしい場合:**
+\`\`\`
+/profile lang=en
+\`\`\`
+
+**自己評価を設定:**
+\`\`\`
+/profile assess security=2 logic=4
+\`\`\`
+
+---
+*設定したプロファイルはいつでも更新できます*`,
+	},
+
+	commands: {
+		list: (commands) => `## 📖 使えるコマンド
+
+${commands.map((c) => `- \`${c.syntax[0]}\` - ${c.description}${formatAliases(c)}`).join("\n")}
+
+各コマンドの使い方は \`/help <コマンド>\`（例: \`/help answer\`）で確認できます。`,
+		detail: (command) => `## 📖 \`${command.name}\`${formatAliases(command)}
+
+${command.description}
+
+${formatCommandUsage(command)}`,
+		unknownHelpTopic: (
+			topic,
+			commands,
+		) => `## ❌ 不明なコマンドです: \`${topic}\`
+
+使えるコマンド: ${commands.map((c) => `\`${c.name}\``).join("、")}`,
+		invalidArguments: (
+			p,
+		) => `## ❌ \`${p.command.name}\` コマンドの形式が正しくありません
+
+${p.issues.length > 0 ? `次の点を確認してください:\n${p.issues.map((issue) => `- ${formatArgumentIssue(issue)}`).join("\n")}` : "コマンドの形式を確認してください。"}
+
+${formatCommandUsage(p.command)}`,
+		failed: (command) => `## ❌ \`${command}\` の処理エラー
+
+コマンドの処理中にエラーが発生しました。しばらく時間をおいて再度お試しください。`,
+	},
+
+	commandHelp: {
+		answer: {
+			syntax: [
+				"/answer <回答>",
+				"/answer <問題番号>:<回答> <問題番号>:<回答>",
+				"/answer [問題番号] text: <回答>",
+			],
+			description: "PRに出題されたクイズに回答",
+			examples: [
+				{
+					command: "/answer 3",
+					description: "4択・○×問題で選択肢3を選択",
+				},
+				{
+					command: "/answer 1,3",
+					description: "複数選択問題で選択肢1と3を選択",
+				},
+				{ command: "/answer 3,1,2,4", description: "並べ替え問題の回答" },
+				{ command: '/answer "use client"', description: "穴埋め問題の回答" },
+				{ command: "/answer text: 理由は...", description: "記述式問題の回答" },
+				{
+					command: "/answer 1:2 2:1,3",
+					description: "クイズセットの問題ごとに回答",
+				},
+			],
+		},
+		hint: {
+			syntax: ["/hint", "/hint <問題番号>"],
+			description: "回答前にクイズのヒントを1つずつ表示",
+			examples: [
+				{
+					command: "/hint",
+					description: "出題されたクイズのヒントを1つ表示",
+				},
+				{
+					command: "/hint 2",
+					description: "クイズセットの問題2のヒントを1つ表示",
+				},
+			],
+		},
+		explain: {
+			syntax: ["/explain <質問>", "/explain <問題番号>: <質問>"],
+			description: "回答したクイズについて追加で質問",
+			examples: [
+				{
+					command: "/explain 選択肢2も正しいのでは？",
+					description: "回答したクイズについて質問",
+				},
+				{
+					command: "/explain 2: なぜ並び順が逆ではないのですか？",
+					description: "クイズセットの問題2について質問",
+				},
+			],
+		},
+		skip: {
+			syntax: ["/skip", "/skip <理由>"],
+			description: "自分に出題されたクイズをスキップ（正答率には含めない）",
+			examples: [
+				{ command: "/skip", description: "このPRのクイズをスキップ" },
+				{
+					command: "/skip ドキュメントのみの変更のため",
+					description: "理由を付けてスキップ",
+				},
+			],
+		},
+		quiz: {
+			syntax: [
+				"/quiz",
+				"/quiz category=<bug_fix|performance|refactoring|security|logic> difficulty=<easy|medium|hard>",
+			],
+			description: "このPRの差分から自分向けのクイズを追加で出題",
+			examples: [
+				{ command: "/quiz", description: "自分に合ったクイズを追加" },
+				{
+					command: "/quiz category=security difficulty=hard",
+					description: "セキュリティの難しいクイズを追加",
+				},
+			],
+		},
+		stats: {
+			syntax: ["/stats"],
+			description: "正答率・推移・マイルストーン・学習のおすすめを表示",
+			examples: [{ command: "/stats", description: "自分の成績を表示" }],
+		},
+		history: {
+			syntax: ["/history", "/history <件数>"],
+			description: "最近のクイズの結果を表示（既定10件・最大30件）",
+			examples: [
+				{ command: "/history", description: "最近の10件を表示" },
+				{ command: "/history 20", description: "最近の20件を表示" },
+			],
+		},
+		profile: {
+			syntax: [
+				'/profile experience=<junior|mid|senior> years=<年数> focus=<分野> goal="<目標>" lang=<ja|en>',
+				"/profile assess <分野>=<1-5> ...",
+				"/profile show",
+				"/profile reset",
+				"/profile",
+			],
+			description:
+				"経験・注力分野・自己評価・表示言語の設定・表示・リセット（`/profile` だけで詳しい使い方を表示）",
+			examples: [
+				{
+					command: "/profile experience=mid years=3",
+					description: "経験を設定",
+				},
+				{
+					command: "/profile focus=performance,security",
+					description: "注力したい分野を設定",
+				},
+				{
+					command: "/profile lang=en",
+					description: "クイズとコメントを英語で表示",
+				},
+				{
+					command: "/profile assess security=3 performance=4",
+					description: "分野ごとの自己評価を設定",
+				},
+				{
+					command: "/profile show",
+					description: "現在のプロファイルを表示",
+				},
+			],
+		},
+		help: {
+			syntax: ["/help", "/help <コマンド>"],
+			description: "使えるコマンドを表示",
+			examples: [
+				{ command: "/help", description: "コマンドの一覧を表示" },
+				{
+					command: "/help answer",
+					description: "`/answer` の使い方を表示",
+				},
+			],
+		},
+	},
+
+	recommendations: {
+		getStarted: "まずはクイズに挑戦してスキルデータを蓄積しましょう",
+		improveCategory: (category, correctRate) =>
+			`${category}分野の理解を深めましょう（現在の正答率: ${correctRate}%）`,
+		masteredCategory: (category) =>
+			`${category}分野は習得済みです！より高度な問題に挑戦しましょう`,
+		juniorMilestone: "50問達成！次はmidレベルの問題に挑戦してみましょう",
+	},
+
+	localQuiz: {
+		changeCount: (added, removed) => `${added}行追加・${removed}行削除`,
+		explanation: (path, added, removed, fileCount) =>
+			`\`${path}\` では${added}行が追加され、${removed}行が削除されています（全${fileCount}ファイル中）。`,
+		trueFalseQuestion: (path, claimedAdded) =>
+			`この変更で \`${path}\` には${claimedAdded}行が追加されている。`,
+		fillInBlankQuestion: (path) =>
+			`この変更で \`${path}\` に追加された行数は ____ 行です。`,
+		multipleChoiceQuestion: (path) =>
+			`この変更で \`${path}\` に加えられた変更量として正しいものはどれですか？`,
+		hints: (path, removed) => [
+			`\`${path}\` の差分を見てください。`,
+			"追加行は `+` で始まる行です。`-` で始まる削除行は数えません。",
+			`\`${path}\` の削除行は${removed}行です。`,
+		],
+	},
+};
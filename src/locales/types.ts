@@ -0,0 +1,487 @@
+import type { ExperienceLevel } from "../types/entities/userProfile.js";
+import type {
+	Category,
+	Difficulty,
+	Language,
+	QuestionType,
+} from "../types/index.js";
+
+/**
+ * メッセージカタログの型定義
+ * PRコメントやコマンド応答の文言を言語ごとに定義する
+ * 差し込みが必要な文言は引数を受け取る関数として定義する
+ */
+
+/** 成績サマリー */
+export interface StatsSummary {
+	/** 累計回答数 */
+	totalQuizzes: number;
+	/** 正答率（%） */
+	correctRate: number;
+}
+
+/** 回答結果メッセージの共通項目 */
+export interface AnswerResultParams {
+	/** 回答内容（表示用） */
+	answer: string;
+	/** 正解（表示用） */
+	correctAnswer: string;
+	category: string;
+	difficulty: string;
+	explanation: string;
+	stats: StatsSummary;
+	/** 回答日時（表示用） */
+	answeredAt: string;
+	/** 記述式の採点結果（選択式・穴埋めはなし） */
+	grading?: FreeTextGradingParams;
+}
+
+/** 記述式の採点結果の差し込み項目 */
+export interface FreeTextGradingParams {
+	/** 得点（%） */
+	scorePercent: number;
+	/** 採点コメント */
+	feedback: string;
+}
+
+/** クイズ（単問）コメントの差し込み項目 */
+export interface QuizCommentParams {
+	quizId: string;
+	questionType: string;
+	category: string;
+	difficulty: string;
+	questionText: string;
+	/** 選択肢セクション（穴埋めの場合は空文字） */
+	optionsSection: string;
+	/** 回答方法の説明 */
+	instruction: string;
+	/** 回答例 */
+	example: string;
+	/** 初回ユーザー向けプロファイルガイド（不要なら空文字） */
+	profileGuide: string;
+}
+
+/** クイズセット内の1問分の差し込み項目 */
+export interface QuizSetQuestionParams {
+	questionNumber: number;
+	questionType: string;
+	category: string;
+	difficulty: string;
+	questionText: string;
+	optionsSection: string;
+	instruction: string;
+}
+
+/** プロファイル表示の差し込み項目 */
+export interface ProfileSummaryParams {
+	experienceLevel: string;
+	yearsOfExperience: number;
+	/** 注力分野（表示用、未設定の場合は notSet の文言） */
+	focusAreas: string;
+	careerGoal?: string;
+	/** 自己評価（表示用、未設定の場合は notSet の文言） */
+	selfAssessment: string;
+	language: string;
+}
+
+/** プロファイルの変更（1項目の変更前・変更後の表示用の値） */
+export interface ProfileChange {
+	field: string;
+	before: string;
+	after: string;
+}
+
+/** プロファイル更新メッセージの差し込み項目 */
+export interface ProfileUpdatedParams extends ProfileSummaryParams {
+	isNew: boolean;
+	/** 変更した項目（変更がない場合は空） */
+	changes: ProfileChange[];
+}
+
+/** ヒント表示の差し込み項目 */
+export interface HintParams {
+	/** 表示済みのヒント（弱いものから順） */
+	hints: string[];
+	/** ヒントの総数 */
+	total: number;
+	/** ヒントを使って正解した場合にスキル統計に反映される割合（%） */
+	creditPercent: number;
+}
+
+/** 追加質問への回答の差し込み項目 */
+export interface FollowUpParams {
+	/** 質問 */
+	question: string;
+	/** 回答 */
+	answer: string;
+	/** 残りの追加質問数 */
+	remaining: number;
+}
+
+/** クイズのスキップ結果の差し込み項目 */
+export interface SkipParams {
+	/** スキップした問題番号（単問の場合は空） */
+	questionNumbers: number[];
+	/** 理由 */
+	reason?: string;
+}
+
+/** /stats のカテゴリ別成績 */
+export interface CategoryStatsParams {
+	category: string;
+	/** 回答数 */
+	totalQuizzes: number;
+	/** 正答率（%） */
+	correctRate: number;
+	/** スキップ率（%） */
+	skipRate: number;
+}
+
+/** 直近の回答とその前の回答の正答率の比較 */
+export interface AccuracyTrendParams {
+	/** 比較した回答数（それぞれ） */
+	window: number;
+	/** 直近の回答の正答率（%） */
+	recentRate: number;
+	/** その前の回答の正答率（%） */
+	previousRate: number;
+}
+
+/** /stats の差し込み項目 */
+export interface StatsReportParams {
+	overall: StatsSummary;
+	/** スキップ率（%） */
+	skipRate: number;
+	categories: CategoryStatsParams[];
+	/** 正答率の推移（比較できる回答数がない場合はなし） */
+	trend?: AccuracyTrendParams;
+	/** 最近のマイルストーン（新しい順） */
+	milestones: Array<{ achievement: string; achievedAt: string }>;
+	/** 注力分野（表示用） */
+	focusAreas: string[];
+	nextSteps: string[];
+}
+
+/** /history の1件 */
+export interface HistoryEntryParams {
+	result: "correct" | "incorrect" | "skipped";
+	/** 記述式の得点（%） */
+	scorePercent?: number;
+	category: string;
+	/** PR/MRへのリンク（Markdown） */
+	mergeRequest: string;
+	/** 回答・スキップした日時（表示用） */
+	date: string;
+}
+
+/** コメントコマンドの使い方 */
+export interface CommandHelp {
+	/** コマンドの形式（1行に1つ） */
+	syntax: string[];
+	/** 一覧に表示する説明（1行） */
+	description: string;
+	/** 例 */
+	examples: Array<{ command: string; description: string }>;
+}
+
+/** コマンド一覧・使い方の差し込み項目 */
+export interface CommandHelpEntry extends CommandHelp {
+	/** コマンド名（`/` を含む） */
+	name: string;
+	/** 別名（`/` を含む） */
+	aliases: string[];
+}
+
+/**
+ * コマンド引数の検証エラー（1項目）
+ * kind: invalid_value=指定できない値, unknown_key=指定できない項目, too_big=上限超過,
+ *       too_small=下限未満, invalid_type=型の誤り・未指定, other=その他（message を表示）
+ */
+export interface ArgumentIssue {
+	kind:
+		| "invalid_value"
+		| "unknown_key"
+		| "too_big"
+		| "too_small"
+		| "invalid_type"
+		| "other";
+	/** 項目名（引数全体の誤りの場合は空文字） */
+	key: string;
+	/** 指定された値（表示用、未指定の場合は undefined） */
+	value?: string;
+	/** 指定できる値・項目 */
+	allowed?: string[];
+	/** 上限・下限（too_big・too_small） */
+	limit?: number;
+	/** 上限・下限の対象（数値の大きさ・文字数・個数） */
+	origin?: "number" | "string" | "array";
+	/** 指定された文字数・個数（origin が string・array の場合） */
+	size?: number;
+	/** 期待する型（invalid_type） */
+	expected?: string;
+	/** 検証エラーの原文 */
+	message: string;
+}
+
+/** コマンドの形式エラーの差し込み項目 */
+export interface InvalidCommandParams {
+	command: CommandHelpEntry;
+	/** 引数の検証エラー（形式が解釈できなかった場合は空） */
+	issues: ArgumentIssue[];
+}
+
+/**
+ * メッセージカタログ
+ */
+export interface Messages {
+	/** 日時表示に使うロケール */
+	dateLocale: string;
+
+	/** 列挙値の表示名 */
+	labels: {
+		category: Record<Category, string>;
+		difficulty: Record<Difficulty, string>;
+		questionType: Record<QuestionType, string>;
+		experienceLevel: Record<ExperienceLevel, string>;
+		language: Record<Language, string>;
+		notSet: string;
+		unknownError: string;
+	};
+
+	/** 回答方法・回答表示 */
+	answerFormat: {
+		multipleChoice: (optionCount: number) => string;
+		trueFalse: string;
+		multiSelect: string;
+		ordering: string;
+		fillInBlank: string;
+		/** 穴埋めの回答例 */
+		fillInBlankExample: string;
+		freeText: string;
+		/** 記述式の回答例 */
+		freeTextExample: string;
+		/** 回答が空の場合の表示 */
+		noAnswer: string;
+	};
+
+	/** クイズ出題コメント */
+	quizComment: {
+		optionsLead: string;
+		multiSelectOptionsLead: string;
+		orderingOptionsLead: string;
+		single: (params: QuizCommentParams) => string;
+		setQuestion: (params: QuizSetQuestionParams) => string;
+		set: (params: {
+			quizSetId: string;
+			questionCount: number;
+			questionsSection: string;
+			exampleAnswers: string;
+			profileGuide: string;
+		}) => string;
+		profileGuide: string;
+		/** 生成エラーのコメント（code はサポート問い合わせ用に表示する） */
+		generationError: (reason: string, code?: string) => string;
+		/** クイズセットをレビューとして投稿する際の、出題箇所の行に付けるコメント */
+		anchorLabel: (questionNumber: number) => string;
+		/** レビュアー向けクイズの冒頭（レビュアーへのメンション） */
+		reviewerLead: (accountId: string) => string;
+		/** /quiz コマンドで追加生成したクイズの冒頭（リクエストしたユーザーへのメンション） */
+		onDemandLead: (accountId: string) => string;
+		/** プロンプトインジェクションの疑いで生成を見送った旨のお知らせ（エラー扱いにしない） */
+		injectionNotice: string;
+	};
+
+	/** クイズ生成エラーの説明（エラー種別ごと） */
+	generationErrors: {
+		quotaExceeded: string;
+		safetyBlocked: string;
+		timeout: string;
+		unavailable: string;
+		malformedOutput: string;
+		invalidOutput: string;
+		qualityRejected: string;
+		noQuizzableChanges: string;
+		unknown: string;
+	};
+
+	/** /answer コマンドの応答 */
+	answer: {
+		correct: (
+			params: AnswerResultParams & {
+				/** カテゴリ別正答率（上位3つ、`カテゴリ: 正答率` 形式） */
+				categoryStats: string[];
+				milestones: string[];
+			},
+		) => string;
+		incorrect: (
+			params: AnswerResultParams & {
+				weakCategories: string;
+				nextSteps: string[];
+			},
+		) => string;
+		alreadyAnswered: (params: {
+			answer: string;
+			isCorrect: boolean;
+			answeredAt: string;
+			stats: StatsSummary;
+		}) => string;
+		setQuestionResult: (params: {
+			questionNumber: number;
+			isCorrect: boolean;
+			alreadyAnswered: boolean;
+			answer: string;
+			correctAnswer: string;
+			explanation: string;
+			grading?: FreeTextGradingParams;
+		}) => string;
+		setResult: (params: {
+			correctCount: number;
+			answeredCount: number;
+			sections: string;
+			unansweredQuestionNumbers: number[];
+			stats: StatsSummary;
+		}) => string;
+		quizNotFound: string;
+		invalidAnswerForQuiz: (instruction: string, example: string) => string;
+		invalidQuestionNumber: (questionCount: number) => string;
+		/** 記述式をキーワード照合で採点した場合の採点コメント（met: 満たした基準、missed: 満たしていない基準） */
+		rubricFeedback: (params: { met: string[]; missed: string[] }) => string;
+	};
+
+	/** /hint コマンドの応答 */
+	hint: {
+		revealed: (params: HintParams) => string;
+		/** すべてのヒントを表示済みの場合（表示済みのヒントを再掲する） */
+		exhausted: (params: HintParams) => string;
+		/** 他のユーザーに出題したクイズの場合 */
+		notRecipient: string;
+		noHints: string;
+		alreadyAnswered: string;
+		invalidQuestionNumber: (questionCount: number) => string;
+	};
+
+	/** /explain コマンドの応答 */
+	explain: {
+		answered: (params: FollowUpParams) => string;
+		/** 他のユーザーに出題したクイズの場合 */
+		notRecipient: string;
+		notAnswered: string;
+		limitReached: (limit: number) => string;
+		/** プロバイダーが追加質問に対応していない場合（解説を再掲する） */
+		unavailable: (explanation: string) => string;
+		invalidQuestionNumber: (questionCount: number) => string;
+	};
+
+	/** /skip コマンドの応答 */
+	skip: {
+		skipped: (params: SkipParams) => string;
+		alreadySkipped: string;
+		alreadyAnswered: string;
+		/** 他のユーザーに出題したクイズをスキップしようとした場合 */
+		notRecipient: string;
+		/** リポジトリでスキップが許可されていない場合 */
+		disabled: string;
+		/** スキップしたクイズに回答しようとした場合 */
+		answerSkipped: string;
+	};
+
+	/** /quiz コマンドの応答（生成したクイズは quizComment の形式で投稿する） */
+	onDemandQuiz: {
+		/** 1ユーザーが24時間に追加生成できる回数に達した場合 */
+		userLimitReached: (limit: number) => string;
+		/** PR/MRに追加生成できる回数に達した場合 */
+		pullRequestLimitReached: (limit: number) => string;
+		/** 追加生成が無効になっている場合 */
+		disabled: string;
+		/** PR/MRの作成者がわからず出題先の立場を決められない場合 */
+		unknownPullRequest: string;
+	};
+
+	/** /stats コマンドの応答 */
+	stats: {
+		report: (params: StatsReportParams) => string;
+		/** 回答・スキップしたクイズがない場合 */
+		noData: string;
+	};
+
+	/** /history コマンドの応答 */
+	history: {
+		list: (entries: HistoryEntryParams[]) => string;
+		/** 回答・スキップしたクイズがない場合 */
+		empty: string;
+	};
+
+	/** /profile コマンドの応答 */
+	profile: {
+		updated: (params: ProfileUpdatedParams) => string;
+		/** /profile show の応答 */
+		show: (params: ProfileSummaryParams) => string;
+		/** /profile reset の応答 */
+		reset: string;
+		/** /profile show・reset でプロファイルが未設定の場合 */
+		notFound: string;
+		/** 変更内容に表示する項目名 */
+		fields: {
+			experienceLevel: string;
+			yearsOfExperience: string;
+			focusAreas: string;
+			careerGoal: string;
+			language: string;
+			selfAssessment: (category: string) => string;
+		};
+		help: string;
+	};
+
+	/** コメントコマンド共通の応答 */
+	commands: {
+		/** /help の応答（コマンド一覧） */
+		list: (commands: CommandHelpEntry[]) => string;
+		/** /help <コマンド> の応答（1コマンドの使い方） */
+		detail: (command: CommandHelpEntry) => string;
+		/** /help に未知のコマンドを指定した場合 */
+		unknownHelpTopic: (topic: string, commands: CommandHelpEntry[]) => string;
+		invalidArguments: (params: InvalidCommandParams) => string;
+		/**
+		 * コマンドの処理中に予期しないエラーが発生した場合
+		 * PRに公開されるため、エラーの内容は含めない（ログにのみ記録する）
+		 */
+		failed: (command: string) => string;
+	};
+
+	/** コメントコマンドごとの使い方 */
+	commandHelp: {
+		answer: CommandHelp;
+		hint: CommandHelp;
+		explain: CommandHelp;
+		skip: CommandHelp;
+		quiz: CommandHelp;
+		stats: CommandHelp;
+		history: CommandHelp;
+		profile: CommandHelp;
+		help: CommandHelp;
+	};
+
+	/** 学習推奨 */
+	recommendations: {
+		getStarted: string;
+		improveCategory: (category: string, correctRate: number) => string;
+		masteredCategory: (category: string) => string;
+		juniorMilestone: string;
+	};
+
+	/** ローカル生成プロバイダーのクイズ文言 */
+	localQuiz: {
+		changeCount: (added: number, removed: number) => string;
+		explanation: (
+			path: string,
+			added: number,
+			removed: number,
+			fileCount: number,
+		) => string;
+		trueFalseQuestion: (path: string, claimedAdded: number) => string;
+		fillInBlankQuestion: (path: string) => string;
+		multipleChoiceQuestion: (path: string) => string;
+		/** ヒント（弱いものから順） */
+		hints: (path: string, removed: number) => string[];
+	};
+}
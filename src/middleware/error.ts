@@ -32,6 +32,103 @@ export class NotFoundError extends AppError {
 	}
 }
 
+export class QuizQualityError extends AppError {
+	constructor(message: string) {
+		super(422, message, "QUIZ_QUALITY_REJECTED");
+		this.name = "QuizQualityError";
+	}
+}
+
+/** パスフィルター適用後に出題対象のファイルが残らなかった */
+export class NoQuizzableChangesError extends AppError {
+	constructor(message: string) {
+		super(422, message, "NO_QUIZZABLE_CHANGES");
+		this.name = "NoQuizzableChangesError";
+	}
+}
+
+/** 差分にプロンプトインジェクションの疑いがあり、クイズの生成を見送った */
+export class PromptInjectionSuspectedError extends AppError {
+	constructor(public readonly riskScore: number) {
+		super(
+			422,
+			`Prompt injection suspected in diff (risk score ${riskScore})`,
+			"PROMPT_INJECTION_SUSPECTED",
+		);
+		this.name = "PromptInjectionSuspectedError";
+	}
+}
+
+/**
+ * LLM呼び出しエラーの基底クラス
+ * retryable が true のエラーはバックオフ付きで再試行する
+ */
+export class LlmError extends AppError {
+	constructor(
+		statusCode: number,
+		message: string,
+		code: string,
+		public readonly retryable: boolean,
+	) {
+		super(statusCode, message, code);
+		this.name = "LlmError";
+	}
+}
+
+/** 利用上限（レート制限・クォータ）に達した */
+export class LlmQuotaError extends LlmError {
+	constructor(message: string) {
+		super(429, message, "LLM_QUOTA_EXCEEDED", true);
+		this.name = "LlmQuotaError";
+	}
+}
+
+/** 安全性フィルタで入力または出力がブロックされた */
+export class LlmSafetyBlockError extends LlmError {
+	constructor(
+		message: string,
+		public readonly reason?: string,
+	) {
+		super(422, message, "LLM_SAFETY_BLOCKED", false);
+		this.name = "LlmSafetyBlockError";
+	}
+}
+
+/** 応答が制限時間内に返らなかった */
+export class LlmTimeoutError extends LlmError {
+	constructor(message: string) {
+		super(504, message, "LLM_TIMEOUT", true);
+		this.name = "LlmTimeoutError";
+	}
+}
+
+/** LLMサービス側の一時的な障害（5xx・通信エラー） */
+export class LlmUnavailableError extends LlmError {
+	constructor(message: string) {
+		super(503, message, "LLM_UNAVAILABLE", true);
+		this.name = "LlmUnavailableError";
+	}
+}
+
+/** 応答をJSONとして解釈できなかった（修復も失敗） */
+export class LlmMalformedOutputError extends LlmError {
+	constructor(message: string) {
+		super(502, message, "LLM_MALFORMED_OUTPUT", true);
+		this.name = "LlmMalformedOutputError";
+	}
+}
+
+/** 応答のJSONがスキーマを満たさなかった */
+export class LlmValidationError extends LlmError {
+	constructor(
+		message: string,
+		public readonly details?: unknown,
+	) {
+		super(502, message, "LLM_INVALID_OUTPUT", true);
+		this.name = "LlmValidationError";
+	}
+}
+
 interface ErrorResponse {
 	error: {
 		message: string;
@@ -63,7 +160,10 @@ export const errorHandler: ErrorHandler = (err, c) => {
 			response.error.details = err.details;
 		}
 
-		return c.json(response, err.statusCode as 400 | 404 | 500);
+		return c.json(
+			response,
+			err.statusCode as 400 | 404 | 422 | 429 | 500 | 502 | 503 | 504,
+		);
 	}
 
 	if (err instanceof HTTPException) {
@@ -2,8 +2,16 @@ import { Hono } from "hono";
 import { NotFoundError, ValidationError } from "../middleware/error.js";
 import {
 	calculateAndSaveTeamAnalytics,
+	getItemStats,
 	getTeamAnalytics,
 } from "../services/firestore.js";
+import { recalibrateItems } from "../services/itemAnalysis.js";
+import { getPromptVersionAnalytics } from "../services/promptAnalytics.js";
+import {
+	ItemStatsQuerySchema,
+	RecalibrateItemsInputSchema,
+} from "../types/entities/itemStats.js";
+import { PromptVersionAnalyticsQuerySchema } from "../types/entities/promptAnalytics.js";
 import { TeamAnalyticsQuerySchema } from "../types/entities/teamAnalytics.js";
 import { logger } from "../utils/logger.js";
 
@@ -81,6 +89,56 @@ analyticsRoutes.get("/benchmarks", async (c) => {
 	});
 });
 
+// =============================================================================
+// プロンプトのバージョン別分析
+// =============================================================================
+
+/** プロンプトのバージョン別分析API（正誤の分布・異議の割合・検証での不合格を比較） */
+analyticsRoutes.get("/prompt-versions", async (c) => {
+	const parseResult = PromptVersionAnalyticsQuerySchema.safeParse(
+		c.req.query(),
+	);
+
+	if (!parseResult.success) {
+		throw new ValidationError(
+			"Invalid query parameters",
+			parseResult.error.flatten(),
+		);
+	}
+
+	const { days } = parseResult.data;
+
+	logger.info("Prompt version analytics requested", { days });
+
+	const analytics = await getPromptVersionAnalytics(days);
+
+	return c.json(analytics);
+});
+
+// =============================================================================
+// 項目分析
+// =============================================================================
+
+/** アイテム統計取得API（クイズ・問題の型ごとの正答率・識別力・実測の難易度） */
+analyticsRoutes.get("/items", async (c) => {
+	const parseResult = ItemStatsQuerySchema.safeParse(c.req.query());
+
+	if (!parseResult.success) {
+		throw new ValidationError(
+			"Invalid query parameters",
+			parseResult.error.flatten(),
+		);
+	}
+
+	const query = parseResult.data;
+
+	logger.info("Item stats fetch requested", query);
+
+	const items = await getItemStats(query);
+
+	return c.json({ items });
+});
+
 // =============================================================================
 // バッチ処理用（管理者向け）
 // =============================================================================
@@ -118,4 +176,26 @@ analyticsRoutes.post("/team/calculate", async (c) => {
 	return c.json(analytics, 201);
 });
 
+/** 難易度の再計算API（バッチ処理用、アイテム統計を保存しクイズの実測の難易度を更新） */
+analyticsRoutes.post("/items/recalibrate", async (c) => {
+	const body = await c.req.json().catch(() => ({}));
+
+	const parseResult = RecalibrateItemsInputSchema.safeParse(body);
+
+	if (!parseResult.success) {
+		throw new ValidationError(
+			"Invalid request body",
+			parseResult.error.flatten(),
+		);
+	}
+
+	const { days } = parseResult.data;
+
+	logger.info("Item recalibration requested", { days });
+
+	const result = await recalibrateItems(days);
+
+	return c.json(result);
+});
+
 export { analyticsRoutes };
@@ -2,11 +2,8 @@ import { Hono } from "hono";
 import { z } from "zod";
 import { ValidationError } from "../middleware/error.js";
 import { webhookVerificationMiddleware } from "../middleware/webhook.js";
-import {
-	handleAnswerCommandInComment,
-	handleProfileCommandInComment,
-} from "./webhook.js";
-import { detectCommandType } from "../utils/commandParser.js";
+import { dispatchCommentCommand } from "../services/commentCommands.js";
+import { LanguageSchema } from "../types/index.js";
 import { logger } from "../utils/logger.js";
 
 /**
@@ -29,6 +26,17 @@ const ProcessCommentRequestSchema = z.object({
 	accountId: z.string().min(1),
 	commentBody: z.string().min(1),
 	installationId: z.number().int().positive(),
+	/** リポジトリの既定言語（コメント投稿者のプロファイルに言語設定がない場合に使用） */
+	language: LanguageSchema.optional(),
+	/** リポジトリでクイズのスキップ（/skip）を許可するか（省略時は許可） */
+	allowSkip: z.boolean().optional(),
+	/** PRの作成者・タイトル（/quiz でPRを初めて記録する場合に使う） */
+	pullRequest: z
+		.object({
+			author: z.string().min(1),
+			title: z.string().min(1),
+		})
+		.optional(),
 });
 
 type ProcessCommentRequest = z.infer<typeof ProcessCommentRequestSchema>;
@@ -57,8 +65,17 @@ commentRoutes.post("/process", async (c) => {
 			);
 		}
 
-		const { owner, repo, prNumber, accountId, commentBody, installationId } =
-			validationResult.data;
+		const {
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			commentBody,
+			installationId,
+			language,
+			allowSkip,
+			pullRequest,
+		} = validationResult.data;
 
 		logger.info("Processing comment command from GitHub Actions", {
 			owner,
@@ -68,10 +85,20 @@ commentRoutes.post("/process", async (c) => {
 			installationId,
 		});
 
-		// コマンドタイプを判定
-		const commandType = detectCommandType(commentBody);
+		// 登録済みのコマンドを判定して実行（処理中のエラーはコマンド側でコメントに応答済み）
+		const result = await dispatchCommentCommand({
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			commentBody,
+			installationId,
+			repositoryLanguage: language,
+			allowSkip,
+			pullRequest,
+		});
 
-		if (!commandType) {
+		if (result.status === "ignored") {
 			logger.info("No command detected in comment, skipping");
 			return c.json({
 				success: true,
@@ -80,54 +107,25 @@ commentRoutes.post("/process", async (c) => {
 			});
 		}
 
-		logger.info("Command detected", { commandType });
-
-		// コマンド処理を実行
-		try {
-			if (commandType === "profile") {
-				await handleProfileCommandInComment(
-					owner,
-					repo,
-					prNumber,
-					accountId,
-					commentBody,
-					installationId,
-				);
-			} else if (commandType === "answer") {
-				await handleAnswerCommandInComment(
-					owner,
-					repo,
-					prNumber,
-					accountId,
-					commentBody,
-					installationId,
-				);
-			}
-
-			logger.info("Command processed successfully", { commandType });
-
-			return c.json({
-				success: true,
-				commandType,
-				message: "Command processed successfully",
-			});
-		} catch (cmdError) {
-			logger.error("Command processing failed", {
-				error: cmdError,
-				commandType,
-				owner,
-				repo,
-				prNumber,
-			});
-
-			// エラーでもHTTP 200を返す（GitHub Actionsのリトライを防ぐ）
+		// エラーでもHTTP 200を返す（GitHub Actionsのリトライを防ぐ）
+		if (result.status === "failed") {
 			return c.json({
 				success: false,
-				commandType,
-				message:
-					cmdError instanceof Error ? cmdError.message : "Command processing failed",
+				commandType: result.command,
+				message: result.error ?? "Command processing failed",
 			});
 		}
+
+		logger.info("Command processed successfully", {
+			commandType: result.command,
+			status: result.status,
+		});
+
+		return c.json({
+			success: true,
+			commandType: result.command,
+			message: "Command processed successfully",
+		});
 	} catch (error) {
 		logger.error("Comment processing error", {
 			error,
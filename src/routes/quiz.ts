@@ -1,21 +1,56 @@
 import { Hono } from "hono";
 import { z } from "zod";
-import { NotFoundError, ValidationError } from "../middleware/error.js";
+import {
+	LlmError,
+	NoQuizzableChangesError,
+	NotFoundError,
+	PromptInjectionSuspectedError,
+	QuizQualityError,
+	ValidationError,
+} from "../middleware/error.js";
 import { webhookVerificationMiddleware } from "../middleware/webhook.js";
 import {
+	addQuizDispute,
 	checkAndCreateMilestones,
 	createAnswer,
 	createMergeRequest,
-	createQuiz,
 	getOrCreateUser,
 	getQuiz,
 	getSkillStats,
-	updateQuizStatus,
 	updateSkillStats,
 	updateUserStats,
 } from "../services/firestore.js";
-import { generateQuizFromDiff } from "../services/gemini.js";
-import { PlatformSchema } from "../types/index.js";
+import { gradeFreeTextAnswer } from "../services/freeTextGrading.js";
+import { formatErrorComment } from "../services/github.js";
+import { getEffectiveDifficulty } from "../services/itemAnalysis.js";
+import {
+	formatQuizBody,
+	type PostedQuizComment,
+	postQuizComment,
+} from "../services/quizDelivery.js";
+import {
+	type GenerateQuizzesResult,
+	generateAndSaveQuizzes,
+} from "../services/quizGeneration.js";
+import {
+	describeAnswerValue,
+	getQuestionType,
+	isValidAnswerValue,
+} from "../services/quizGrading.js";
+import { AnswerValueSchema } from "../types/entities/answer.js";
+import {
+	type DiffReference,
+	type QuizAudience,
+	QuizAudienceSchema,
+	QuizDisputeSchema,
+} from "../types/entities/quiz.js";
+import { QUIZ_SET_MAX_SIZE } from "../types/entities/quizSet.js";
+import {
+	type Language,
+	LanguageSchema,
+	PlatformSchema,
+	type QuestionType,
+} from "../types/index.js";
 import { logger } from "../utils/logger.js";
 
 // T024-T025: クイズAPIエンドポイント
@@ -31,25 +66,103 @@ quizRoutes.use("*", webhookVerificationMiddleware);
 // =============================================================================
 
 /** クイズ生成リクエストのスキーマ */
-const GenerateQuizRequestSchema = z.object({
-	platform: PlatformSchema,
-	owner: z.string().min(1),
-	repo: z.string().min(1),
-	number: z.number().int().positive(),
-	accountId: z.string().min(1),
-	title: z.string().min(1).optional().default("Untitled"),
-	diff: z.string().min(1).max(500_000),
-	filesChanged: z.array(z.string()).optional(),
-});
+const GenerateQuizRequestSchema = z
+	.object({
+		platform: PlatformSchema,
+		owner: z.string().min(1),
+		repo: z.string().min(1),
+		number: z.number().int().positive(),
+		/** 出題先ユーザーID（作成者向けはPR/MRの作成者、レビュアー向けはレビュー依頼を受けたレビュアー） */
+		accountId: z.string().min(1),
+		/** 出題先の立場 */
+		audience: QuizAudienceSchema.default("author"),
+		/** PR/MRの作成者（レビュアー向けの場合は必須） */
+		author: z.string().min(1).optional(),
+		title: z.string().min(1).optional().default("Untitled"),
+		/** PR/MRの説明（変更の意図を問う出題に使う） */
+		description: z.string().max(65_536).optional(),
+		/** PR/MRのコミットメッセージ（古い順） */
+		commitMessages: z.array(z.string().max(10_000)).max(250).optional(),
+		diff: z.string().min(1).max(500_000),
+		filesChanged: z.array(z.string()).optional(),
+		/** 出題数（省略時は差分の大きさから自動決定） */
+		questionCount: z.number().int().min(1).max(QUIZ_SET_MAX_SIZE).optional(),
+		/** リポジトリの既定言語（出題者のプロファイルに言語設定がない場合に使用） */
+		language: LanguageSchema.optional(),
+		/** 出題対象にするファイルのglob（リポジトリ設定） */
+		includePaths: z.array(z.string().min(1)).max(50).optional(),
+		/** 出題対象から除外するファイルのglob（リポジトリ設定） */
+		excludePaths: z.array(z.string().min(1)).max(50).optional(),
+		/**
+		 * 指定した場合はサーバーがPRにクイズを投稿する（省略時は呼び出し元が投稿する）
+		 * inline: 出題箇所の行へのレビューコメントにする（付けられない場合は通常のコメント）
+		 */
+		delivery: z
+			.object({
+				installationId: z.number().int().positive(),
+				/** PRのheadのコミットSHA */
+				commitId: z.string().regex(/^[0-9a-f]{40}$/),
+				inline: z.boolean().default(true),
+			})
+			.optional(),
+	})
+	.refine((input) => input.audience === "author" || input.author, {
+		message: "author is required when audience is reviewer",
+		path: ["author"],
+	});
 
-/** クイズ生成レスポンスの型 */
+/** 生成された1問分のレスポンス */
+interface GeneratedQuizItem {
+	quizId: string;
+	questionNumber: number;
+	questionType: QuestionType;
+	questionText: string;
+	category: string;
+	difficulty: string;
+	options: string[];
+	diffReference?: DiffReference | null;
+}
+
+/**
+ * クイズ生成レスポンスの型
+ * 先頭のクイズをトップレベルにも含める（単問クライアントとの互換性のため）
+ */
 interface GenerateQuizResponse {
 	quizId: string;
 	mergeRequestId: string;
+	questionType: QuestionType;
 	questionText: string;
 	category: string;
 	difficulty: string;
 	options: string[];
+	/** 出題先ユーザーID */
+	accountId: string;
+	/** 出題先の立場（レビュアー向けはPRコメントでレビュアーにメンションする） */
+	audience: QuizAudience;
+	/** 出題言語（PRコメントの表示言語にも使用） */
+	language: Language;
+	/** 生成済みのクイズを再利用したか（再利用時はPRコメントを再投稿しない） */
+	cached: boolean;
+	quizSetId?: string;
+	quizzes: GeneratedQuizItem[];
+	/** PRコメントにそのまま投稿できるクイズの本文（出題言語で描画済み） */
+	body: string;
+	/** サーバーがPRに投稿したコメント（delivery 指定時のみ、投稿に失敗した場合はなし） */
+	postedComment?: PostedQuizComment;
+}
+
+/**
+ * クイズ生成失敗時のレスポンスの型
+ * comment はPRにそのまま投稿できるユーザー向けの説明
+ */
+interface GenerateQuizErrorResponse {
+	error: {
+		message: string;
+		code?: string;
+		/** 時間をおいて再実行すれば成功する可能性があるか */
+		retryable: boolean;
+	};
+	comment: string;
 }
 
 quizRoutes.post("/generate", async (c) => {
@@ -73,6 +186,7 @@ quizRoutes.post("/generate", async (c) => {
 		repo: input.repo,
 		number: input.number,
 		accountId: input.accountId,
+		audience: input.audience,
 	});
 
 	// ユーザーを取得または作成
@@ -87,54 +201,153 @@ quizRoutes.post("/generate", async (c) => {
 		owner: input.owner,
 		repo: input.repo,
 		number: input.number,
-		authorAccountId: input.accountId,
+		authorAccountId: input.author ?? input.accountId,
 		title: input.title,
 		filesChanged: input.filesChanged,
 	});
 
-	// Geminiでクイズを生成
-	const generatedQuiz = await generateQuizFromDiff(input.diff);
+	// 差分からクイズを生成して保存（出題数は省略時に自動決定）
+	// 同じ差分や変更量の小さい再プッシュには生成済みのクイズを返す
+	let generated: GenerateQuizzesResult;
+	try {
+		generated = await generateAndSaveQuizzes({
+			mergeRequestId: mergeRequest.mergeRequestId,
+			accountId: input.accountId,
+			audience: input.audience,
+			diff: input.diff,
+			questionCount: input.questionCount,
+			language: input.language,
+			pathFilter: { include: input.includePaths, exclude: input.excludePaths },
+			context: {
+				title: input.title,
+				description: input.description,
+				commitMessages: input.commitMessages,
+			},
+		});
+	} catch (error) {
+		if (
+			!(
+				error instanceof LlmError ||
+				error instanceof QuizQualityError ||
+				error instanceof NoQuizzableChangesError ||
+				error instanceof PromptInjectionSuspectedError
+			)
+		) {
+			throw error;
+		}
+
+		// 生成失敗はPRに投稿するユーザー向けのコメントを添えて返す
+		logger.warn("Quiz generation failed", {
+			mergeRequestId: mergeRequest.mergeRequestId,
+			code: error.code,
+			message: error.message,
+		});
+
+		const response: GenerateQuizErrorResponse = {
+			error: {
+				message: error.message,
+				code: error.code,
+				retryable: error instanceof LlmError && error.retryable,
+			},
+			comment: formatErrorComment(error, input.language),
+		};
+		return c.json(response, error.statusCode as 422 | 429 | 502 | 503 | 504);
+	}
 
-	// Firestoreにクイズを保存
-	const quiz = await createQuiz({
-		mergeRequestId: mergeRequest.mergeRequestId,
-		accountId: input.accountId,
-		generatedQuiz,
-	});
+	const { quizzes, quizSetId, language, cached } = generated;
+
+	// サーバーから投稿する場合（再利用時は投稿済みのため投稿しない）
+	let postedComment: PostedQuizComment | undefined;
+	if (input.delivery && !cached) {
+		try {
+			postedComment = await postQuizComment(
+				{
+					owner: input.owner,
+					repo: input.repo,
+					prNumber: input.number,
+					...input.delivery,
+				},
+				quizzes,
+				quizSetId,
+				language,
+			);
+		} catch (error) {
+			// 投稿できなくてもクイズは保存済みのため、呼び出し元が投稿できるよう成功として返す
+			logger.error("Failed to post quiz comment", {
+				mergeRequestId: mergeRequest.mergeRequestId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
 
+	const quiz = quizzes[0];
 	const response: GenerateQuizResponse = {
 		quizId: quiz.quizId,
 		mergeRequestId: quiz.mergeRequestId,
+		questionType: getQuestionType(quiz),
 		questionText: quiz.questionText,
 		category: quiz.category,
 		difficulty: quiz.difficulty,
 		options: quiz.options,
+		accountId: input.accountId,
+		audience: input.audience,
+		language,
+		cached,
+		quizSetId,
+		quizzes: quizzes.map((q, i) => ({
+			quizId: q.quizId,
+			questionNumber: q.questionNumber ?? i + 1,
+			questionType: getQuestionType(q),
+			questionText: q.questionText,
+			category: q.category,
+			difficulty: q.difficulty,
+			options: q.options,
+			diffReference: q.diffReference,
+		})),
+		body: formatQuizBody(quizzes, quizSetId, language),
+		postedComment,
 	};
 
 	logger.info("Quiz generated successfully", {
 		quizId: quiz.quizId,
+		quizSetId,
+		questionCount: quizzes.length,
 		mergeRequestId: mergeRequest.mergeRequestId,
+		cached,
+		postedComment: postedComment?.kind,
 	});
 
-	return c.json(response, 201);
+	return c.json(response, cached ? 200 : 201);
 });
 
 // =============================================================================
 // T025: クイズ回答API（POST /api/quiz/:quizId/answer）
 // =============================================================================
 
-/** クイズ回答リクエストのスキーマ */
-const AnswerQuizRequestSchema = z.object({
+/**
+ * クイズ回答リクエストのスキーマ
+ * 問題形式に応じて selectedAnswerIndex / selectedAnswerIndices / answerText / freeTextAnswer のいずれかを指定
+ */
+const AnswerQuizRequestSchema = AnswerValueSchema.extend({
 	accountId: z.string().min(1),
-	selectedAnswerIndex: z.number().int().min(0).max(3),
 });
 
 /** クイズ回答レスポンスの型 */
 interface AnswerQuizResponse {
 	answerId: string;
 	isCorrect: boolean;
-	correctAnswerIndex: number;
-	selectedAnswerIndex: number;
+	questionType: QuestionType;
+	correctAnswerIndex?: number;
+	correctAnswerIndices?: number[];
+	acceptedAnswers?: string[];
+	selectedAnswerIndex?: number;
+	selectedAnswerIndices?: number[];
+	answerText?: string;
+	freeTextAnswer?: string;
+	/** 記述式の得点 (0.0-1.0) と採点コメント・模範解答 */
+	score?: number;
+	feedback?: string;
+	modelAnswer?: string;
 	explanation: string;
 }
 
@@ -153,12 +366,12 @@ quizRoutes.post("/:quizId/answer", async (c) => {
 		);
 	}
 
-	const input = parseResult.data;
+	const { accountId, ...value } = parseResult.data;
 
 	logger.info("Quiz answer submitted", {
 		quizId,
-		accountId: input.accountId,
-		selectedAnswerIndex: input.selectedAnswerIndex,
+		accountId,
+		answer: describeAnswerValue(value),
 	});
 
 	// クイズを取得
@@ -167,50 +380,74 @@ quizRoutes.post("/:quizId/answer", async (c) => {
 		throw new NotFoundError("Quiz");
 	}
 
-	// 既に回答済みかチェック
+	// 問題形式に合った回答か確認
+	if (!isValidAnswerValue(quiz, value)) {
+		throw new ValidationError(
+			`Answer does not match question type: ${getQuestionType(quiz)}`,
+		);
+	}
+
+	// 既に回答済みかチェック（同時に回答・スキップされた場合は createAnswer が拒否する）
 	if (quiz.status === "answered") {
 		throw new ValidationError("Quiz has already been answered");
 	}
+	if (quiz.status === "skipped") {
+		throw new ValidationError("Quiz has been skipped");
+	}
 
-	// 回答を作成
+	// 記述式は採点基準に照らして採点する
+	const grade =
+		getQuestionType(quiz) === "free_text" && value.freeTextAnswer
+			? await gradeFreeTextAnswer(quiz, value.freeTextAnswer, quiz.language)
+			: undefined;
+
+	// 回答を作成（クイズのステータスも answered に更新する）
 	const answer = await createAnswer(
-		{
-			quizId,
-			accountId: input.accountId,
-			selectedAnswerIndex: input.selectedAnswerIndex,
-		},
+		{ quizId, accountId, ...value },
 		quiz,
+		grade,
 	);
-
-	// クイズステータスを更新
-	await updateQuizStatus(quizId, "answered");
+	if (!answer) {
+		throw new ValidationError("Quiz has already been answered or skipped");
+	}
 
 	// ユーザー統計を更新
-	await updateUserStats(input.accountId, answer.isCorrect);
+	await updateUserStats(accountId, answer.isCorrect);
 
-	// スキル統計を更新
+	// スキル統計を更新（実測の難易度があればそちらを使い、記述式は部分点、ヒントを使った正解は減点する）
 	await updateSkillStats({
-		accountId: input.accountId,
+		accountId: accountId,
 		category: quiz.category,
 		isCorrect: answer.isCorrect,
-		difficulty: quiz.difficulty,
+		difficulty: getEffectiveDifficulty(quiz),
+		hintsUsed: answer.hintsUsed,
+		score: answer.score,
 	});
 
 	// 更新後のユーザー情報とスキル統計を取得
 	const user = await getOrCreateUser({
-		accountId: input.accountId,
+		accountId: accountId,
 		platform: "github", // プラットフォームは既存データから取得すべきだが、ここでは簡略化
 	});
-	const skillStats = await getSkillStats(input.accountId, quiz.category);
+	const skillStats = await getSkillStats(accountId, quiz.category);
 
 	// マイルストーン達成チェック
-	await checkAndCreateMilestones(input.accountId, answer, user, skillStats);
+	await checkAndCreateMilestones(accountId, answer, user, skillStats);
 
 	const response: AnswerQuizResponse = {
 		answerId: answer.answerId,
 		isCorrect: answer.isCorrect,
+		questionType: getQuestionType(quiz),
 		correctAnswerIndex: quiz.correctAnswerIndex,
+		correctAnswerIndices: quiz.correctAnswerIndices,
+		acceptedAnswers: quiz.acceptedAnswers,
 		selectedAnswerIndex: answer.selectedAnswerIndex,
+		selectedAnswerIndices: answer.selectedAnswerIndices,
+		answerText: answer.answerText,
+		freeTextAnswer: answer.freeTextAnswer,
+		score: answer.score,
+		feedback: answer.feedback,
+		modelAnswer: quiz.modelAnswer,
 		explanation: quiz.explanation,
 	};
 
@@ -223,4 +460,49 @@ quizRoutes.post("/:quizId/answer", async (c) => {
 	return c.json(response);
 });
 
+// =============================================================================
+// クイズへの異議API（POST /api/quiz/:quizId/dispute）
+// =============================================================================
+
+/** 異議リクエストのスキーマ */
+const DisputeQuizRequestSchema = QuizDisputeSchema.pick({
+	accountId: true,
+	reason: true,
+});
+
+quizRoutes.post("/:quizId/dispute", async (c) => {
+	const quizId = c.req.param("quizId");
+
+	const body = await c.req.json();
+
+	// バリデーション
+	const parseResult = DisputeQuizRequestSchema.safeParse(body);
+	if (!parseResult.success) {
+		throw new ValidationError(
+			"Invalid request body",
+			parseResult.error.flatten(),
+		);
+	}
+
+	const { accountId, reason } = parseResult.data;
+
+	const quiz = await getQuiz(quizId);
+	if (!quiz) {
+		throw new NotFoundError("Quiz");
+	}
+
+	const dispute = await addQuizDispute(quizId, accountId, reason);
+	if (!dispute) {
+		throw new ValidationError("Quiz has already been disputed by this account");
+	}
+
+	logger.info("Quiz disputed", {
+		quizId,
+		accountId,
+		promptVersion: quiz.promptVersion,
+	});
+
+	return c.json({ quizId, ...dispute }, 201);
+});
+
 export { quizRoutes };
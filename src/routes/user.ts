@@ -3,10 +3,15 @@ import { NotFoundError, ValidationError } from "../middleware/error.js";
 import {
 	getGrowthMilestonesByUser,
 	getSkillStatsByUser,
+	getSkippedQuizzesByUser,
 	getUserProfile,
 	upsertUserProfile,
 } from "../services/firestore.js";
 import { generateLearningRecommendations } from "../services/personalization.js";
+import {
+	getCategorySkipRates,
+	getSkipRate,
+} from "../types/entities/skillStats.js";
 import { CreateUserProfileInputSchema } from "../types/entities/userProfile.js";
 import { logger } from "../utils/logger.js";
 
@@ -72,7 +77,10 @@ userRoutes.get("/:accountId/skills", async (c) => {
 
 	logger.info("User skills fetch requested", { accountId });
 
-	const skills = await getSkillStatsByUser(accountId);
+	const [skills, skippedQuizzes] = await Promise.all([
+		getSkillStatsByUser(accountId),
+		getSkippedQuizzesByUser(accountId),
+	]);
 
 	// 弱点分野（正答率の低い順）を計算
 	const weakAreas = [...skills]
@@ -86,10 +94,20 @@ userRoutes.get("/:accountId/skills", async (c) => {
 		.sort((a, b) => b.correctRate - a.correctRate)
 		.slice(0, 5);
 
+	// スキップ率（スキップしたクイズは正答率に含めないため別に集計）
+	const skipRates = getCategorySkipRates(
+		skills,
+		skippedQuizzes.map((q) => q.category),
+	);
+	const totalSkipped = skippedQuizzes.length;
+	const totalAnswered = skills.reduce((sum, s) => sum + s.totalQuizzes, 0);
+
 	return c.json({
 		skills,
 		weakAreas,
 		strongAreas,
+		skipRate: getSkipRate(totalSkipped, totalAnswered),
+		skipRates,
 	});
 });
 
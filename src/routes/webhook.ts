@@ -1,49 +1,22 @@
 import { Hono } from "hono";
-import { env } from "../config/env.js";
 import { ValidationError } from "../middleware/error.js";
 import { webhookVerificationMiddleware } from "../middleware/webhook.js";
+import { dispatchCommentCommand } from "../services/commentCommands.js";
 import {
-	checkAndCreateMilestones,
 	createMergeRequest,
-	createQuiz,
 	getOrCreateUser,
 	getUserProfile,
-	updateUserStats,
 } from "../services/firestore.js";
-import { generateQuizFromDiff } from "../services/gemini.js";
-import {
-	fetchPRDiff,
-	formatErrorComment,
-	formatQuizComment,
-	postPRComment,
-} from "../services/github.js";
-import { findQuizForAnswer } from "../services/quizLookup.js";
-import {
-	handleProfileCommand,
-	formatProfileErrorMessage,
-} from "../services/profileCommandHandler.js";
-import {
-	handleAnswerCommand,
-	formatAnswerErrorMessage,
-	formatInvalidAnswerMessage,
-	formatQuizNotFoundMessage,
-} from "../services/answerCommandHandler.js";
+import { generateAndSaveQuizzes } from "../services/quizGeneration.js";
 import {
 	type ExtractedPRInfo,
 	type GitHubPullRequestEvent,
-	type GitHubIssueCommentEvent,
 	extractPRInfo,
 	isGitHubPullRequestEvent,
 	isGitHubIssueCommentEvent,
 	isPullRequestComment,
 	shouldGenerateQuiz,
 } from "../types/webhook.js";
-import {
-	detectCommandType,
-	parseProfileCommand,
-	parseAnswerCommand,
-	getProfileCommandHelp,
-} from "../utils/commandParser.js";
 import { logger } from "../utils/logger.js";
 
 /**
@@ -130,178 +103,54 @@ webhookRoutes.post("/gitlab", async (c) => {
 
 /**
  * GitHub issue_comment イベント処理
- * PRコメントでのコマンド実行
+ * PRコメントでのコマンド実行（/api/comment/process と同じ処理で実行する）
  */
 async function handleIssueCommentEvent(c: any): Promise<Response> {
 	// NOTE: このルートはレガシーです。GitHub App統合により、
-	// comment-relay.yml経由で /api/comment/process にリクエストが送られるようになりました。
+	// pr-comment-handler.yml経由で /api/comment/process にリクエストが送られるようになりました。
 	// このルートは後方互換性のために残されています。
-	logger.info("Legacy webhook route called - use /api/comment/process instead");
-	return c.json({
-		message: "This route is deprecated. Use /api/comment/process instead.",
-	}, 200);
-}
+	const payload = await c.req.json();
 
-/**
- * プロファイルコマンドをPRコメントで処理
- */
-export async function handleProfileCommandInComment(
-	owner: string,
-	repo: string,
-	prNumber: number,
-	accountId: string,
-	commentBody: string,
-	installationId: number,
-): Promise<void> {
-	try {
-		// コマンド解析
-		const command = parseProfileCommand(commentBody);
-
-		if (!command) {
-			// パース失敗
-			const errorMsg = formatProfileErrorMessage(
-				"コマンドの形式が正しくありません",
-				"パラメータの値を確認してください",
-			);
-
-			if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-				await postPRComment(owner, repo, prNumber, errorMsg, installationId);
-			}
-			return;
-		}
-
-		// 空のコマンド（ヘルプ表示）
-		if (Object.keys(command).length === 0) {
-			const helpMsg = getProfileCommandHelp();
-			if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-				await postPRComment(owner, repo, prNumber, helpMsg, installationId);
-			}
-			return;
-		}
-
-		// プロファイル更新
-		const result = await handleProfileCommand(accountId, command);
-
-		// 結果をコメント
-		if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-			await postPRComment(owner, repo, prNumber, result.message, installationId);
-		}
-
-		logger.info("Profile command completed", {
-			owner,
-			repo,
-			prNumber,
-			accountId,
-			success: result.success,
-		});
-	} catch (error) {
-		logger.error("Failed to handle profile command in comment", {
-			error,
-			owner,
-			repo,
-			prNumber,
-			accountId,
-		});
-
-		// エラーメッセージを投稿
-		if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-			const errorMsg = formatProfileErrorMessage(
-				"プロファイルの更新中にエラーが発生しました",
-				"しばらく時間をおいて再度お試しください",
-			);
-			await postPRComment(owner, repo, prNumber, errorMsg, installationId);
-		}
+	if (!isGitHubIssueCommentEvent(payload)) {
+		logger.warn("Invalid GitHub issue_comment payload");
+		throw new ValidationError("Invalid issue_comment payload");
 	}
-}
 
-/**
- * 回答コマンドをPRコメントで処理
- */
-export async function handleAnswerCommandInComment(
-	owner: string,
-	repo: string,
-	prNumber: number,
-	accountId: string,
-	commentBody: string,
-	installationId: number,
-): Promise<void> {
-	try {
-		logger.info("Starting answer command handling", {
-			owner,
-			repo,
-			prNumber,
-			accountId,
-		});
-
-		// コマンド解析
-		const answerIndex = parseAnswerCommand(commentBody);
-		logger.info("Answer command parsed", { answerIndex });
-
-		if (answerIndex === null) {
-			// パース失敗
-			logger.warn("Answer command parse failed");
-			const errorMsg = formatInvalidAnswerMessage();
-
-			if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-				await postPRComment(owner, repo, prNumber, errorMsg, installationId);
-			}
-			return;
-		}
-
-		// PRに関連するクイズを検索
-		logger.info("Searching for quiz", { owner, repo, prNumber });
-		const quiz = await findQuizForAnswer(commentBody, owner, repo, prNumber);
-		logger.info("Quiz search completed", { found: !!quiz });
-
-		if (!quiz) {
-			// クイズが見つからない
-			logger.warn("Quiz not found for PR", { owner, repo, prNumber });
-			const errorMsg = formatQuizNotFoundMessage();
-
-			if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-				await postPRComment(owner, repo, prNumber, errorMsg, installationId);
-			}
-			return;
-		}
-
-		// 回答処理
-		logger.info("Processing answer", { quizId: quiz.quizId, answerIndex });
-		const result = await handleAnswerCommand(accountId, quiz, answerIndex);
-		logger.info("Answer processed", { success: result.success });
-
-		// 結果をコメント
-		if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-			logger.info("Posting result comment");
-			await postPRComment(owner, repo, prNumber, result.message, installationId);
-			logger.info("Result comment posted");
-		}
+	// 新規のPRコメントのみ処理（返信にはApp Installation IDが必要）
+	const installationId = payload.installation?.id;
+	if (
+		payload.action !== "created" ||
+		!isPullRequestComment(payload) ||
+		!installationId
+	) {
+		logger.info("Ignoring issue_comment event", { action: payload.action });
+		return c.json({ message: "Event ignored" }, 200);
+	}
 
-		logger.info("Answer command completed", {
-			owner,
-			repo,
-			prNumber,
-			accountId,
-			quizId: quiz.quizId,
-			answerIndex,
-			success: result.success,
-		});
-	} catch (error) {
-		logger.error("Failed to handle answer command in comment", {
+	const request = {
+		owner: payload.repository.owner.login,
+		repo: payload.repository.name,
+		prNumber: payload.issue.number,
+		accountId: payload.comment.user.login,
+		commentBody: payload.comment.body,
+		installationId,
+		pullRequest: {
+			author: payload.issue.user.login,
+			title: payload.issue.title,
+		},
+	};
+
+	// コマンド処理を非同期で実行（Webhookレスポンスは即座に返す）
+	dispatchCommentCommand(request).catch((error) => {
+		logger.error("Comment command dispatch failed", {
 			error,
-			owner,
-			repo,
-			prNumber,
-			accountId,
+			owner: request.owner,
+			repo: request.repo,
+			prNumber: request.prNumber,
 		});
+	});
 
-		// エラーメッセージを投稿
-		if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
-			const errorMsg = formatAnswerErrorMessage(
-				error instanceof Error ? error.message : "不明なエラー",
-			);
-			await postPRComment(owner, repo, prNumber, errorMsg, installationId);
-		}
-	}
+	return c.json({ message: "Comment processing started" }, 200);
 }
 
 /**
@@ -311,7 +160,7 @@ async function processQuizGeneration(
 	prInfo: ExtractedPRInfo,
 	payload: GitHubPullRequestEvent,
 ): Promise<void> {
-	const { platform, owner, repo, number, accountId, title } = prInfo;
+	const { platform, owner, repo, number, accountId, authorAccountId, audience, title } = prInfo;
 
 	try {
 		logger.info("Starting quiz generation process", { owner, repo, number });
@@ -391,21 +240,22 @@ index 0000000..a1b2c3d
 			repo,
 			number,
 			title,
-			authorAccountId: accountId,
+			authorAccountId,
 		});
 		logger.info("Merge request created", {
 			mergeRequestId: mergeRequest.mergeRequestId,
 		});
 
-		// 4. Gemini APIでクイズ生成
-		logger.info("Generating quiz with Gemini", { owner, repo, number });
-		const quizData = await generateQuizFromDiff(diff);
-
-		// 5. Firestoreにクイズを保存
-		const quiz = await createQuiz({
+		// 4. クイズ生成・保存（レガシールートは単問のみ）
+		logger.info("Generating quiz", { owner, repo, number });
+		const {
+			quizzes: [quiz],
+		} = await generateAndSaveQuizzes({
 			mergeRequestId: mergeRequest.mergeRequestId,
 			accountId,
-			generatedQuiz: quizData,
+			audience,
+			diff,
+			questionCount: 1,
 		});
 
 		logger.info("Quiz created successfully", {
@@ -1,5 +1,6 @@
 import {
 	createAnswer,
+	getAnswerByUserAndQuiz,
 	updateUserStats,
 	updateSkillStats,
 	checkAndCreateMilestones,
@@ -7,12 +8,23 @@ import {
 	getAnswersByUser,
 	getUserProfile,
 } from "./firestore.js";
+import { getMessages } from "../locales/index.js";
+import type { FreeTextGradingParams, StatsSummary } from "../locales/types.js";
+import { gradeFreeTextAnswer } from "./freeTextGrading.js";
+import { getEffectiveDifficulty } from "./itemAnalysis.js";
 import { generateLearningRecommendations } from "./personalization.js";
+import {
+	describeAnswerValue,
+	formatAnswerValue,
+	formatCorrectAnswer,
+	getAnswerFormatHint,
+	getQuestionType,
+} from "./quizGrading.js";
 import type { Quiz } from "../types/entities/quiz.js";
-import type { Answer } from "../types/entities/answer.js";
+import type { Answer, AnswerValue } from "../types/entities/answer.js";
 import type { SkillStats } from "../types/entities/skillStats.js";
 import type { GrowthMilestone } from "../types/entities/growthMilestone.js";
-import type { Category } from "../types/index.js";
+import type { Language } from "../types/index.js";
 import { logger } from "../utils/logger.js";
 
 /**
@@ -27,7 +39,8 @@ export interface AnswerCommandResult {
 	success: boolean;
 	isCorrect: boolean;
 	quiz: Quiz;
-	answer: Answer;
+	/** 回答（スキップされていて回答できなかった場合は undefined） */
+	answer?: Answer;
 	stats: SkillStats[];
 	newMilestones: GrowthMilestone[];
 	message: string;
@@ -36,70 +49,55 @@ export interface AnswerCommandResult {
 
 /**
  * /answer コマンドを処理
+ * @param language 応答メッセージの言語（省略時は既定言語）
  */
 export async function handleAnswerCommand(
 	accountId: string,
 	quiz: Quiz,
-	answerIndex: number,
+	value: AnswerValue,
+	language?: Language,
 ): Promise<AnswerCommandResult> {
 	try {
 		logger.info("Handling answer command", {
 			accountId,
 			quizId: quiz.quizId,
-			answerIndex,
+			answer: describeAnswerValue(value),
 		});
 
 		// 既に回答済みかチェック
-		const existingAnswers = await getAnswersByUser(accountId);
-		const userAnswer = existingAnswers.find(
-			(a: Answer) => a.quizId === quiz.quizId,
-		);
-
+		const userAnswer = await getAnswerByUserAndQuiz(quiz.quizId, accountId);
 		if (userAnswer) {
-			logger.info("User already answered this quiz", {
-				accountId,
-				quizId: quiz.quizId,
-			});
+			return await alreadyAnsweredResult(accountId, quiz, userAnswer, language);
+		}
 
-			// 既回答メッセージ
-			const stats = await getSkillStatsByUser(accountId);
-			const message = formatAlreadyAnsweredMessage(quiz, userAnswer, stats);
+		const recorded = await recordAnswer(accountId, quiz, value, language);
+
+		// 同時に回答・スキップされて保存できなかった場合
+		if (!recorded) {
+			const concurrentAnswer = await getAnswerByUserAndQuiz(
+				quiz.quizId,
+				accountId,
+			);
+			if (concurrentAnswer) {
+				return await alreadyAnsweredResult(
+					accountId,
+					quiz,
+					concurrentAnswer,
+					language,
+				);
+			}
 
 			return {
-				success: true,
-				isCorrect: userAnswer.isCorrect,
+				success: false,
+				isCorrect: false,
 				quiz,
-				answer: userAnswer,
-				stats,
+				stats: [],
 				newMilestones: [],
-				message,
-				alreadyAnswered: true,
+				message: getMessages(language).skip.answerSkipped,
 			};
 		}
 
-		// 正誤判定
-		const isCorrect = answerIndex === quiz.correctAnswerIndex;
-
-		// 回答を保存
-		const answer = await createAnswer(
-			{
-				quizId: quiz.quizId,
-				accountId,
-				selectedAnswerIndex: answerIndex,
-			},
-			quiz,
-		);
-
-		// ユーザー統計を更新
-		await updateUserStats(accountId, isCorrect);
-
-		// スキル統計を更新（カテゴリ別）
-		await updateSkillStats({
-			accountId,
-			category: quiz.category,
-			difficulty: quiz.difficulty,
-			isCorrect,
-		});
+		const { answer, isCorrect } = recorded;
 
 		// スキル統計を取得
 		const stats = await getSkillStatsByUser(accountId);
@@ -110,8 +108,14 @@ export async function handleAnswerCommand(
 
 		// メッセージ生成
 		const message = isCorrect
-			? await formatCorrectAnswerMessage(quiz, answer, stats, newMilestones)
-			: await formatIncorrectAnswerMessage(quiz, answer, stats, accountId);
+			? formatCorrectAnswerMessage(quiz, answer, stats, newMilestones, language)
+			: await formatIncorrectAnswerMessage(
+					quiz,
+					answer,
+					stats,
+					accountId,
+					language,
+				);
 
 		logger.info("Answer command completed", {
 			accountId,
@@ -134,7 +138,7 @@ export async function handleAnswerCommand(
 			error,
 			accountId,
 			quizId: quiz.quizId,
-			answerIndex,
+			answer: describeAnswerValue(value),
 		});
 
 		throw error;
@@ -142,70 +146,316 @@ export async function handleAnswerCommand(
 }
 
 /**
- * 回答結果メッセージを生成（正解）
+ * 既に回答済みのクイズへの回答結果
  */
-async function formatCorrectAnswerMessage(
+async function alreadyAnsweredResult(
+	accountId: string,
 	quiz: Quiz,
-	answer: Answer,
-	stats: SkillStats[],
-	newMilestones: GrowthMilestone[],
-): Promise<string> {
-	// カテゴリの日本語表記
-	const categoryMap = {
-		bug_fix: "バグ修正",
-		performance: "パフォーマンス",
-		refactoring: "リファクタリング",
-		security: "セキュリティ",
-		logic: "ロジック",
+	userAnswer: Answer,
+	language?: Language,
+): Promise<AnswerCommandResult> {
+	logger.info("User already answered this quiz", {
+		accountId,
+		quizId: quiz.quizId,
+	});
+
+	// 既回答メッセージ
+	const stats = await getSkillStatsByUser(accountId);
+	const message = formatAlreadyAnsweredMessage(
+		quiz,
+		userAnswer,
+		stats,
+		language,
+	);
+
+	return {
+		success: true,
+		isCorrect: userAnswer.isCorrect,
+		quiz,
+		answer: userAnswer,
+		stats,
+		newMilestones: [],
+		message,
+		alreadyAnswered: true,
 	};
+}
 
-	// 難易度の日本語表記
-	const difficultyMap = {
-		easy: "易しい",
-		medium: "普通",
-		hard: "難しい",
-	};
+/**
+ * 回答を保存し、ユーザー統計・スキル統計を更新する
+ * 記述式は採点基準に照らして採点してから保存する
+ * @returns 保存した回答（既に回答・スキップ済みで保存できなかった場合は null）
+ */
+async function recordAnswer(
+	accountId: string,
+	quiz: Quiz,
+	value: AnswerValue,
+	language?: Language,
+): Promise<{ answer: Answer; isCorrect: boolean } | null> {
+	const grade =
+		getQuestionType(quiz) === "free_text" && value.freeTextAnswer
+			? await gradeFreeTextAnswer(quiz, value.freeTextAnswer, language)
+			: undefined;
+
+	// 回答を保存（正誤判定は問題形式に応じて行われる）
+	const answer = await createAnswer(
+		{
+			quizId: quiz.quizId,
+			accountId,
+			...value,
+		},
+		quiz,
+		grade,
+	);
+	if (!answer) {
+		return null;
+	}
+	const isCorrect = answer.isCorrect;
+
+	// ユーザー統計を更新
+	await updateUserStats(accountId, isCorrect);
+
+	// スキル統計を更新（カテゴリ別、実測の難易度があればそちらを使い、記述式は部分点、ヒントを使った正解は減点する）
+	await updateSkillStats({
+		accountId,
+		category: quiz.category,
+		difficulty: getEffectiveDifficulty(quiz),
+		isCorrect,
+		hintsUsed: answer.hintsUsed,
+		score: answer.score,
+	});
+
+	return { answer, isCorrect };
+}
 
-	const selectedOption = quiz.options[answer.selectedAnswerIndex];
-	const correctOption = quiz.options[quiz.correctAnswerIndex];
+/**
+ * クイズセットの1問分の回答結果
+ */
+export interface QuizSetQuestionResult {
+	quiz: Quiz;
+	answer: Answer;
+	isCorrect: boolean;
+	alreadyAnswered: boolean;
+}
 
-	// スキル統計サマリー
-	const totalQuizzes = stats.reduce((sum, s) => sum + s.totalQuizzes, 0);
-	const totalCorrect = stats.reduce((sum, s) => sum + s.correctCount, 0);
-	const overallCorrectRate = totalQuizzes > 0 ? (totalCorrect / totalQuizzes) * 100 : 0;
+/**
+ * クイズセット回答処理結果
+ */
+export interface QuizSetAnswerCommandResult {
+	success: boolean;
+	results: QuizSetQuestionResult[];
+	stats: SkillStats[];
+	message: string;
+}
 
-	// カテゴリ別正答率
-	const categoryStats = stats
-		.sort((a, b) => b.correctRate - a.correctRate)
-		.slice(0, 3)
-		.map((s) => `  - ${categoryMap[s.category]}: ${(s.correctRate * 100).toFixed(1)}%`)
-		.join("\n");
+/**
+ * クイズセットへの /answer コマンドを処理
+ * 問題ごとに正誤判定とスキル統計更新を行う
+ * @param quizzes セット内のクイズ（問題番号順）
+ * @param answers 問題番号と回答内容の組
+ * @param language 応答メッセージの言語（省略時は既定言語）
+ */
+export async function handleQuizSetAnswerCommand(
+	accountId: string,
+	quizzes: Quiz[],
+	answers: Array<{ questionNumber: number; value: AnswerValue }>,
+	language?: Language,
+): Promise<QuizSetAnswerCommandResult> {
+	// 記述式の回答はログに残さない
+	const answerShapes = answers.map(({ questionNumber, value }) => ({
+		questionNumber,
+		...describeAnswerValue(value),
+	}));
 
-	// マイルストーンセクション
-	const milestonesSection =
-		newMilestones.length > 0
-			? `\n\n---\n\n🎉 **新しいマイルストーン達成！**\n${newMilestones.map((m) => `- ${m.achievement}`).join("\n")}`
-			: "";
+	try {
+		logger.info("Handling quiz set answer command", {
+			accountId,
+			quizSetId: quizzes[0]?.quizSetId,
+			answers: answerShapes,
+		});
 
-	return `## ✅ 正解です！
+		const existingAnswers = await getAnswersByUser(accountId);
+		const results: QuizSetQuestionResult[] = [];
+
+		for (const { questionNumber, value } of answers) {
+			const quiz = quizzes.find(
+				(q) => (q.questionNumber ?? 1) === questionNumber,
+			);
+			if (!quiz) {
+				continue;
+			}
+
+			const userAnswer = existingAnswers.find(
+				(a: Answer) => a.quizId === quiz.quizId,
+			);
+			if (userAnswer) {
+				results.push({
+					quiz,
+					answer: userAnswer,
+					isCorrect: userAnswer.isCorrect,
+					alreadyAnswered: true,
+				});
+				continue;
+			}
+
+			const recorded = await recordAnswer(accountId, quiz, value, language);
+			if (!recorded) {
+				// 同時に回答された問題は既回答として扱い、スキップされた問題は結果に含めない
+				const concurrentAnswer = await getAnswerByUserAndQuiz(
+					quiz.quizId,
+					accountId,
+				);
+				if (concurrentAnswer) {
+					results.push({
+						quiz,
+						answer: concurrentAnswer,
+						isCorrect: concurrentAnswer.isCorrect,
+						alreadyAnswered: true,
+					});
+				}
+				continue;
+			}
+			results.push({ quiz, ...recorded, alreadyAnswered: false });
+		}
 
-**あなたの回答:** ${answer.selectedAnswerIndex + 1}. ${selectedOption}
-**正解:** ${quiz.correctAnswerIndex + 1}. ${correctOption}
+		const stats = await getSkillStatsByUser(accountId);
 
-**カテゴリ:** ${categoryMap[quiz.category]}
-**難易度:** ${difficultyMap[quiz.difficulty]}
+		// 今回・過去に回答済みの問題を除いた未回答の問題
+		const answeredQuizIds = new Set([
+			...existingAnswers.map((a) => a.quizId),
+			...results.map((r) => r.quiz.quizId),
+		]);
+		const unanswered = quizzes.filter((q) => !answeredQuizIds.has(q.quizId));
 
-### 📖 解説
-${quiz.explanation}
+		const message = formatQuizSetAnswerMessage(
+			results,
+			unanswered,
+			stats,
+			language,
+		);
 
-### 📊 あなたの成績
-- 累計回答数: ${totalQuizzes}問
-- 正答率: ${overallCorrectRate.toFixed(1)}%
-- カテゴリ別正答率（上位3つ）:
-${categoryStats || "  - データなし"}${milestonesSection}
+		logger.info("Quiz set answer command completed", {
+			accountId,
+			answered: results.filter((r) => !r.alreadyAnswered).length,
+			correct: results.filter((r) => r.isCorrect).length,
+		});
+
+		return { success: true, results, stats, message };
+	} catch (error) {
+		logger.error("Failed to handle quiz set answer command", {
+			error,
+			accountId,
+			answers: answerShapes,
+		});
 
----
-*回答日時: ${new Date(answer.answeredAt.seconds * 1000).toLocaleString("ja-JP")}*`;
+		throw error;
+	}
+}
+
+/**
+ * スキル統計から累計回答数と正答率を集計
+ * 正答率は記述式の部分点・ヒントによる減点を反映した重み付き合計から計算する
+ */
+export function summarizeStats(stats: SkillStats[]): StatsSummary {
+	const totalQuizzes = stats.reduce((sum, s) => sum + s.totalQuizzes, 0);
+	const totalCorrect = stats.reduce(
+		(sum, s) => sum + (s.correctScore ?? s.correctCount),
+		0,
+	);
+
+	return {
+		totalQuizzes,
+		correctRate: totalQuizzes > 0 ? (totalCorrect / totalQuizzes) * 100 : 0,
+	};
+}
+
+/**
+ * 記述式の採点結果を表示用に変換（記述式以外・得点のない回答は undefined）
+ */
+function toGradingParams(answer: Answer): FreeTextGradingParams | undefined {
+	if (answer.score === undefined) {
+		return undefined;
+	}
+	return {
+		scorePercent: Math.round(answer.score * 100),
+		feedback: answer.feedback ?? "",
+	};
+}
+
+/**
+ * 回答日時を表示用の文字列に変換
+ */
+function formatAnsweredAt(answer: Answer, locale: string): string {
+	return new Date(answer.answeredAt.seconds * 1000).toLocaleString(locale);
+}
+
+/**
+ * クイズセットの回答結果メッセージを生成
+ */
+function formatQuizSetAnswerMessage(
+	results: QuizSetQuestionResult[],
+	unanswered: Quiz[],
+	stats: SkillStats[],
+	language?: Language,
+): string {
+	const messages = getMessages(language);
+
+	const sections = results
+		.map(({ quiz, answer, isCorrect, alreadyAnswered }) =>
+			messages.answer.setQuestionResult({
+				questionNumber: quiz.questionNumber ?? 1,
+				isCorrect,
+				alreadyAnswered,
+				answer: formatAnswerValue(quiz, answer, language),
+				correctAnswer: formatCorrectAnswer(quiz),
+				explanation: quiz.explanation,
+				grading: toGradingParams(answer),
+			}),
+		)
+		.join("\n\n");
+
+	return messages.answer.setResult({
+		correctCount: results.filter((r) => r.isCorrect).length,
+		answeredCount: results.length,
+		sections,
+		unansweredQuestionNumbers: unanswered.map((q) => q.questionNumber ?? 1),
+		stats: summarizeStats(stats),
+	});
+}
+
+/**
+ * 回答結果メッセージを生成（正解）
+ */
+function formatCorrectAnswerMessage(
+	quiz: Quiz,
+	answer: Answer,
+	stats: SkillStats[],
+	newMilestones: GrowthMilestone[],
+	language?: Language,
+): string {
+	const messages = getMessages(language);
+	const { labels } = messages;
+
+	// カテゴリ別正答率
+	const categoryStats = [...stats]
+		.sort((a, b) => b.correctRate - a.correctRate)
+		.slice(0, 3)
+		.map(
+			(s) =>
+				`${labels.category[s.category]}: ${(s.correctRate * 100).toFixed(1)}%`,
+		);
+
+	return messages.answer.correct({
+		answer: formatAnswerValue(quiz, answer, language),
+		correctAnswer: formatCorrectAnswer(quiz),
+		category: labels.category[quiz.category],
+		difficulty: labels.difficulty[quiz.difficulty],
+		explanation: quiz.explanation,
+		grading: toGradingParams(answer),
+		stats: summarizeStats(stats),
+		categoryStats,
+		milestones: newMilestones.map((m) => m.achievement),
+		answeredAt: formatAnsweredAt(answer, messages.dateLocale),
+	});
 }
 
 /**
@@ -216,65 +466,37 @@ async function formatIncorrectAnswerMessage(
 	answer: Answer,
 	stats: SkillStats[],
 	accountId: string,
+	language?: Language,
 ): Promise<string> {
-	// カテゴリの日本語表記
-	const categoryMap = {
-		bug_fix: "バグ修正",
-		performance: "パフォーマンス",
-		refactoring: "リファクタリング",
-		security: "セキュリティ",
-		logic: "ロジック",
-	};
-
-	// 難易度の日本語表記
-	const difficultyMap = {
-		easy: "易しい",
-		medium: "普通",
-		hard: "難しい",
-	};
-
-	const selectedOption = quiz.options[answer.selectedAnswerIndex];
-	const correctOption = quiz.options[quiz.correctAnswerIndex];
-
-	// スキル統計サマリー
-	const totalQuizzes = stats.reduce((sum, s) => sum + s.totalQuizzes, 0);
-	const totalCorrect = stats.reduce((sum, s) => sum + s.correctCount, 0);
-	const overallCorrectRate = totalQuizzes > 0 ? (totalCorrect / totalQuizzes) * 100 : 0;
+	const messages = getMessages(language);
+	const { labels } = messages;
 
 	// 学習推奨を取得
 	const profile = await getUserProfile(accountId);
-	const recommendations = await generateLearningRecommendations(profile, stats);
+	const recommendations = generateLearningRecommendations(
+		profile,
+		stats,
+		language,
+	);
 
 	// 苦手カテゴリ
 	const weakCategories = recommendations.weakAreas
 		.slice(0, 2)
-		.map((w: { category: Category; correctRate: number; priority: string }) =>
-			categoryMap[w.category],
-		)
+		.map((w) => labels.category[w.category])
 		.join(", ");
 
-	return `## ❌ 不正解です
-
-**あなたの回答:** ${answer.selectedAnswerIndex + 1}. ${selectedOption}
-**正解:** ${quiz.correctAnswerIndex + 1}. ${correctOption}
-
-**カテゴリ:** ${categoryMap[quiz.category]}
-**難易度:** ${difficultyMap[quiz.difficulty]}
-
-### 📖 解説
-${quiz.explanation}
-
-### 📊 あなたの成績
-- 累計回答数: ${totalQuizzes}問
-- 正答率: ${overallCorrectRate.toFixed(1)}%
-
-### 💡 おすすめ学習
-${weakCategories ? `苦手カテゴリ: ${weakCategories}` : ""}
-${recommendations.nextSteps.slice(0, 2).map((step: string) => `- ${step}`).join("\n")}
-
----
-*回答日時: ${new Date(answer.answeredAt.seconds * 1000).toLocaleString("ja-JP")}*
-*次のクイズで頑張りましょう！*`;
+	return messages.answer.incorrect({
+		answer: formatAnswerValue(quiz, answer, language),
+		correctAnswer: formatCorrectAnswer(quiz),
+		category: labels.category[quiz.category],
+		difficulty: labels.difficulty[quiz.difficulty],
+		explanation: quiz.explanation,
+		grading: toGradingParams(answer),
+		stats: summarizeStats(stats),
+		weakCategories,
+		nextSteps: recommendations.nextSteps.slice(0, 2),
+		answeredAt: formatAnsweredAt(answer, messages.dateLocale),
+	});
 }
 
 /**
@@ -284,75 +506,47 @@ function formatAlreadyAnsweredMessage(
 	quiz: Quiz,
 	answer: Answer,
 	stats: SkillStats[],
+	language?: Language,
 ): string {
-	const resultEmoji = answer.isCorrect ? "✅" : "❌";
-	const resultText = answer.isCorrect ? "正解" : "不正解";
-	const selectedOption = quiz.options[answer.selectedAnswerIndex];
-
-	const totalQuizzes = stats.reduce((sum, s) => sum + s.totalQuizzes, 0);
-	const totalCorrect = stats.reduce((sum, s) => sum + s.correctCount, 0);
-	const overallCorrectRate = totalQuizzes > 0 ? (totalCorrect / totalQuizzes) * 100 : 0;
-
-	return `## ℹ️ 既に回答済みです
-
-このクイズには既に回答しています。
-
-**あなたの回答:** ${answer.selectedAnswerIndex + 1}. ${selectedOption} ${resultEmoji} (${resultText})
-**回答日時:** ${new Date(answer.answeredAt.seconds * 1000).toLocaleString("ja-JP")}
-
-### 📊 現在の成績
-- 累計回答数: ${totalQuizzes}問
-- 正答率: ${overallCorrectRate.toFixed(1)}%
-
----
-*新しいPRを作成すると新しいクイズが出題されます*`;
+	const messages = getMessages(language);
+
+	return messages.answer.alreadyAnswered({
+		answer: formatAnswerValue(quiz, answer, language),
+		isCorrect: answer.isCorrect,
+		answeredAt: formatAnsweredAt(answer, messages.dateLocale),
+		stats: summarizeStats(stats),
+	});
 }
 
 /**
  * クイズが見つからないエラーメッセージ
  */
-export function formatQuizNotFoundMessage(): string {
-	return `## ❌ クイズが見つかりません
-
-このPRに関連するクイズが見つかりませんでした。
-
-クイズIDを明示的に指定する場合:
-\`\`\`
-/answer 2 quiz_abc123
-\`\`\`
-
-または、PRにクイズが投稿されていることを確認してください。`;
+export function formatQuizNotFoundMessage(language?: Language): string {
+	return getMessages(language).answer.quizNotFound;
 }
 
 /**
- * 無効な回答番号のエラーメッセージ
+ * 問題形式に合わない回答のエラーメッセージ（問題形式に応じた回答方法を表示）
  */
-export function formatInvalidAnswerMessage(): string {
-	return `## ❌ 無効な回答です
-
-回答は 1〜4 の数値で指定してください。
-
-**正しい形式:**
-\`\`\`
-/answer 2
-\`\`\`
+export function formatInvalidAnswerMessage(
+	quiz: Quiz,
+	language?: Language,
+): string {
+	const hint = getAnswerFormatHint(quiz, language);
+	const prefix = quiz.quizSetId ? `${quiz.questionNumber ?? 1}:` : "";
 
-**例:**
-- \`/answer 1\` - 選択肢1を選択
-- \`/answer 3\` - 選択肢3を選択`;
+	return getMessages(language).answer.invalidAnswerForQuiz(
+		hint.instruction,
+		`${prefix}${hint.example}`,
+	);
 }
 
 /**
- * 一般的なエラーメッセージ
+ * 存在しない問題番号のエラーメッセージ
  */
-export function formatAnswerErrorMessage(error: string): string {
-	return `## ❌ 回答処理エラー
-
-回答の処理中にエラーが発生しました：
-
-\`\`\`
-${error}
-\`\`\`
-
-しばらく時間をおいて再度お試しください。`;
+export function formatInvalidQuestionNumberMessage(
+	questionCount: number,
+	language?: Language,
+): string {
+	return getMessages(language).answer.invalidQuestionNumber(questionCount);
 }
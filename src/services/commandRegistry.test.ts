@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+	type CommandContext,
+	defineCommand,
+	executeCommand,
+	findCommand,
+} from "./commandRegistry.js";
+
+const handler = vi.fn();
+
+/** `/echo <text>` を受け付けるテスト用のコマンド */
+const echo = defineCommand({
+	name: "/echo",
+	aliases: ["/e"],
+	parse: (text) => {
+		const match = text.match(/^\/echo(?:\s+(.*))?$/s);
+		return match ? { text: match[1] ?? "" } : null;
+	},
+	args: z.object({ text: z.string().min(1).max(10) }),
+	help: () => ({
+		syntax: ["/echo <text>"],
+		description: "Echo the text",
+		examples: [{ command: "/echo hi", description: "Reply with hi" }],
+	}),
+	handler,
+});
+
+const reply = vi.fn();
+
+function context(commentBody: string): CommandContext {
+	return {
+		owner: "owner",
+		repo: "repo",
+		prNumber: 1,
+		accountId: "github_42",
+		commentBody,
+		installationId: 42,
+		language: "en",
+		allowSkip: true,
+		reply,
+	};
+}
+
+describe("findCommand", () => {
+	it("finds a command by name or alias and normalizes the body", () => {
+		expect(findCommand([echo], "  /echo hi")).toEqual({
+			command: echo,
+			commentBody: "/echo hi",
+		});
+		expect(findCommand([echo], "/E hi\nthere")).toEqual({
+			command: echo,
+			commentBody: "/echo hi\nthere",
+		});
+	});
+
+	it("ignores other comments and commands", () => {
+		expect(findCommand([echo], "looks good")).toBeNull();
+		expect(findCommand([echo], "/echoes hi")).toBeNull();
+		expect(findCommand([echo], "please /echo hi")).toBeNull();
+	});
+});
+
+describe("executeCommand", () => {
+	beforeEach(() => {
+		handler.mockReset().mockResolvedValue(undefined);
+		reply.mockReset().mockResolvedValue(undefined);
+	});
+
+	it("passes validated arguments to the handler", async () => {
+		const ctx = context("/echo hello");
+
+		await expect(executeCommand(echo, ctx)).resolves.toEqual({
+			status: "handled",
+		});
+		expect(handler).toHaveBeenCalledWith(ctx, { text: "hello" });
+		expect(reply).not.toHaveBeenCalled();
+	});
+
+	it("replies with the usage when arguments are invalid", async () => {
+		await expect(
+			executeCommand(echo, context("/echo far too long text")),
+		).resolves.toEqual({ status: "invalid_arguments" });
+		await expect(executeCommand(echo, context("/echo"))).resolves.toEqual({
+			status: "invalid_arguments",
+		});
+
+		expect(handler).not.toHaveBeenCalled();
+		expect(reply).toHaveBeenCalledTimes(2);
+		expect(reply.mock.calls[0][0]).toContain("/echo <text>");
+		expect(reply.mock.calls[0][0]).toContain(
+			"`text` must be at most 10 characters (got 17)",
+		);
+	});
+
+	it("replies with an error and reports the failure when the handler throws", async () => {
+		handler.mockRejectedValue(new Error("Firestore unavailable"));
+
+		await expect(executeCommand(echo, context("/echo hi"))).resolves.toEqual({
+			status: "failed",
+			error: "Firestore unavailable",
+		});
+		expect(reply).toHaveBeenCalledOnce();
+		expect(reply.mock.calls[0][0]).toContain("`/echo`");
+		// エラーの内容はPRコメントに含めない
+		expect(reply.mock.calls[0][0]).not.toContain("Firestore unavailable");
+	});
+
+	it("does not throw when the error reply also fails", async () => {
+		handler.mockRejectedValue(new Error("boom"));
+		reply.mockRejectedValue(new Error("GitHub unavailable"));
+
+		await expect(executeCommand(echo, context("/echo hi"))).resolves.toEqual({
+			status: "failed",
+			error: "boom",
+		});
+	});
+});
@@ -0,0 +1,303 @@
+import type { z } from "zod";
+import { getMessages } from "../locales/index.js";
+import type {
+	ArgumentIssue,
+	CommandHelp,
+	CommandHelpEntry,
+} from "../locales/types.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * コメントコマンドのレジストリ
+ * コマンドごとに名前・別名・引数スキーマ・使い方・ハンドラーを定義し、
+ * コマンドの判定・引数の検証・形式エラーと処理エラーの応答を共通化する
+ */
+
+/**
+ * コメントしたPRの作成者・タイトル
+ */
+export interface CommentedPullRequest {
+	/** 作成者のユーザーID */
+	author: string;
+	title: string;
+}
+
+/**
+ * コマンドを実行するPRコメントの情報
+ */
+export interface CommandContext {
+	owner: string;
+	repo: string;
+	prNumber: number;
+	accountId: string;
+	/** コメント本文（先頭が別名の場合もコマンド名に揃えたもの） */
+	commentBody: string;
+	installationId: number;
+	/** 応答の言語 */
+	language: Language;
+	/** リポジトリの既定言語 */
+	repositoryLanguage?: Language;
+	/** リポジトリでクイズのスキップを許可するか */
+	allowSkip: boolean;
+	/** コメントしたPRの作成者・タイトル（呼び出し元が渡した場合のみ） */
+	pullRequest?: CommentedPullRequest;
+	/** PRにコメントで応答する */
+	reply: (message: string) => Promise<void>;
+}
+
+/**
+ * コメントコマンドの定義
+ */
+export interface CommandDefinition<TArgs> {
+	/** コマンド名（`/` を含む） */
+	name: string;
+	/** 別名（`/` を含む） */
+	aliases: readonly string[];
+	/**
+	 * コメント本文を引数に変換する
+	 * @returns 形式を解釈できない場合は null
+	 */
+	parse: (commentBody: string) => unknown;
+	/** 引数スキーマ（parse の結果を検証してハンドラーに渡す） */
+	args: z.ZodType<TArgs>;
+	/** 使い方（/help と形式エラーの応答に使う） */
+	help: (language: Language) => CommandHelp;
+	handler: (context: CommandContext, args: TArgs) => Promise<void>;
+}
+
+/**
+ * コマンドの処理結果
+ * ignored=コマンドではない, handled=処理した, invalid_arguments=引数が不正（使い方を応答）,
+ * failed=処理中にエラー（エラーを応答）
+ */
+export type CommandStatus =
+	| "ignored"
+	| "handled"
+	| "invalid_arguments"
+	| "failed";
+
+/**
+ * レジストリに登録したコマンド（引数の型は execute の中に閉じる）
+ */
+export interface RegisteredCommand {
+	name: string;
+	aliases: readonly string[];
+	help: (language: Language) => CommandHelp;
+	/** 引数を解析・検証してハンドラーを実行する */
+	execute: (
+		context: CommandContext,
+	) => Promise<"handled" | "invalid_arguments">;
+}
+
+/**
+ * コマンドの使い方を差し込み項目にする
+ */
+export function toCommandHelpEntry(
+	command: RegisteredCommand,
+	language: Language,
+): CommandHelpEntry {
+	return {
+		name: command.name,
+		aliases: [...command.aliases],
+		...command.help(language),
+	};
+}
+
+/** 検証エラーに表示する値の最大文字数 */
+const MAX_ISSUE_VALUE_LENGTH = 50;
+
+/**
+ * 指定された値を表示用の文字列にする（配列はカンマ区切り、長い値は切り詰め）
+ */
+function formatIssueValue(input: unknown): string | undefined {
+	if (input === undefined) {
+		return undefined;
+	}
+	const text = (Array.isArray(input) ? input.join(",") : String(input))
+		// 値はコードスパンで囲んで表示するため、バッククォートを置き換える
+		.replaceAll("`", "'");
+	return text.length > MAX_ISSUE_VALUE_LENGTH
+		? `${text.substring(0, MAX_ISSUE_VALUE_LENGTH)}…`
+		: text;
+}
+
+/**
+ * 引数の検証エラーを項目ごとの表示用の情報にする
+ * 項目名はパスの最後の名前（配列の要素の場合は配列の名前）
+ */
+function toArgumentIssues(error: z.ZodError): ArgumentIssue[] {
+	return error.issues.flatMap((issue): ArgumentIssue[] => {
+		const key = String(
+			issue.path.findLast((segment) => typeof segment !== "number") ?? "",
+		);
+		const base = { key, message: issue.message };
+
+		switch (issue.code) {
+			case "invalid_value":
+				return [
+					{
+						...base,
+						kind: "invalid_value",
+						value: formatIssueValue(issue.input),
+						allowed: issue.values.map(String),
+					},
+				];
+			case "unrecognized_keys":
+				return issue.keys.map((k) => ({
+					...base,
+					kind: "unknown_key",
+					key: k,
+				}));
+			case "invalid_key":
+				return [
+					{
+						...base,
+						kind: "unknown_key",
+						allowed: issue.issues.flatMap((keyIssue) =>
+							keyIssue.code === "invalid_value"
+								? keyIssue.values.map(String)
+								: [],
+						),
+					},
+				];
+			case "too_big":
+			case "too_small": {
+				const origin =
+					issue.origin === "string"
+						? "string"
+						: issue.origin === "array"
+							? "array"
+							: "number";
+				return [
+					{
+						...base,
+						kind: issue.code,
+						value: formatIssueValue(issue.input),
+						limit: Number(
+							issue.code === "too_big" ? issue.maximum : issue.minimum,
+						),
+						origin,
+						size:
+							origin !== "number" &&
+							(typeof issue.input === "string" || Array.isArray(issue.input))
+								? issue.input.length
+								: undefined,
+					},
+				];
+			}
+			case "invalid_type":
+				return [
+					{
+						...base,
+						kind: "invalid_type",
+						value: formatIssueValue(issue.input),
+						expected: issue.expected,
+					},
+				];
+			default:
+				return [{ ...base, kind: "other" }];
+		}
+	});
+}
+
+/**
+ * コマンドを定義する
+ */
+export function defineCommand<TArgs>(
+	definition: CommandDefinition<TArgs>,
+): RegisteredCommand {
+	const command: RegisteredCommand = {
+		name: definition.name,
+		aliases: definition.aliases,
+		help: definition.help,
+		execute: async (context) => {
+			const raw = definition.parse(context.commentBody);
+			// 検証エラーで指定された値を示せるように、入力値をエラーに含める
+			const parsed =
+				raw === null
+					? null
+					: definition.args.safeParse(raw, { reportInput: true });
+
+			if (!parsed?.success) {
+				const issues = parsed ? toArgumentIssues(parsed.error) : [];
+				logger.warn("Invalid command arguments", {
+					command: definition.name,
+					issues: issues.map((issue) => issue.message),
+				});
+				await context.reply(
+					getMessages(context.language).commands.invalidArguments({
+						command: toCommandHelpEntry(command, context.language),
+						issues,
+					}),
+				);
+				return "invalid_arguments";
+			}
+
+			await definition.handler(context, parsed.data);
+			return "handled";
+		},
+	};
+
+	return command;
+}
+
+/**
+ * コメントの先頭のコマンド名・別名から実行するコマンドを探す
+ * @returns コマンドと、先頭をコマンド名に揃えたコメント本文（該当しなければ null）
+ */
+export function findCommand(
+	commands: readonly RegisteredCommand[],
+	text: string,
+): { command: RegisteredCommand; commentBody: string } | null {
+	const trimmed = text.trim();
+	const token = trimmed.split(/\s/, 1)[0].toLowerCase();
+	const command = commands.find(
+		(c) => c.name === token || c.aliases.includes(token),
+	);
+	if (!command) {
+		return null;
+	}
+
+	return {
+		command,
+		commentBody: `${command.name}${trimmed.substring(token.length)}`,
+	};
+}
+
+/**
+ * コマンドを実行する
+ * ハンドラーのエラーはログに記録して汎用のエラーメッセージをコメントで応答し、
+ * 呼び出し元には処理結果として返す（エラーの内容はPRコメントに含めない）
+ */
+export async function executeCommand(
+	command: RegisteredCommand,
+	context: CommandContext,
+): Promise<{ status: CommandStatus; error?: string }> {
+	try {
+		return { status: await command.execute(context) };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		logger.error("Command failed", {
+			error,
+			command: command.name,
+			owner: context.owner,
+			repo: context.repo,
+			prNumber: context.prNumber,
+			accountId: context.accountId,
+		});
+
+		try {
+			await context.reply(
+				getMessages(context.language).commands.failed(command.name),
+			);
+		} catch (replyError) {
+			logger.error("Failed to post command error reply", {
+				error: replyError,
+				command: command.name,
+			});
+		}
+
+		return { status: "failed", error: message };
+	}
+}
@@ -0,0 +1,580 @@
+import { z } from "zod";
+import { env } from "../config/env.js";
+import { getMessages, resolveLanguage } from "../locales/index.js";
+import type { AnswerValue } from "../types/entities/answer.js";
+import type { Language } from "../types/index.js";
+import {
+	AnswerCommandSchema,
+	ExplainCommandSchema,
+	getProfileCommandHelp,
+	HintCommandSchema,
+	HistoryCommandSchema,
+	ProfileCommandSchema,
+	parseAnswerCommand,
+	parseExplainCommand,
+	parseHintCommand,
+	parseHistoryCommand,
+	parseProfileCommand,
+	parseQuizCommand,
+	parseSkipCommand,
+	QuizCommandSchema,
+	SkipCommandSchema,
+} from "../utils/commandParser.js";
+import { logger } from "../utils/logger.js";
+import {
+	formatInvalidAnswerMessage,
+	formatInvalidQuestionNumberMessage,
+	formatQuizNotFoundMessage,
+	handleAnswerCommand,
+	handleQuizSetAnswerCommand,
+} from "./answerCommandHandler.js";
+import {
+	type CommandStatus,
+	type CommentedPullRequest,
+	defineCommand,
+	executeCommand,
+	findCommand,
+	type RegisteredCommand,
+	toCommandHelpEntry,
+} from "./commandRegistry.js";
+import {
+	formatInvalidExplainQuestionNumberMessage,
+	handleExplainCommand,
+} from "./explainCommandHandler.js";
+import { getUserProfile } from "./firestore.js";
+import { fetchPRDiff, postPRComment } from "./github.js";
+import {
+	formatInvalidHintQuestionNumberMessage,
+	handleHintCommand,
+} from "./hintCommandHandler.js";
+import { handleHistoryCommand } from "./historyCommandHandler.js";
+import { handleProfileCommand } from "./profileCommandHandler.js";
+import { handleQuizCommand } from "./quizCommandHandler.js";
+import { describeAnswerValue, parseAnswerValue } from "./quizGrading.js";
+import { findQuizForAnswer, getAnswerTargetQuizzes } from "./quizLookup.js";
+import { handleSkipCommand } from "./skipCommandHandler.js";
+import { handleStatsCommand } from "./statsCommandHandler.js";
+
+/**
+ * PRコメントコマンド
+ * /answer・/hint・/explain・/skip・/quiz・/stats・/history・/profile・/help を登録し、
+ * /api/comment/process と Webhook の issue_comment の両方から同じ処理で実行する
+ */
+
+/**
+ * コマンドを処理するPRコメント
+ */
+export interface CommentCommandRequest {
+	owner: string;
+	repo: string;
+	prNumber: number;
+	accountId: string;
+	commentBody: string;
+	installationId: number;
+	/** リポジトリの既定言語（コメント投稿者のプロファイルに言語設定がない場合に使用） */
+	repositoryLanguage?: Language;
+	/** リポジトリでクイズのスキップを許可するか（省略時は許可） */
+	allowSkip?: boolean;
+	/** コメントしたPRの作成者・タイトル（/quiz でPRを初めて記録する場合に使う） */
+	pullRequest?: CommentedPullRequest;
+}
+
+/**
+ * コマンドの処理結果
+ */
+export interface CommentCommandResult {
+	/** 実行したコマンド名（コマンドでなければ null） */
+	command: string | null;
+	status: CommandStatus;
+	/** 処理中のエラー（status が failed の場合） */
+	error?: string;
+}
+
+const answerCommand = defineCommand({
+	name: "/answer",
+	aliases: ["/ans"],
+	parse: parseAnswerCommand,
+	args: AnswerCommandSchema,
+	help: (language) => getMessages(language).commandHelp.answer,
+	handler: async (context, selections) => {
+		const { owner, repo, prNumber, accountId, language } = context;
+
+		// PRに関連するクイズを検索
+		const quiz = await findQuizForAnswer(
+			context.commentBody,
+			owner,
+			repo,
+			prNumber,
+			accountId,
+		);
+		if (!quiz) {
+			logger.warn("Quiz not found for PR", { owner, repo, prNumber });
+			await context.reply(formatQuizNotFoundMessage(language));
+			return;
+		}
+
+		// クイズセットの場合はセット内の全問題が回答対象
+		const quizzes = await getAnswerTargetQuizzes(quiz);
+
+		// 問題番号の省略は見つかったクイズへの回答として扱う
+		const numbered = selections.map((s) => ({
+			questionNumber: s.questionNumber ?? quiz.questionNumber ?? 1,
+			raw: s.value,
+		}));
+
+		if (numbered.some((a) => a.questionNumber > quizzes.length)) {
+			logger.warn("Invalid question number", {
+				selections,
+				questionCount: quizzes.length,
+			});
+			await context.reply(
+				formatInvalidQuestionNumberMessage(quizzes.length, language),
+			);
+			return;
+		}
+
+		// 問題形式に合わせて回答を解析
+		const answers: Array<{ questionNumber: number; value: AnswerValue }> = [];
+		for (const { questionNumber, raw } of numbered) {
+			const target =
+				quizzes.find((q) => (q.questionNumber ?? 1) === questionNumber) ?? quiz;
+			if (target.status === "skipped") {
+				await context.reply(getMessages(language).skip.answerSkipped);
+				return;
+			}
+
+			const value = parseAnswerValue(target, raw);
+
+			if (!value) {
+				logger.warn("Answer does not match question type", {
+					quizId: target.quizId,
+					questionType: target.questionType,
+					rawLength: raw.length,
+				});
+				await context.reply(formatInvalidAnswerMessage(target, language));
+				return;
+			}
+
+			answers.push({ questionNumber, value });
+		}
+
+		const result =
+			quizzes.length === 1
+				? await handleAnswerCommand(accountId, quiz, answers[0].value, language)
+				: await handleQuizSetAnswerCommand(
+						accountId,
+						quizzes,
+						answers,
+						language,
+					);
+		await context.reply(result.message);
+
+		logger.info("Answer command completed", {
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			quizId: quiz.quizId,
+			answers: answers.map(({ questionNumber, value }) => ({
+				questionNumber,
+				...describeAnswerValue(value),
+			})),
+			success: result.success,
+		});
+	},
+});
+
+const hintCommand = defineCommand({
+	name: "/hint",
+	aliases: [],
+	parse: parseHintCommand,
+	args: HintCommandSchema,
+	help: (language) => getMessages(language).commandHelp.hint,
+	handler: async (context, command) => {
+		const { owner, repo, prNumber, accountId, language } = context;
+
+		// コメントしたユーザーに出題したクイズを探す
+		const quiz = await findQuizForAnswer(
+			context.commentBody,
+			owner,
+			repo,
+			prNumber,
+			accountId,
+		);
+		if (!quiz) {
+			logger.warn("Quiz not found for hint", { owner, repo, prNumber });
+			await context.reply(formatQuizNotFoundMessage(language));
+			return;
+		}
+
+		// クイズセットの場合は問題番号で対象を選ぶ（省略時は見つかったクイズ）
+		let target = quiz;
+		if (command.questionNumber !== null) {
+			const quizzes = await getAnswerTargetQuizzes(quiz);
+			const numbered = quizzes.find(
+				(q) => (q.questionNumber ?? 1) === command.questionNumber,
+			);
+			if (!numbered) {
+				await context.reply(
+					formatInvalidHintQuestionNumberMessage(quizzes.length, language),
+				);
+				return;
+			}
+			target = numbered;
+		}
+
+		const result = await handleHintCommand(accountId, target, language);
+		await context.reply(result.message);
+
+		logger.info("Hint command completed", {
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			quizId: target.quizId,
+			status: result.status,
+			hintsRevealed: result.hintsRevealed,
+		});
+	},
+});
+
+const explainCommand = defineCommand({
+	name: "/explain",
+	aliases: [],
+	parse: parseExplainCommand,
+	args: ExplainCommandSchema,
+	help: (language) => getMessages(language).commandHelp.explain,
+	handler: async (context, command) => {
+		const { owner, repo, prNumber, accountId, installationId, language } =
+			context;
+
+		// コメントしたユーザーに出題したクイズを探す
+		const quiz = await findQuizForAnswer(
+			context.commentBody,
+			owner,
+			repo,
+			prNumber,
+			accountId,
+		);
+		if (!quiz) {
+			logger.warn("Quiz not found for explain", { owner, repo, prNumber });
+			await context.reply(formatQuizNotFoundMessage(language));
+			return;
+		}
+
+		// クイズセットの場合は問題番号で対象を選ぶ（省略時は見つかったクイズ）
+		let target = quiz;
+		if (command.questionNumber !== null) {
+			const quizzes = await getAnswerTargetQuizzes(quiz);
+			const numbered = quizzes.find(
+				(q) => (q.questionNumber ?? 1) === command.questionNumber,
+			);
+			if (!numbered) {
+				await context.reply(
+					formatInvalidExplainQuestionNumberMessage(quizzes.length, language),
+				);
+				return;
+			}
+			target = numbered;
+		}
+
+		// 差分は保存していないため取得し直す（取得できなくても問題と解説だけで回答する）
+		let diff = "";
+		try {
+			diff = await fetchPRDiff(owner, repo, prNumber, installationId);
+		} catch (error) {
+			logger.warn("Failed to fetch PR diff for explain, answering without it", {
+				owner,
+				repo,
+				prNumber,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+
+		const result = await handleExplainCommand(
+			accountId,
+			target,
+			command.question,
+			diff,
+			language,
+		);
+		await context.reply(result.message);
+
+		logger.info("Explain command completed", {
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			quizId: target.quizId,
+			status: result.status,
+			remaining: result.remaining,
+		});
+	},
+});
+
+const skipCommand = defineCommand({
+	name: "/skip",
+	aliases: [],
+	parse: parseSkipCommand,
+	args: SkipCommandSchema,
+	help: (language) => getMessages(language).commandHelp.skip,
+	handler: async (context, { reason }) => {
+		const { owner, repo, prNumber, accountId, language } = context;
+
+		// コメントしたユーザーに出題したクイズを探す
+		const quiz = await findQuizForAnswer(
+			context.commentBody,
+			owner,
+			repo,
+			prNumber,
+			accountId,
+		);
+		if (!quiz) {
+			logger.warn("Quiz not found for skip", { owner, repo, prNumber });
+			await context.reply(formatQuizNotFoundMessage(language));
+			return;
+		}
+
+		const result = await handleSkipCommand(
+			accountId,
+			quiz,
+			reason,
+			context.allowSkip,
+			language,
+		);
+		await context.reply(result.message);
+
+		logger.info("Skip command completed", {
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			quizId: quiz.quizId,
+			status: result.status,
+			skipped: result.skipped.length,
+		});
+	},
+});
+
+const quizCommand = defineCommand({
+	name: "/quiz",
+	aliases: [],
+	parse: parseQuizCommand,
+	args: QuizCommandSchema,
+	help: (language) => getMessages(language).commandHelp.quiz,
+	handler: async (context, { category, difficulty }) => {
+		const { owner, repo, prNumber, accountId } = context;
+
+		const result = await handleQuizCommand(
+			{
+				owner,
+				repo,
+				prNumber,
+				installationId: context.installationId,
+				accountId,
+				pullRequest: context.pullRequest,
+				target: {
+					category: category ?? undefined,
+					difficulty: difficulty ?? undefined,
+				},
+				repositoryLanguage: context.repositoryLanguage,
+			},
+			context.language,
+		);
+		await context.reply(result.message);
+
+		logger.info("Quiz command completed", {
+			owner,
+			repo,
+			prNumber,
+			accountId,
+			status: result.status,
+			quizIds: result.quizzes.map((q) => q.quizId),
+		});
+	},
+});
+
+const statsCommand = defineCommand({
+	name: "/stats",
+	aliases: [],
+	parse: () => ({}),
+	args: z.object({}),
+	help: (language) => getMessages(language).commandHelp.stats,
+	handler: async (context) => {
+		const result = await handleStatsCommand(
+			context.accountId,
+			context.language,
+		);
+		await context.reply(result.message);
+
+		logger.info("Stats command completed", {
+			owner: context.owner,
+			repo: context.repo,
+			prNumber: context.prNumber,
+			accountId: context.accountId,
+			status: result.status,
+		});
+	},
+});
+
+const historyCommand = defineCommand({
+	name: "/history",
+	aliases: [],
+	parse: parseHistoryCommand,
+	args: HistoryCommandSchema,
+	help: (language) => getMessages(language).commandHelp.history,
+	handler: async (context, { limit }) => {
+		const result = await handleHistoryCommand(
+			context.accountId,
+			limit,
+			context.language,
+		);
+		await context.reply(result.message);
+
+		logger.info("History command completed", {
+			owner: context.owner,
+			repo: context.repo,
+			prNumber: context.prNumber,
+			accountId: context.accountId,
+			count: result.count,
+		});
+	},
+});
+
+const profileCommand = defineCommand({
+	name: "/profile",
+	aliases: [],
+	parse: parseProfileCommand,
+	args: ProfileCommandSchema,
+	help: (language) => getMessages(language).commandHelp.profile,
+	handler: async (context, command) => {
+		// 空のコマンドはパラメータの詳しい使い方を表示
+		if (command.action === "help") {
+			await context.reply(getProfileCommandHelp(context.language));
+			return;
+		}
+
+		const result = await handleProfileCommand(
+			context.accountId,
+			command,
+			context.repositoryLanguage,
+		);
+		await context.reply(result.message);
+
+		logger.info("Profile command completed", {
+			owner: context.owner,
+			repo: context.repo,
+			prNumber: context.prNumber,
+			accountId: context.accountId,
+			action: command.action,
+			status: result.status,
+		});
+	},
+});
+
+const helpCommand = defineCommand({
+	name: "/help",
+	aliases: ["/commands"],
+	parse: (commentBody) => {
+		const [, topic] = commentBody.trim().split("\n")[0].split(/\s+/);
+		return { topic: topic ? topic.toLowerCase() : null };
+	},
+	args: z.object({ topic: z.string().nullable() }),
+	help: (language) => getMessages(language).commandHelp.help,
+	handler: async (context, { topic }) => {
+		const messages = getMessages(context.language).commands;
+		const entries = COMMENT_COMMANDS.map((c) =>
+			toCommandHelpEntry(c, context.language),
+		);
+
+		if (topic === null) {
+			await context.reply(messages.list(entries));
+			return;
+		}
+
+		// `/help answer` と `/help /answer` のどちらでも指定できる
+		const found = findCommand(
+			COMMENT_COMMANDS,
+			topic.startsWith("/") ? topic : `/${topic}`,
+		);
+		await context.reply(
+			found
+				? messages.detail(toCommandHelpEntry(found.command, context.language))
+				: messages.unknownHelpTopic(topic, entries),
+		);
+	},
+});
+
+/** 登録済みのコマンド（/help の一覧はこの順に表示する） */
+const COMMENT_COMMANDS: readonly RegisteredCommand[] = [
+	answerCommand,
+	hintCommand,
+	explainCommand,
+	skipCommand,
+	quizCommand,
+	statsCommand,
+	historyCommand,
+	profileCommand,
+	helpCommand,
+];
+
+/**
+ * コメント投稿者への応答言語を決定する
+ * プロファイルの言語設定を優先し、取得できない場合はリポジトリの既定言語を使う
+ */
+async function resolveCommenterLanguage(
+	accountId: string,
+	repositoryLanguage?: Language,
+): Promise<Language> {
+	try {
+		const profile = await getUserProfile(accountId);
+		return resolveLanguage(profile?.language, repositoryLanguage);
+	} catch (error) {
+		logger.warn("Failed to load profile language, using repository default", {
+			accountId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return resolveLanguage(repositoryLanguage);
+	}
+}
+
+/**
+ * PRコメントのコマンドを処理する
+ * 登録されていないコマンド・コマンドでないコメントは何もしない
+ */
+export async function dispatchCommentCommand(
+	request: CommentCommandRequest,
+): Promise<CommentCommandResult> {
+	const found = findCommand(COMMENT_COMMANDS, request.commentBody);
+	if (!found) {
+		return { command: null, status: "ignored" };
+	}
+
+	const { owner, repo, prNumber, installationId } = request;
+	const language = await resolveCommenterLanguage(
+		request.accountId,
+		request.repositoryLanguage,
+	);
+
+	logger.info("Command detected", {
+		command: found.command.name,
+		owner,
+		repo,
+		prNumber,
+		accountId: request.accountId,
+	});
+
+	const { status, error } = await executeCommand(found.command, {
+		...request,
+		commentBody: found.commentBody,
+		language,
+		allowSkip: request.allowSkip ?? true,
+		reply: async (message) => {
+			if (env.BOT_APP_ID && env.BOT_APP_PRIVATE_KEY) {
+				await postPRComment(owner, repo, prNumber, message, installationId);
+			}
+		},
+	});
+
+	return { command: found.command.name, status, error };
+}
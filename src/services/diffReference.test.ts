@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { DiffReference } from "../types/entities/quiz.js";
+import { parseUnifiedDiff } from "../utils/diffParser.js";
+import {
+	hunkToDiffReference,
+	isReferenceInHunk,
+	resolveDiffReference,
+} from "./diffReference.js";
+
+// 変更前 10-13行目 / 変更後 10-15行目
+const DIFF = [
+	"diff --git a/src/user.ts b/src/user.ts",
+	"--- a/src/user.ts",
+	"+++ b/src/user.ts",
+	"@@ -10,4 +10,6 @@",
+	" const user = await findUser(id);",
+	"-if (!user) return;",
+	"+if (!user) {",
+	"+\tthrow new NotFoundError();",
+	"+}",
+	" return user;",
+	" }",
+].join("\n");
+
+const [hunk] = parseUnifiedDiff(DIFF)[0].hunks;
+
+const reference = (overrides: Partial<DiffReference> = {}): DiffReference => ({
+	path: "src/user.ts",
+	side: "RIGHT",
+	startLine: 11,
+	endLine: 13,
+	...overrides,
+});
+
+describe("isReferenceInHunk", () => {
+	it("accepts lines that exist on the referenced side", () => {
+		expect(isReferenceInHunk(reference(), hunk)).toBe(true);
+		// 変更のない行はどちら側でも指せる
+		expect(
+			isReferenceInHunk(reference({ startLine: 10, endLine: 15 }), hunk),
+		).toBe(true);
+		expect(
+			isReferenceInHunk(
+				reference({ side: "LEFT", startLine: 11, endLine: 11 }),
+				hunk,
+			),
+		).toBe(true);
+	});
+
+	it("rejects lines outside the hunk, on the other side or in another file", () => {
+		expect(isReferenceInHunk(reference({ endLine: 16 }), hunk)).toBe(false);
+		expect(
+			isReferenceInHunk(
+				reference({ side: "LEFT", startLine: 13, endLine: 14 }),
+				hunk,
+			),
+		).toBe(false);
+		expect(isReferenceInHunk(reference({ path: "src/other.ts" }), hunk)).toBe(
+			false,
+		);
+	});
+});
+
+describe("resolveDiffReference", () => {
+	it("normalizes the path prefix and swapped lines", () => {
+		expect(
+			resolveDiffReference(
+				reference({ path: "b/src/user.ts", startLine: 13, endLine: 11 }),
+				[hunk],
+			),
+		).toEqual(reference());
+		expect(
+			resolveDiffReference(reference({ path: "./src/user.ts" }), [hunk]),
+		).toEqual(reference());
+	});
+
+	it("returns null for a missing or unmatched reference", () => {
+		expect(resolveDiffReference(undefined, [hunk])).toBeNull();
+		expect(resolveDiffReference(null, [hunk])).toBeNull();
+		expect(
+			resolveDiffReference(reference({ startLine: 1, endLine: 2 }), [hunk]),
+		).toBeNull();
+		expect(resolveDiffReference(reference(), [])).toBeNull();
+	});
+});
+
+describe("hunkToDiffReference", () => {
+	it("points at the added lines on the right side", () => {
+		expect(hunkToDiffReference(hunk)).toEqual(reference());
+	});
+
+	it("points at the removed lines on the left side for a deletion", () => {
+		const [deletion] = parseUnifiedDiff(
+			[
+				"diff --git a/src/user.ts b/src/user.ts",
+				"@@ -5,3 +5,1 @@",
+				" keep();",
+				"-drop();",
+				"-dropToo();",
+			].join("\n"),
+		)[0].hunks;
+
+		expect(hunkToDiffReference(deletion)).toEqual(
+			reference({ side: "LEFT", startLine: 6, endLine: 7 }),
+		);
+	});
+
+	it("returns null for a hunk without changed lines", () => {
+		const [contextOnly] = parseUnifiedDiff(
+			["diff --git a/a.ts b/a.ts", "@@ -1 +1 @@", " same();"].join("\n"),
+		)[0].hunks;
+
+		expect(hunkToDiffReference(contextOnly)).toBeNull();
+	});
+});
@@ -0,0 +1,125 @@
+import type { DiffReference } from "../types/entities/quiz.js";
+import type { DiffHunk } from "../utils/diffParser.js";
+
+/**
+ * 出題箇所（diffReference）の照合
+ * モデルが返した出題箇所を差分と照合し、レビューコメントを付けられる範囲か確認する
+ */
+
+/** 行番号の基準 */
+type DiffSide = DiffReference["side"];
+
+/**
+ * モデルが付けがちな a/ b/ ./ の接頭辞を除く
+ */
+function normalizeReferencePath(path: string): string {
+	return path.trim().replace(/^(?:[ab]\/|\.\/)/, "");
+}
+
+/**
+ * ハンク内で side 側に存在する行番号の一覧
+ * RIGHT は追加行と変更のない行、LEFT は削除行と変更のない行
+ */
+function getHunkLineNumbers(hunk: DiffHunk, side: DiffSide): Set<number> {
+	const lineNumbers = new Set<number>();
+	let oldLine = hunk.oldStart;
+	let newLine = hunk.newStart;
+
+	for (const line of hunk.lines) {
+		if (line.startsWith("+")) {
+			if (side === "RIGHT") lineNumbers.add(newLine);
+			newLine++;
+		} else if (line.startsWith("-")) {
+			if (side === "LEFT") lineNumbers.add(oldLine);
+			oldLine++;
+		} else if (line.startsWith(" ") || line === "") {
+			lineNumbers.add(side === "RIGHT" ? newLine : oldLine);
+			oldLine++;
+			newLine++;
+		}
+	}
+
+	return lineNumbers;
+}
+
+/**
+ * 出題箇所が指定のハンクに収まるか
+ */
+export function isReferenceInHunk(
+	reference: DiffReference,
+	hunk: DiffHunk,
+): boolean {
+	if (hunk.path !== reference.path) {
+		return false;
+	}
+
+	const lineNumbers = getHunkLineNumbers(hunk, reference.side);
+	return (
+		lineNumbers.has(reference.startLine) && lineNumbers.has(reference.endLine)
+	);
+}
+
+/**
+ * 出題箇所を差分と照合する
+ * パスを正規化し、開始・終了が逆なら入れ替えた上で、1つのハンクに収まる場合のみ有効とする
+ * @param reference モデルが返した出題箇所
+ * @param hunks モデルに渡したハンク
+ * @returns 照合できた出題箇所（できなければ null）
+ */
+export function resolveDiffReference(
+	reference: DiffReference | null | undefined,
+	hunks: DiffHunk[],
+): DiffReference | null {
+	if (!reference) {
+		return null;
+	}
+
+	const resolved: DiffReference = {
+		path: normalizeReferencePath(reference.path),
+		side: reference.side,
+		startLine: Math.min(reference.startLine, reference.endLine),
+		endLine: Math.max(reference.startLine, reference.endLine),
+	};
+
+	return hunks.some((hunk) => isReferenceInHunk(resolved, hunk))
+		? resolved
+		: null;
+}
+
+/**
+ * ハンクの変更行全体を指す出題箇所を作る
+ * 追加行があれば変更後（RIGHT）の追加行の範囲、削除のみなら変更前（LEFT）の削除行の範囲
+ * @returns 変更行がなければ null
+ */
+export function hunkToDiffReference(hunk: DiffHunk): DiffReference | null {
+	const side: DiffSide = hunk.added > 0 ? "RIGHT" : "LEFT";
+	const marker = side === "RIGHT" ? "+" : "-";
+	const changedLines: number[] = [];
+	let oldLine = hunk.oldStart;
+	let newLine = hunk.newStart;
+
+	for (const line of hunk.lines) {
+		if (line.startsWith(marker)) {
+			changedLines.push(side === "RIGHT" ? newLine : oldLine);
+		}
+		if (line.startsWith("+")) {
+			newLine++;
+		} else if (line.startsWith("-")) {
+			oldLine++;
+		} else if (line.startsWith(" ") || line === "") {
+			oldLine++;
+			newLine++;
+		}
+	}
+
+	if (changedLines.length === 0) {
+		return null;
+	}
+
+	return {
+		path: hunk.path,
+		side,
+		startLine: changedLines[0],
+		endLine: changedLines[changedLines.length - 1],
+	};
+}
@@ -0,0 +1,174 @@
+import { getMessages, resolveLanguage } from "../locales/index.js";
+import { MAX_FOLLOW_UPS_PER_USER, type Quiz } from "../types/entities/quiz.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { redactDiff } from "../utils/secretRedactor.js";
+import {
+	addQuizFollowUp,
+	getAnswerByUserAndQuiz,
+	releaseQuizFollowUp,
+	reserveQuizFollowUp,
+} from "./firestore.js";
+import { sanitizeAIOutput } from "./github.js";
+import { findQuizSourceHunks } from "./hunkSelector.js";
+import { getQuizGenerator, type QuizGenerator } from "./quizGenerator.js";
+import { formatAnswerValue, formatCorrectAnswer } from "./quizGrading.js";
+
+/**
+ * 追加質問コマンドハンドラー
+ * /explain コマンドで回答済みのクイズについて質問し、問題・解説・元の差分に基づいた回答を返す
+ * やり取りはクイズに保存し、同じユーザーの次の質問で文脈として使う
+ */
+
+/**
+ * 追加質問コマンド処理結果
+ * status: answered=回答した, not_answered=クイズに未回答,
+ *         limit_reached=質問数の上限, unavailable=プロバイダーが未対応（解説を再掲）,
+ *         not_recipient=他のユーザーに出題したクイズ
+ */
+export interface ExplainCommandResult {
+	status:
+		| "answered"
+		| "not_answered"
+		| "limit_reached"
+		| "unavailable"
+		| "not_recipient";
+	quiz: Quiz;
+	/** このクイズで残りの質問できる数 */
+	remaining: number;
+	message: string;
+}
+
+/**
+ * /explain コマンドを処理
+ * @param diff PRの差分（取得できなかった場合は空文字。クイズの出題元の hunk だけを渡す）
+ * @param language 応答メッセージの言語（省略時は既定言語）
+ */
+export async function handleExplainCommand(
+	accountId: string,
+	quiz: Quiz,
+	question: string,
+	diff: string,
+	language?: Language,
+	generator: QuizGenerator = getQuizGenerator(),
+): Promise<ExplainCommandResult> {
+	const messages = getMessages(language).explain;
+	const history = (quiz.followUps ?? []).filter(
+		(f) => f.accountId === accountId,
+	);
+	const remaining = Math.max(0, MAX_FOLLOW_UPS_PER_USER - history.length);
+
+	// 他のユーザーのクイズの解説を引き出せないようにする
+	if (quiz.accountId !== accountId) {
+		return {
+			status: "not_recipient",
+			quiz,
+			remaining: 0,
+			message: messages.notRecipient,
+		};
+	}
+
+	// 答えを考える前に解説を聞けないよう、回答後だけ受け付ける
+	const answer = await getAnswerByUserAndQuiz(quiz.quizId, accountId);
+	if (!answer) {
+		return {
+			status: "not_answered",
+			quiz,
+			remaining,
+			message: messages.notAnswered,
+		};
+	}
+
+	if (remaining === 0) {
+		return {
+			status: "limit_reached",
+			quiz,
+			remaining,
+			message: messages.limitReached(MAX_FOLLOW_UPS_PER_USER),
+		};
+	}
+
+	if (!generator.answerFollowUp) {
+		return {
+			status: "unavailable",
+			quiz,
+			remaining,
+			message: messages.unavailable(sanitizeAIOutput(quiz.explanation)),
+		};
+	}
+
+	// 同時に質問された場合も上限を超えてモデルを呼ばないよう、回答の生成前に枠を予約する
+	const reservationId = await reserveQuizFollowUp(quiz.quizId, accountId);
+	if (!reservationId) {
+		return {
+			status: "limit_reached",
+			quiz,
+			remaining: 0,
+			message: messages.limitReached(MAX_FOLLOW_UPS_PER_USER),
+		};
+	}
+
+	let reply: string;
+	try {
+		reply = sanitizeAIOutput(
+			await generator.answerFollowUp({
+				quiz,
+				diff: redactDiff(findQuizSourceHunks(diff, quiz)).text,
+				userAnswer: formatAnswerValue(quiz, answer, language),
+				correctAnswer: formatCorrectAnswer(quiz),
+				history: history.map(({ question, answer }) => ({ question, answer })),
+				question,
+				language: resolveLanguage(language),
+			}),
+		);
+	} catch (error) {
+		// 解放に失敗しても元のエラーを返す（予約は期限切れで数えなくなる）
+		try {
+			await releaseQuizFollowUp(quiz.quizId, reservationId);
+		} catch (releaseError) {
+			logger.warn("Failed to release follow-up reservation", {
+				quizId: quiz.quizId,
+				accountId,
+				error:
+					releaseError instanceof Error
+						? releaseError.message
+						: String(releaseError),
+			});
+		}
+		throw error;
+	}
+
+	await addQuizFollowUp(quiz.quizId, reservationId, {
+		accountId,
+		question,
+		answer: reply,
+		responder: generator.name,
+	});
+
+	logger.info("Explain command completed", {
+		accountId,
+		quizId: quiz.quizId,
+		followUps: history.length + 1,
+	});
+
+	return {
+		status: "answered",
+		quiz,
+		remaining: remaining - 1,
+		message: messages.answered({
+			question,
+			answer: reply,
+			remaining: remaining - 1,
+		}),
+	};
+}
+
+/**
+ * /explain コマンドの問題番号エラーメッセージ
+ */
+export function formatInvalidExplainQuestionNumberMessage(
+	questionCount: number,
+	language?: Language,
+): string {
+	return getMessages(language).explain.invalidQuestionNumber(questionCount);
+}
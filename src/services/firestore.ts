@@ -2,19 +2,56 @@ import { FieldValue, Firestore, Timestamp } from "@google-cloud/firestore";
 import { v4 as uuidv4 } from "uuid";
 import { env, isEmulator } from "../config/env.js";
 import type { Answer, CreateAnswerInput } from "../types/entities/answer.js";
+import type { GenerationCache } from "../types/entities/generationCache.js";
+import type {
+	CreateGenerationRunInput,
+	GenerationRun,
+} from "../types/entities/generationRun.js";
+import type { ItemStats, ItemStatsQuery } from "../types/entities/itemStats.js";
 import type {
 	CreateMergeRequestInput,
 	MergeRequest,
 } from "../types/entities/mergeRequest.js";
-import type { CreateQuizInput, Quiz } from "../types/entities/quiz.js";
+import {
+	type CreateQuizInput,
+	MAX_HINT_COUNT,
+	type Quiz,
+	type QuizDispute,
+	type QuizFollowUp,
+	type QuizFollowUpReservation,
+	type QuizHintUsage,
+	type QuizSkip,
+} from "../types/entities/quiz.js";
+import type { CreateQuizSetInput, QuizSet } from "../types/entities/quizSet.js";
+import { getAnswerScore } from "../types/entities/skillStats.js";
 import type { CreateUserInput, User } from "../types/entities/user.js";
-import type { Platform, QuizStatus } from "../types/index.js";
+import type { Difficulty, Platform, QuizStatus } from "../types/index.js";
 import { logger } from "../utils/logger.js";
+import { checkFollowUpQuota } from "./followUpQuota.js";
+import {
+	type FreeTextGrade,
+	gradeFreeTextByRubric,
+} from "./freeTextGrading.js";
+import {
+	decideOnDemandReservation,
+	removeReservation,
+} from "./onDemandQuota.js";
+import {
+	FREE_TEXT_PASS_SCORE,
+	getQuestionType,
+	gradeAnswer,
+} from "./quizGrading.js";
 
 // T011: Firestoreクライアント初期化とコレクション定義
 
 let firestoreInstance: Firestore | null = null;
 
+/**
+ * Emulator 使用時に GOOGLE_CLOUD_PROJECT が未設定の場合のプロジェクトID
+ * （未指定だと SDK がプロジェクトIDを問い合わせ、オフラインでは接続できないため）
+ */
+const EMULATOR_PROJECT_ID = "demo-mr-quiz-bot";
+
 export function getFirestore(): Firestore {
 	if (firestoreInstance) {
 		return firestoreInstance;
@@ -27,7 +64,9 @@ export function getFirestore(): Firestore {
 	}
 
 	firestoreInstance = new Firestore({
-		projectId: env.GOOGLE_CLOUD_PROJECT,
+		projectId:
+			env.GOOGLE_CLOUD_PROJECT ??
+			(isEmulator() ? EMULATOR_PROJECT_ID : undefined),
 		ignoreUndefinedProperties: true,
 	});
 
@@ -38,12 +77,17 @@ export function getFirestore(): Firestore {
 export const Collections = {
 	USERS: "users",
 	QUIZZES: "quizzes",
+	QUIZ_SETS: "quizSets",
 	ANSWERS: "answers",
 	MERGE_REQUESTS: "mergeRequests",
 	USER_PROFILES: "userProfiles",
 	SKILL_STATS: "skillStats",
 	GROWTH_MILESTONES: "growthMilestones",
 	TEAM_ANALYTICS: "teamAnalytics",
+	GENERATION_CACHE: "generationCache",
+	GENERATION_RUNS: "generationRuns",
+	ITEM_STATS: "itemStats",
+	ON_DEMAND_QUOTAS: "onDemandQuotas",
 } as const;
 
 // コレクション参照取得ヘルパー
@@ -55,6 +99,10 @@ export function getQuizzesCollection() {
 	return getFirestore().collection(Collections.QUIZZES);
 }
 
+export function getQuizSetsCollection() {
+	return getFirestore().collection(Collections.QUIZ_SETS);
+}
+
 export function getAnswersCollection() {
 	return getFirestore().collection(Collections.ANSWERS);
 }
@@ -79,6 +127,22 @@ export function getTeamAnalyticsCollection() {
 	return getFirestore().collection(Collections.TEAM_ANALYTICS);
 }
 
+export function getGenerationCacheCollection() {
+	return getFirestore().collection(Collections.GENERATION_CACHE);
+}
+
+export function getGenerationRunsCollection() {
+	return getFirestore().collection(Collections.GENERATION_RUNS);
+}
+
+export function getItemStatsCollection() {
+	return getFirestore().collection(Collections.ITEM_STATS);
+}
+
+export function getOnDemandQuotasCollection() {
+	return getFirestore().collection(Collections.ON_DEMAND_QUOTAS);
+}
+
 // =============================================================================
 // T019: ユーザー操作メソッド
 // =============================================================================
@@ -144,25 +208,65 @@ export async function createQuiz(input: CreateQuizInput): Promise<Quiz> {
 	const quizId = uuidv4();
 	const now = Timestamp.now();
 
-	const quiz: Quiz = {
+	const quiz = buildQuiz(quizId, input, now);
+
+	await getQuizzesCollection().doc(quizId).set(quiz);
+	logger.info("Quiz created", { quizId, mergeRequestId: input.mergeRequestId });
+
+	return quiz;
+}
+
+/**
+ * 生成結果からクイズドキュメントを組み立てる
+ */
+function buildQuiz(
+	quizId: string,
+	input: CreateQuizInput,
+	now: Timestamp,
+	setInfo?: { quizSetId: string; questionNumber: number },
+): Quiz {
+	return {
 		quizId,
 		mergeRequestId: input.mergeRequestId,
 		accountId: input.accountId,
+		audience: input.audience,
 		questionText: input.generatedQuiz.questionText,
+		questionType: input.generatedQuiz.questionType,
 		category: input.generatedQuiz.category,
 		difficulty: input.generatedQuiz.difficulty,
 		options: input.generatedQuiz.options,
-		correctAnswerIndex: input.generatedQuiz.correctAnswerIndex,
+		correctAnswerIndex: input.generatedQuiz.correctAnswerIndex ?? undefined,
+		correctAnswerIndices: input.generatedQuiz.correctAnswerIndices ?? undefined,
+		acceptedAnswers: input.generatedQuiz.acceptedAnswers ?? undefined,
+		modelAnswer: input.generatedQuiz.modelAnswer ?? undefined,
+		rubric: input.generatedQuiz.rubric ?? undefined,
 		explanation: input.generatedQuiz.explanation,
+		hints: normalizeHints(input.generatedQuiz.hints),
 		diffReference: input.generatedQuiz.diffReference,
+		sourceHunks: input.sourceHunks,
+		quality: input.quality,
+		personalization: input.personalization,
+		promptVersion: input.promptVersion,
+		onDemand: input.onDemand,
+		language: input.language,
+		quizSetId: setInfo?.quizSetId,
+		questionNumber: setInfo?.questionNumber,
 		status: "pending",
 		createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
 	};
+}
 
-	await getQuizzesCollection().doc(quizId).set(quiz);
-	logger.info("Quiz created", { quizId, mergeRequestId: input.mergeRequestId });
-
-	return quiz;
+/**
+ * 生成されたヒントを保存する形式にする（空のものを除き、最大数までにする）
+ */
+function normalizeHints(
+	hints: string[] | null | undefined,
+): string[] | undefined {
+	const normalized = (hints ?? [])
+		.map((hint) => hint.trim())
+		.filter((hint) => hint.length > 0)
+		.slice(0, MAX_HINT_COUNT);
+	return normalized.length > 0 ? normalized : undefined;
 }
 
 /**
@@ -189,36 +293,723 @@ export async function updateQuizStatus(
 	logger.info("Quiz status updated", { quizId, status });
 }
 
+/**
+ * クイズに異議を追加する（1ユーザー1件）
+ * @returns 追加した異議（同じユーザーが申し立て済みの場合は null）
+ */
+export async function addQuizDispute(
+	quizId: string,
+	accountId: string,
+	reason?: string,
+): Promise<QuizDispute | null> {
+	const docRef = getQuizzesCollection().doc(quizId);
+
+	const dispute = await getFirestore().runTransaction(async (transaction) => {
+		const doc = await transaction.get(docRef);
+		const disputes = (doc.data() as Quiz | undefined)?.disputes ?? [];
+		if (disputes.some((d) => d.accountId === accountId)) {
+			return null;
+		}
+
+		const now = Timestamp.now();
+		const added: QuizDispute = {
+			accountId,
+			reason,
+			createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+		};
+		transaction.update(docRef, { disputes: [...disputes, added] });
+		return added;
+	});
+
+	if (dispute) {
+		logger.info("Quiz dispute added", { quizId, accountId });
+	}
+
+	return dispute;
+}
+
+/**
+ * ユーザーにクイズのヒントを1件追加で表示したことを記録する
+ * @returns 表示済みのヒントの数（すべて表示済み・ヒントがない場合は null）
+ */
+export async function revealQuizHint(
+	quizId: string,
+	accountId: string,
+): Promise<number | null> {
+	const docRef = getQuizzesCollection().doc(quizId);
+
+	const hintsRevealed = await getFirestore().runTransaction(
+		async (transaction) => {
+			const doc = await transaction.get(docRef);
+			const quiz = doc.data() as Quiz | undefined;
+			const hintUsage = quiz?.hintUsage ?? [];
+			const current =
+				hintUsage.find((u) => u.accountId === accountId)?.hintsRevealed ?? 0;
+			if (current >= (quiz?.hints?.length ?? 0)) {
+				return null;
+			}
+
+			const now = Timestamp.now();
+			const updated: QuizHintUsage = {
+				accountId,
+				hintsRevealed: current + 1,
+				lastRevealedAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+			};
+			transaction.update(docRef, {
+				hintUsage: [
+					...hintUsage.filter((u) => u.accountId !== accountId),
+					updated,
+				],
+			});
+			return updated.hintsRevealed;
+		},
+	);
+
+	if (hintsRevealed) {
+		logger.info("Quiz hint revealed", { quizId, accountId, hintsRevealed });
+	}
+
+	return hintsRevealed;
+}
+
+/**
+ * 追加質問の枠を予約する（回答を生成する前に呼ぶ）
+ * ユーザーごとの上限は記録済みの質問と生成中の予約を合わせてトランザクション内で確認するため、
+ * 同時に質問されても上限を超えて回答を生成しない
+ * @returns 予約ID（ユーザーの追加質問が上限に達していた場合は null）
+ */
+export async function reserveQuizFollowUp(
+	quizId: string,
+	accountId: string,
+): Promise<string | null> {
+	const docRef = getQuizzesCollection().doc(quizId);
+
+	const reservationId = await getFirestore().runTransaction(
+		async (transaction) => {
+			const doc = await transaction.get(docRef);
+			const quiz = doc.data() as Quiz | undefined;
+			const now = Timestamp.now();
+			// 期限切れの予約は数えず、保存時に取り除く
+			const { activeReservations, allowed } = checkFollowUpQuota(
+				quiz,
+				accountId,
+				now.seconds,
+			);
+			if (!allowed) {
+				return null;
+			}
+
+			const reservation: QuizFollowUpReservation = {
+				reservationId: uuidv4(),
+				accountId,
+				reservedAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+			};
+			transaction.update(docRef, {
+				followUpReservations: [...activeReservations, reservation],
+			});
+			return reservation.reservationId;
+		},
+	);
+
+	logger.info("Quiz follow-up reservation", {
+		quizId,
+		accountId,
+		reserved: reservationId !== null,
+	});
+
+	return reservationId;
+}
+
+/**
+ * 予約した追加質問の枠を解放する（回答を生成できなかった場合）
+ */
+export async function releaseQuizFollowUp(
+	quizId: string,
+	reservationId: string,
+): Promise<void> {
+	const docRef = getQuizzesCollection().doc(quizId);
+
+	await getFirestore().runTransaction(async (transaction) => {
+		const doc = await transaction.get(docRef);
+		const reservations = (doc.data() as Quiz | undefined)?.followUpReservations;
+		if (!reservations?.some((r) => r.reservationId === reservationId)) {
+			return;
+		}
+
+		transaction.update(docRef, {
+			followUpReservations: reservations.filter(
+				(r) => r.reservationId !== reservationId,
+			),
+		});
+	});
+
+	logger.info("Quiz follow-up reservation released", { quizId, reservationId });
+}
+
+/**
+ * 予約した枠に追加質問とその回答を記録する
+ * 予約は記録と同じトランザクションで取り除く（上限は予約時に確認済み）
+ */
+export async function addQuizFollowUp(
+	quizId: string,
+	reservationId: string,
+	followUp: Omit<QuizFollowUp, "createdAt">,
+): Promise<void> {
+	const docRef = getQuizzesCollection().doc(quizId);
+
+	await getFirestore().runTransaction(async (transaction) => {
+		const doc = await transaction.get(docRef);
+		const quiz = doc.data() as Quiz | undefined;
+
+		const now = Timestamp.now();
+		transaction.update(docRef, {
+			followUps: [
+				...(quiz?.followUps ?? []),
+				{
+					...followUp,
+					createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+				},
+			],
+			followUpReservations: (quiz?.followUpReservations ?? []).filter(
+				(r) => r.reservationId !== reservationId,
+			),
+		});
+	});
+
+	logger.info("Quiz follow-up added", {
+		quizId,
+		accountId: followUp.accountId,
+	});
+}
+
+/** 1回のバッチ書き込みの最大件数（Firestoreの上限） */
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * クイズの実測の難易度を更新する
+ */
+export async function updateQuizCalibratedDifficulties(
+	updates: Array<{ quizId: string; calibratedDifficulty: Difficulty }>,
+): Promise<void> {
+	for (let i = 0; i < updates.length; i += MAX_BATCH_WRITES) {
+		const batch = getFirestore().batch();
+		for (const { quizId, calibratedDifficulty } of updates.slice(
+			i,
+			i + MAX_BATCH_WRITES,
+		)) {
+			batch.update(getQuizzesCollection().doc(quizId), {
+				calibratedDifficulty,
+			});
+		}
+		await batch.commit();
+	}
+
+	logger.info("Quiz difficulties calibrated", { count: updates.length });
+}
+
+/**
+ * クイズをスキップする（未回答のクイズのみ、クイズセットの全問題をスキップした場合はセットも更新）
+ * @param quizSetId 全問題をスキップするクイズセットID（一部の問題だけスキップする場合は省略）
+ * @returns スキップしたクイズID（既に回答・スキップ済みのクイズは含まない）
+ */
+export async function skipQuizzes(
+	quizIds: string[],
+	skip: Omit<QuizSkip, "skippedAt">,
+	quizSetId?: string,
+): Promise<string[]> {
+	const docRefs = quizIds.map((quizId) => getQuizzesCollection().doc(quizId));
+
+	const skipped = await getFirestore().runTransaction(async (transaction) => {
+		const docs = await transaction.getAll(...docRefs);
+		const now = Timestamp.now();
+		const record: QuizSkip = {
+			...skip,
+			skippedAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+		};
+
+		const pending = docs.filter(
+			(doc) => (doc.data() as Quiz | undefined)?.status === "pending",
+		);
+		for (const doc of pending) {
+			transaction.update(doc.ref, { status: "skipped", skip: record });
+		}
+		if (quizSetId && pending.length === docs.length) {
+			transaction.update(getQuizSetsCollection().doc(quizSetId), {
+				status: "skipped",
+			});
+		}
+		return pending.map((doc) => doc.id);
+	});
+
+	logger.info("Quizzes skipped", {
+		accountId: skip.accountId,
+		requested: quizIds.length,
+		skipped: skipped.length,
+	});
+
+	return skipped;
+}
+
+/**
+ * ユーザーがスキップしたクイズを取得する
+ */
+export async function getSkippedQuizzesByUser(
+	accountId: string,
+): Promise<Quiz[]> {
+	const snapshot = await getQuizzesCollection()
+		.where("skip.accountId", "==", accountId)
+		.get();
+
+	return snapshot.docs.map((doc) => doc.data() as Quiz);
+}
+
+/**
+ * 指定日時以降に作成されたクイズを取得する
+ * @param sinceSeconds 開始日時（UNIX秒）
+ */
+export async function getQuizzesCreatedSince(
+	sinceSeconds: number,
+): Promise<Quiz[]> {
+	const snapshot = await getQuizzesCollection()
+		.where("createdAt.seconds", ">=", sinceSeconds)
+		.get();
+
+	return snapshot.docs.map((doc) => doc.data() as Quiz);
+}
+
+// =============================================================================
+// 追加出題（/quiz）の回数制限
+// =============================================================================
+
+/**
+ * /quiz コマンドの生成枠の記録（予約した日時のUNIX秒）
+ * ドキュメントIDはユーザーごとが `user_<accountId>`、PRごとが `mr_<mergeRequestId>`
+ */
+interface OnDemandQuota {
+	reservedAt: number[];
+}
+
+/** /quiz コマンドの生成枠の予約結果 */
+export type OnDemandReservation =
+	| { status: "reserved"; reservedAt: number }
+	| { status: "user_limit_reached" | "pr_limit_reached" };
+
+function getOnDemandQuotaRefs(accountId: string, mergeRequestId: string) {
+	const collection = getOnDemandQuotasCollection();
+	return [
+		collection.doc(`user_${accountId}`),
+		collection.doc(`mr_${mergeRequestId}`),
+	] as const;
+}
+
+/**
+ * /quiz コマンドの生成枠を予約する
+ * ユーザーごと（期間内）・PRごとの上限の確認と記録を同じトランザクションで行うため、
+ * 同時にコメントされても上限を超えない
+ * @param input.userWindowSeconds ユーザーごとの上限を数える期間（秒）
+ */
+export async function reserveOnDemandGeneration(input: {
+	accountId: string;
+	mergeRequestId: string;
+	userLimit: number;
+	pullRequestLimit: number;
+	userWindowSeconds: number;
+}): Promise<OnDemandReservation> {
+	const [userRef, pullRequestRef] = getOnDemandQuotaRefs(
+		input.accountId,
+		input.mergeRequestId,
+	);
+
+	const reservation = await getFirestore().runTransaction(
+		async (transaction): Promise<OnDemandReservation> => {
+			const [userDoc, pullRequestDoc] = await transaction.getAll(
+				userRef,
+				pullRequestRef,
+			);
+			const now = Timestamp.now().seconds;
+			const decision = decideOnDemandReservation({
+				userReservedAt:
+					(userDoc.data() as OnDemandQuota | undefined)?.reservedAt ?? [],
+				pullRequestReservedAt:
+					(pullRequestDoc.data() as OnDemandQuota | undefined)?.reservedAt ??
+					[],
+				now,
+				userLimit: input.userLimit,
+				pullRequestLimit: input.pullRequestLimit,
+				userWindowSeconds: input.userWindowSeconds,
+			});
+			if (decision.status !== "reserved") {
+				return decision;
+			}
+
+			transaction.set(userRef, { reservedAt: decision.userReservedAt });
+			transaction.set(pullRequestRef, {
+				reservedAt: decision.pullRequestReservedAt,
+			});
+			return { status: "reserved", reservedAt: now };
+		},
+	);
+
+	logger.info("On-demand generation reservation", {
+		accountId: input.accountId,
+		mergeRequestId: input.mergeRequestId,
+		status: reservation.status,
+	});
+
+	return reservation;
+}
+
+/**
+ * 予約した /quiz コマンドの生成枠を解放する（生成できなかった場合は回数に数えない）
+ * @param reservedAt 予約時に返された日時
+ */
+export async function releaseOnDemandGeneration(input: {
+	accountId: string;
+	mergeRequestId: string;
+	reservedAt: number;
+}): Promise<void> {
+	const refs = getOnDemandQuotaRefs(input.accountId, input.mergeRequestId);
+
+	await getFirestore().runTransaction(async (transaction) => {
+		const docs = await transaction.getAll(...refs);
+		docs.forEach((doc, index) => {
+			const reservedAt = removeReservation(
+				(doc.data() as OnDemandQuota | undefined)?.reservedAt ?? [],
+				input.reservedAt,
+			);
+			if (reservedAt) {
+				transaction.set(refs[index], { reservedAt });
+			}
+		});
+	});
+
+	logger.info("On-demand generation reservation released", input);
+}
+
+// =============================================================================
+// クイズセット操作メソッド
+// =============================================================================
+
+/**
+ * クイズセットを作成する（含まれるクイズも同時に作成）
+ */
+export async function createQuizSet(
+	input: CreateQuizSetInput,
+): Promise<{ quizSet: QuizSet; quizzes: Quiz[] }> {
+	const quizSetId = uuidv4();
+	const now = Timestamp.now();
+
+	const quizzes = input.quizzes.map((item, i) =>
+		buildQuiz(
+			uuidv4(),
+			{
+				...item,
+				mergeRequestId: input.mergeRequestId,
+				accountId: input.accountId,
+			},
+			now,
+			{ quizSetId, questionNumber: i + 1 },
+		),
+	);
+
+	const quizSet: QuizSet = {
+		quizSetId,
+		mergeRequestId: input.mergeRequestId,
+		accountId: input.accountId,
+		quizIds: quizzes.map((q) => q.quizId),
+		status: "pending",
+		createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+	};
+
+	const batch = getFirestore().batch();
+	for (const quiz of quizzes) {
+		batch.set(getQuizzesCollection().doc(quiz.quizId), quiz);
+	}
+	batch.set(getQuizSetsCollection().doc(quizSetId), quizSet);
+	await batch.commit();
+
+	logger.info("QuizSet created", {
+		quizSetId,
+		mergeRequestId: input.mergeRequestId,
+		size: quizzes.length,
+	});
+
+	return { quizSet, quizzes };
+}
+
+/**
+ * クイズセットを取得する
+ */
+export async function getQuizSet(quizSetId: string): Promise<QuizSet | null> {
+	const doc = await getQuizSetsCollection().doc(quizSetId).get();
+
+	if (!doc.exists) {
+		return null;
+	}
+
+	return doc.data() as QuizSet;
+}
+
+/**
+ * クイズセットに含まれるクイズを問題番号順に取得する
+ */
+export async function getQuizzesBySet(quizSetId: string): Promise<Quiz[]> {
+	const snapshot = await getQuizzesCollection()
+		.where("quizSetId", "==", quizSetId)
+		.get();
+
+	return snapshot.docs
+		.map((doc) => doc.data() as Quiz)
+		.sort((a, b) => (a.questionNumber ?? 0) - (b.questionNumber ?? 0));
+}
+
+/**
+ * 指定したIDのクイズを指定順に取得する（存在しないIDは除く）
+ */
+export async function getQuizzesByIds(quizIds: string[]): Promise<Quiz[]> {
+	if (quizIds.length === 0) {
+		return [];
+	}
+
+	const docs = await getFirestore().getAll(
+		...quizIds.map((quizId) => getQuizzesCollection().doc(quizId)),
+	);
+
+	return docs.filter((doc) => doc.exists).map((doc) => doc.data() as Quiz);
+}
+
+// =============================================================================
+// クイズ生成キャッシュ操作メソッド
+// =============================================================================
+
+/**
+ * 生成キャッシュを保存する
+ */
+export async function saveGenerationCache(
+	input: Omit<GenerationCache, "createdAt">,
+): Promise<GenerationCache> {
+	const now = Timestamp.now();
+	const entry: GenerationCache = {
+		...input,
+		createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+	};
+
+	await getGenerationCacheCollection().doc(input.cacheKey).set(entry);
+	logger.info("Generation cache saved", {
+		cacheKey: input.cacheKey,
+		mergeRequestId: input.mergeRequestId,
+	});
+
+	return entry;
+}
+
+/**
+ * キャッシュキーで生成キャッシュを取得する
+ */
+export async function getGenerationCache(
+	cacheKey: string,
+): Promise<GenerationCache | null> {
+	const doc = await getGenerationCacheCollection().doc(cacheKey).get();
+
+	if (!doc.exists) {
+		return null;
+	}
+
+	return doc.data() as GenerationCache;
+}
+
+/**
+ * PR/MRで最後に生成したときのキャッシュを取得する
+ * @param reviewerAccountId レビュアー向けの場合の出題先（省略時は作成者向けのキャッシュ）
+ */
+export async function getLatestGenerationCache(
+	mergeRequestId: string,
+	reviewerAccountId?: string,
+): Promise<GenerationCache | null> {
+	const snapshot = await getGenerationCacheCollection()
+		.where("mergeRequestId", "==", mergeRequestId)
+		.get();
+
+	const entries = snapshot.docs
+		.map((doc) => doc.data() as GenerationCache)
+		.filter((entry) => entry.reviewerAccountId === reviewerAccountId);
+	if (entries.length === 0) {
+		return null;
+	}
+
+	return entries.reduce((latest, entry) =>
+		entry.createdAt.seconds > latest.createdAt.seconds ? entry : latest,
+	);
+}
+
+// =============================================================================
+// クイズ生成実行記録操作メソッド
+// =============================================================================
+
+/**
+ * 生成実行記録を作成する
+ */
+export async function createGenerationRun(
+	input: CreateGenerationRunInput,
+): Promise<GenerationRun> {
+	const runId = uuidv4();
+	const now = Timestamp.now();
+	const run: GenerationRun = {
+		runId,
+		...input,
+		createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+	};
+
+	await getGenerationRunsCollection().doc(runId).set(run);
+	logger.info("Generation run recorded", {
+		runId,
+		mergeRequestId: input.mergeRequestId,
+		promptVersion: input.promptVersion,
+		outcome: input.outcome,
+	});
+
+	return run;
+}
+
+/**
+ * 指定日時以降の生成実行記録を取得する
+ * @param sinceSeconds 開始日時（UNIX秒）
+ */
+export async function getGenerationRunsSince(
+	sinceSeconds: number,
+): Promise<GenerationRun[]> {
+	const snapshot = await getGenerationRunsCollection()
+		.where("createdAt.seconds", ">=", sinceSeconds)
+		.get();
+
+	return snapshot.docs.map((doc) => doc.data() as GenerationRun);
+}
+
+// =============================================================================
+// アイテム統計操作メソッド
+// =============================================================================
+
+/**
+ * アイテム統計を保存する（既存のものは置き換える）
+ */
+export async function saveItemStats(
+	items: Array<Omit<ItemStats, "calculatedAt">>,
+): Promise<void> {
+	const now = Timestamp.now();
+	const calculatedAt = { seconds: now.seconds, nanoseconds: now.nanoseconds };
+
+	for (let i = 0; i < items.length; i += MAX_BATCH_WRITES) {
+		const batch = getFirestore().batch();
+		for (const item of items.slice(i, i + MAX_BATCH_WRITES)) {
+			const stats: ItemStats = { ...item, calculatedAt };
+			batch.set(getItemStatsCollection().doc(item.itemId), stats);
+		}
+		await batch.commit();
+	}
+
+	logger.info("Item stats saved", { count: items.length });
+}
+
+/**
+ * アイテム統計を取得する（回答数の多い順）
+ */
+export async function getItemStats(
+	query: ItemStatsQuery,
+): Promise<ItemStats[]> {
+	let itemsQuery = getItemStatsCollection().where("kind", "==", query.kind);
+	if (query.category) {
+		itemsQuery = itemsQuery.where("category", "==", query.category);
+	}
+
+	const snapshot = await itemsQuery.get();
+
+	return snapshot.docs
+		.map((doc) => doc.data() as ItemStats)
+		.filter((item) => item.attempts >= query.minAttempts)
+		.sort((a, b) => b.attempts - a.attempts)
+		.slice(0, query.limit);
+}
+
 // =============================================================================
 // T021: 回答操作メソッド
 // =============================================================================
 
 /**
  * 回答を作成する
+ * クイズが未回答かの確認、回答の保存、クイズのステータス（answered）の更新は同じトランザクションで行う
+ * （同時に回答・スキップされても1件だけ保存し、スキップ・項目分析・プロンプト分析はステータスで判定するため）
+ * @param grade 記述式の採点結果（省略時は記述式もキーワード照合で採点する）
+ * @returns 保存した回答（既に回答・スキップ済みのクイズの場合は null）
  */
 export async function createAnswer(
 	input: CreateAnswerInput,
 	quiz: Quiz,
-): Promise<Answer> {
+	grade?: FreeTextGrade,
+): Promise<Answer | null> {
 	const answerId = uuidv4();
 	const now = Timestamp.now();
 
-	const isCorrect = input.selectedAnswerIndex === quiz.correctAnswerIndex;
+	// 記述式は得点が合格点以上なら正解とする
+	const freeTextGrade =
+		getQuestionType(quiz) === "free_text" && input.freeTextAnswer
+			? (grade ??
+				gradeFreeTextByRubric(quiz, input.freeTextAnswer, quiz.language))
+			: undefined;
+	const isCorrect = freeTextGrade
+		? freeTextGrade.score >= FREE_TEXT_PASS_SCORE
+		: gradeAnswer(quiz, input);
+
+	const answerDoc = getAnswersCollection().doc(answerId);
+	const quizDoc = getQuizzesCollection().doc(input.quizId);
+
+	const answer = await getFirestore().runTransaction(async (transaction) => {
+		const doc = await transaction.get(quizDoc);
+		const current = doc.data() as Quiz | undefined;
+		if (current?.status !== "pending") {
+			return null;
+		}
 
-	const answer: Answer = {
+		const saved: Answer = {
+			answerId,
+			quizId: input.quizId,
+			accountId: input.accountId,
+			mergeRequestId: quiz.mergeRequestId,
+			selectedAnswerIndex: input.selectedAnswerIndex,
+			selectedAnswerIndices: input.selectedAnswerIndices,
+			answerText: input.answerText,
+			freeTextAnswer: input.freeTextAnswer,
+			isCorrect,
+			score: freeTextGrade?.score,
+			feedback: freeTextGrade?.feedback,
+			grader: freeTextGrade?.grader,
+			hintsUsed:
+				current.hintUsage?.find((u) => u.accountId === input.accountId)
+					?.hintsRevealed ?? 0,
+			category: quiz.category,
+			difficulty: quiz.difficulty,
+			answeredAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
+		};
+		transaction.set(answerDoc, saved);
+		transaction.update(quizDoc, { status: "answered" });
+		return saved;
+	});
+
+	if (!answer) {
+		logger.info("Answer rejected: quiz is not pending", {
+			quizId: input.quizId,
+			accountId: input.accountId,
+		});
+		return null;
+	}
+
+	logger.info("Answer created", {
 		answerId,
 		quizId: input.quizId,
-		accountId: input.accountId,
-		mergeRequestId: quiz.mergeRequestId,
-		selectedAnswerIndex: input.selectedAnswerIndex,
 		isCorrect,
-		category: quiz.category,
-		difficulty: quiz.difficulty,
-		answeredAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
-	};
-
-	await getAnswersCollection().doc(answerId).set(answer);
-	logger.info("Answer created", { answerId, quizId: input.quizId, isCorrect });
+		score: freeTextGrade?.score,
+		grader: freeTextGrade?.grader,
+		hintsUsed: answer.hintsUsed,
+	});
 
 	return answer;
 }
@@ -235,6 +1026,35 @@ export async function getAnswersByUser(accountId: string): Promise<Answer[]> {
 	return snapshot.docs.map((doc) => doc.data() as Answer);
 }
 
+/**
+ * ユーザーのクイズへの回答を取得する
+ * @returns 回答（未回答の場合は null）
+ */
+export async function getAnswerByUserAndQuiz(
+	quizId: string,
+	accountId: string,
+): Promise<Answer | null> {
+	const snapshot = await getAnswersCollection()
+		.where("quizId", "==", quizId)
+		.where("accountId", "==", accountId)
+		.limit(1)
+		.get();
+
+	return snapshot.empty ? null : (snapshot.docs[0].data() as Answer);
+}
+
+/**
+ * 指定日時以降の回答を取得する
+ * @param sinceSeconds 開始日時（UNIX秒）
+ */
+export async function getAnswersSince(sinceSeconds: number): Promise<Answer[]> {
+	const snapshot = await getAnswersCollection()
+		.where("answeredAt.seconds", ">=", sinceSeconds)
+		.get();
+
+	return snapshot.docs.map((doc) => doc.data() as Answer);
+}
+
 // =============================================================================
 // T022: マージリクエスト操作メソッド
 // =============================================================================
@@ -287,6 +1107,32 @@ export async function createMergeRequest(
 	return mergeRequest;
 }
 
+/**
+ * クイズ生成時の差分の前処理結果（PR/MRのコンテキスト、出題対象・除外ファイル、マスク件数、
+ * プロンプトインジェクションのリスク）を記録する
+ */
+export async function updateMergeRequestDiffInfo(
+	mergeRequestId: string,
+	info: Pick<
+		MergeRequest,
+		| "diffSummary"
+		| "filesChanged"
+		| "filesIgnored"
+		| "redactionCount"
+		| "injectionRiskScore"
+		| "injectionSignals"
+	>,
+): Promise<void> {
+	await getMergeRequestsCollection().doc(mergeRequestId).update(info);
+	logger.info("MergeRequest diff info updated", {
+		mergeRequestId,
+		filesChanged: info.filesChanged?.length,
+		filesIgnored: info.filesIgnored?.length,
+		redactionCount: info.redactionCount,
+		injectionRiskScore: info.injectionRiskScore,
+	});
+}
+
 /**
  * マージリクエストを取得する
  */
@@ -302,6 +1148,27 @@ export async function getMergeRequest(
 	return doc.data() as MergeRequest;
 }
 
+/**
+ * 指定したIDのマージリクエストを取得する（存在しないIDは除く）
+ */
+export async function getMergeRequestsByIds(
+	mergeRequestIds: string[],
+): Promise<MergeRequest[]> {
+	if (mergeRequestIds.length === 0) {
+		return [];
+	}
+
+	const docs = await getFirestore().getAll(
+		...mergeRequestIds.map((mergeRequestId) =>
+			getMergeRequestsCollection().doc(mergeRequestId),
+		),
+	);
+
+	return docs
+		.filter((doc) => doc.exists)
+		.map((doc) => doc.data() as MergeRequest);
+}
+
 // =============================================================================
 // ユーザープロファイル操作メソッド
 // =============================================================================
@@ -330,6 +1197,7 @@ export async function upsertUserProfile(
 			...(input.selfAssessment !== undefined && {
 				selfAssessment: input.selfAssessment,
 			}),
+			...(input.language !== undefined && { language: input.language }),
 			updatedAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
 		};
 
@@ -348,6 +1216,7 @@ export async function upsertUserProfile(
 		yearsOfExperience: input.yearsOfExperience,
 		focusAreas: input.focusAreas || [],
 		selfAssessment: input.selfAssessment,
+		language: input.language,
 		createdAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
 		updatedAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
 	};
@@ -373,6 +1242,26 @@ export async function getUserProfile(
 	return doc.data() as import("../types/entities/userProfile.js").UserProfile;
 }
 
+/**
+ * ユーザープロファイルを削除する
+ * @returns 削除したプロファイル（存在しない場合は null）
+ */
+export async function deleteUserProfile(
+	accountId: string,
+): Promise<import("../types/entities/userProfile.js").UserProfile | null> {
+	const docRef = getUserProfilesCollection().doc(accountId);
+	const doc = await docRef.get();
+
+	if (!doc.exists) {
+		return null;
+	}
+
+	await docRef.delete();
+	logger.info("UserProfile deleted", { accountId });
+
+	return doc.data() as import("../types/entities/userProfile.js").UserProfile;
+}
+
 // =============================================================================
 // スキル統計操作メソッド
 // =============================================================================
@@ -398,6 +1287,8 @@ export async function updateSkillStats(
 	// 難易度を数値化
 	const difficultyMap = { easy: 1, medium: 2, hard: 3 };
 	const difficultyValue = difficultyMap[input.difficulty];
+	// 記述式は得点で部分点を数え、ヒントを使った正解は重みを下げて数える
+	const score = getAnswerScore(input.isCorrect, input.hintsUsed, input.score);
 
 	if (doc.exists) {
 		// 既存の統計を更新
@@ -406,7 +1297,9 @@ export async function updateSkillStats(
 		const newTotalQuizzes = existingData.totalQuizzes + 1;
 		const newCorrectCount =
 			existingData.correctCount + (input.isCorrect ? 1 : 0);
-		const newCorrectRate = newCorrectCount / newTotalQuizzes;
+		const newCorrectScore =
+			(existingData.correctScore ?? existingData.correctCount) + score;
+		const newCorrectRate = newCorrectScore / newTotalQuizzes;
 
 		// 平均難易度の更新（累積平均）
 		const newAverageDifficulty =
@@ -417,6 +1310,7 @@ export async function updateSkillStats(
 		await docRef.update({
 			totalQuizzes: newTotalQuizzes,
 			correctCount: newCorrectCount,
+			correctScore: newCorrectScore,
 			correctRate: newCorrectRate,
 			averageDifficulty: newAverageDifficulty,
 			lastAnsweredAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
@@ -436,7 +1330,8 @@ export async function updateSkillStats(
 			category: input.category,
 			totalQuizzes: 1,
 			correctCount: input.isCorrect ? 1 : 0,
-			correctRate: input.isCorrect ? 1 : 0,
+			correctScore: score,
+			correctRate: score,
 			averageDifficulty: difficultyValue,
 			lastAnsweredAt: { seconds: now.seconds, nanoseconds: now.nanoseconds },
 			weeklyTrend: 0,
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+	FOLLOW_UP_RESERVATION_TTL_SECONDS,
+	MAX_FOLLOW_UPS_PER_USER,
+	type QuizFollowUp,
+	type QuizFollowUpReservation,
+} from "../types/entities/quiz.js";
+import { checkFollowUpQuota } from "./followUpQuota.js";
+
+const NOW = 1_000_000;
+
+function followUp(accountId: string): QuizFollowUp {
+	return {
+		accountId,
+		question: "Why?",
+		answer: "Because.",
+		createdAt: { seconds: NOW - 600, nanoseconds: 0 },
+	} as QuizFollowUp;
+}
+
+function reservation(
+	accountId: string,
+	ageSeconds: number,
+): QuizFollowUpReservation {
+	return {
+		reservationId: `${accountId}-${ageSeconds}`,
+		accountId,
+		reservedAt: { seconds: NOW - ageSeconds, nanoseconds: 0 },
+	};
+}
+
+describe("checkFollowUpQuota", () => {
+	it("allows a first follow-up", () => {
+		expect(checkFollowUpQuota(undefined, "github_1", NOW)).toEqual({
+			activeReservations: [],
+			allowed: true,
+		});
+	});
+
+	it("counts recorded follow-ups and pending reservations of the user", () => {
+		const quiz = {
+			followUps: [followUp("github_1"), followUp("github_2")],
+			followUpReservations: [
+				reservation("github_1", 10),
+				reservation("github_2", 10),
+			],
+		};
+		const full = {
+			...quiz,
+			followUpReservations: [
+				...quiz.followUpReservations,
+				reservation("github_1", 20),
+			],
+		};
+
+		// 上限3件に対して記録済み1件 + 予約1件
+		expect(MAX_FOLLOW_UPS_PER_USER).toBe(3);
+		expect(checkFollowUpQuota(quiz, "github_1", NOW).allowed).toBe(true);
+		expect(checkFollowUpQuota(full, "github_1", NOW).allowed).toBe(false);
+		expect(checkFollowUpQuota(full, "github_2", NOW).allowed).toBe(true);
+	});
+
+	it("ignores and drops expired reservations", () => {
+		const expired = Array.from({ length: MAX_FOLLOW_UPS_PER_USER }, (_, i) =>
+			reservation("github_1", FOLLOW_UP_RESERVATION_TTL_SECONDS + i),
+		);
+		const active = reservation("github_2", 10);
+
+		expect(
+			checkFollowUpQuota(
+				{ followUpReservations: [...expired, active] },
+				"github_1",
+				NOW,
+			),
+		).toEqual({ activeReservations: [active], allowed: true });
+	});
+});
@@ -0,0 +1,43 @@
+import {
+	FOLLOW_UP_RESERVATION_TTL_SECONDS,
+	MAX_FOLLOW_UPS_PER_USER,
+	type Quiz,
+	type QuizFollowUpReservation,
+} from "../types/entities/quiz.js";
+
+/**
+ * 追加質問の枠の判定
+ * 記録済みの追加質問と生成中の予約から、ユーザーごとの上限に達しているかを判定する
+ * 予約の読み書きは firestore.ts のトランザクション内で行い、ここでは判定だけを行う
+ */
+
+/**
+ * 追加質問の枠の判定結果
+ */
+export interface FollowUpQuotaCheck {
+	/** 有効期限内の予約（期限切れの予約は保存時に取り除く） */
+	activeReservations: QuizFollowUpReservation[];
+	/** ユーザーが新しく予約できるか */
+	allowed: boolean;
+}
+
+/**
+ * 追加質問の枠を予約できるか判定する
+ * 記録済みの質問と有効期限内の予約を合わせてユーザーごとの上限と比べる
+ * @param nowSeconds 予約する日時（UNIX秒）
+ */
+export function checkFollowUpQuota(
+	quiz: Pick<Quiz, "followUps" | "followUpReservations"> | undefined,
+	accountId: string,
+	nowSeconds: number,
+): FollowUpQuotaCheck {
+	const activeReservations = (quiz?.followUpReservations ?? []).filter(
+		(r) =>
+			r.reservedAt.seconds > nowSeconds - FOLLOW_UP_RESERVATION_TTL_SECONDS,
+	);
+	const asked = [...(quiz?.followUps ?? []), ...activeReservations].filter(
+		(f) => f.accountId === accountId,
+	).length;
+
+	return { activeReservations, allowed: asked < MAX_FOLLOW_UPS_PER_USER };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Quiz } from "../types/entities/quiz.js";
+import {
+	gradeFreeTextAnswer,
+	gradeFreeTextByRubric,
+	RUBRIC_GRADER,
+} from "./freeTextGrading.js";
+import { localQuizGenerator } from "./localQuizGenerator.js";
+import type { QuizGenerator } from "./quizGenerator.js";
+
+const QUIZ: Pick<
+	Quiz,
+	"questionText" | "modelAnswer" | "rubric" | "explanation"
+> = {
+	questionText: "なぜ保存後にキャッシュを消すのですか？",
+	modelAnswer: "キャッシュが古いままになるため",
+	explanation: "保存後に古い値を返さないようにしている",
+	rubric: [
+		{
+			description: "キャッシュに触れる",
+			keywords: ["キャッシュ", "cache"],
+			points: 3,
+		},
+		{
+			description: "無効化に触れる",
+			keywords: ["無効化", "invalidate"],
+			points: 2,
+		},
+	],
+};
+
+/** 採点に対応したプロバイダー */
+function gradingGenerator(
+	gradeFreeText: NonNullable<QuizGenerator["gradeFreeText"]>,
+): QuizGenerator {
+	return { ...localQuizGenerator, name: "vertex", gradeFreeText };
+}
+
+describe("gradeFreeTextByRubric", () => {
+	it("scores by rubric keywords with localized feedback", () => {
+		expect(gradeFreeTextByRubric(QUIZ, "the cache goes stale", "en")).toEqual({
+			score: 0.6,
+			feedback: "Covered: キャッシュに触れる\nMissing: 無効化に触れる",
+			grader: RUBRIC_GRADER,
+		});
+	});
+});
+
+describe("gradeFreeTextAnswer", () => {
+	it("uses the rubric when the provider cannot grade", async () => {
+		const grade = await gradeFreeTextAnswer(
+			QUIZ,
+			"invalidate it",
+			"en",
+			localQuizGenerator,
+		);
+
+		expect(grade).toMatchObject({ score: 0.4, grader: RUBRIC_GRADER });
+	});
+
+	it("scores the criteria the model marked as met", async () => {
+		const gradeFreeText = vi.fn().mockResolvedValue({
+			criteriaMet: [false, true],
+			feedback: "Mention the cache.",
+		});
+
+		const grade = await gradeFreeTextAnswer(
+			QUIZ,
+			"消すため",
+			"ja",
+			gradingGenerator(gradeFreeText),
+		);
+
+		expect(grade).toEqual({
+			score: 0.4,
+			feedback: "Mention the cache.",
+			grader: "vertex",
+		});
+		expect(gradeFreeText).toHaveBeenCalledWith({
+			quiz: QUIZ,
+			answer: "消すため",
+			language: "ja",
+		});
+	});
+
+	it("falls back to the rubric when the grading call fails", async () => {
+		const grade = await gradeFreeTextAnswer(
+			QUIZ,
+			"キャッシュを無効化する",
+			"ja",
+			gradingGenerator(vi.fn().mockRejectedValue(new Error("quota"))),
+		);
+
+		expect(grade).toMatchObject({ score: 1, grader: RUBRIC_GRADER });
+	});
+
+	it("does not call the model without a rubric", async () => {
+		const gradeFreeText = vi.fn();
+
+		const grade = await gradeFreeTextAnswer(
+			{ ...QUIZ, rubric: [] },
+			"anything",
+			"en",
+			gradingGenerator(gradeFreeText),
+		);
+
+		expect(grade.score).toBe(0);
+		expect(gradeFreeText).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,103 @@
+import { getMessages, resolveLanguage } from "../locales/index.js";
+import type { Quiz, RubricCriterion } from "../types/entities/quiz.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+	type FreeTextGradingRequest,
+	getQuizGenerator,
+	type QuizGenerator,
+} from "./quizGenerator.js";
+import { matchRubric } from "./quizGrading.js";
+
+/**
+ * 記述式の採点サービス
+ * 回答を模範解答・採点基準に照らして 0.0-1.0 の得点と採点コメントにする
+ * プロバイダーが対応していればモデルで採点し、未対応・失敗時は採点基準のキーワード照合で採点する
+ */
+
+/** キーワード照合で採点した場合の採点方法名 */
+export const RUBRIC_GRADER = "rubric";
+
+/**
+ * 記述式の採点結果
+ */
+export interface FreeTextGrade {
+	/** 得点 (0.0-1.0) */
+	score: number;
+	/** 採点コメント */
+	feedback: string;
+	/** 採点方法（rubric: キーワード照合、それ以外は採点したプロバイダー名） */
+	grader: string;
+}
+
+/** 採点に必要なクイズの項目 */
+type GradingQuiz = FreeTextGradingRequest["quiz"];
+
+/**
+ * 満たした採点基準の配点から得点を計算する
+ */
+function scoreCriteria(rubric: RubricCriterion[], met: boolean[]): number {
+	const totalPoints = rubric.reduce((sum, c) => sum + c.points, 0);
+	const metPoints = rubric.reduce(
+		(sum, c, i) => sum + (met[i] ? c.points : 0),
+		0,
+	);
+	return totalPoints > 0 ? metPoints / totalPoints : 0;
+}
+
+/**
+ * 採点基準のキーワード照合で採点する（モデルを使わない）
+ */
+export function gradeFreeTextByRubric(
+	quiz: Pick<Quiz, "rubric">,
+	answer: string,
+	language?: Language,
+): FreeTextGrade {
+	const match = matchRubric(quiz.rubric ?? [], answer);
+
+	return {
+		score: match.score,
+		feedback: getMessages(language).answer.rubricFeedback({
+			met: match.met.map((c) => c.description),
+			missed: match.missed.map((c) => c.description),
+		}),
+		grader: RUBRIC_GRADER,
+	};
+}
+
+/**
+ * 記述式の回答を採点する
+ * 採点呼び出しの失敗で回答自体を止めないよう、失敗時はキーワード照合で採点する
+ * @param language 採点コメントの言語（省略時は既定言語）
+ */
+export async function gradeFreeTextAnswer(
+	quiz: GradingQuiz,
+	answer: string,
+	language?: Language,
+	generator: QuizGenerator = getQuizGenerator(),
+): Promise<FreeTextGrade> {
+	const rubric = quiz.rubric ?? [];
+	if (!generator.gradeFreeText || rubric.length === 0) {
+		return gradeFreeTextByRubric(quiz, answer, language);
+	}
+
+	try {
+		const opinion = await generator.gradeFreeText({
+			quiz,
+			answer,
+			language: resolveLanguage(language),
+		});
+
+		return {
+			score: scoreCriteria(rubric, opinion.criteriaMet),
+			feedback: opinion.feedback,
+			grader: generator.name,
+		};
+	} catch (error) {
+		logger.warn("Free-text grading call failed, using rubric keywords", {
+			provider: generator.name,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return gradeFreeTextByRubric(quiz, answer, language);
+	}
+}
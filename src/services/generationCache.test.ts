@@ -0,0 +1,191 @@
+import { Timestamp } from "@google-cloud/firestore";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { GenerationCache } from "../types/entities/generationCache.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import {
+	getGenerationCache,
+	getLatestGenerationCache,
+	getQuizzesByIds,
+} from "./firestore.js";
+import {
+	buildGenerationCacheKey,
+	countChangedLinesBetween,
+	findCachedGeneration,
+	fingerprintDiff,
+	type GenerationCacheKeyInput,
+	normalizeDiff,
+} from "./generationCache.js";
+
+vi.mock("./firestore.js", () => ({
+	getGenerationCache: vi.fn(),
+	getLatestGenerationCache: vi.fn(),
+	getQuizzesByIds: vi.fn(),
+}));
+
+const DIFF = [
+	"diff --git a/src/app.ts b/src/app.ts",
+	"index 1111111..2222222 100644",
+	"--- a/src/app.ts",
+	"+++ b/src/app.ts",
+	"@@ -1,2 +1,2 @@",
+	" const a = 1;",
+	"-const b = 2;",
+	"+const b = 3;",
+].join("\n");
+
+/** 同じ変更をリベースした差分（ハンク位置・index行・改行コード・行末空白が異なる） */
+const REBASED_DIFF = DIFF.replace(
+	"index 1111111..2222222",
+	"index 3333333..4444444",
+)
+	.replace("@@ -1,2 +1,2 @@", "@@ -10,2 +10,2 @@")
+	.replace("+const b = 3;", "+const b = 3;  ")
+	.replace(/\n/g, "\r\n");
+
+const QUIZ_ID = "eb6577c1-43cd-4c80-a5f5-081998520d88";
+
+const KEY: GenerationCacheKeyInput = {
+	mergeRequestId: "github_owner_repo_1",
+	generator: "local",
+	promptVersion: "3",
+	language: "ja",
+	diffHash: fingerprintDiff(DIFF).diffHash,
+};
+
+function cacheEntry(overrides: Partial<GenerationCache> = {}): GenerationCache {
+	return {
+		cacheKey: buildGenerationCacheKey(KEY),
+		mergeRequestId: KEY.mergeRequestId,
+		generator: KEY.generator,
+		promptVersion: KEY.promptVersion,
+		language: KEY.language,
+		quizIds: [QUIZ_ID],
+		changedLineHashes: fingerprintDiff(DIFF).changedLineHashes,
+		createdAt: Timestamp.now(),
+		...overrides,
+	};
+}
+
+const quiz = { quizId: QUIZ_ID } as Quiz;
+
+/** 変更行を count 行足した差分 */
+function diffWithExtraLines(count: number): string {
+	return [
+		DIFF.replace("@@ -1,2 +1,2 @@", `@@ -1,2 +1,${2 + count} @@`),
+		...Array.from({ length: count }, (_, i) => `+const extra${i} = ${i};`),
+	].join("\n");
+}
+
+describe("diff fingerprints", () => {
+	it("ignores hunk positions, index lines, line endings and trailing spaces", () => {
+		expect(normalizeDiff(REBASED_DIFF)).toBe(normalizeDiff(DIFF));
+		expect(fingerprintDiff(REBASED_DIFF)).toEqual(fingerprintDiff(DIFF));
+	});
+
+	it("changes when a changed line changes", () => {
+		const other = fingerprintDiff(
+			DIFF.replace("+const b = 3;", "+const b = 4;"),
+		);
+		const base = fingerprintDiff(DIFF);
+
+		expect(other.diffHash).not.toBe(base.diffHash);
+		expect(
+			countChangedLinesBetween(base.changedLineHashes, other.changedLineHashes),
+		).toBe(2);
+	});
+
+	it("counts lines added or removed between fingerprints", () => {
+		expect(countChangedLinesBetween(["a", "b"], ["b", "c", "d"])).toBe(3);
+		expect(countChangedLinesBetween(["a"], ["a"])).toBe(0);
+	});
+});
+
+describe("buildGenerationCacheKey", () => {
+	it("separates keys by generation conditions", () => {
+		const base = buildGenerationCacheKey(KEY);
+
+		expect(buildGenerationCacheKey({ ...KEY })).toBe(base);
+		expect(buildGenerationCacheKey({ ...KEY, promptVersion: "4" })).not.toBe(
+			base,
+		);
+		expect(buildGenerationCacheKey({ ...KEY, language: "en" })).not.toBe(base);
+		expect(buildGenerationCacheKey({ ...KEY, questionCount: 2 })).not.toBe(
+			base,
+		);
+		expect(
+			buildGenerationCacheKey({ ...KEY, reviewerAccountId: "github_42" }),
+		).not.toBe(base);
+	});
+});
+
+describe("findCachedGeneration", () => {
+	beforeEach(() => {
+		vi.mocked(getGenerationCache).mockReset().mockResolvedValue(null);
+		vi.mocked(getLatestGenerationCache).mockReset().mockResolvedValue(null);
+		vi.mocked(getQuizzesByIds).mockReset().mockResolvedValue([quiz]);
+	});
+
+	it("reuses the quizzes of an identical diff", async () => {
+		const entry = cacheEntry();
+		vi.mocked(getGenerationCache).mockResolvedValue(entry);
+
+		const cached = await findCachedGeneration(KEY, fingerprintDiff(DIFF));
+
+		expect(getGenerationCache).toHaveBeenCalledWith(
+			buildGenerationCacheKey(KEY),
+		);
+		expect(cached).toEqual({
+			entry,
+			quizzes: [quiz],
+			reason: "identical_diff",
+			changedLinesSinceLast: 0,
+		});
+	});
+
+	it("reuses the latest generation while the change is below the threshold", async () => {
+		vi.mocked(getLatestGenerationCache).mockResolvedValue(cacheEntry());
+		const diff = diffWithExtraLines(5);
+
+		const cached = await findCachedGeneration(
+			{ ...KEY, diffHash: fingerprintDiff(diff).diffHash },
+			fingerprintDiff(diff),
+		);
+
+		expect(cached).toMatchObject({
+			reason: "below_change_threshold",
+			changedLinesSinceLast: 5,
+		});
+	});
+
+	it("regenerates once the change reaches the threshold", async () => {
+		vi.mocked(getLatestGenerationCache).mockResolvedValue(cacheEntry());
+		const diff = diffWithExtraLines(20);
+
+		await expect(
+			findCachedGeneration(
+				{ ...KEY, diffHash: fingerprintDiff(diff).diffHash },
+				fingerprintDiff(diff),
+			),
+		).resolves.toBeNull();
+	});
+
+	it("regenerates when the generation conditions changed", async () => {
+		vi.mocked(getLatestGenerationCache).mockResolvedValue(
+			cacheEntry({ promptVersion: "2" }),
+		);
+
+		await expect(
+			findCachedGeneration(KEY, fingerprintDiff(DIFF)),
+		).resolves.toBeNull();
+	});
+
+	it("regenerates when a cached quiz no longer exists", async () => {
+		vi.mocked(getGenerationCache).mockResolvedValue(cacheEntry());
+		vi.mocked(getLatestGenerationCache).mockResolvedValue(cacheEntry());
+		vi.mocked(getQuizzesByIds).mockResolvedValue([]);
+
+		await expect(
+			findCachedGeneration(KEY, fingerprintDiff(DIFF)),
+		).resolves.toBeNull();
+	});
+});
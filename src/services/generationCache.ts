@@ -0,0 +1,226 @@
+import { createHash } from "node:crypto";
+import { env } from "../config/env.js";
+import type { GenerationCache } from "../types/entities/generationCache.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import type { Language } from "../types/index.js";
+import { parseUnifiedDiff } from "../utils/diffParser.js";
+import { logger } from "../utils/logger.js";
+import {
+	getGenerationCache,
+	getLatestGenerationCache,
+	getQuizzesByIds,
+} from "./firestore.js";
+
+/**
+ * クイズ生成キャッシュ
+ * 同じ差分（リベース等でハンク位置だけ変わったものを含む）への再生成を避け、
+ * 前回生成時から変更量が小さい場合も既存のクイズを返す
+ */
+
+/**
+ * 差分のフィンガープリント
+ */
+export interface DiffFingerprint {
+	/** 正規化した差分のSHA-256 */
+	diffHash: string;
+	/** 変更行（ファイルパス付き）のハッシュ（重複なし・ソート済み） */
+	changedLineHashes: string[];
+}
+
+/**
+ * キャッシュキーの構成要素
+ */
+export interface GenerationCacheKeyInput {
+	mergeRequestId: string;
+	generator: string;
+	promptVersion: string;
+	language: Language;
+	/** レビュアー向けの場合の出題先ユーザーID（作成者向けの場合は省略） */
+	reviewerAccountId?: string;
+	/** 明示指定された出題数（自動決定の場合は省略） */
+	questionCount?: number;
+	diffHash: string;
+}
+
+/**
+ * 再利用する生成結果
+ */
+export interface CachedGeneration {
+	entry: GenerationCache;
+	/** 保存済みのクイズ（出題順） */
+	quizzes: Quiz[];
+	/** 再利用の理由 */
+	reason: "identical_diff" | "below_change_threshold";
+	/** 前回生成時からの変更行数 */
+	changedLinesSinceLast: number;
+}
+
+function sha256(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * 差分を正規化する
+ * ハンクの行番号・index行・改行コード・行末の空白の違いは無視する
+ */
+export function normalizeDiff(diff: string): string {
+	return parseUnifiedDiff(diff.replace(/\r\n/g, "\n"))
+		.map((file) =>
+			[
+				`file ${file.oldPath} -> ${file.path}${file.isBinary ? " (binary)" : ""}`,
+				...file.hunks.flatMap((hunk) => [
+					"@@",
+					...hunk.lines.map((line) => line.trimEnd()),
+				]),
+			].join("\n"),
+		)
+		.join("\n");
+}
+
+/**
+ * 差分のフィンガープリントを計算する
+ */
+export function fingerprintDiff(diff: string): DiffFingerprint {
+	const files = parseUnifiedDiff(diff.replace(/\r\n/g, "\n"));
+	const changedLineHashes = new Set<string>();
+
+	for (const file of files) {
+		for (const hunk of file.hunks) {
+			for (const line of hunk.lines) {
+				if (line.startsWith("+") || line.startsWith("-")) {
+					changedLineHashes.add(
+						sha256(`${file.path}\n${line.trimEnd()}`).slice(0, 16),
+					);
+				}
+			}
+		}
+	}
+
+	return {
+		diffHash: sha256(normalizeDiff(diff)),
+		changedLineHashes: Array.from(changedLineHashes).sort(),
+	};
+}
+
+/**
+ * キャッシュキーを生成する
+ * レビュアー向けはレビュアーごとに別のキーにする（作成者向けのキーは従来どおり）
+ */
+export function buildGenerationCacheKey(
+	input: GenerationCacheKeyInput,
+): string {
+	return sha256(
+		[
+			input.mergeRequestId,
+			input.generator,
+			input.promptVersion,
+			input.language,
+			input.questionCount ?? "auto",
+			input.diffHash,
+			...(input.reviewerAccountId
+				? [`reviewer:${input.reviewerAccountId}`]
+				: []),
+		].join("\n"),
+	);
+}
+
+/**
+ * 2つのフィンガープリント間で変わった変更行の数を数える
+ */
+export function countChangedLinesBetween(
+	previous: string[],
+	current: string[],
+): number {
+	const previousSet = new Set(previous);
+	const currentSet = new Set(current);
+
+	let count = 0;
+	for (const hash of currentSet) {
+		if (!previousSet.has(hash)) count++;
+	}
+	for (const hash of previousSet) {
+		if (!currentSet.has(hash)) count++;
+	}
+	return count;
+}
+
+/**
+ * キャッシュのクイズを取得する（1問でも欠けていれば再利用しない）
+ */
+async function loadCachedQuizzes(
+	entry: GenerationCache,
+): Promise<Quiz[] | null> {
+	const quizzes = await getQuizzesByIds(entry.quizIds);
+	return quizzes.length === entry.quizIds.length ? quizzes : null;
+}
+
+/**
+ * 再利用できる生成結果を探す
+ * 1. キャッシュキーが一致する（正規化した差分とプロンプトバージョンが同じ）
+ * 2. 同じPR/MRの前回生成時から変更行数が QUIZ_REGENERATE_MIN_CHANGED_LINES 未満
+ */
+export async function findCachedGeneration(
+	key: GenerationCacheKeyInput,
+	fingerprint: DiffFingerprint,
+): Promise<CachedGeneration | null> {
+	const cacheKey = buildGenerationCacheKey(key);
+
+	const exact = await getGenerationCache(cacheKey);
+	if (exact) {
+		const quizzes = await loadCachedQuizzes(exact);
+		if (quizzes) {
+			return {
+				entry: exact,
+				quizzes,
+				reason: "identical_diff",
+				changedLinesSinceLast: 0,
+			};
+		}
+	}
+
+	const threshold = env.QUIZ_REGENERATE_MIN_CHANGED_LINES;
+	if (threshold === 0) {
+		return null;
+	}
+
+	const latest = await getLatestGenerationCache(
+		key.mergeRequestId,
+		key.reviewerAccountId,
+	);
+	// 生成条件が変わった場合は変更量に関係なく作り直す
+	if (
+		!latest ||
+		latest.generator !== key.generator ||
+		latest.promptVersion !== key.promptVersion ||
+		latest.language !== key.language
+	) {
+		return null;
+	}
+
+	const changedLinesSinceLast = countChangedLinesBetween(
+		latest.changedLineHashes,
+		fingerprint.changedLineHashes,
+	);
+
+	logger.info("Diff change since last generation", {
+		mergeRequestId: key.mergeRequestId,
+		changedLinesSinceLast,
+		threshold,
+	});
+
+	if (changedLinesSinceLast >= threshold) {
+		return null;
+	}
+
+	const quizzes = await loadCachedQuizzes(latest);
+	if (!quizzes) {
+		return null;
+	}
+
+	return {
+		entry: latest,
+		quizzes,
+		reason: "below_change_threshold",
+		changedLinesSinceLast,
+	};
+}
@@ -1,6 +1,15 @@
 import { App } from "@octokit/app";
 import { env } from "../config/env.js";
+import { getMessages, type Messages } from "../locales/index.js";
+import {
+	AppError,
+	PromptInjectionSuspectedError,
+} from "../middleware/error.js";
+import type { DiffReference } from "../types/entities/quiz.js";
+import type { Language, QuestionType } from "../types/index.js";
 import { logger } from "../utils/logger.js";
+import type { PullRequestContextInput } from "../utils/pullRequestContext.js";
+import { getAnswerFormatHint, getQuestionType } from "./quizGrading.js";
 
 /**
  * GitHub APIサービス
@@ -82,6 +91,50 @@ export async function fetchPRDiff(
 	}
 }
 
+/**
+ * PRのタイトル・説明・コミットメッセージを取得
+ * コミットメッセージは古い順に最大100件（プロンプトに含める際に長さを制限する）
+ * @param owner リポジトリオーナー
+ * @param repo リポジトリ名
+ * @param prNumber PR番号
+ * @param installationId GitHub App Installation ID
+ */
+export async function fetchPRContext(
+	owner: string,
+	repo: string,
+	prNumber: number,
+	installationId: number,
+): Promise<PullRequestContextInput> {
+	try {
+		const octokit = await getOctokit(installationId);
+
+		const pullRequest = await octokit.request(
+			"GET /repos/{owner}/{repo}/pulls/{pull_number}",
+			{ owner, repo, pull_number: prNumber },
+		);
+		const commits = await octokit.request(
+			"GET /repos/{owner}/{repo}/pulls/{pull_number}/commits",
+			{ owner, repo, pull_number: prNumber, per_page: 100 },
+		);
+
+		return {
+			title: pullRequest.data.title,
+			description: pullRequest.data.body ?? undefined,
+			commitMessages: commits.data.map((c) => c.commit.message),
+		};
+	} catch (error) {
+		logger.error("Failed to fetch PR context", {
+			error,
+			owner,
+			repo,
+			prNumber,
+		});
+		throw new Error(
+			`Failed to fetch PR context: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
 /**
  * PRにコメントを投稿
  * @param owner リポジトリオーナー
@@ -118,6 +171,136 @@ export async function postPRComment(
 	}
 }
 
+/**
+ * 出題箇所をレビューコメントAPIの行指定に変換する
+ * 1行だけの場合は start_line / start_side を付けない（GitHubの仕様）
+ */
+function toReviewCommentPosition(reference: DiffReference) {
+	return {
+		path: reference.path,
+		side: reference.side,
+		line: reference.endLine,
+		...(reference.startLine < reference.endLine
+			? { start_line: reference.startLine, start_side: reference.side }
+			: {}),
+	};
+}
+
+/**
+ * PRの差分の行にレビューコメントを投稿
+ * 行が差分に含まれない場合などはGitHubが 422 を返すため、呼び出し元で通常のコメントに切り替える
+ * @param owner リポジトリオーナー
+ * @param repo リポジトリ名
+ * @param prNumber PR番号
+ * @param body コメント本文（Markdown）
+ * @param commitId コメントを付けるコミットのSHA（PRのhead）
+ * @param reference コメントを付ける行
+ * @param installationId GitHub App Installation ID
+ * @returns コメントID
+ */
+export async function postPRReviewComment(
+	owner: string,
+	repo: string,
+	prNumber: number,
+	body: string,
+	commitId: string,
+	reference: DiffReference,
+	installationId: number,
+): Promise<number> {
+	logger.info(`Posting PR review comment: ${owner}/${repo}#${prNumber}`, {
+		reference,
+	});
+
+	try {
+		const octokit = await getOctokit(installationId);
+
+		const response = await octokit.request(
+			"POST /repos/{owner}/{repo}/pulls/{pull_number}/comments",
+			{
+				owner,
+				repo,
+				pull_number: prNumber,
+				body,
+				commit_id: commitId,
+				...toReviewCommentPosition(reference),
+			},
+		);
+
+		logger.info(`Successfully posted PR review comment: ${response.data.id}`);
+		return response.data.id;
+	} catch (error) {
+		logger.error("Failed to post PR review comment", {
+			error,
+			owner,
+			repo,
+			prNumber,
+			reference,
+		});
+		throw new Error(
+			`Failed to post PR review comment: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * PRに行コメント付きのレビューを投稿（event: COMMENT、承認・変更要求はしない）
+ * 行コメントのうち1つでも差分に含まれない行があるとレビュー全体が失敗する
+ * @param owner リポジトリオーナー
+ * @param repo リポジトリ名
+ * @param prNumber PR番号
+ * @param body レビュー本文（Markdown）
+ * @param commitId コメントを付けるコミットのSHA（PRのhead）
+ * @param comments 行コメント
+ * @param installationId GitHub App Installation ID
+ * @returns レビューID
+ */
+export async function postPRReview(
+	owner: string,
+	repo: string,
+	prNumber: number,
+	body: string,
+	commitId: string,
+	comments: Array<{ body: string; reference: DiffReference }>,
+	installationId: number,
+): Promise<number> {
+	logger.info(`Posting PR review: ${owner}/${repo}#${prNumber}`, {
+		comments: comments.length,
+	});
+
+	try {
+		const octokit = await getOctokit(installationId);
+
+		const response = await octokit.request(
+			"POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews",
+			{
+				owner,
+				repo,
+				pull_number: prNumber,
+				body,
+				commit_id: commitId,
+				event: "COMMENT",
+				comments: comments.map((comment) => ({
+					body: comment.body,
+					...toReviewCommentPosition(comment.reference),
+				})),
+			},
+		);
+
+		logger.info(`Successfully posted PR review: ${response.data.id}`);
+		return response.data.id;
+	} catch (error) {
+		logger.error("Failed to post PR review", {
+			error,
+			owner,
+			repo,
+			prNumber,
+		});
+		throw new Error(
+			`Failed to post PR review: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
 /**
  * PRコメントを更新
  * @param owner リポジトリオーナー
@@ -170,6 +353,31 @@ export function sanitizeAIOutput(text: string): string {
 	);
 }
 
+/**
+ * 問題形式に応じた選択肢の一覧をフォーマット（穴埋め・記述式の場合は空文字）
+ */
+function formatOptionsList(
+	questionType: QuestionType,
+	options: string[],
+	messages: Messages,
+): string {
+	if (questionType === "fill_in_blank" || questionType === "free_text") {
+		return "";
+	}
+
+	const optionsList = options
+		.map((opt, i) => `${i + 1}. ${sanitizeAIOutput(opt)}`)
+		.join("\n");
+	const lead =
+		questionType === "ordering"
+			? messages.quizComment.orderingOptionsLead
+			: questionType === "multi_select"
+				? messages.quizComment.multiSelectOptionsLead
+				: messages.quizComment.optionsLead;
+
+	return `${lead}\n${optionsList}`;
+}
+
 /**
  * クイズコメントをフォーマット
  * @param quizId クイズID
@@ -179,6 +387,8 @@ export function sanitizeAIOutput(text: string): string {
  * @param options 選択肢
  * @param quizUrl クイズ回答URL
  * @param showProfileGuide 初回ユーザー向けプロファイルガイドを表示するか
+ * @param questionType 問題形式
+ * @param language 表示言語（省略時は既定言語）
  * @returns フォーマット済みMarkdown
  */
 export function formatQuizComment(
@@ -189,85 +399,128 @@ export function formatQuizComment(
 	options: string[],
 	quizUrl: string,
 	showProfileGuide = false,
+	questionType: QuestionType = "multiple_choice",
+	language?: Language,
 ): string {
-	const safeQuestionText = sanitizeAIOutput(questionText);
-	const safeOptions = options.map((opt) => sanitizeAIOutput(opt));
-	const optionsList = safeOptions.map((opt, i) => `${i + 1}. ${opt}`).join("\n");
-
-	// プロファイルガイドセクション
-	const profileGuideSection = showProfileGuide
-		? `
-
----
-
-### 🆕 初めての方へ
-
-より最適なクイズを出題するために、プロファイル設定をお願いします（任意）：
-
-\`\`\`
-/profile experience=mid years=3 focus=security,performance
-\`\`\`
-
-**パラメータ:**
-- \`experience\`: junior / mid / senior
-- \`years\`: 経験年数（数値）
-- \`focus\`: 注力分野（最大5つ、カンマ区切り）
-  - bug_fix, performance, refactoring, security, logic
-- \`goal\`: キャリア目標（文字列、省略可）
-
-**例:**
-\`\`\`
-/profile experience=senior years=5 focus=performance,security goal="フルスタックエンジニアを目指しています"
-\`\`\`
-
-*設定したプロファイルは今後のクイズ出題に反映されます*`
-		: "";
-
-	return `## 🎯 MR Quiz が生成されました！
-
-あなたの変更内容に基づいてクイズが生成されました。
-コードレビュー前に理解度をチェックしましょう！
-
-### 📝 クイズ内容
-**カテゴリ:** ${category}
-**難易度:** ${difficulty}
-
-**問題:**
-${safeQuestionText}
-
-**選択肢:**
-${optionsList}
-
-### 💡 回答方法
-このコメントに以下のフォーマットで返信してください：
-
-\`\`\`
-/answer 1 ${quizId}
-\`\`\`
-
-**重要:** Quiz ID（\`${quizId}\`）をコピーして、回答番号の後に貼り付けてください。${profileGuideSection}
+	const messages = getMessages(language);
+	const hint = getAnswerFormatHint({ questionType, options }, language);
+
+	return messages.quizComment.single({
+		quizId,
+		questionType: messages.labels.questionType[questionType],
+		category,
+		difficulty,
+		questionText: sanitizeAIOutput(questionText),
+		optionsSection: formatOptionsList(questionType, options, messages),
+		instruction: hint.instruction,
+		example: hint.example,
+		// 初回ユーザー向けプロファイルガイドセクション
+		profileGuide: showProfileGuide ? messages.quizComment.profileGuide : "",
+	});
+}
 
----
-*Quiz ID: \`${quizId}\`*
-*MR Quiz Bot により自動生成*
-`;
+/**
+ * クイズセット（複数問）のコメントをフォーマット
+ * @param quizSetId クイズセットID
+ * @param quizzes セット内のクイズ（問題番号順）
+ * @param showProfileGuide 初回ユーザー向けプロファイルガイドを表示するか
+ * @param language 表示言語（省略時は既定言語）
+ * @returns フォーマット済みMarkdown
+ */
+export function formatQuizSetComment(
+	quizSetId: string,
+	quizzes: Array<{
+		questionNumber?: number;
+		questionType?: QuestionType;
+		questionText: string;
+		category: string;
+		difficulty: string;
+		options: string[];
+	}>,
+	showProfileGuide = false,
+	language?: Language,
+): string {
+	const messages = getMessages(language);
+
+	const questionsSection = quizzes
+		.map((quiz, i) => {
+			const questionType = getQuestionType(quiz);
+
+			return messages.quizComment.setQuestion({
+				questionNumber: quiz.questionNumber ?? i + 1,
+				questionType: messages.labels.questionType[questionType],
+				category: quiz.category,
+				difficulty: quiz.difficulty,
+				questionText: sanitizeAIOutput(quiz.questionText),
+				optionsSection: formatOptionsList(questionType, quiz.options, messages),
+				instruction: getAnswerFormatHint(quiz, language).instruction,
+			});
+		})
+		.join("\n\n");
+
+	// 記述式はコメントの最後までを回答とするため、まとめて回答する例には含めない
+	const exampleAnswers = quizzes
+		.flatMap((quiz, i) =>
+			getQuestionType(quiz) === "free_text"
+				? []
+				: [
+						`${quiz.questionNumber ?? i + 1}:${getAnswerFormatHint(quiz, language).example}`,
+					],
+		)
+		.join(" ");
+
+	return messages.quizComment.set({
+		quizSetId,
+		questionCount: quizzes.length,
+		questionsSection,
+		exampleAnswers,
+		profileGuide: showProfileGuide ? messages.quizComment.profileGuide : "",
+	});
 }
 
+/** エラーコードとユーザー向け説明の対応 */
+const GENERATION_ERROR_MESSAGE_KEYS: Record<
+	string,
+	keyof Messages["generationErrors"]
+> = {
+	LLM_QUOTA_EXCEEDED: "quotaExceeded",
+	LLM_SAFETY_BLOCKED: "safetyBlocked",
+	LLM_TIMEOUT: "timeout",
+	LLM_UNAVAILABLE: "unavailable",
+	LLM_MALFORMED_OUTPUT: "malformedOutput",
+	LLM_INVALID_OUTPUT: "invalidOutput",
+	QUIZ_QUALITY_REJECTED: "qualityRejected",
+	NO_QUIZZABLE_CHANGES: "noQuizzableChanges",
+};
+
 /**
  * エラーコメントをフォーマット
- * @param error エラーメッセージ
+ * 既知のエラーコードはユーザー向けの説明に置き換え、内部のエラーメッセージは表示しない
+ * プロンプトインジェクションの疑いはエラーではなく中立的なお知らせにする
+ * @param error 発生したエラー
+ * @param language 表示言語（省略時は既定言語）
  * @returns フォーマット済みMarkdown
  */
-export function formatErrorComment(error: string): string {
-	return `## ⚠️ クイズ生成エラー
+export function formatErrorComment(
+	error: unknown,
+	language?: Language,
+): string {
+	const messages = getMessages(language);
+	if (error instanceof PromptInjectionSuspectedError) {
+		return messages.quizComment.injectionNotice;
+	}
 
-クイズの生成中にエラーが発生しました：
+	const code = error instanceof AppError ? error.code : undefined;
+	const key = code ? GENERATION_ERROR_MESSAGE_KEYS[code] : undefined;
 
-\`\`\`
-${error}
-\`\`\`
+	if (!key) {
+		return messages.quizComment.generationError(
+			messages.generationErrors.unknown,
+		);
+	}
 
----
-*MR Quiz Bot により自動生成*
-`;
+	return messages.quizComment.generationError(
+		messages.generationErrors[key],
+		code,
+	);
 }
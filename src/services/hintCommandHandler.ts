@@ -0,0 +1,121 @@
+import { getMessages } from "../locales/index.js";
+import type { HintParams } from "../locales/types.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import { getAnswerScore } from "../types/entities/skillStats.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { getAnswersByUser, revealQuizHint } from "./firestore.js";
+
+/**
+ * ヒントコマンドハンドラー
+ * /hint コマンドでクイズのヒントを弱いものから1つずつ表示する
+ * 表示したヒントの数は回答時に Answer に記録され、正解のスキル統計への反映を減らす
+ */
+
+/**
+ * ヒントコマンド処理結果
+ * status: revealed=ヒントを1つ追加で表示, exhausted=すべて表示済み,
+ *         no_hints=ヒントのないクイズ, already_answered=回答済み,
+ *         not_recipient=他のユーザーに出題したクイズ
+ */
+export interface HintCommandResult {
+	status:
+		| "revealed"
+		| "exhausted"
+		| "no_hints"
+		| "already_answered"
+		| "not_recipient";
+	quiz: Quiz;
+	/** 表示済みのヒントの数 */
+	hintsRevealed: number;
+	message: string;
+}
+
+/**
+ * /hint コマンドを処理
+ * @param language 応答メッセージの言語（省略時は既定言語）
+ */
+export async function handleHintCommand(
+	accountId: string,
+	quiz: Quiz,
+	language?: Language,
+): Promise<HintCommandResult> {
+	const messages = getMessages(language).hint;
+	const hints = quiz.hints ?? [];
+	const previouslyRevealed =
+		quiz.hintUsage?.find((u) => u.accountId === accountId)?.hintsRevealed ?? 0;
+
+	// 他のユーザーのクイズのヒントを見たり、ヒントの使用数を変えたりできないようにする
+	if (quiz.accountId !== accountId) {
+		return {
+			status: "not_recipient",
+			quiz,
+			hintsRevealed: 0,
+			message: messages.notRecipient,
+		};
+	}
+
+	// 回答後にヒントを表示しても意味がないため受け付けない
+	const existingAnswers = await getAnswersByUser(accountId);
+	if (existingAnswers.some((a) => a.quizId === quiz.quizId)) {
+		return {
+			status: "already_answered",
+			quiz,
+			hintsRevealed: previouslyRevealed,
+			message: messages.alreadyAnswered,
+		};
+	}
+
+	if (hints.length === 0) {
+		return {
+			status: "no_hints",
+			quiz,
+			hintsRevealed: 0,
+			message: messages.noHints,
+		};
+	}
+
+	const hintsRevealed = await revealQuizHint(quiz.quizId, accountId);
+	if (hintsRevealed === null) {
+		return {
+			status: "exhausted",
+			quiz,
+			hintsRevealed: hints.length,
+			message: messages.exhausted(toHintParams(hints, hints.length)),
+		};
+	}
+
+	logger.info("Hint command completed", {
+		accountId,
+		quizId: quiz.quizId,
+		hintsRevealed,
+	});
+
+	return {
+		status: "revealed",
+		quiz,
+		hintsRevealed,
+		message: messages.revealed(toHintParams(hints, hintsRevealed)),
+	};
+}
+
+/**
+ * 表示済みのヒントと、正解した場合の反映割合を差し込み項目にする
+ */
+function toHintParams(hints: string[], hintsRevealed: number): HintParams {
+	return {
+		hints: hints.slice(0, hintsRevealed),
+		total: hints.length,
+		creditPercent: Math.round(getAnswerScore(true, hintsRevealed) * 100),
+	};
+}
+
+/**
+ * /hint コマンドの問題番号エラーメッセージ
+ */
+export function formatInvalidHintQuestionNumberMessage(
+	questionCount: number,
+	language?: Language,
+): string {
+	return getMessages(language).hint.invalidQuestionNumber(questionCount);
+}
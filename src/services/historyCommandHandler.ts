@@ -0,0 +1,125 @@
+import { getMessages } from "../locales/index.js";
+import type { HistoryEntryParams } from "../locales/types.js";
+import type { MergeRequest } from "../types/entities/mergeRequest.js";
+import type { Category, Language, Timestamp } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+	getAnswersByUser,
+	getMergeRequestsByIds,
+	getSkippedQuizzesByUser,
+} from "./firestore.js";
+
+/**
+ * 履歴コマンドハンドラー
+ * /history コマンドで最近回答・スキップしたクイズの結果・カテゴリ・PR・日時を一覧にする
+ */
+
+/**
+ * 履歴コマンド処理結果
+ */
+export interface HistoryCommandResult {
+	/** 表示した件数 */
+	count: number;
+	message: string;
+}
+
+/** 一覧の1件（PR/MRのリンク・日時の表示前） */
+interface HistoryItem {
+	result: HistoryEntryParams["result"];
+	scorePercent?: number;
+	category: Category;
+	mergeRequestId: string;
+	at: Timestamp;
+}
+
+/**
+ * PR/MRへのリンクを作る（マージリクエストが見つからない場合はIDのまま）
+ */
+function formatMergeRequestLink(
+	mergeRequest: MergeRequest | undefined,
+	mergeRequestId: string,
+): string {
+	if (!mergeRequest) {
+		return `\`${mergeRequestId}\``;
+	}
+
+	const { owner, repo, number } = mergeRequest;
+	return mergeRequest.platform === "gitlab"
+		? `[${owner}/${repo}!${number}](https://gitlab.com/${owner}/${repo}/-/merge_requests/${number})`
+		: `[${owner}/${repo}#${number}](https://github.com/${owner}/${repo}/pull/${number})`;
+}
+
+/**
+ * /history コマンドを処理
+ * @param limit 表示する件数
+ * @param language 応答メッセージの言語（省略時は既定言語）
+ */
+export async function handleHistoryCommand(
+	accountId: string,
+	limit: number,
+	language?: Language,
+): Promise<HistoryCommandResult> {
+	const messages = getMessages(language);
+
+	const [answers, skippedQuizzes] = await Promise.all([
+		getAnswersByUser(accountId),
+		getSkippedQuizzesByUser(accountId),
+	]);
+
+	const items: HistoryItem[] = [
+		...answers.map((a) => ({
+			result: a.isCorrect ? ("correct" as const) : ("incorrect" as const),
+			scorePercent:
+				a.score !== undefined ? Math.round(a.score * 100) : undefined,
+			category: a.category,
+			mergeRequestId: a.mergeRequestId,
+			at: a.answeredAt,
+		})),
+		...skippedQuizzes.flatMap((q) =>
+			q.skip
+				? [
+						{
+							result: "skipped" as const,
+							category: q.category,
+							mergeRequestId: q.mergeRequestId,
+							at: q.skip.skippedAt,
+						},
+					]
+				: [],
+		),
+	]
+		.sort((a, b) => b.at.seconds - a.at.seconds)
+		.slice(0, limit);
+
+	if (items.length === 0) {
+		return { count: 0, message: messages.history.empty };
+	}
+
+	const mergeRequests = await getMergeRequestsByIds([
+		...new Set(items.map((item) => item.mergeRequestId)),
+	]);
+
+	logger.info("History command completed", {
+		accountId,
+		limit,
+		count: items.length,
+	});
+
+	return {
+		count: items.length,
+		message: messages.history.list(
+			items.map((item) => ({
+				result: item.result,
+				scorePercent: item.scorePercent,
+				category: messages.labels.category[item.category],
+				mergeRequest: formatMergeRequestLink(
+					mergeRequests.find((mr) => mr.mergeRequestId === item.mergeRequestId),
+					item.mergeRequestId,
+				),
+				date: new Date(item.at.seconds * 1000).toLocaleString(
+					messages.dateLocale,
+				),
+			})),
+		),
+	};
+}
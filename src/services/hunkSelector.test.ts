@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { parseUnifiedDiff } from "../utils/diffParser.js";
+import {
+	findQuizSourceHunks,
+	scoreHunk,
+	selectRelevantHunks,
+} from "./hunkSelector.js";
+
+/** 1ファイル1ハンクの差分を作る */
+function fileDiff(path: string, start: number, lines: string[]): string {
+	const added = lines.filter((l) => l.startsWith("+")).length;
+	const removed = lines.filter((l) => l.startsWith("-")).length;
+	const context = lines.length - added - removed;
+	return [
+		`diff --git a/${path} b/${path}`,
+		`--- a/${path}`,
+		`+++ b/${path}`,
+		`@@ -${start},${context + removed} +${start},${context + added} @@`,
+		...lines,
+	].join("\n");
+}
+
+const LOGIC_HUNK = [
+	"+if (user === null) {",
+	"+\treturn await fetchUser(id);",
+	"+}",
+];
+const COMMENT_HUNK = ["+// TODO: clean up", "+"];
+const DOC_HUNK = ["+## Usage", "+Run the bot."];
+
+describe("scoreHunk", () => {
+	const score = (diff: string) => {
+		const [file] = parseUnifiedDiff(diff);
+		return scoreHunk(file, file.hunks[0]);
+	};
+
+	it("scores source code logic above docs and tests", () => {
+		const source = score(fileDiff("src/user.ts", 1, LOGIC_HUNK));
+		const test = score(fileDiff("src/user.test.ts", 1, LOGIC_HUNK));
+		const doc = score(fileDiff("README.md", 1, DOC_HUNK));
+
+		expect(source).toBeGreaterThan(test);
+		expect(test).toBeGreaterThan(doc);
+		expect(source).toBeLessThanOrEqual(1);
+		expect(doc).toBeGreaterThan(0);
+	});
+
+	it("treats comment and blank-only changes as noise", () => {
+		expect(score(fileDiff("src/user.ts", 1, COMMENT_HUNK))).toBe(0);
+	});
+
+	it("ignores binary files", () => {
+		const [file] = parseUnifiedDiff(
+			[
+				"diff --git a/logo.png b/logo.png",
+				"Binary files a/logo.png and b/logo.png differ",
+				"@@ -1 +1 @@",
+				"-x",
+				"+y",
+			].join("\n"),
+		);
+		expect(scoreHunk(file, file.hunks[0])).toBe(0);
+	});
+});
+
+describe("selectRelevantHunks", () => {
+	it("drops noise hunks and keeps the original order", () => {
+		const diff = [
+			fileDiff("README.md", 1, DOC_HUNK),
+			fileDiff("src/notes.ts", 1, COMMENT_HUNK),
+			fileDiff("src/user.ts", 1, LOGIC_HUNK),
+		].join("\n");
+
+		const selection = selectRelevantHunks(diff);
+
+		expect(selection.totalHunks).toBe(3);
+		expect(selection.droppedHunks).toBe(1);
+		expect(selection.hunks.map((h) => h.hunk.path)).toEqual([
+			"README.md",
+			"src/user.ts",
+		]);
+		expect(selection.diff).toContain("diff --git a/src/user.ts b/src/user.ts");
+		expect(selection.diff).not.toContain("src/notes.ts");
+	});
+
+	it("prefers the highest-scoring hunks within the budget", () => {
+		const doc = fileDiff("README.md", 1, DOC_HUNK);
+		const source = fileDiff("src/user.ts", 1, LOGIC_HUNK);
+
+		// ソースコードのハンク1つ分の予算
+		const selection = selectRelevantHunks(`${doc}\n${source}`, source.length);
+
+		expect(selection.hunks.map((h) => h.hunk.path)).toEqual(["src/user.ts"]);
+	});
+
+	it("falls back to every hunk when all of them are noise", () => {
+		const diff = fileDiff("src/notes.ts", 1, COMMENT_HUNK);
+
+		const selection = selectRelevantHunks(diff);
+
+		expect(selection.droppedHunks).toBe(0);
+		expect(selection.hunks).toHaveLength(1);
+		expect(selection.hunks[0].score).toBe(0);
+	});
+
+	it("returns the original diff when nothing fits the budget", () => {
+		const diff = fileDiff("src/user.ts", 1, LOGIC_HUNK);
+
+		const selection = selectRelevantHunks(diff, 10);
+
+		expect(selection.hunks).toEqual([]);
+		expect(selection.diff).toBe(diff);
+	});
+});
+
+describe("findQuizSourceHunks", () => {
+	// src/user.ts に離れた2つのハンク、src/other.ts に1つのハンク
+	const diff = [
+		fileDiff("src/user.ts", 10, LOGIC_HUNK),
+		"@@ -100,0 +103,1 @@",
+		"+late();",
+		fileDiff("src/other.ts", 1, ["+const other = 1;"]),
+	].join("\n");
+
+	it("selects hunks overlapping the recorded source hunks", () => {
+		const result = findQuizSourceHunks(diff, {
+			sourceHunks: [
+				{
+					path: "src/user.ts",
+					oldStart: 10,
+					oldLines: 0,
+					newStart: 10,
+					newLines: 3,
+					score: 0.9,
+				},
+			],
+		});
+
+		expect(result).toContain("return await fetchUser(id);");
+		expect(result).not.toContain("late();");
+		expect(result).not.toContain("src/other.ts");
+	});
+
+	it("selects hunks overlapping the diff reference", () => {
+		const result = findQuizSourceHunks(diff, {
+			diffReference: {
+				path: "src/user.ts",
+				side: "RIGHT",
+				startLine: 103,
+				endLine: 103,
+			},
+		});
+
+		expect(result).toContain("late();");
+		expect(result).not.toContain("fetchUser");
+	});
+
+	it("falls back to every hunk of the same file when none overlap", () => {
+		const result = findQuizSourceHunks(diff, {
+			diffReference: {
+				path: "src/user.ts",
+				side: "RIGHT",
+				startLine: 500,
+				endLine: 501,
+			},
+		});
+
+		expect(result).toContain("fetchUser");
+		expect(result).toContain("late();");
+		expect(result).not.toContain("src/other.ts");
+	});
+
+	it("returns an empty string when the quiz file is not in the diff", () => {
+		expect(
+			findQuizSourceHunks(diff, {
+				diffReference: {
+					path: "src/removed.ts",
+					side: "LEFT",
+					startLine: 1,
+					endLine: 1,
+				},
+			}),
+		).toBe("");
+	});
+});
@@ -0,0 +1,271 @@
+import type { Quiz } from "../types/entities/quiz.js";
+import {
+	type DiffFile,
+	type DiffHunk,
+	formatHunk,
+	formatHunksAsDiff,
+	getChangedLines,
+	parseUnifiedDiff,
+} from "../utils/diffParser.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * ハンク選択サービス
+ * diffをハンク単位でスコアリングし、出題に適したハンクを文字数予算内で選ぶ
+ */
+
+/** プロンプトに含めるdiffの文字数予算 */
+export const DIFF_CHAR_BUDGET = 40_000;
+
+/** 追加質問（/explain）のプロンプトに含める出題元のdiffの文字数予算 */
+export const FOLLOW_UP_DIFF_CHAR_BUDGET = 12_000;
+
+/**
+ * スコア付きハンク
+ */
+export interface ScoredHunk {
+	hunk: DiffHunk;
+	/** 出題適性スコア (0.0-1.0, 0はノイズとして除外) */
+	score: number;
+}
+
+/**
+ * ハンク選択結果
+ */
+export interface HunkSelection {
+	/** 選ばれたハンクを元の順序で並べたdiffテキスト */
+	diff: string;
+	/** 選ばれたハンク（元の順序） */
+	hunks: ScoredHunk[];
+	/** 解析したハンク総数 */
+	totalHunks: number;
+	/** ノイズとして除外したハンク数 */
+	droppedHunks: number;
+}
+
+/** ソースコードの拡張子 */
+const SOURCE_EXTENSIONS =
+	/\.(ts|tsx|js|jsx|mjs|cjs|py|go|java|kt|rb|rs|swift|c|cc|cpp|h|hpp|cs|php|scala|vue|svelte|sql)$/;
+
+/** 設定ファイルの拡張子 */
+const CONFIG_EXTENSIONS = /(\.(json|ya?ml|toml|ini|env|conf)|Dockerfile)$/;
+
+/** ドキュメントの拡張子 */
+const DOC_EXTENSIONS = /\.(md|mdx|txt|rst|adoc)$/;
+
+/** テストファイルのパターン */
+const TEST_PATH_PATTERN = /(\.(test|spec)\.\w+$|(^|\/)(__tests__|tests?)\/)/;
+
+/** ロジックを含む行とみなすトークン */
+const LOGIC_TOKEN_PATTERN =
+	/\b(if|else|for|while|switch|case|return|throw|try|catch|await|async|function|class|def|fn|func|yield|break|continue)\b|&&|\|\||=>|\?\?|[<>]=?|===?|!==?/;
+
+/** コメント行のパターン */
+const COMMENT_LINE_PATTERN = /^\s*(\/\/|#|\/\*|\*|--|<!--)/;
+
+/**
+ * ファイル種別による重み (0.0-1.0)
+ */
+function getFileWeight(file: DiffFile): number {
+	const path = file.path;
+
+	// ロックファイルや生成物はパスフィルター（pathFilter.ts）で事前に除外する
+	if (file.isBinary) {
+		return 0;
+	}
+	if (TEST_PATH_PATTERN.test(path)) {
+		return 0.7;
+	}
+	if (SOURCE_EXTENSIONS.test(path)) {
+		return 1;
+	}
+	if (CONFIG_EXTENSIONS.test(path)) {
+		return 0.5;
+	}
+	if (DOC_EXTENSIONS.test(path)) {
+		return 0.3;
+	}
+	return 0.4;
+}
+
+/**
+ * ハンクの出題適性をスコアリングする
+ * - ファイル種別（ソースコード > テスト > 設定 > ドキュメント、生成物は0）
+ * - ロジック密度（条件分岐・制御構文などを含む変更行の割合）
+ * - 変更規模（小さすぎず大きすぎないハンクを優先）
+ */
+export function scoreHunk(file: DiffFile, hunk: DiffHunk): number {
+	const fileWeight = getFileWeight(file);
+	if (fileWeight === 0) {
+		return 0;
+	}
+
+	// 空行・コメントのみの変更はノイズ
+	const meaningfulLines = getChangedLines(hunk).filter(
+		(line) => line.trim().length > 0 && !COMMENT_LINE_PATTERN.test(line),
+	);
+	if (meaningfulLines.length === 0) {
+		return 0;
+	}
+
+	const logicLines = meaningfulLines.filter((line) =>
+		LOGIC_TOKEN_PATTERN.test(line),
+	).length;
+	const logicDensity = logicLines / meaningfulLines.length;
+
+	// 40行前後までは大きいほど加点、200行を超える巨大ハンクは減点
+	const changedCount = hunk.added + hunk.removed;
+	let sizeScore = Math.min(changedCount, 40) / 40;
+	if (changedCount > 200) {
+		sizeScore *= 0.5;
+	}
+
+	const score = fileWeight * (0.5 * logicDensity + 0.3 * sizeScore + 0.2);
+	return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * diffから出題に適したハンクを選び、予算内のdiffテキストを組み立てる
+ * 全ハンクがノイズと判定された場合は、スコアに関わらず予算内で先頭から採用する
+ */
+export function selectRelevantHunks(
+	diff: string,
+	budget: number = DIFF_CHAR_BUDGET,
+): HunkSelection {
+	const files = parseUnifiedDiff(diff);
+	const scored = files.flatMap((file) =>
+		file.hunks.map((hunk) => ({ hunk, score: scoreHunk(file, hunk) })),
+	);
+	const order = new Map(scored.map((s, i) => [s.hunk, i]));
+
+	const relevant = scored.filter((s) => s.score > 0);
+	const candidates = relevant.length > 0 ? relevant : scored;
+
+	// スコアの高い順に予算内で採用
+	const selected: ScoredHunk[] = [];
+	let usedChars = 0;
+	for (const candidate of [...candidates].sort((a, b) => b.score - a.score)) {
+		// ファイルヘッダー分の余裕を見込む
+		const size =
+			formatHunk(candidate.hunk).length + candidate.hunk.path.length * 3 + 40;
+		if (usedChars + size > budget) {
+			continue;
+		}
+		selected.push(candidate);
+		usedChars += size;
+	}
+
+	// 元の順序に戻す
+	selected.sort((a, b) => (order.get(a.hunk) ?? 0) - (order.get(b.hunk) ?? 0));
+
+	const selection: HunkSelection = {
+		diff:
+			selected.length > 0
+				? formatHunksAsDiff(selected.map((s) => s.hunk))
+				: diff,
+		hunks: selected,
+		totalHunks: scored.length,
+		droppedHunks: relevant.length > 0 ? scored.length - relevant.length : 0,
+	};
+
+	logger.info("Hunks selected for quiz generation", {
+		totalHunks: selection.totalHunks,
+		selectedHunks: selected.length,
+		droppedHunks: selection.droppedHunks,
+		originalLength: diff.length,
+		selectedLength: selection.diff.length,
+	});
+
+	return selection;
+}
+
+/** 行範囲 [start, start + lines) が重なるか（行数0のハンクは開始行のみとみなす） */
+function rangesOverlap(
+	startA: number,
+	linesA: number,
+	startB: number,
+	linesB: number,
+): boolean {
+	return (
+		startA < startB + Math.max(linesB, 1) &&
+		startB < startA + Math.max(linesA, 1)
+	);
+}
+
+/**
+ * クイズの出題元のハンクを差分から探す（追加質問の根拠に使う）
+ * 出題元ハンク・出題箇所と同じファイルで行範囲が重なるハンクを選び、
+ * 見つからなければ同じファイルのハンクを使う（生成後にPRが更新された場合）
+ * @returns 予算内の unified diff（該当するハンクがなければ空文字）
+ */
+export function findQuizSourceHunks(
+	diff: string,
+	quiz: Pick<Quiz, "sourceHunks" | "diffReference">,
+	budget: number = FOLLOW_UP_DIFF_CHAR_BUDGET,
+): string {
+	const hunks = parseUnifiedDiff(diff).flatMap((file) => file.hunks);
+	const sources = quiz.sourceHunks ?? [];
+	const reference = quiz.diffReference;
+
+	const overlapping = hunks.filter(
+		(hunk) =>
+			sources.some(
+				(source) =>
+					source.path === hunk.path &&
+					(rangesOverlap(
+						source.newStart,
+						source.newLines,
+						hunk.newStart,
+						hunk.newLines,
+					) ||
+						rangesOverlap(
+							source.oldStart,
+							source.oldLines,
+							hunk.oldStart,
+							hunk.oldLines,
+						)),
+			) ||
+			(reference?.path === hunk.path &&
+				(reference.side === "RIGHT"
+					? rangesOverlap(
+							reference.startLine,
+							reference.endLine - reference.startLine + 1,
+							hunk.newStart,
+							hunk.newLines,
+						)
+					: rangesOverlap(
+							reference.startLine,
+							reference.endLine - reference.startLine + 1,
+							hunk.oldStart,
+							hunk.oldLines,
+						))),
+	);
+
+	const paths = new Set([
+		...sources.map((source) => source.path),
+		...(reference ? [reference.path] : []),
+	]);
+	const candidates =
+		overlapping.length > 0
+			? overlapping
+			: hunks.filter((hunk) => paths.has(hunk.path));
+
+	const selected: DiffHunk[] = [];
+	let usedChars = 0;
+	for (const hunk of candidates) {
+		const size = formatHunk(hunk).length + hunk.path.length * 3 + 40;
+		if (usedChars + size > budget) {
+			break;
+		}
+		selected.push(hunk);
+		usedChars += size;
+	}
+
+	logger.info("Quiz source hunks found", {
+		totalHunks: hunks.length,
+		overlappingHunks: overlapping.length,
+		selectedHunks: selected.length,
+	});
+
+	return selected.length > 0 ? formatHunksAsDiff(selected) : "";
+}
@@ -0,0 +1,130 @@
+import type { InjectionSignal } from "../types/entities/mergeRequest.js";
+import { parseUnifiedDiff } from "../utils/diffParser.js";
+
+/**
+ * プロンプトインジェクション検出
+ * 差分の追加行とPR/MRの説明などからAIへの指示のような記述を探し、リスクスコアを付ける
+ * システムプロンプトでも差分中の指示には従わないよう指定しているが、
+ * スコアが高い差分ではそもそもクイズを生成しない
+ */
+
+type InjectionSignalKind = InjectionSignal["kind"];
+
+/**
+ * 検出結果
+ */
+export interface InjectionScanResult {
+	/** リスクスコア (0-100) */
+	score: number;
+	/** 見つかった兆候（最大 MAX_RECORDED_SIGNALS 件） */
+	signals: InjectionSignal[];
+}
+
+/** 兆候の種類ごとの検出パターン */
+const SIGNAL_PATTERNS: Record<InjectionSignalKind, RegExp[]> = {
+	override_instructions: [
+		/\b(?:ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|preceding|all|system|original)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules?|directions?|guidelines?)\b/i,
+		/\bnew\s+(?:system\s+)?instructions?\s*:/i,
+		/(?:これまで|以前|上記|前|すべて|全て)の(?:指示|命令|ルール|プロンプト)を(?:無視|忘れ)/,
+	],
+	role_marker: [
+		/<\|(?:im_start|im_end|system|assistant|user)\|>/,
+		/\[\/?INST\]|<<\/?SYS>>/,
+		/<\/?(?:system|assistant)>/i,
+		/^\s*(?:\/\/|#|\*|<!--)?\s*(?:SYSTEM|ASSISTANT)\s*:/,
+		/^\s*#{1,3}\s*(?:system\s+prompt|instructions?)\s*$/i,
+	],
+	fake_answer: [
+		/"(?:correctAnswerIndex|correctAnswerIndices|acceptedAnswers)"\s*:/,
+		/\b(?:the\s+)?correct\s+(?:answer|option)\s+(?:is|should\s+be|must\s+be)\b/i,
+		/正解は(?:選択肢)?\s*[0-9０-９]/,
+	],
+	model_directive: [
+		/\b(?:you\s+are\s+(?:now\s+)?(?:an?\s+)?(?:ai|assistant|language\s+model|llm|chatbot)|as\s+an?\s+(?:ai|language\s+model))\b/i,
+		/\b(?:note|message|instructions?)\s+(?:to|for)\s+(?:the\s+)?(?:ai|llm|model|assistant|gemini|chatgpt)\b/i,
+		/\b(?:do\s+not|don't|never)\s+(?:generate|create|ask)\s+(?:a\s+|any\s+)?(?:quiz(?:zes)?|questions?)\b/i,
+		/(?:AI|アシスタント|モデル)への(?:指示|メッセージ)/,
+	],
+};
+
+/** 兆候の種類ごとの重み（同じ種類は1回目だけこの重みで数える） */
+const SIGNAL_WEIGHTS: Record<InjectionSignalKind, number> = {
+	override_instructions: 45,
+	role_marker: 25,
+	fake_answer: 35,
+	model_directive: 30,
+};
+
+/** 同じ種類の2回目以降の加点（最大 MAX_REPEAT_BONUS_COUNT 回） */
+const REPEAT_BONUS = 5;
+const MAX_REPEAT_BONUS_COUNT = 3;
+
+/** 記録する兆候の最大件数 */
+const MAX_RECORDED_SIGNALS = 20;
+
+/**
+ * 1行に含まれる兆候の種類を返す
+ */
+function detectSignalKinds(line: string): InjectionSignalKind[] {
+	return (Object.keys(SIGNAL_PATTERNS) as InjectionSignalKind[]).filter(
+		(kind) => SIGNAL_PATTERNS[kind].some((pattern) => pattern.test(line)),
+	);
+}
+
+/**
+ * 兆候からリスクスコアを計算する
+ * 種類ごとに1回目は重みの分、2回目以降は少しずつ加点し、100で打ち切る
+ */
+function computeRiskScore(counts: Map<InjectionSignalKind, number>): number {
+	let score = 0;
+	for (const [kind, count] of counts) {
+		score +=
+			SIGNAL_WEIGHTS[kind] +
+			Math.min(count - 1, MAX_REPEAT_BONUS_COUNT) * REPEAT_BONUS;
+	}
+	return Math.min(score, 100);
+}
+
+/** PR/MRのコンテキスト（タイトル・説明・コミットメッセージ）で見つかった兆候の path */
+export const PULL_REQUEST_CONTEXT_PATH = "(pull request)";
+
+/**
+ * unified diff の追加行と、PR/MRのコンテキストからプロンプトインジェクションの兆候を探す
+ * @param diff 差分
+ * @param context プロンプトに含めるPR/MRのタイトル・説明・コミットメッセージ
+ */
+export function scanDiffForInjection(
+	diff: string,
+	context?: string,
+): InjectionScanResult {
+	const counts = new Map<InjectionSignalKind, number>();
+	const signals: InjectionSignal[] = [];
+
+	const inspect = (text: string, path: string, line: number) => {
+		for (const kind of detectSignalKinds(text)) {
+			counts.set(kind, (counts.get(kind) ?? 0) + 1);
+			if (signals.length < MAX_RECORDED_SIGNALS) {
+				signals.push({ kind, path, line });
+			}
+		}
+	};
+
+	for (const hunk of parseUnifiedDiff(diff).flatMap((file) => file.hunks)) {
+		let lineNumber = hunk.newStart;
+		for (const line of hunk.lines) {
+			if (line.startsWith("-")) {
+				continue;
+			}
+			if (line.startsWith("+")) {
+				inspect(line.slice(1), hunk.path, lineNumber);
+			}
+			lineNumber++;
+		}
+	}
+
+	for (const [i, line] of (context ?? "").split("\n").entries()) {
+		inspect(line, PULL_REQUEST_CONTEXT_PATH, i + 1);
+	}
+
+	return { score: computeRiskScore(counts), signals };
+}
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Answer } from "../types/entities/answer.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import {
+	getAnswersSince,
+	getQuizzesCreatedSince,
+	saveItemStats,
+	updateQuizCalibratedDifficulties,
+} from "./firestore.js";
+import {
+	analyzeItems,
+	getEffectiveDifficulty,
+	getQuestionTemplateKey,
+	recalibrateItems,
+	toEmpiricalDifficulty,
+} from "./itemAnalysis.js";
+
+vi.mock("./firestore.js", () => ({
+	getAnswersSince: vi.fn(),
+	getQuizzesCreatedSince: vi.fn(),
+	saveItemStats: vi.fn(),
+	updateQuizCalibratedDifficulties: vi.fn(),
+}));
+
+function quiz(quizId: string, overrides: Partial<Quiz> = {}): Quiz {
+	return {
+		quizId,
+		promptVersion: "3",
+		questionType: "multiple_choice",
+		category: "bug_risk",
+		difficulty: "medium",
+		...overrides,
+	} as Quiz;
+}
+
+function answer(quizId: string, accountId: string, isCorrect: boolean): Answer {
+	return { quizId, accountId, isCorrect } as Answer;
+}
+
+describe("difficulty helpers", () => {
+	it("keys question templates by prompt version, type, category and difficulty", () => {
+		expect(getQuestionTemplateKey(quiz("q1"))).toBe(
+			"3:multiple_choice:bug_risk:medium",
+		);
+		expect(
+			getQuestionTemplateKey(
+				quiz("q1", { promptVersion: undefined, questionType: undefined }),
+			),
+		).toBe("unversioned:multiple_choice:bug_risk:medium");
+	});
+
+	it("prefers the calibrated difficulty", () => {
+		expect(getEffectiveDifficulty(quiz("q1"))).toBe("medium");
+		expect(
+			getEffectiveDifficulty(quiz("q1", { calibratedDifficulty: "hard" })),
+		).toBe("hard");
+	});
+
+	it("maps the correct rate to a difficulty", () => {
+		expect(toEmpiricalDifficulty(0.75)).toBe("easy");
+		expect(toEmpiricalDifficulty(0.5)).toBe("medium");
+		expect(toEmpiricalDifficulty(0.44)).toBe("hard");
+	});
+});
+
+describe("analyzeItems", () => {
+	it("calibrates quizzes from their own answers or their template", () => {
+		const quizzes = [
+			quiz("q1"),
+			quiz("q2"),
+			quiz("q3", { difficulty: "hard" }),
+		];
+		const answers = [
+			answer("q1", "u1", true),
+			answer("q1", "u2", true),
+			answer("q1", "u3", true),
+			answer("q1", "u4", true),
+			answer("q2", "u1", false),
+		];
+
+		const { items, calibrations } = analyzeItems(quizzes, answers, 3);
+
+		expect(items.map((item) => item.itemId)).toEqual([
+			"template_3:multiple_choice:bug_risk:medium",
+			"template_3:multiple_choice:bug_risk:hard",
+			"quiz_q1",
+			"quiz_q2",
+		]);
+		expect(items[0]).toMatchObject({
+			kind: "template",
+			quizCount: 2,
+			attempts: 5,
+			correctCount: 4,
+			pValue: 0.8,
+			empiricalDifficulty: "easy",
+		});
+		// 回答がない問題の型は統計だけ残す
+		expect(items[1]).toMatchObject({
+			attempts: 0,
+			pValue: null,
+			empiricalDifficulty: null,
+		});
+		// 回答数が足りないクイズは実測の難易度を決めない
+		expect(items[3]).toMatchObject({
+			kind: "quiz",
+			attempts: 1,
+			empiricalDifficulty: null,
+		});
+		expect(calibrations).toEqual([
+			{ quizId: "q1", calibratedDifficulty: "easy" },
+			{ quizId: "q2", calibratedDifficulty: "easy" },
+		]);
+	});
+
+	it("skips quizzes whose calibrated difficulty is unchanged", () => {
+		const answers = ["u1", "u2", "u3"].map((u) => answer("q1", u, false));
+
+		const { calibrations } = analyzeItems(
+			[quiz("q1", { calibratedDifficulty: "hard" })],
+			answers,
+			3,
+		);
+
+		expect(calibrations).toEqual([]);
+	});
+
+	it("computes discrimination from how respondents did on other quizzes", () => {
+		const quizzes = [quiz("a"), quiz("b", { category: "security" })];
+		const answers = [
+			...["u1", "u2"].flatMap((u) => [
+				answer("a", u, true),
+				answer("b", u, true),
+			]),
+			...["u3", "u4"].flatMap((u) => [
+				answer("a", u, false),
+				answer("b", u, false),
+			]),
+		];
+
+		const { items } = analyzeItems(quizzes, answers, 3);
+
+		expect(items.find((i) => i.itemId === "quiz_a")?.discrimination).toBe(1);
+		// 他の問題にも回答した回答者が足りなければ計算しない
+		expect(
+			analyzeItems(quizzes, answers, 5).items.find((i) => i.itemId === "quiz_a")
+				?.discrimination,
+		).toBeNull();
+	});
+});
+
+describe("recalibrateItems", () => {
+	beforeEach(() => {
+		vi.mocked(getQuizzesCreatedSince).mockReset().mockResolvedValue([]);
+		vi.mocked(getAnswersSince).mockReset().mockResolvedValue([]);
+		vi.mocked(saveItemStats).mockReset().mockResolvedValue(undefined);
+		vi.mocked(updateQuizCalibratedDifficulties)
+			.mockReset()
+			.mockResolvedValue(undefined);
+	});
+
+	it("saves item stats and calibrations for the period", async () => {
+		vi.mocked(getQuizzesCreatedSince).mockResolvedValue([quiz("q1")]);
+		vi.mocked(getAnswersSince).mockResolvedValue(
+			Array.from({ length: 10 }, (_, i) => answer("q1", `u${i}`, i < 2)),
+		);
+
+		const result = await recalibrateItems(30);
+
+		expect(result).toEqual({
+			quizzesAnalyzed: 1,
+			answersAnalyzed: 10,
+			itemsSaved: 2,
+			quizzesRecalibrated: 1,
+		});
+		expect(updateQuizCalibratedDifficulties).toHaveBeenCalledWith([
+			{ quizId: "q1", calibratedDifficulty: "hard" },
+		]);
+		const since = vi.mocked(getQuizzesCreatedSince).mock.calls[0][0];
+		expect(Math.floor(Date.now() / 1000) - since).toBeCloseTo(
+			30 * 24 * 60 * 60,
+			-1,
+		);
+	});
+});
@@ -0,0 +1,284 @@
+import { env } from "../config/env.js";
+import type { Answer } from "../types/entities/answer.js";
+import type { ItemStats } from "../types/entities/itemStats.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import type { Difficulty } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+	getAnswersSince,
+	getQuizzesCreatedSince,
+	saveItemStats,
+	updateQuizCalibratedDifficulties,
+} from "./firestore.js";
+import { UNVERSIONED_PROMPT } from "./promptAnalytics.js";
+import { getQuestionType } from "./quizGrading.js";
+
+/**
+ * 項目分析と難易度の再計算
+ * 回答からクイズ・問題の型ごとの正答率（p値）と識別力を計算し、
+ * 回答数が十分なものはモデルが付けた難易度の代わりに実測の難易度を使う
+ */
+
+/** 実測の難易度を easy とする正答率の下限 */
+const EASY_MIN_P_VALUE = 0.75;
+
+/** 実測の難易度を medium とする正答率の下限（未満は hard） */
+const MEDIUM_MIN_P_VALUE = 0.45;
+
+/** 識別力の計算で上位・下位とする回答者の割合 */
+const DISCRIMINATION_GROUP_RATIO = 0.27;
+
+/**
+ * 難易度の再計算結果
+ */
+export interface RecalibrationResult {
+	/** 対象のクイズ数 */
+	quizzesAnalyzed: number;
+	/** 対象の回答数 */
+	answersAnalyzed: number;
+	/** 保存したアイテム統計の件数 */
+	itemsSaved: number;
+	/** 実測の難易度を更新したクイズ数 */
+	quizzesRecalibrated: number;
+}
+
+/** 計算したアイテム統計（計算日時は保存時に付ける） */
+type ComputedItemStats = Omit<ItemStats, "calculatedAt">;
+
+/** ユーザーごとの正解数・回答数 */
+type AbilityMap = Map<string, { correct: number; total: number }>;
+
+/**
+ * 問題の型のキー（プロンプトのバージョン・問題形式・カテゴリ・生成時の難易度）
+ */
+export function getQuestionTemplateKey(quiz: Quiz): string {
+	return [
+		quiz.promptVersion ?? UNVERSIONED_PROMPT,
+		getQuestionType(quiz),
+		quiz.category,
+		quiz.difficulty,
+	].join(":");
+}
+
+/**
+ * スキル統計などの計算に使う難易度（実測の難易度があればそちらを優先）
+ */
+export function getEffectiveDifficulty(quiz: Quiz): Difficulty {
+	return quiz.calibratedDifficulty ?? quiz.difficulty;
+}
+
+/**
+ * 正答率から実測の難易度を決める
+ */
+export function toEmpiricalDifficulty(pValue: number): Difficulty {
+	if (pValue >= EASY_MIN_P_VALUE) {
+		return "easy";
+	}
+	if (pValue >= MEDIUM_MIN_P_VALUE) {
+		return "medium";
+	}
+	return "hard";
+}
+
+/**
+ * ユーザーごとの正解数・回答数を集計する
+ */
+function buildAbilityMap(answers: Answer[]): AbilityMap {
+	const abilities: AbilityMap = new Map();
+	for (const answer of answers) {
+		const ability = abilities.get(answer.accountId) ?? {
+			correct: 0,
+			total: 0,
+		};
+		ability.total++;
+		if (answer.isCorrect) {
+			ability.correct++;
+		}
+		abilities.set(answer.accountId, ability);
+	}
+	return abilities;
+}
+
+/**
+ * 識別力を計算する
+ * 回答者をその問題以外の正答率で並べ、上位・下位それぞれ27%の正答率の差を返す
+ * @returns 他の問題にも回答した回答者が minAnswers 人未満なら null
+ */
+function computeDiscrimination(
+	answers: Answer[],
+	abilities: AbilityMap,
+	minAnswers: number,
+): number | null {
+	const scored = answers.flatMap((answer) => {
+		const ability = abilities.get(answer.accountId);
+		if (!ability || ability.total < 2) {
+			return [];
+		}
+		const restScore =
+			(ability.correct - (answer.isCorrect ? 1 : 0)) / (ability.total - 1);
+		return [{ restScore, isCorrect: answer.isCorrect }];
+	});
+	if (scored.length < minAnswers) {
+		return null;
+	}
+
+	scored.sort((a, b) => a.restScore - b.restScore);
+	const groupSize = Math.max(
+		1,
+		Math.floor(scored.length * DISCRIMINATION_GROUP_RATIO),
+	);
+	const correctRate = (group: typeof scored) =>
+		group.filter((s) => s.isCorrect).length / group.length;
+
+	return (
+		correctRate(scored.slice(-groupSize)) -
+		correctRate(scored.slice(0, groupSize))
+	);
+}
+
+/**
+ * クイズ群と回答からアイテム統計を作る
+ */
+function buildItemStats(
+	base: Pick<ItemStats, "itemId" | "kind" | "quizId" | "templateKey">,
+	quizzes: Quiz[],
+	answers: Answer[],
+	abilities: AbilityMap,
+	minAnswers: number,
+): ComputedItemStats {
+	const [quiz] = quizzes;
+	const attempts = answers.length;
+	const correctCount = answers.filter((a) => a.isCorrect).length;
+	const pValue = attempts > 0 ? correctCount / attempts : null;
+
+	return {
+		...base,
+		claimedDifficulty: quiz.difficulty,
+		category: quiz.category,
+		questionType: getQuestionType(quiz),
+		quizCount: quizzes.length,
+		attempts,
+		correctCount,
+		pValue,
+		discrimination: computeDiscrimination(answers, abilities, minAnswers),
+		empiricalDifficulty:
+			pValue !== null && attempts >= minAnswers
+				? toEmpiricalDifficulty(pValue)
+				: null,
+	};
+}
+
+/**
+ * クイズ単位・問題の型単位のアイテム統計と、クイズごとの実測の難易度を計算する
+ * クイズ単位で回答数が足りない場合は、同じ問題の型の実測の難易度を使う
+ * @param quizzes 対象のクイズ
+ * @param answers 回答（回答者の実力の推定にはすべて、アイテムの集計には対象クイズへの回答を使う）
+ * @param minAnswers 実測の難易度を決めるのに必要な最小回答数
+ * @returns 回答のあるクイズと全ての問題の型の統計、実測の難易度が変わるクイズ
+ */
+export function analyzeItems(
+	quizzes: Quiz[],
+	answers: Answer[],
+	minAnswers: number,
+): {
+	items: ComputedItemStats[];
+	calibrations: Array<{ quizId: string; calibratedDifficulty: Difficulty }>;
+} {
+	const abilities = buildAbilityMap(answers);
+	const answersByQuiz = new Map<string, Answer[]>();
+	for (const answer of answers) {
+		answersByQuiz.set(answer.quizId, [
+			...(answersByQuiz.get(answer.quizId) ?? []),
+			answer,
+		]);
+	}
+
+	const quizzesByTemplate = new Map<string, Quiz[]>();
+	for (const quiz of quizzes) {
+		const key = getQuestionTemplateKey(quiz);
+		quizzesByTemplate.set(key, [...(quizzesByTemplate.get(key) ?? []), quiz]);
+	}
+
+	const items: ComputedItemStats[] = [];
+	const templateDifficulty = new Map<string, Difficulty | null>();
+	for (const [templateKey, templateQuizzes] of quizzesByTemplate) {
+		const item = buildItemStats(
+			{ itemId: `template_${templateKey}`, kind: "template", templateKey },
+			templateQuizzes,
+			templateQuizzes.flatMap((q) => answersByQuiz.get(q.quizId) ?? []),
+			abilities,
+			minAnswers,
+		);
+		items.push(item);
+		templateDifficulty.set(templateKey, item.empiricalDifficulty);
+	}
+
+	const calibrations: Array<{
+		quizId: string;
+		calibratedDifficulty: Difficulty;
+	}> = [];
+	for (const quiz of quizzes) {
+		const templateKey = getQuestionTemplateKey(quiz);
+		const quizAnswers = answersByQuiz.get(quiz.quizId) ?? [];
+		let quizDifficulty: Difficulty | null = null;
+		if (quizAnswers.length > 0) {
+			const item = buildItemStats(
+				{
+					itemId: `quiz_${quiz.quizId}`,
+					kind: "quiz",
+					quizId: quiz.quizId,
+					templateKey,
+				},
+				[quiz],
+				quizAnswers,
+				abilities,
+				minAnswers,
+			);
+			items.push(item);
+			quizDifficulty = item.empiricalDifficulty;
+		}
+
+		const calibratedDifficulty =
+			quizDifficulty ?? templateDifficulty.get(templateKey) ?? null;
+		if (
+			calibratedDifficulty &&
+			calibratedDifficulty !== quiz.calibratedDifficulty
+		) {
+			calibrations.push({ quizId: quiz.quizId, calibratedDifficulty });
+		}
+	}
+
+	return { items, calibrations };
+}
+
+/**
+ * 直近 days 日間のクイズと回答からアイテム統計を計算して保存し、クイズの実測の難易度を更新する（バッチ処理用）
+ */
+export async function recalibrateItems(
+	days: number,
+): Promise<RecalibrationResult> {
+	const since = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+	const [quizzes, answers] = await Promise.all([
+		getQuizzesCreatedSince(since),
+		getAnswersSince(since),
+	]);
+
+	const { items, calibrations } = analyzeItems(
+		quizzes,
+		answers,
+		env.QUIZ_CALIBRATION_MIN_ANSWERS,
+	);
+
+	await saveItemStats(items);
+	await updateQuizCalibratedDifficulties(calibrations);
+
+	const result: RecalibrationResult = {
+		quizzesAnalyzed: quizzes.length,
+		answersAnalyzed: answers.length,
+		itemsSaved: items.length,
+		quizzesRecalibrated: calibrations.length,
+	};
+	logger.info("Item difficulties recalibrated", { days, ...result });
+
+	return result;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+	GeneratedQuizSchema,
+	TRUE_FALSE_OPTIONS,
+} from "../types/entities/quiz.js";
+import { parseUnifiedDiff } from "../utils/diffParser.js";
+import { isReferenceInHunk } from "./diffReference.js";
+import {
+	createQuizGenerator,
+	getQuizGenerator,
+	resolveQuestionCount,
+} from "./quizGenerator.js";
+import { verifyQuiz } from "./quizVerifier.js";
+
+const DIFF = [
+	"diff --git a/src/auth.ts b/src/auth.ts",
+	"--- a/src/auth.ts",
+	"+++ b/src/auth.ts",
+	"@@ -10,4 +10,6 @@ export function login() {",
+	" const user = await findUser(id);",
+	"-if (!user) return;",
+	"+if (!user) {",
+	'+\tthrow new Error("invalid token");',
+	"+}",
+	" return user;",
+	" }",
+	"diff --git a/src/cache.ts b/src/cache.ts",
+	"--- a/src/cache.ts",
+	"+++ b/src/cache.ts",
+	"@@ -1,2 +1,3 @@",
+	" const store = new Map();",
+	"+const cache = new Map();",
+	" export { store };",
+	"diff --git a/README.md b/README.md",
+	"--- a/README.md",
+	"+++ b/README.md",
+	"@@ -1 +1 @@",
+	"-# Old",
+	"+# New",
+].join("\n");
+
+/** 生成したクイズの正解の回答 */
+function correctAnswerOf(quiz: ReturnType<typeof GeneratedQuizSchema.parse>) {
+	return quiz.questionType === "fill_in_blank"
+		? quiz.acceptedAnswers?.[0]
+		: quiz.options[quiz.correctAnswerIndex ?? -1];
+}
+
+describe("local quiz generator", () => {
+	it("is selected by QUIZ_GENERATOR=local", () => {
+		expect(getQuizGenerator().name).toBe("local");
+		expect(createQuizGenerator("local")).toBe(getQuizGenerator());
+	});
+
+	it("generates a valid quiz about the most changed file", async () => {
+		const generator = getQuizGenerator();
+
+		const quiz = GeneratedQuizSchema.parse(
+			await generator.generate({ diff: DIFF, language: "ja" }),
+		);
+
+		expect(quiz.questionText).toContain("src/auth.ts");
+		expect(quiz.category).toBe("security");
+		expect(quiz.difficulty).toBe("easy");
+		expect(correctAnswerOf(quiz)).toBeDefined();
+		if (quiz.questionType === "true_false") {
+			expect(quiz.options).toEqual(TRUE_FALSE_OPTIONS.ja);
+		}
+
+		// 出題箇所は差分のハンクに収まる
+		const hunks = parseUnifiedDiff(DIFF).flatMap((file) => file.hunks);
+		expect(quiz.diffReference).toEqual({
+			path: "src/auth.ts",
+			side: "RIGHT",
+			startLine: 11,
+			endLine: 13,
+		});
+		expect(
+			hunks.some(
+				(hunk) =>
+					quiz.diffReference && isReferenceInHunk(quiz.diffReference, hunk),
+			),
+		).toBe(true);
+
+		// 検証（静的チェック）を通過する
+		const verification = await verifyQuiz(generator, DIFF, quiz);
+		expect(verification).toMatchObject({ passed: true, verifier: "static" });
+	});
+
+	it("is deterministic for the same diff", async () => {
+		const generator = getQuizGenerator();
+
+		const first = await generator.generate({ diff: DIFF, language: "en" });
+		const second = await generator.generate({ diff: DIFF, language: "en" });
+
+		expect(second).toEqual(first);
+		expect(first.explanation).toContain("src/auth.ts");
+	});
+
+	it("generates one quiz per file for a set, most changed first", async () => {
+		const quizzes = await getQuizGenerator().generateSet({
+			diff: DIFF,
+			questionCount: 2,
+			language: "ja",
+		});
+
+		expect(quizzes).toHaveLength(2);
+		expect(quizzes[0].questionText).toContain("src/auth.ts");
+		expect(quizzes[1].questionText).toContain("README.md");
+		for (const quiz of quizzes) {
+			expect(GeneratedQuizSchema.safeParse(quiz).success).toBe(true);
+		}
+	});
+
+	it("rejects a diff without file changes", async () => {
+		await expect(
+			getQuizGenerator().generate({ diff: "", language: "ja" }),
+		).rejects.toThrow("No file changes found in diff");
+	});
+});
+
+describe("resolveQuestionCount", () => {
+	it("clamps an explicit count to the quiz set size", () => {
+		expect(resolveQuestionCount(DIFF, 0)).toBe(1);
+		expect(resolveQuestionCount(DIFF, 2)).toBe(2);
+		expect(resolveQuestionCount(DIFF, 100)).toBeLessThan(100);
+	});
+
+	it("asks a single question for a small diff", () => {
+		expect(resolveQuestionCount(DIFF)).toBe(1);
+	});
+
+	it("asks more questions for a large diff", () => {
+		const large = Array.from({ length: 200 }, (_, i) => `+line ${i}`).join(
+			"\n",
+		);
+		expect(resolveQuestionCount(large)).toBe(3);
+	});
+});
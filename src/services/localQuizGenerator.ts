@@ -0,0 +1,291 @@
+import { createHash } from "node:crypto";
+import { getMessages, resolveLanguage } from "../locales/index.js";
+import {
+	type DiffReference,
+	type GeneratedQuiz,
+	TRUE_FALSE_OPTIONS,
+} from "../types/entities/quiz.js";
+import type {
+	Category,
+	Difficulty,
+	Language,
+	QuestionType,
+} from "../types/index.js";
+import { getAddedLines, parseUnifiedDiff } from "../utils/diffParser.js";
+import { logger } from "../utils/logger.js";
+import { hunkToDiffReference } from "./diffReference.js";
+import type {
+	QuizGenerationRequest,
+	QuizGenerator,
+	QuizSetGenerationRequest,
+} from "./quizGenerator.js";
+
+/**
+ * ローカルクイズ生成プロバイダー
+ * LLMを使わずに、diffの内容からテンプレートで決定的にクイズを生成する
+ * GCP認証のないローカル環境やテストでの利用を想定
+ */
+
+/** ファイルごとの変更統計 */
+interface FileChangeStats {
+	path: string;
+	added: number;
+	removed: number;
+	/** 追加行の本文（カテゴリ推定用） */
+	addedText: string[];
+	/** 出題箇所（変更行の最も多いハンク） */
+	reference: DiffReference | null;
+}
+
+/** カテゴリ推定に使うキーワード（上から優先） */
+const CATEGORY_KEYWORDS: Array<{ category: Category; pattern: RegExp }> = [
+	{
+		category: "security",
+		pattern:
+			/\b(password|token|secret|auth\w*|jwt|crypto|sanitiz\w*|escape|csrf|xss)\b/i,
+	},
+	{
+		category: "performance",
+		pattern: /\b(cache|memo\w*|index|batch|Promise\.all|debounce|throttle)\b/i,
+	},
+	{
+		category: "bug_fix",
+		pattern: /\b(fix\w*|bug|null|undefined|catch|NaN)\b/i,
+	},
+	{
+		category: "refactoring",
+		pattern: /\b(rename\w*|extract\w*|refactor\w*|deprecated)\b/i,
+	},
+];
+
+/**
+ * diffをファイルごとの追加・削除行数に集計する
+ */
+function collectFileStats(diff: string): FileChangeStats[] {
+	return parseUnifiedDiff(diff)
+		.filter((file) => file.hunks.length > 0)
+		.map((file) => ({
+			path: file.path,
+			added: file.hunks.reduce((sum, h) => sum + h.added, 0),
+			removed: file.hunks.reduce((sum, h) => sum + h.removed, 0),
+			addedText: file.hunks.flatMap(getAddedLines),
+			reference: hunkToDiffReference(
+				file.hunks.reduce((largest, h) =>
+					h.added + h.removed > largest.added + largest.removed ? h : largest,
+				),
+			),
+		}));
+}
+
+/**
+ * 追加行のキーワードからカテゴリを推定する
+ */
+function detectCategory(addedText: string): Category {
+	for (const { category, pattern } of CATEGORY_KEYWORDS) {
+		if (pattern.test(addedText)) {
+			return category;
+		}
+	}
+
+	return "logic";
+}
+
+/**
+ * 変更行数から難易度を推定する
+ */
+function detectDifficulty(totalChangedLines: number): Difficulty {
+	if (totalChangedLines < 20) {
+		return "easy";
+	}
+	if (totalChangedLines < 100) {
+		return "medium";
+	}
+	return "hard";
+}
+
+/**
+ * 正解と重複しない誤答の行数ペアを作る
+ */
+function buildDistractors(
+	added: number,
+	removed: number,
+): Array<[number, number]> {
+	const candidates: Array<[number, number]> = [
+		[removed, added],
+		[added + removed, 0],
+		[0, added + removed],
+		[added + 1, removed],
+		[added, removed + 1],
+		[Math.max(0, added - 1), removed + 2],
+	];
+
+	const seen = new Set([`${added}:${removed}`]);
+	const distractors: Array<[number, number]> = [];
+	for (const [a, r] of candidates) {
+		const key = `${a}:${r}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		distractors.push([a, r]);
+		if (distractors.length === 3) break;
+	}
+
+	return distractors;
+}
+
+/**
+ * 変更量の多い順にファイルを並べる（同数ならパス順）
+ */
+function sortByChangeSize(files: FileChangeStats[]): FileChangeStats[] {
+	return [...files].sort(
+		(a, b) =>
+			b.added + b.removed - (a.added + a.removed) ||
+			a.path.localeCompare(b.path),
+	);
+}
+
+/** ローカル生成で出題する問題形式 */
+const LOCAL_QUESTION_TYPES = [
+	"multiple_choice",
+	"true_false",
+	"fill_in_blank",
+] as const satisfies readonly QuestionType[];
+
+/**
+ * 1ファイルを対象にクイズを組み立てる
+ * 問題形式と正解位置は seed のハッシュで決める（同じ入力なら常に同じ結果）
+ */
+function buildFileQuiz(
+	target: FileChangeStats,
+	files: FileChangeStats[],
+	seed: string,
+	language: Language,
+): GeneratedQuiz {
+	const messages = getMessages(language).localQuiz;
+	const totalChangedLines = files.reduce(
+		(sum, f) => sum + f.added + f.removed,
+		0,
+	);
+
+	const hash = createHash("sha256").update(seed).digest();
+	const questionType =
+		LOCAL_QUESTION_TYPES[hash[1] % LOCAL_QUESTION_TYPES.length];
+
+	const common = {
+		questionType,
+		category: detectCategory(target.addedText.join("\n")),
+		difficulty: detectDifficulty(totalChangedLines),
+		explanation: messages.explanation(
+			target.path,
+			target.added,
+			target.removed,
+			files.length,
+		),
+		hints: messages.hints(target.path, target.removed),
+		diffReference: target.reference,
+	};
+
+	switch (questionType) {
+		case "true_false": {
+			// 半分の確率で誤った行数を提示する
+			const isTrue = hash[2] % 2 === 0;
+			const claimed = isTrue ? target.added : target.added + 1;
+			return {
+				...common,
+				questionText: messages.trueFalseQuestion(target.path, claimed),
+				options: [...TRUE_FALSE_OPTIONS[language]],
+				correctAnswerIndex: isTrue ? 0 : 1,
+			};
+		}
+		case "fill_in_blank":
+			return {
+				...common,
+				questionText: messages.fillInBlankQuestion(target.path),
+				options: [],
+				acceptedAnswers: [String(target.added)],
+			};
+		case "multiple_choice": {
+			const correctAnswerIndex = hash[0] % 4;
+			const distractors = buildDistractors(target.added, target.removed).map(
+				([a, r]) => messages.changeCount(a, r),
+			);
+			const options = [...distractors];
+			options.splice(
+				correctAnswerIndex,
+				0,
+				messages.changeCount(target.added, target.removed),
+			);
+
+			return {
+				...common,
+				questionText: messages.multipleChoiceQuestion(target.path),
+				options,
+				correctAnswerIndex,
+			};
+		}
+	}
+}
+
+/**
+ * diffからクイズを決定的に生成する
+ * 最も変更量の多いファイルを出題対象にする
+ */
+export function generateLocalQuiz(
+	diff: string,
+	language: Language = resolveLanguage(),
+): GeneratedQuiz {
+	const files = collectFileStats(diff);
+	if (files.length === 0) {
+		throw new Error("No file changes found in diff");
+	}
+
+	const target = sortByChangeSize(files)[0];
+	const quiz = buildFileQuiz(target, files, diff, language);
+
+	logger.info("Local quiz generated", {
+		path: target.path,
+		questionType: quiz.questionType,
+		category: quiz.category,
+		difficulty: quiz.difficulty,
+	});
+
+	return quiz;
+}
+
+/**
+ * diffから複数問のクイズを決定的に生成する
+ * 変更量の多いファイルから順に1ファイル1問とする
+ */
+export function generateLocalQuizSet(
+	diff: string,
+	questionCount: number,
+	language: Language = resolveLanguage(),
+): GeneratedQuiz[] {
+	const files = collectFileStats(diff);
+	if (files.length === 0) {
+		throw new Error("No file changes found in diff");
+	}
+
+	const targets = sortByChangeSize(files).slice(0, questionCount);
+	const quizzes = targets.map((target) =>
+		buildFileQuiz(target, files, `${diff}\n${target.path}`, language),
+	);
+
+	logger.info("Local quiz set generated", {
+		requested: questionCount,
+		generated: quizzes.length,
+	});
+
+	return quizzes;
+}
+
+/**
+ * ローカル生成プロバイダー
+ */
+export const localQuizGenerator: QuizGenerator = {
+	name: "local",
+	promptVersion: "3",
+	generate: async (request: QuizGenerationRequest) =>
+		generateLocalQuiz(request.diff, request.language),
+	generateSet: async (request: QuizSetGenerationRequest) =>
+		generateLocalQuizSet(request.diff, request.questionCount, request.language),
+};
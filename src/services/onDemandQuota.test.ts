@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+	decideOnDemandReservation,
+	removeReservation,
+} from "./onDemandQuota.js";
+
+const NOW = 1_000_000;
+const DAY = 24 * 60 * 60;
+
+const LIMITS = {
+	now: NOW,
+	userLimit: 2,
+	pullRequestLimit: 3,
+	userWindowSeconds: DAY,
+};
+
+describe("decideOnDemandReservation", () => {
+	it("records the reservation for the user and the pull request", () => {
+		expect(
+			decideOnDemandReservation({
+				...LIMITS,
+				userReservedAt: [NOW - 10],
+				pullRequestReservedAt: [NOW - 20, NOW - 10],
+			}),
+		).toEqual({
+			status: "reserved",
+			userReservedAt: [NOW - 10, NOW],
+			pullRequestReservedAt: [NOW - 20, NOW - 10, NOW],
+		});
+	});
+
+	it("stops at the user limit within the window", () => {
+		expect(
+			decideOnDemandReservation({
+				...LIMITS,
+				userReservedAt: [NOW - 100, NOW - 10],
+				pullRequestReservedAt: [],
+			}),
+		).toEqual({ status: "user_limit_reached" });
+	});
+
+	it("drops user reservations outside the window", () => {
+		expect(
+			decideOnDemandReservation({
+				...LIMITS,
+				userReservedAt: [NOW - DAY - 1, NOW - DAY, NOW - 10],
+				pullRequestReservedAt: [],
+			}),
+		).toEqual({
+			status: "reserved",
+			userReservedAt: [NOW - 10, NOW],
+			pullRequestReservedAt: [NOW],
+		});
+	});
+
+	it("stops at the pull request limit regardless of age", () => {
+		expect(
+			decideOnDemandReservation({
+				...LIMITS,
+				userReservedAt: [],
+				pullRequestReservedAt: [1, 2, 3],
+			}),
+		).toEqual({ status: "pr_limit_reached" });
+	});
+
+	it("never reserves with a zero limit", () => {
+		expect(
+			decideOnDemandReservation({
+				...LIMITS,
+				userLimit: 0,
+				userReservedAt: [],
+				pullRequestReservedAt: [],
+			}),
+		).toEqual({ status: "user_limit_reached" });
+	});
+});
+
+describe("removeReservation", () => {
+	it("removes a single matching reservation", () => {
+		expect(removeReservation([1, 2, 2, 3], 2)).toEqual([1, 2, 3]);
+	});
+
+	it("returns null when the reservation is not recorded", () => {
+		expect(removeReservation([1, 3], 2)).toBeNull();
+		expect(removeReservation([], 2)).toBeNull();
+	});
+});
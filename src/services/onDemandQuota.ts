@@ -0,0 +1,65 @@
+/**
+ * /quiz コマンドの生成枠の判定
+ * 予約した日時（UNIX秒）の記録から上限に達しているかを判定する
+ * 記録の読み書きは firestore.ts のトランザクション内で行い、ここでは判定だけを行う
+ */
+
+/**
+ * 生成枠の判定結果
+ * reserved の場合は予約後に保存する記録を持つ
+ */
+export type OnDemandQuotaDecision =
+	| {
+			status: "reserved";
+			userReservedAt: number[];
+			pullRequestReservedAt: number[];
+	  }
+	| { status: "user_limit_reached" | "pr_limit_reached" };
+
+/**
+ * 生成枠を予約できるか判定する
+ * ユーザーごとの記録は期間内のものだけを数え、期間外の記録は保存する記録から取り除く
+ * @param input.now 予約する日時（UNIX秒）
+ * @param input.userWindowSeconds ユーザーごとの上限を数える期間（秒）
+ */
+export function decideOnDemandReservation(input: {
+	userReservedAt: number[];
+	pullRequestReservedAt: number[];
+	now: number;
+	userLimit: number;
+	pullRequestLimit: number;
+	userWindowSeconds: number;
+}): OnDemandQuotaDecision {
+	const userReserved = input.userReservedAt.filter(
+		(seconds) => seconds > input.now - input.userWindowSeconds,
+	);
+
+	if (userReserved.length >= input.userLimit) {
+		return { status: "user_limit_reached" };
+	}
+	if (input.pullRequestReservedAt.length >= input.pullRequestLimit) {
+		return { status: "pr_limit_reached" };
+	}
+
+	return {
+		status: "reserved",
+		userReservedAt: [...userReserved, input.now],
+		pullRequestReservedAt: [...input.pullRequestReservedAt, input.now],
+	};
+}
+
+/**
+ * 記録から指定した日時の予約を取り除く
+ * 同じ日時の予約が複数ある場合も1件だけ取り除く
+ * @returns 取り除いた後の記録（該当する予約がなければ null）
+ */
+export function removeReservation(
+	reservedAt: number[],
+	target: number,
+): number[] | null {
+	const position = reservedAt.indexOf(target);
+	if (position === -1) {
+		return null;
+	}
+	return reservedAt.filter((_, i) => i !== position);
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+	filterDiffByPath,
+	globToRegExp,
+	isBuiltInIgnoredPath,
+} from "./pathFilter.js";
+
+/** 1ファイル1ハンクの差分を作る */
+function fileDiff(path: string): string {
+	return [
+		`diff --git a/${path} b/${path}`,
+		`--- a/${path}`,
+		`+++ b/${path}`,
+		"@@ -1 +1 @@",
+		"-old",
+		"+new",
+	].join("\n");
+}
+
+describe("globToRegExp", () => {
+	it("matches patterns without a slash at any depth", () => {
+		const regexp = globToRegExp("*.min.js");
+
+		expect(regexp.test("app.min.js")).toBe(true);
+		expect(regexp.test("public/js/app.min.js")).toBe(true);
+		expect(regexp.test("app.js")).toBe(false);
+	});
+
+	it("anchors patterns with a slash to the repository root", () => {
+		const regexp = globToRegExp("src/*.ts");
+
+		expect(regexp.test("src/app.ts")).toBe(true);
+		expect(regexp.test("src/nested/app.ts")).toBe(false);
+		expect(regexp.test("lib/src/app.ts")).toBe(false);
+	});
+
+	it("matches everything under a directory pattern", () => {
+		const regexp = globToRegExp("dist/");
+
+		expect(regexp.test("dist/index.js")).toBe(true);
+		expect(regexp.test("packages/web/dist/index.js")).toBe(true);
+		expect(regexp.test("dist")).toBe(false);
+		expect(regexp.test("distribution/index.js")).toBe(false);
+	});
+
+	it("supports ** across directories, ? and alternatives", () => {
+		expect(globToRegExp("src/**/*.test.ts").test("src/a/b/c.test.ts")).toBe(
+			true,
+		);
+		expect(globToRegExp("src/**/*.test.ts").test("src/c.test.ts")).toBe(true);
+		expect(globToRegExp("v?.json").test("v1.json")).toBe(true);
+		expect(globToRegExp("v?.json").test("v10.json")).toBe(false);
+		expect(globToRegExp("*.{png,svg}").test("logo.svg")).toBe(true);
+		expect(globToRegExp("*.{png,svg}").test("logo.jpg")).toBe(false);
+	});
+});
+
+describe("isBuiltInIgnoredPath", () => {
+	it("ignores lock files, build output and binary assets", () => {
+		expect(isBuiltInIgnoredPath("package-lock.json")).toBe(true);
+		expect(isBuiltInIgnoredPath("apps/web/.next/cache/x.js")).toBe(true);
+		expect(isBuiltInIgnoredPath("assets/LOGO.PNG")).toBe(true);
+		expect(isBuiltInIgnoredPath("src/__snapshots__/app.test.ts.snap")).toBe(
+			true,
+		);
+	});
+
+	it("keeps ordinary source files", () => {
+		expect(isBuiltInIgnoredPath("src/services/pathFilter.ts")).toBe(false);
+		expect(isBuiltInIgnoredPath("src/build.ts")).toBe(false);
+		expect(isBuiltInIgnoredPath("README.md")).toBe(false);
+	});
+});
+
+describe("filterDiffByPath", () => {
+	const diff = [
+		fileDiff("src/app.ts"),
+		fileDiff("package-lock.json"),
+		fileDiff("docs/guide.md"),
+		"diff --git a/logo.png b/logo.png",
+		"Binary files a/logo.png and b/logo.png differ",
+	].join("\n");
+
+	it("drops built-in ignored and binary files", () => {
+		const result = filterDiffByPath(diff);
+
+		expect(result.included).toEqual(["src/app.ts", "docs/guide.md"]);
+		expect(result.ignored).toEqual([
+			{ path: "package-lock.json", reason: "built_in" },
+			{ path: "logo.png", reason: "binary" },
+		]);
+		expect(result.diff).toContain("diff --git a/src/app.ts b/src/app.ts");
+		expect(result.diff).not.toContain("package-lock.json");
+	});
+
+	it("keeps only included files and lets include override built-in rules", () => {
+		const result = filterDiffByPath(diff, {
+			include: ["src/", "package-lock.json"],
+		});
+
+		expect(result.included).toEqual(["src/app.ts", "package-lock.json"]);
+		expect(result.ignored).toEqual([
+			{ path: "docs/guide.md", reason: "not_included" },
+			{ path: "logo.png", reason: "binary" },
+		]);
+	});
+
+	it("gives exclude priority over include", () => {
+		const result = filterDiffByPath(diff, {
+			include: ["src/"],
+			exclude: ["*.ts"],
+		});
+
+		expect(result.included).toEqual([]);
+		expect(result.ignored[0]).toEqual({
+			path: "src/app.ts",
+			reason: "excluded",
+		});
+		expect(result.diff).toBe("");
+	});
+});
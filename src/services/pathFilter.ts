@@ -0,0 +1,191 @@
+import type { IgnoredFile } from "../types/entities/mergeRequest.js";
+import {
+	type DiffFile,
+	formatHunksAsDiff,
+	parseUnifiedDiff,
+} from "../utils/diffParser.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * パスフィルター
+ * ロックファイル・生成物・バイナリなど出題に向かないファイルを差分から取り除く
+ * リポジトリごとの include / exclude glob で上書きできる
+ */
+
+/**
+ * リポジトリごとのパスフィルター設定
+ */
+export interface PathFilterConfig {
+	/** 出題対象にするファイルのglob（指定時は一致しないファイルを除外、組み込みの除外より優先） */
+	include?: string[];
+	/** 出題対象から除外するファイルのglob（include より優先） */
+	exclude?: string[];
+}
+
+/**
+ * パスフィルター適用結果
+ */
+export interface PathFilterResult {
+	/** 出題対象ファイルだけの差分 */
+	diff: string;
+	/** 出題対象のファイル */
+	included: string[];
+	/** 除外したファイルと理由 */
+	ignored: IgnoredFile[];
+}
+
+/** 組み込みの除外パターン（glob） */
+export const BUILT_IN_IGNORE_PATTERNS = [
+	// ロックファイル
+	"package-lock.json",
+	"yarn.lock",
+	"pnpm-lock.yaml",
+	"bun.lockb",
+	"Cargo.lock",
+	"Gemfile.lock",
+	"poetry.lock",
+	"composer.lock",
+	"go.sum",
+	// ビルド成果物・依存ライブラリ
+	"dist/",
+	"build/",
+	"out/",
+	"coverage/",
+	".next/",
+	"vendor/",
+	"node_modules/",
+	// 自動生成・圧縮ファイル
+	"*.min.js",
+	"*.min.css",
+	"*.map",
+	"*.snap",
+	"__snapshots__/",
+	"*.generated.*",
+	"*.pb.go",
+	// 画像・フォント・その他バイナリ
+	"*.{png,jpg,jpeg,gif,bmp,ico,webp,avif,svg}",
+	"*.{woff,woff2,ttf,otf,eot}",
+	"*.{pdf,zip,gz,tgz,tar,jar,exe,dll,so,dylib,mp3,mp4,wav}",
+] as const;
+
+/**
+ * glob を正規表現に変換する（.gitignore と同様の規則）
+ * - `/` を含まないパターンは任意の階層のファイル名・ディレクトリ名に一致
+ * - 末尾が `/` のパターンはディレクトリ配下のすべてに一致
+ * - `**` は階層をまたいで一致、`*` `?` は階層内のみ、`{a,b}` は選択
+ */
+export function globToRegExp(glob: string): RegExp {
+	let pattern = glob.trim();
+	const directoryOnly = pattern.endsWith("/");
+	if (directoryOnly) {
+		pattern = pattern.slice(0, -1);
+	}
+	const anchored = pattern.includes("/");
+	pattern = pattern.replace(/^\//, "");
+
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*") {
+			if (pattern[i + 1] === "*") {
+				const followedBySlash = pattern[i + 2] === "/";
+				source += followedBySlash ? "(?:.*/)?" : ".*";
+				i += followedBySlash ? 2 : 1;
+			} else {
+				source += "[^/]*";
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			const end = pattern.indexOf("}", i);
+			if (end === -1) {
+				source += "\\{";
+				continue;
+			}
+			const alternatives = pattern
+				.slice(i + 1, end)
+				.split(",")
+				.map((alt) => alt.replace(/[.+^$()|[\]\\]/g, "\\$&"));
+			source += `(?:${alternatives.join("|")})`;
+			i = end;
+		} else {
+			source += char.replace(/[.+^$()|[\]{}\\]/g, "\\$&");
+		}
+	}
+
+	const prefix = anchored ? "^" : "(?:^|/)";
+	const suffix = directoryOnly ? "/" : "(?:/|$)";
+	return new RegExp(`${prefix}${source}${suffix}`);
+}
+
+/** 組み込みの除外パターン（正規表現に変換済み、拡張子の大文字・小文字は区別しない） */
+const BUILT_IN_IGNORE_REGEXPS = BUILT_IN_IGNORE_PATTERNS.map(
+	(glob) => new RegExp(globToRegExp(glob).source, "i"),
+);
+
+/**
+ * 組み込みの除外パターンに一致するか
+ */
+export function isBuiltInIgnoredPath(path: string): boolean {
+	return BUILT_IN_IGNORE_REGEXPS.some((regexp) => regexp.test(path));
+}
+
+/**
+ * ファイルを出題対象にするか判定する
+ * @returns 除外する場合はその理由、対象にする場合は null
+ */
+function classifyFile(
+	file: DiffFile,
+	include: RegExp[],
+	exclude: RegExp[],
+): IgnoredFile["reason"] | null {
+	if (file.isBinary) {
+		return "binary";
+	}
+	if (exclude.some((regexp) => regexp.test(file.path))) {
+		return "excluded";
+	}
+	if (include.length > 0) {
+		return include.some((regexp) => regexp.test(file.path))
+			? null
+			: "not_included";
+	}
+	return isBuiltInIgnoredPath(file.path) ? "built_in" : null;
+}
+
+/**
+ * 差分にパスフィルターを適用する
+ */
+export function filterDiffByPath(
+	diff: string,
+	config: PathFilterConfig = {},
+): PathFilterResult {
+	const include = (config.include ?? []).map(globToRegExp);
+	const exclude = (config.exclude ?? []).map(globToRegExp);
+
+	const includedFiles: DiffFile[] = [];
+	const ignored: IgnoredFile[] = [];
+	for (const file of parseUnifiedDiff(diff)) {
+		const reason = classifyFile(file, include, exclude);
+		if (reason) {
+			ignored.push({ path: file.path, reason });
+		} else {
+			includedFiles.push(file);
+		}
+	}
+
+	const result: PathFilterResult = {
+		diff: formatHunksAsDiff(includedFiles.flatMap((file) => file.hunks)),
+		included: includedFiles.map((file) => file.path),
+		ignored,
+	};
+
+	logger.info("Path filter applied", {
+		includedFiles: result.included.length,
+		ignoredFiles: ignored.length,
+		include: config.include,
+		exclude: config.exclude,
+	});
+
+	return result;
+}
@@ -1,6 +1,8 @@
+import { getMessages } from "../locales/index.js";
+import type { GenerationTarget } from "../types/entities/quiz.js";
 import type { SkillStats } from "../types/entities/skillStats.js";
 import type { UserProfile } from "../types/entities/userProfile.js";
-import type { Category, Difficulty } from "../types/index.js";
+import type { Category, Difficulty, Language } from "../types/index.js";
 import { logger } from "../utils/logger.js";
 
 /**
@@ -144,6 +146,36 @@ export function selectOptimalDifficulty(
 	return baseDifficulty;
 }
 
+/**
+ * クイズ生成時の狙い（カテゴリ・難易度）を選択する
+ * プロファイルも回答履歴もないユーザーは判断材料がないためnull（生成側に任せる）
+ * @param requested ユーザーが指定したカテゴリ・難易度（指定した項目はそのまま使い、残りを選択する）
+ */
+export function selectGenerationTarget(
+	profile: UserProfile | null,
+	skillStats: SkillStats[],
+	requested: Partial<GenerationTarget> = {},
+): GenerationTarget | null {
+	if (
+		!profile &&
+		skillStats.length === 0 &&
+		!requested.category &&
+		!requested.difficulty
+	) {
+		return null;
+	}
+
+	const category =
+		requested.category ?? selectOptimalCategory(profile, skillStats);
+	const categoryStats = skillStats.find((s) => s.category === category) ?? null;
+	const difficulty =
+		requested.difficulty ?? selectOptimalDifficulty(profile, categoryStats);
+
+	logger.info("Generation target selected", { category, difficulty });
+
+	return { category, difficulty };
+}
+
 /**
  * 難易度を1段階上げる
  */
@@ -187,10 +219,12 @@ function getDaysSince(timestamp: {
 
 /**
  * ユーザーの学習推奨事項を生成
+ * @param language 推奨文の言語（省略時はプロファイルの言語、なければ既定言語）
  */
 export function generateLearningRecommendations(
 	profile: UserProfile | null,
 	skillStats: SkillStats[],
+	language?: Language,
 ): {
 	weakAreas: Array<{
 		category: Category;
@@ -209,11 +243,10 @@ export function generateLearningRecommendations(
 		suggestedFocusAreas: [] as Category[],
 		nextSteps: [] as string[],
 	};
+	const messages = getMessages(language ?? profile?.language);
 
 	if (skillStats.length === 0) {
-		recommendations.nextSteps.push(
-			"まずはクイズに挑戦してスキルデータを蓄積しましょう",
-		);
+		recommendations.nextSteps.push(messages.recommendations.getStarted);
 		return recommendations;
 	}
 
@@ -247,7 +280,10 @@ export function generateLearningRecommendations(
 	// 次のステップ提案
 	if (weakStats.length > 0) {
 		recommendations.nextSteps.push(
-			`${weakStats[0].category}分野の理解を深めましょう（現在の正答率: ${Math.round(weakStats[0].correctRate * 100)}%）`,
+			messages.recommendations.improveCategory(
+				messages.labels.category[weakStats[0].category],
+				Math.round(weakStats[0].correctRate * 100),
+			),
 		);
 	}
 
@@ -256,16 +292,16 @@ export function generateLearningRecommendations(
 	);
 	if (masteredAreas.length > 0) {
 		recommendations.nextSteps.push(
-			`${masteredAreas[0].category}分野は習得済みです！より高度な問題に挑戦しましょう`,
+			messages.recommendations.masteredCategory(
+				messages.labels.category[masteredAreas[0].category],
+			),
 		);
 	}
 
 	if (profile && profile.experienceLevel === "junior") {
 		const totalQuizzes = skillStats.reduce((sum, s) => sum + s.totalQuizzes, 0);
 		if (totalQuizzes >= 50) {
-			recommendations.nextSteps.push(
-				"50問達成！次はmidレベルの問題に挑戦してみましょう",
-			);
+			recommendations.nextSteps.push(messages.recommendations.juniorMilestone);
 		}
 	}
 
@@ -1,174 +1,230 @@
+import { getMessages, resolveLanguage } from "../locales/index.js";
+import type { ProfileChange, ProfileSummaryParams } from "../locales/types.js";
 import {
-	getUserProfile,
-	upsertUserProfile,
-} from "./firestore.js";
-import type {
-	CreateUserProfileInput,
-	UserProfile,
+	type CreateUserProfileInput,
+	MAX_SELF_ASSESSMENT,
+	type UserProfile,
 } from "../types/entities/userProfile.js";
+import {
+	type Category,
+	CategorySchema,
+	type Language,
+} from "../types/index.js";
 import type { ProfileCommand } from "../utils/commandParser.js";
-import type { Category } from "../types/index.js";
 import { logger } from "../utils/logger.js";
+import {
+	deleteUserProfile,
+	getUserProfile,
+	upsertUserProfile,
+} from "./firestore.js";
 
 /**
  * プロファイルコマンドハンドラー
- * /profile コマンドの処理とメッセージ生成
+ * /profile コマンド（更新・自己評価・表示・リセット）の処理とメッセージ生成
  */
 
 /**
  * プロファイルコマンド処理結果
+ * status: updated=作成・更新した, shown=表示した, reset=削除した, not_found=プロファイルが未設定
  */
 export interface ProfileCommandResult {
-	success: boolean;
+	status: "updated" | "shown" | "reset" | "not_found";
 	profile?: UserProfile;
 	message: string;
 	isNew?: boolean;
 }
 
 /**
- * /profile コマンドを処理
+ * /profile コマンドを処理（使い方の表示は呼び出し元で行う）
+ * @param fallbackLanguage プロファイルに言語が設定されていない場合の応答言語（リポジトリの既定言語）
  */
 export async function handleProfileCommand(
 	accountId: string,
-	command: ProfileCommand,
+	command: Exclude<ProfileCommand, { action: "help" }>,
+	fallbackLanguage?: Language,
 ): Promise<ProfileCommandResult> {
-	try {
-		logger.info("Handling profile command", { accountId, command });
-
-		// 既存プロファイル取得
-		const existing = await getUserProfile(accountId);
-		const isNew = !existing;
-
-		// プロファイル入力を構築（指定されたフィールドのみ更新）
-		const input: CreateUserProfileInput = {
-			accountId,
-			experienceLevel:
-				command.experience ?? existing?.experienceLevel ?? "mid",
-			yearsOfExperience:
-				command.years ?? existing?.yearsOfExperience ?? 0,
-			focusAreas: command.focus ?? existing?.focusAreas ?? [],
-			careerGoal: command.goal ?? existing?.careerGoal,
-		};
-
-		// プロファイル作成/更新
-		const profile = await upsertUserProfile(input);
-
-		// 成功メッセージ生成
-		const message = formatProfileUpdateMessage(profile, isNew);
-
-		logger.info("Profile command completed", {
-			accountId,
-			isNew,
-			profile,
-		});
-
-		return {
-			success: true,
-			profile,
-			message,
-			isNew,
-		};
-	} catch (error) {
-		logger.error("Failed to handle profile command", {
-			error,
-			accountId,
-			command,
-		});
-
-		return {
-			success: false,
-			message: formatProfileErrorMessage(
-				"プロファイルの更新に失敗しました",
-				"しばらく時間をおいて再度お試しください",
-			),
-		};
+	logger.info("Handling profile command", { accountId, command });
+
+	const existing = await getUserProfile(accountId);
+
+	switch (command.action) {
+		case "show": {
+			const language = resolveLanguage(existing?.language, fallbackLanguage);
+			const messages = getMessages(language);
+			return existing
+				? {
+						status: "shown",
+						profile: existing,
+						message: messages.profile.show(
+							summarizeProfile(existing, language),
+						),
+					}
+				: { status: "not_found", message: messages.profile.notFound };
+		}
+
+		case "reset": {
+			// 削除したプロファイルの言語で応答する
+			const deleted = existing ? await deleteUserProfile(accountId) : null;
+			const messages = getMessages(
+				resolveLanguage(deleted?.language, fallbackLanguage),
+			);
+			logger.info("Profile command completed", {
+				accountId,
+				action: command.action,
+				deleted: deleted !== null,
+			});
+			return deleted
+				? { status: "reset", message: messages.profile.reset }
+				: { status: "not_found", message: messages.profile.notFound };
+		}
 	}
+
+	// プロファイル入力を構築（指定されたフィールドのみ更新）
+	const defaults = {
+		accountId,
+		experienceLevel: existing?.experienceLevel ?? "mid",
+		yearsOfExperience: existing?.yearsOfExperience ?? 0,
+	} satisfies CreateUserProfileInput;
+	const input: CreateUserProfileInput =
+		command.action === "assess"
+			? {
+					...defaults,
+					// 指定しなかったカテゴリの自己評価は残す
+					selfAssessment: {
+						...existing?.selfAssessment,
+						...command.selfAssessment,
+					},
+				}
+			: {
+					accountId,
+					experienceLevel:
+						command.update.experience ?? defaults.experienceLevel,
+					yearsOfExperience: command.update.years ?? defaults.yearsOfExperience,
+					focusAreas: command.update.focus ?? existing?.focusAreas ?? [],
+					careerGoal: command.update.goal ?? existing?.careerGoal,
+					language: command.update.language ?? existing?.language,
+				};
+
+	const profile = await upsertUserProfile(input);
+
+	// 言語を変更した場合は変更後の言語で応答
+	const language = resolveLanguage(profile.language, fallbackLanguage);
+	const changes = diffProfiles(existing, profile, language);
+
+	logger.info("Profile command completed", {
+		accountId,
+		action: command.action,
+		isNew: !existing,
+		changedFields: changes.map((c) => c.field),
+	});
+
+	return {
+		status: "updated",
+		profile,
+		message: getMessages(language).profile.updated({
+			isNew: !existing,
+			changes,
+			...summarizeProfile(profile, language),
+		}),
+		isNew: !existing,
+	};
 }
 
 /**
- * プロファイル更新の確認メッセージを生成
+ * 注力分野を表示用にする（未設定の場合は notSet の文言）
  */
-export function formatProfileUpdateMessage(
-	profile: UserProfile,
-	isNew: boolean,
+function formatFocusAreas(
+	focusAreas: Category[] | undefined,
+	language: Language,
 ): string {
-	const action = isNew ? "作成" : "更新";
-	const emoji = isNew ? "🎉" : "✅";
-
-	// 経験レベルの日本語表記
-	const experienceLevelMap = {
-		junior: "ジュニア (1-2年)",
-		mid: "ミッドレベル (3-5年)",
-		senior: "シニア (5年以上)",
-	};
-
-	// カテゴリの日本語表記
-	const categoryMap = {
-		bug_fix: "バグ修正",
-		performance: "パフォーマンス",
-		refactoring: "リファクタリング",
-		security: "セキュリティ",
-		logic: "ロジック",
-	};
-
-	// 注力分野を整形
-	const focusAreasText =
-		profile.focusAreas && profile.focusAreas.length > 0
-			? profile.focusAreas.map((cat: Category) => categoryMap[cat] || cat).join(", ")
-			: "未設定";
-
-	return `## ${emoji} プロファイルを${action}しました
-
-**設定内容:**
-- 経験レベル: ${experienceLevelMap[profile.experienceLevel] || profile.experienceLevel}
-- 経験年数: ${profile.yearsOfExperience}年
-- 注力分野: ${focusAreasText}${profile.careerGoal ? `\n- キャリア目標: ${profile.careerGoal}` : ""}
-
-今後のクイズはこの情報を考慮して出題されます。
-プロファイルはいつでも同じコマンドで変更できます。
-
-**更新例:**
-\`\`\`
-/profile focus=performance,security
-\`\`\`
-
----
-*プロファイル設定により、苦手分野を重点的に、得意分野はより高難易度で出題されます*`;
+	const { labels } = getMessages(language);
+	return focusAreas && focusAreas.length > 0
+		? focusAreas.map((cat) => labels.category[cat] || cat).join(", ")
+		: labels.notSet;
 }
 
 /**
- * プロファイルコマンドのエラーメッセージを生成
+ * 自己評価を表示用にする（評価したカテゴリのみ、未設定の場合は notSet の文言）
  */
-export function formatProfileErrorMessage(
-	error: string,
-	hint?: string,
+function formatSelfAssessment(
+	selfAssessment: UserProfile["selfAssessment"],
+	language: Language,
 ): string {
-	return `## ❌ プロファイル設定エラー
-
-${error}
-
-${hint ? `**ヒント:** ${hint}\n\n` : ""}**使い方:**
-\`\`\`
-/profile experience=mid years=3 focus=security,performance goal="目標"
-\`\`\`
-
-**パラメータ:**
-- \`experience\`: junior / mid / senior
-- \`years\`: 経験年数（数値）
-- \`focus\`: bug_fix, performance, refactoring, security, logic（最大5つ）
-- \`goal\`: キャリア目標（最大500文字、省略可）
-
-**例:**
-\`\`\`
-/profile experience=senior years=5 focus=performance,security
-\`\`\`
+	const { labels } = getMessages(language);
+	const scores = CategorySchema.options.flatMap((category) => {
+		const score = selfAssessment?.[category];
+		return score !== undefined
+			? [`${labels.category[category]} ${score}/${MAX_SELF_ASSESSMENT}`]
+			: [];
+	});
+	return scores.length > 0 ? scores.join(", ") : labels.notSet;
+}
 
-詳細は \`/profile help\` でご確認ください。`;
+/**
+ * プロファイルを表示用の値にする
+ */
+function summarizeProfile(
+	profile: UserProfile,
+	language: Language,
+): ProfileSummaryParams {
+	const { labels } = getMessages(language);
+
+	return {
+		experienceLevel:
+			labels.experienceLevel[profile.experienceLevel] ||
+			profile.experienceLevel,
+		yearsOfExperience: profile.yearsOfExperience,
+		focusAreas: formatFocusAreas(profile.focusAreas, language),
+		careerGoal: profile.careerGoal,
+		selfAssessment: formatSelfAssessment(profile.selfAssessment, language),
+		language: labels.language[resolveLanguage(profile.language, language)],
+	};
 }
 
 /**
- * プロファイルコマンドが空の場合のヘルプメッセージ
+ * 更新前後のプロファイルを比べて変更した項目を列挙する
+ * @param before 更新前のプロファイル（新規作成の場合は null、各項目を未設定として比べる）
  */
-export function shouldShowProfileHelp(command: ProfileCommand): boolean {
-	return Object.keys(command).length === 0;
+function diffProfiles(
+	before: UserProfile | null,
+	after: UserProfile,
+	language: Language,
+): ProfileChange[] {
+	const messages = getMessages(language);
+	const { labels } = messages;
+	const { fields } = messages.profile;
+	const orNotSet = (value: string | undefined) => value ?? labels.notSet;
+
+	const values = (profile: UserProfile | null): [string, string][] => [
+		[
+			fields.experienceLevel,
+			orNotSet(
+				profile ? labels.experienceLevel[profile.experienceLevel] : undefined,
+			),
+		],
+		[
+			fields.yearsOfExperience,
+			orNotSet(profile ? String(profile.yearsOfExperience) : undefined),
+		],
+		[fields.focusAreas, formatFocusAreas(profile?.focusAreas, language)],
+		[fields.careerGoal, orNotSet(profile?.careerGoal)],
+		[
+			fields.language,
+			orNotSet(
+				profile?.language ? labels.language[profile.language] : undefined,
+			),
+		],
+		...CategorySchema.options.map((category): [string, string] => [
+			fields.selfAssessment(labels.category[category]),
+			orNotSet(profile?.selfAssessment?.[category]?.toString()),
+		]),
+	];
+
+	const beforeValues = values(before);
+	return values(after).flatMap(([field, value], index) => {
+		const previous = beforeValues[index][1];
+		return previous !== value
+			? [{ field, before: previous, after: value }]
+			: [];
+	});
 }
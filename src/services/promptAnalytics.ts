@@ -0,0 +1,225 @@
+import type { Answer } from "../types/entities/answer.js";
+import type { GenerationRun } from "../types/entities/generationRun.js";
+import type {
+	CorrectnessStats,
+	PromptVersionAnalytics,
+	PromptVersionStats,
+} from "../types/entities/promptAnalytics.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import {
+	type Category,
+	CategorySchema,
+	type Difficulty,
+	DifficultySchema,
+} from "../types/index.js";
+import {
+	getAnswersSince,
+	getGenerationRunsSince,
+	getQuizzesCreatedSince,
+} from "./firestore.js";
+import { getPromptExperiment } from "./promptTemplates.js";
+
+/**
+ * プロンプトのバージョン別分析
+ * 期間内に生成したクイズ・回答・生成実行記録をプロンプトのバージョンごとに集計し、
+ * 正誤の分布・異議の割合・検証での不合格を比較する
+ */
+
+/** プロンプトのバージョンの記録がない既存クイズの集計先 */
+export const UNVERSIONED_PROMPT = "unversioned";
+
+/**
+ * 集計途中の正誤
+ */
+interface CorrectnessCounter {
+	answered: number;
+	correct: number;
+}
+
+/**
+ * 集計途中のバージョン別の値
+ */
+interface VersionCounter {
+	quizzes: number;
+	disputedQuizzes: number;
+	overall: CorrectnessCounter;
+	byDifficulty: Record<Difficulty, CorrectnessCounter>;
+	byCategory: Record<Category, CorrectnessCounter>;
+	runs: number;
+	acceptedQuestions: number;
+	rejectedQuestions: number;
+	qualityRejectedRuns: number;
+	failedRuns: number;
+}
+
+const emptyCorrectness = (): CorrectnessCounter => ({
+	answered: 0,
+	correct: 0,
+});
+
+function createVersionCounter(): VersionCounter {
+	return {
+		quizzes: 0,
+		disputedQuizzes: 0,
+		overall: emptyCorrectness(),
+		byDifficulty: Object.fromEntries(
+			DifficultySchema.options.map((d) => [d, emptyCorrectness()]),
+		) as Record<Difficulty, CorrectnessCounter>,
+		byCategory: Object.fromEntries(
+			CategorySchema.options.map((c) => [c, emptyCorrectness()]),
+		) as Record<Category, CorrectnessCounter>,
+		runs: 0,
+		acceptedQuestions: 0,
+		rejectedQuestions: 0,
+		qualityRejectedRuns: 0,
+		failedRuns: 0,
+	};
+}
+
+/** 割合（分母が0なら null） */
+function ratio(numerator: number, denominator: number): number | null {
+	return denominator > 0 ? numerator / denominator : null;
+}
+
+function toCorrectnessStats({
+	answered,
+	correct,
+}: CorrectnessCounter): CorrectnessStats {
+	return { answered, correct, correctRate: ratio(correct, answered) };
+}
+
+function mapValues<K extends string, V, R>(
+	record: Record<K, V>,
+	fn: (value: V) => R,
+): Record<K, R> {
+	return Object.fromEntries(
+		Object.entries(record).map(([key, value]) => [key, fn(value as V)]),
+	) as Record<K, R>;
+}
+
+/**
+ * クイズ・回答・生成実行記録をプロンプトのバージョンごとに集計する
+ * 回答は期間内に作成されたクイズへのものだけを数える
+ * @param quizzes 期間内に作成されたクイズ
+ * @param answers 期間内の回答
+ * @param runs 期間内の生成実行記録
+ * @param weights バージョンごとの現在の実験の重み
+ */
+export function summarizePromptVersions(
+	quizzes: Quiz[],
+	answers: Answer[],
+	runs: GenerationRun[],
+	weights: Map<string, number> = new Map(),
+): PromptVersionStats[] {
+	const counters = new Map<string, VersionCounter>();
+	const counterFor = (version: string): VersionCounter => {
+		let counter = counters.get(version);
+		if (!counter) {
+			counter = createVersionCounter();
+			counters.set(version, counter);
+		}
+		return counter;
+	};
+
+	const versionByQuiz = new Map<string, string>();
+	for (const quiz of quizzes) {
+		const version = quiz.promptVersion ?? UNVERSIONED_PROMPT;
+		versionByQuiz.set(quiz.quizId, version);
+
+		const counter = counterFor(version);
+		counter.quizzes++;
+		if ((quiz.disputes?.length ?? 0) > 0) {
+			counter.disputedQuizzes++;
+		}
+	}
+
+	for (const answer of answers) {
+		const version = versionByQuiz.get(answer.quizId);
+		if (!version) {
+			continue;
+		}
+
+		const counter = counterFor(version);
+		for (const correctness of [
+			counter.overall,
+			counter.byDifficulty[answer.difficulty],
+			counter.byCategory[answer.category],
+		]) {
+			correctness.answered++;
+			if (answer.isCorrect) {
+				correctness.correct++;
+			}
+		}
+	}
+
+	for (const run of runs) {
+		const counter = counterFor(run.promptVersion);
+		counter.runs++;
+		counter.acceptedQuestions += run.accepted;
+		counter.rejectedQuestions += run.rejected;
+		if (run.outcome === "quality_rejected") {
+			counter.qualityRejectedRuns++;
+		} else if (run.outcome === "failed") {
+			counter.failedRuns++;
+		}
+	}
+
+	// 実験に参加しているがまだ生成のないバージョンも並べる
+	for (const version of weights.keys()) {
+		counterFor(version);
+	}
+
+	const totalWeight = [...weights.values()].reduce((sum, w) => sum + w, 0);
+
+	return [...counters.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([promptVersion, counter]) => ({
+			promptVersion,
+			assignmentShare: ratio(weights.get(promptVersion) ?? 0, totalWeight) ?? 0,
+			quizzes: counter.quizzes,
+			correctness: {
+				...toCorrectnessStats(counter.overall),
+				byDifficulty: mapValues(counter.byDifficulty, toCorrectnessStats),
+				byCategory: mapValues(counter.byCategory, toCorrectnessStats),
+			},
+			disputes: {
+				disputedQuizzes: counter.disputedQuizzes,
+				disputeRate: ratio(counter.disputedQuizzes, counter.quizzes),
+			},
+			verification: {
+				runs: counter.runs,
+				acceptedQuestions: counter.acceptedQuestions,
+				rejectedQuestions: counter.rejectedQuestions,
+				rejectionRate: ratio(
+					counter.rejectedQuestions,
+					counter.acceptedQuestions + counter.rejectedQuestions,
+				),
+				qualityRejectedRuns: counter.qualityRejectedRuns,
+				failedRuns: counter.failedRuns,
+			},
+		}));
+}
+
+/**
+ * 直近 days 日間のプロンプトのバージョン別分析を取得する
+ */
+export async function getPromptVersionAnalytics(
+	days: number,
+): Promise<PromptVersionAnalytics> {
+	const since = Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+
+	const [quizzes, answers, runs] = await Promise.all([
+		getQuizzesCreatedSince(since),
+		getAnswersSince(since),
+		getGenerationRunsSince(since),
+	]);
+	const weights = new Map(
+		getPromptExperiment().map((arm) => [arm.version, arm.weight]),
+	);
+
+	return {
+		days,
+		since,
+		versions: summarizePromptVersions(quizzes, answers, runs, weights),
+	};
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { MAX_HINT_COUNT } from "../types/entities/quiz.js";
+import {
+	assignPromptVersion,
+	DEFAULT_PROMPT_VERSION,
+	getPromptTemplate,
+	parsePromptExperiment,
+} from "./promptTemplates.js";
+
+describe("getPromptTemplate", () => {
+	it("returns the registered template for a version", () => {
+		expect(getPromptTemplate("3-behavior").version).toBe("3-behavior");
+	});
+
+	it("generates hints from version 4", () => {
+		expect(getPromptTemplate("3").hintCount).toBe(0);
+		expect(getPromptTemplate("4").hintCount).toBe(MAX_HINT_COUNT);
+		expect(getPromptTemplate("4-behavior").hintCount).toBe(MAX_HINT_COUNT);
+	});
+
+	it("asks free-text questions from version 5", () => {
+		expect(getPromptTemplate("4").questionTypes).not.toContain("free_text");
+		expect(getPromptTemplate("5").questionTypes).toContain("free_text");
+		expect(getPromptTemplate("5-behavior").questionTypes).toContain(
+			"free_text",
+		);
+	});
+
+	it("falls back to the default template", () => {
+		expect(getPromptTemplate().version).toBe(DEFAULT_PROMPT_VERSION);
+		expect(getPromptTemplate("unknown").version).toBe(DEFAULT_PROMPT_VERSION);
+	});
+});
+
+describe("parsePromptExperiment", () => {
+	it("parses versions and weights", () => {
+		expect(parsePromptExperiment(" 3=90 , 3-behavior=10 ")).toEqual([
+			{ version: "3", weight: 90 },
+			{ version: "3-behavior", weight: 10 },
+		]);
+	});
+
+	it("drops unknown versions, invalid weights, zero weights and duplicates", () => {
+		expect(
+			parsePromptExperiment("9=50,3=abc,3-behavior=0,3=1.5,3=20,3=30"),
+		).toEqual([{ version: "3", weight: 20 }]);
+	});
+
+	it("uses the default version without a valid arm", () => {
+		const defaultOnly = [{ version: DEFAULT_PROMPT_VERSION, weight: 1 }];
+
+		expect(parsePromptExperiment(undefined)).toEqual(defaultOnly);
+		expect(parsePromptExperiment("")).toEqual(defaultOnly);
+		expect(parsePromptExperiment("9=100")).toEqual(defaultOnly);
+	});
+});
+
+describe("assignPromptVersion", () => {
+	const arms = [
+		{ version: "3", weight: 50 },
+		{ version: "3-behavior", weight: 50 },
+	];
+
+	it("always assigns the same version to the same seed", () => {
+		const version = assignPromptVersion("github_owner_repo_1", arms);
+
+		for (let i = 0; i < 5; i++) {
+			expect(assignPromptVersion("github_owner_repo_1", arms)).toBe(version);
+		}
+	});
+
+	it("splits seeds across the arms by weight", () => {
+		const versions = Array.from({ length: 200 }, (_, i) =>
+			assignPromptVersion(`github_owner_repo_${i}`, arms),
+		);
+		const behavior = versions.filter((v) => v === "3-behavior").length;
+
+		expect(behavior).toBeGreaterThan(60);
+		expect(behavior).toBeLessThan(140);
+	});
+
+	it("never assigns an arm without weight", () => {
+		expect(
+			assignPromptVersion("seed", [
+				{ version: "3", weight: 0 },
+				{ version: "3-behavior", weight: 1 },
+			]),
+		).toBe("3-behavior");
+	});
+
+	it("returns the only arm or the default version", () => {
+		expect(
+			assignPromptVersion("seed", [{ version: "3-behavior", weight: 1 }]),
+		).toBe("3-behavior");
+		expect(assignPromptVersion("seed", [])).toBe(DEFAULT_PROMPT_VERSION);
+	});
+});
@@ -0,0 +1,208 @@
+import { createHash } from "node:crypto";
+import { env } from "../config/env.js";
+import { MAX_HINT_COUNT } from "../types/entities/quiz.js";
+import type { QuestionType } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * クイズ生成プロンプトのテンプレート
+ * プロンプトの変更はバージョンIDを付けたテンプレートとして追加し、
+ * 環境変数 QUIZ_PROMPT_EXPERIMENT の重みで生成ごとに割り当てて比較する
+ */
+
+/**
+ * プロンプトテンプレート
+ */
+export interface PromptTemplate {
+	/** バージョンID（生成キャッシュのキーに含め、Quiz に記録する） */
+	version: string;
+	/** 変更内容の説明 */
+	description: string;
+	/** 出題の観点（Quiz Creation Rules の1番目） */
+	questionFocus: string;
+	/** 問題と一緒に生成するヒントの数（0の場合は生成しない） */
+	hintCount: number;
+	/** 出題できる問題形式（Quiz Creation Rules の2番目に並べる順） */
+	questionTypes: readonly QuestionType[];
+}
+
+/**
+ * 実験に参加するバージョンと重み
+ */
+export interface PromptExperimentArm {
+	version: string;
+	weight: number;
+}
+
+/**
+ * 登録済みのテンプレート
+ * 既存のバージョンの文言は変更しない（プロンプトやJSON Schemaを変更したら新しいバージョンを追加する）
+ */
+const INTENT_FOCUS =
+	"The question must ask about the intent or effect of the code changes.";
+const BEHAVIOR_FOCUS =
+	"The question must ask how the changed code behaves at runtime, including edge cases and failure paths, rather than restating what was changed.";
+const CHOICE_AND_BLANK_TYPES: readonly QuestionType[] = [
+	"multiple_choice",
+	"true_false",
+	"multi_select",
+	"ordering",
+	"fill_in_blank",
+];
+const WITH_FREE_TEXT_TYPES: readonly QuestionType[] = [
+	...CHOICE_AND_BLANK_TYPES,
+	"free_text",
+];
+
+const PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+	{
+		version: "3",
+		description: "変更の意図・効果を問う",
+		questionFocus: INTENT_FOCUS,
+		hintCount: 0,
+		questionTypes: CHOICE_AND_BLANK_TYPES,
+	},
+	{
+		version: "3-behavior",
+		description: "変更後のコードの実行時の挙動（境界値・異常系を含む）を問う",
+		questionFocus: BEHAVIOR_FOCUS,
+		hintCount: 0,
+		questionTypes: CHOICE_AND_BLANK_TYPES,
+	},
+	{
+		version: "4",
+		description: "変更の意図・効果を問い、段階的なヒントを付ける",
+		questionFocus: INTENT_FOCUS,
+		hintCount: MAX_HINT_COUNT,
+		questionTypes: CHOICE_AND_BLANK_TYPES,
+	},
+	{
+		version: "4-behavior",
+		description:
+			"変更後のコードの実行時の挙動（境界値・異常系を含む）を問い、段階的なヒントを付ける",
+		questionFocus: BEHAVIOR_FOCUS,
+		hintCount: MAX_HINT_COUNT,
+		questionTypes: CHOICE_AND_BLANK_TYPES,
+	},
+	{
+		version: "5",
+		description:
+			"変更の意図・効果を問い、段階的なヒントを付ける。記述式（模範解答・採点基準付き）も出題する",
+		questionFocus: INTENT_FOCUS,
+		hintCount: MAX_HINT_COUNT,
+		questionTypes: WITH_FREE_TEXT_TYPES,
+	},
+	{
+		version: "5-behavior",
+		description:
+			"変更後のコードの実行時の挙動（境界値・異常系を含む）を問い、段階的なヒントを付ける。記述式（模範解答・採点基準付き）も出題する",
+		questionFocus: BEHAVIOR_FOCUS,
+		hintCount: MAX_HINT_COUNT,
+		questionTypes: WITH_FREE_TEXT_TYPES,
+	},
+];
+
+/** 実験の指定がない場合に使うバージョン */
+export const DEFAULT_PROMPT_VERSION = "5";
+
+/**
+ * バージョンIDからテンプレートを取得する
+ * 未登録のバージョンは既定のテンプレートにする
+ */
+export function getPromptTemplate(version?: string): PromptTemplate {
+	const template =
+		PROMPT_TEMPLATES.find((t) => t.version === version) ??
+		PROMPT_TEMPLATES.find((t) => t.version === DEFAULT_PROMPT_VERSION);
+	if (!template) {
+		throw new Error(
+			`Default prompt template ${DEFAULT_PROMPT_VERSION} is missing`,
+		);
+	}
+	if (version && template.version !== version) {
+		logger.warn("Unknown prompt version, using default template", {
+			version,
+			defaultVersion: DEFAULT_PROMPT_VERSION,
+		});
+	}
+	return template;
+}
+
+/**
+ * 実験の指定（"5=90,5-behavior=10" 形式）を解釈する
+ * 未登録のバージョン・不正な重みは警告して除き、有効な指定がなければ既定のバージョンだけにする
+ */
+export function parsePromptExperiment(
+	spec: string | undefined,
+): PromptExperimentArm[] {
+	const arms: PromptExperimentArm[] = [];
+
+	for (const entry of (spec ?? "").split(",")) {
+		if (!entry.trim()) {
+			continue;
+		}
+		const [version = "", weightText = ""] = entry
+			.split("=")
+			.map((s) => s.trim());
+		const weight = Number(weightText);
+
+		if (!PROMPT_TEMPLATES.some((t) => t.version === version)) {
+			logger.warn("Ignoring unknown prompt version in experiment", { entry });
+			continue;
+		}
+		if (!Number.isInteger(weight) || weight < 0) {
+			logger.warn("Ignoring invalid prompt experiment weight", { entry });
+			continue;
+		}
+		if (weight > 0 && !arms.some((arm) => arm.version === version)) {
+			arms.push({ version, weight });
+		}
+	}
+
+	return arms.length > 0
+		? arms
+		: [{ version: DEFAULT_PROMPT_VERSION, weight: 1 }];
+}
+
+let promptExperiment: PromptExperimentArm[] | null = null;
+
+/**
+ * 環境変数 QUIZ_PROMPT_EXPERIMENT の実験設定を取得（シングルトン）
+ */
+export function getPromptExperiment(): PromptExperimentArm[] {
+	if (promptExperiment) {
+		return promptExperiment;
+	}
+
+	promptExperiment = parsePromptExperiment(env.QUIZ_PROMPT_EXPERIMENT);
+	logger.info("Prompt experiment initialized", { arms: promptExperiment });
+
+	return promptExperiment;
+}
+
+/**
+ * 生成にプロンプトのバージョンを割り当てる
+ * シードのハッシュで重み付きに選ぶため、同じシード（PR/MR）には常に同じバージョンを返し、
+ * 再プッシュ時も生成キャッシュが効く
+ * @param seed 割り当ての単位（PR/MR ID）
+ * @param arms 実験に参加するバージョンと重み
+ */
+export function assignPromptVersion(
+	seed: string,
+	arms: PromptExperimentArm[] = getPromptExperiment(),
+): string {
+	const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0);
+	if (arms.length === 1 || totalWeight <= 0) {
+		return arms[0]?.version ?? DEFAULT_PROMPT_VERSION;
+	}
+
+	const bucket =
+		createHash("sha256").update(seed).digest().readUInt32BE(0) % totalWeight;
+	let cumulative = 0;
+	for (const arm of arms) {
+		cumulative += arm.weight;
+		if (bucket < cumulative) {
+			return arm.version;
+		}
+	}
+	return arms[arms.length - 1].version;
+}
@@ -0,0 +1,254 @@
+import { env } from "../config/env.js";
+import { getMessages } from "../locales/index.js";
+import {
+	LlmError,
+	NoQuizzableChangesError,
+	PromptInjectionSuspectedError,
+	QuizQualityError,
+} from "../middleware/error.js";
+import type { GenerationTarget, Quiz } from "../types/entities/quiz.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import type { PullRequestContextInput } from "../utils/pullRequestContext.js";
+import type { CommentedPullRequest } from "./commandRegistry.js";
+import {
+	createMergeRequest,
+	generateMergeRequestId,
+	getMergeRequest,
+	getOrCreateUser,
+	releaseOnDemandGeneration,
+	reserveOnDemandGeneration,
+} from "./firestore.js";
+import { fetchPRContext, fetchPRDiff, formatErrorComment } from "./github.js";
+import { formatQuizBody } from "./quizDelivery.js";
+import { generateAndSaveQuizzes } from "./quizGeneration.js";
+
+/**
+ * 追加出題コマンドハンドラー
+ * /quiz コマンドでPRの差分からコメントしたユーザー向けのクイズを1問追加で生成する
+ * 生成回数はユーザーごと（24時間）・PRごとに上限を設け、生成前に枠を予約する
+ */
+
+/** ユーザーごとの上限を数える期間（秒） */
+const USER_LIMIT_WINDOW_SECONDS = 24 * 60 * 60;
+
+/**
+ * 追加出題するPR
+ */
+export interface QuizCommandRequest {
+	owner: string;
+	repo: string;
+	prNumber: number;
+	installationId: number;
+	accountId: string;
+	/** PRの作成者・タイトル（マージリクエストが未作成の場合に作成に使う） */
+	pullRequest?: CommentedPullRequest;
+	/** 指定されたカテゴリ・難易度 */
+	target: Partial<GenerationTarget>;
+	/** リポジトリの既定言語（出題先のプロファイルに言語設定がない場合に使用） */
+	repositoryLanguage?: Language;
+}
+
+/**
+ * 追加出題コマンド処理結果
+ * status: generated=生成した（message はクイズ本文）, user_limit_reached=ユーザーの上限,
+ *         pr_limit_reached=PRの上限, disabled=追加生成が無効, unknown_pull_request=PRの作成者が不明,
+ *         generation_failed=生成に失敗（message はエラーの説明）
+ */
+export interface QuizCommandResult {
+	status:
+		| "generated"
+		| "user_limit_reached"
+		| "pr_limit_reached"
+		| "disabled"
+		| "unknown_pull_request"
+		| "generation_failed";
+	/** 生成したクイズ */
+	quizzes: Quiz[];
+	message: string;
+}
+
+/**
+ * クイズを含まない処理結果
+ */
+function result(
+	status: QuizCommandResult["status"],
+	message: string,
+): QuizCommandResult {
+	return { status, quizzes: [], message };
+}
+
+/**
+ * /quiz コマンドを処理
+ * @param language 応答メッセージの言語（クイズ本文は出題言語で組み立てる）
+ */
+export async function handleQuizCommand(
+	request: QuizCommandRequest,
+	language: Language,
+): Promise<QuizCommandResult> {
+	const messages = getMessages(language).onDemandQuiz;
+	const { owner, repo, prNumber, accountId } = request;
+
+	const userLimit = env.QUIZ_ON_DEMAND_USER_DAILY_LIMIT;
+	const pullRequestLimit = env.QUIZ_ON_DEMAND_PR_LIMIT;
+	if (userLimit === 0 || pullRequestLimit === 0) {
+		return result("disabled", messages.disabled);
+	}
+
+	const mergeRequestId = generateMergeRequestId(
+		"github",
+		owner,
+		repo,
+		prNumber,
+	);
+	const reservation = await reserveOnDemandGeneration({
+		accountId,
+		mergeRequestId,
+		userLimit,
+		pullRequestLimit,
+		userWindowSeconds: USER_LIMIT_WINDOW_SECONDS,
+	});
+	if (reservation.status !== "reserved") {
+		return reservation.status === "user_limit_reached"
+			? result("user_limit_reached", messages.userLimitReached(userLimit))
+			: result(
+					"pr_limit_reached",
+					messages.pullRequestLimitReached(pullRequestLimit),
+				);
+	}
+
+	// 生成できなかった場合は予約した枠を戻す（解放の失敗は応答に影響させない）
+	const { reservedAt } = reservation;
+	const release = () =>
+		releaseOnDemandGeneration({ accountId, mergeRequestId, reservedAt }).catch(
+			(error) => {
+				logger.warn("Failed to release on-demand generation reservation", {
+					mergeRequestId,
+					accountId,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			},
+		);
+
+	let outcome: QuizCommandResult;
+	try {
+		outcome = await generateOnDemandQuiz(request, mergeRequestId, language);
+	} catch (error) {
+		await release();
+		throw error;
+	}
+	if (outcome.status !== "generated") {
+		await release();
+	}
+	return outcome;
+}
+
+/**
+ * 作成・更新時の出題と同じく、PRの説明・コミットメッセージを出題のコンテキストにする
+ * 取得できなかった場合はタイトルだけで生成する
+ */
+async function fetchOnDemandContext(
+	request: QuizCommandRequest,
+	title: string,
+): Promise<PullRequestContextInput> {
+	const { owner, repo, prNumber, installationId } = request;
+	try {
+		return await fetchPRContext(owner, repo, prNumber, installationId);
+	} catch (error) {
+		logger.warn("Using only the PR title as quiz context", {
+			owner,
+			repo,
+			prNumber,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return { title };
+	}
+}
+
+/**
+ * 予約した枠で追加のクイズを生成する
+ * 生成できなかった場合の予約した枠は呼び出し元で戻す
+ */
+async function generateOnDemandQuiz(
+	request: QuizCommandRequest,
+	mergeRequestId: string,
+	language: Language,
+): Promise<QuizCommandResult> {
+	const messages = getMessages(language).onDemandQuiz;
+	const { owner, repo, prNumber, installationId, accountId } = request;
+
+	// 作成・更新時に出題していないPRはマージリクエストを作成する
+	const mergeRequest =
+		(await getMergeRequest(mergeRequestId)) ??
+		(request.pullRequest
+			? await createMergeRequest({
+					platform: "github",
+					owner,
+					repo,
+					number: prNumber,
+					authorAccountId: request.pullRequest.author,
+					title: request.pullRequest.title,
+				})
+			: null);
+	if (!mergeRequest) {
+		logger.warn("Merge request not found for quiz command", {
+			mergeRequestId,
+		});
+		return result("unknown_pull_request", messages.unknownPullRequest);
+	}
+
+	await getOrCreateUser({ accountId, platform: "github" });
+	const diff = await fetchPRDiff(owner, repo, prNumber, installationId);
+	const context = await fetchOnDemandContext(request, mergeRequest.title);
+
+	try {
+		const generated = await generateAndSaveQuizzes({
+			mergeRequestId,
+			accountId,
+			// PRの作成者以外には、レビュアー向けの観点（変更を読んで確認すべき点）で出題する
+			audience:
+				accountId === mergeRequest.authorAccountId ? "author" : "reviewer",
+			diff,
+			questionCount: 1,
+			language: request.repositoryLanguage,
+			context,
+			target: request.target,
+			onDemand: true,
+		});
+
+		logger.info("Quiz command completed", {
+			mergeRequestId,
+			accountId,
+			quizIds: generated.quizzes.map((q) => q.quizId),
+			target: request.target,
+		});
+
+		return {
+			status: "generated",
+			quizzes: generated.quizzes,
+			message: formatQuizBody(
+				generated.quizzes,
+				generated.quizSetId,
+				generated.language,
+			),
+		};
+	} catch (error) {
+		if (
+			!(
+				error instanceof LlmError ||
+				error instanceof QuizQualityError ||
+				error instanceof NoQuizzableChangesError ||
+				error instanceof PromptInjectionSuspectedError
+			)
+		) {
+			throw error;
+		}
+
+		logger.warn("Quiz command generation failed", {
+			mergeRequestId,
+			code: error.code,
+			message: error.message,
+		});
+		return result("generation_failed", formatErrorComment(error, language));
+	}
+}
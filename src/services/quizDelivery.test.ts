@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { DiffReference, Quiz } from "../types/entities/quiz.js";
+import { postPRComment, postPRReview, postPRReviewComment } from "./github.js";
+import { postQuizComment, type QuizCommentTarget } from "./quizDelivery.js";
+
+vi.mock("./github.js", () => ({
+	formatQuizComment: vi.fn(() => "quiz body"),
+	formatQuizSetComment: vi.fn(() => "quiz set body"),
+	postPRComment: vi.fn(),
+	postPRReview: vi.fn(),
+	postPRReviewComment: vi.fn(),
+}));
+
+const TARGET: QuizCommentTarget = {
+	owner: "owner",
+	repo: "repo",
+	prNumber: 1,
+	installationId: 42,
+	commitId: "abc123",
+	inline: true,
+};
+
+const REFERENCE: DiffReference = {
+	path: "src/user.ts",
+	side: "RIGHT",
+	startLine: 11,
+	endLine: 13,
+};
+
+function quiz(overrides: Partial<Quiz> = {}): Quiz {
+	return {
+		quizId: "quiz-1",
+		questionText: "What changed?",
+		category: "bug_risk",
+		difficulty: "easy",
+		options: ["A", "B"],
+		diffReference: REFERENCE,
+		...overrides,
+	} as Quiz;
+}
+
+describe("postQuizComment", () => {
+	beforeEach(() => {
+		vi.mocked(postPRComment).mockReset().mockResolvedValue(1);
+		vi.mocked(postPRReview).mockReset().mockResolvedValue(2);
+		vi.mocked(postPRReviewComment).mockReset().mockResolvedValue(3);
+	});
+
+	it("anchors a single quiz to its diff reference", async () => {
+		const posted = await postQuizComment(TARGET, [quiz()], undefined, "ja");
+
+		expect(posted).toEqual({ kind: "review_comment", commentId: 3 });
+		expect(postPRReviewComment).toHaveBeenCalledWith(
+			"owner",
+			"repo",
+			1,
+			"quiz body",
+			"abc123",
+			REFERENCE,
+			42,
+		);
+		expect(postPRComment).not.toHaveBeenCalled();
+	});
+
+	it("posts a quiz set as a review with one anchor per referenced question", async () => {
+		const posted = await postQuizComment(
+			TARGET,
+			[
+				quiz({ questionNumber: 1 }),
+				quiz({ quizId: "quiz-2", questionNumber: 2, diffReference: undefined }),
+			],
+			"set-1",
+			"en",
+		);
+
+		expect(posted).toEqual({ kind: "review", commentId: 2 });
+		expect(vi.mocked(postPRReview).mock.calls[0][5]).toEqual([
+			{ body: expect.stringContaining("1"), reference: REFERENCE },
+		]);
+	});
+
+	it("mentions the reviewer in a reviewer quiz", async () => {
+		await postQuizComment(
+			TARGET,
+			[quiz({ audience: "reviewer", accountId: "octocat" })],
+			undefined,
+			"en",
+		);
+
+		expect(vi.mocked(postPRReviewComment).mock.calls[0][3]).toMatch(
+			/^@octocat .*\n\nquiz body$/s,
+		);
+	});
+
+	it("falls back to an issue comment without a diff reference", async () => {
+		const posted = await postQuizComment(
+			TARGET,
+			[quiz({ diffReference: undefined })],
+			undefined,
+			"ja",
+		);
+
+		expect(posted).toEqual({ kind: "issue_comment", commentId: 1 });
+		expect(postPRReviewComment).not.toHaveBeenCalled();
+	});
+
+	it("falls back to an issue comment when GitHub rejects the review comment", async () => {
+		vi.mocked(postPRReviewComment).mockRejectedValue(
+			new Error("Unprocessable Entity"),
+		);
+
+		const posted = await postQuizComment(TARGET, [quiz()], undefined, "ja");
+
+		expect(posted).toEqual({ kind: "issue_comment", commentId: 1 });
+		expect(postPRComment).toHaveBeenCalledWith(
+			"owner",
+			"repo",
+			1,
+			"quiz body",
+			42,
+		);
+	});
+
+	it("posts an issue comment when inline comments are disabled", async () => {
+		await postQuizComment(
+			{ ...TARGET, inline: false },
+			[quiz()],
+			undefined,
+			"ja",
+		);
+
+		expect(postPRReviewComment).not.toHaveBeenCalled();
+		expect(postPRComment).toHaveBeenCalledOnce();
+	});
+});
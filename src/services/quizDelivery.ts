@@ -0,0 +1,179 @@
+import { getMessages } from "../locales/index.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+	formatQuizComment,
+	formatQuizSetComment,
+	postPRComment,
+	postPRReview,
+	postPRReviewComment,
+} from "./github.js";
+import { getQuestionType } from "./quizGrading.js";
+
+/**
+ * クイズのPRへの投稿
+ * 出題箇所（diffReference）があればその行へのレビューコメントとして投稿し、
+ * 出題箇所がない・GitHubに受け付けられなかった場合は通常のPRコメントにする
+ */
+
+/**
+ * 投稿先
+ */
+export interface QuizCommentTarget {
+	owner: string;
+	repo: string;
+	prNumber: number;
+	installationId: number;
+	/** レビューコメントを付けるコミットのSHA（PRのhead） */
+	commitId: string;
+	/** 出題箇所の行へのレビューコメントとして投稿するか */
+	inline: boolean;
+}
+
+/**
+ * 投稿結果
+ * kind: review_comment=行へのレビューコメント（単問）, review=行コメント付きのレビュー（クイズセット）,
+ *       issue_comment=通常のPRコメント
+ */
+export interface PostedQuizComment {
+	kind: "review_comment" | "review" | "issue_comment";
+	commentId: number;
+}
+
+/**
+ * クイズ（単問またはクイズセット）の本文を組み立てる
+ * /quiz コマンドで追加生成した場合・レビュアー向けの場合は冒頭で出題先のユーザーにメンションする
+ */
+export function formatQuizBody(
+	quizzes: Quiz[],
+	quizSetId: string | undefined,
+	language: Language,
+): string {
+	const quiz = quizzes[0];
+	const messages = getMessages(language).quizComment;
+	const lead = quiz.onDemand
+		? messages.onDemandLead(quiz.accountId)
+		: quiz.audience === "reviewer"
+			? messages.reviewerLead(quiz.accountId)
+			: "";
+
+	if (quizSetId && quizzes.length > 1) {
+		return `${lead}${formatQuizSetComment(quizSetId, quizzes, false, language)}`;
+	}
+
+	return `${lead}${formatQuizComment(
+		quiz.quizId,
+		quiz.questionText,
+		quiz.category,
+		quiz.difficulty,
+		quiz.options,
+		"",
+		false,
+		getQuestionType(quiz),
+		language,
+	)}`;
+}
+
+/**
+ * 行へのレビューコメントとして投稿する
+ * @returns 出題箇所がない場合は null
+ */
+async function postInlineQuizComment(
+	target: QuizCommentTarget,
+	quizzes: Quiz[],
+	body: string,
+	language: Language,
+): Promise<PostedQuizComment | null> {
+	const { owner, repo, prNumber, commitId, installationId } = target;
+
+	// 単問: クイズ本文をそのまま出題箇所に付ける
+	if (quizzes.length === 1) {
+		const reference = quizzes[0].diffReference;
+		if (!reference) {
+			return null;
+		}
+		const commentId = await postPRReviewComment(
+			owner,
+			repo,
+			prNumber,
+			body,
+			commitId,
+			reference,
+			installationId,
+		);
+		return { kind: "review_comment", commentId };
+	}
+
+	// クイズセット: 本文をレビューに、各問題の出題箇所に問題番号を付ける
+	const messages = getMessages(language);
+	const comments = quizzes.flatMap((quiz, i) =>
+		quiz.diffReference
+			? [
+					{
+						body: messages.quizComment.anchorLabel(
+							quiz.questionNumber ?? i + 1,
+						),
+						reference: quiz.diffReference,
+					},
+				]
+			: [],
+	);
+	if (comments.length === 0) {
+		return null;
+	}
+	const commentId = await postPRReview(
+		owner,
+		repo,
+		prNumber,
+		body,
+		commitId,
+		comments,
+		installationId,
+	);
+	return { kind: "review", commentId };
+}
+
+/**
+ * クイズをPRに投稿する
+ * レビューコメントにできない場合は通常のPRコメントにフォールバックする
+ */
+export async function postQuizComment(
+	target: QuizCommentTarget,
+	quizzes: Quiz[],
+	quizSetId: string | undefined,
+	language: Language,
+): Promise<PostedQuizComment> {
+	const body = formatQuizBody(quizzes, quizSetId, language);
+
+	if (target.inline) {
+		try {
+			const posted = await postInlineQuizComment(
+				target,
+				quizzes,
+				body,
+				language,
+			);
+			if (posted) {
+				return posted;
+			}
+			logger.info("No diff reference to anchor quiz, posting issue comment", {
+				quizIds: quizzes.map((q) => q.quizId),
+			});
+		} catch (error) {
+			logger.warn("Inline quiz comment rejected, posting issue comment", {
+				quizIds: quizzes.map((q) => q.quizId),
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	const commentId = await postPRComment(
+		target.owner,
+		target.repo,
+		target.prNumber,
+		body,
+		target.installationId,
+	);
+	return { kind: "issue_comment", commentId };
+}
@@ -0,0 +1,649 @@
+import { env } from "../config/env.js";
+import { resolveLanguage } from "../locales/index.js";
+import {
+	AppError,
+	NoQuizzableChangesError,
+	PromptInjectionSuspectedError,
+	QuizQualityError,
+} from "../middleware/error.js";
+import type { CreateGenerationRunInput } from "../types/entities/generationRun.js";
+import type {
+	GeneratedQuiz,
+	GenerationTarget,
+	Quiz,
+	QuizAudience,
+	QuizPersonalization,
+	QuizQuality,
+	SourceHunk,
+} from "../types/entities/quiz.js";
+import type { CreateQuizSetInput } from "../types/entities/quizSet.js";
+import type { SkillStats } from "../types/entities/skillStats.js";
+import type { UserProfile } from "../types/entities/userProfile.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import {
+	buildPullRequestContext,
+	type PullRequestContext,
+	type PullRequestContextInput,
+} from "../utils/pullRequestContext.js";
+import {
+	type RedactionResult,
+	redactDiff,
+	redactSecrets,
+} from "../utils/secretRedactor.js";
+import { isReferenceInHunk, resolveDiffReference } from "./diffReference.js";
+import {
+	createGenerationRun,
+	createQuiz,
+	createQuizSet,
+	getSkillStatsByUser,
+	getUserProfile,
+	saveGenerationCache,
+	updateMergeRequestDiffInfo,
+} from "./firestore.js";
+import {
+	buildGenerationCacheKey,
+	type DiffFingerprint,
+	findCachedGeneration,
+	fingerprintDiff,
+	type GenerationCacheKeyInput,
+} from "./generationCache.js";
+import { type ScoredHunk, selectRelevantHunks } from "./hunkSelector.js";
+import {
+	type InjectionScanResult,
+	scanDiffForInjection,
+} from "./injectionScanner.js";
+import {
+	filterDiffByPath,
+	type PathFilterConfig,
+	type PathFilterResult,
+} from "./pathFilter.js";
+import { selectGenerationTarget } from "./personalization.js";
+import {
+	getQuizGenerator,
+	type QuizGenerationRequest,
+	type QuizGenerator,
+	resolveQuestionCount,
+} from "./quizGenerator.js";
+import { verifyQuiz } from "./quizVerifier.js";
+
+/**
+ * クイズ生成パイプライン
+ * diffの前処理 → 生成プロバイダー呼び出し → 検証 → Firestore保存 をまとめて行う
+ */
+
+/**
+ * クイズ生成パイプラインの入力
+ */
+export interface GenerateQuizzesInput {
+	mergeRequestId: string;
+	/** 出題先ユーザーID（作成者向けはPR/MRの作成者、レビュアー向けはレビュアー） */
+	accountId: string;
+	/** 出題先の立場（省略時は作成者） */
+	audience?: QuizAudience;
+	/** PR/MRの差分（unified diff形式） */
+	diff: string;
+	/** 出題数（省略時は差分の大きさから自動決定） */
+	questionCount?: number;
+	/** リポジトリの既定言語（出題者のプロファイルに言語設定がない場合に使用） */
+	language?: Language;
+	/** リポジトリごとのパスフィルター設定 */
+	pathFilter?: PathFilterConfig;
+	/** PR/MRのタイトル・説明・コミットメッセージ（変更の意図を問う出題に使う） */
+	context?: PullRequestContextInput;
+	/** 出題者が指定したカテゴリ・難易度（指定した項目はプロファイルからの選択より優先） */
+	target?: Partial<GenerationTarget>;
+	/** /quiz コマンドによる追加生成か（生成済みのクイズを再利用せず、毎回生成する） */
+	onDemand?: boolean;
+}
+
+/**
+ * クイズ生成パイプラインの結果
+ */
+export interface GenerateQuizzesResult {
+	/** 保存されたクイズ（出題順） */
+	quizzes: Quiz[];
+	/** クイズセットID（2問以上の場合のみ） */
+	quizSetId?: string;
+	/** 出題言語 */
+	language: Language;
+	/** 生成済みのクイズを再利用したか（差分が同一、または変更量がしきい値未満） */
+	cached: boolean;
+}
+
+/**
+ * ハンクを Quiz に記録する形式に変換
+ */
+function toSourceHunk({ hunk, score }: ScoredHunk): SourceHunk {
+	return {
+		path: hunk.path,
+		oldStart: hunk.oldStart,
+		oldLines: hunk.oldLines,
+		newStart: hunk.newStart,
+		newLines: hunk.newLines,
+		score,
+	};
+}
+
+/**
+ * 生成されたクイズの出題元ハンクを特定する
+ * 照合済みの diffReference があればそれを含むハンクに絞り込む
+ */
+function pickSourceHunks(
+	quiz: GeneratedQuiz,
+	hunks: ScoredHunk[],
+): SourceHunk[] {
+	const reference = quiz.diffReference;
+	const matched = reference
+		? hunks.filter(({ hunk }) => isReferenceInHunk(reference, hunk))
+		: [];
+
+	return (matched.length > 0 ? matched : hunks).map(toSourceHunk);
+}
+
+/**
+ * 生成されたクイズの diffReference を差分と照合する
+ * 照合できない場合は null にする（PRへはレビューコメントではなく通常のコメントで出題する）
+ */
+function anchorQuiz(quiz: GeneratedQuiz, hunks: ScoredHunk[]): GeneratedQuiz {
+	const diffReference = resolveDiffReference(
+		quiz.diffReference,
+		hunks.map(({ hunk }) => hunk),
+	);
+	if (quiz.diffReference && !diffReference) {
+		logger.warn("Discarded diff reference not found in diff", {
+			diffReference: quiz.diffReference,
+		});
+	}
+
+	return { ...quiz, diffReference };
+}
+
+/**
+ * 検証に通ったクイズ
+ */
+interface VerifiedQuiz {
+	generatedQuiz: GeneratedQuiz;
+	quality: QuizQuality;
+}
+
+/**
+ * 生成されたクイズの文言から秘密情報をマスクする
+ * マスクが入った問題は静的チェックで不合格になる
+ */
+function redactQuizText(quiz: GeneratedQuiz): GeneratedQuiz {
+	const redact = (text: string) => redactSecrets(text).text;
+
+	return {
+		...quiz,
+		questionText: redact(quiz.questionText),
+		options: quiz.options.map(redact),
+		explanation: redact(quiz.explanation),
+		acceptedAnswers: quiz.acceptedAnswers?.map(redact),
+	};
+}
+
+/**
+ * 差分の前処理結果
+ */
+interface PreparedDiff {
+	/** 秘密情報のマスク結果（差分） */
+	redaction: RedactionResult;
+	/** パスフィルターの適用結果 */
+	filtered: PathFilterResult;
+	/** 整形・マスク済みのPR/MRのコンテキスト */
+	context: PullRequestContext | null;
+	/** プロンプトインジェクションの検出結果（差分とコンテキスト） */
+	injection: InjectionScanResult;
+}
+
+/**
+ * 差分の前処理結果（PR/MRのコンテキスト、出題対象・除外ファイル、マスクした秘密情報の件数、
+ * プロンプトインジェクションのリスクスコア）を PR/MR に記録する
+ * 記録に失敗してもクイズ生成は続ける
+ */
+async function recordDiffInfo(
+	mergeRequestId: string,
+	{ redaction, filtered, context, injection }: PreparedDiff,
+): Promise<void> {
+	const redactionCount = redaction.count + (context?.redactionCount ?? 0);
+	if (redactionCount > 0) {
+		logger.warn("Secrets redacted from diff", {
+			mergeRequestId,
+			count: redactionCount,
+			byKind: redaction.byKind,
+		});
+	}
+	if (injection.score > 0) {
+		logger.warn("Prompt injection signals found in diff", {
+			mergeRequestId,
+			score: injection.score,
+			signals: injection.signals,
+		});
+	}
+
+	try {
+		await updateMergeRequestDiffInfo(mergeRequestId, {
+			diffSummary: context?.text,
+			filesChanged: filtered.included,
+			filesIgnored: filtered.ignored,
+			redactionCount,
+			injectionRiskScore: injection.score,
+			injectionSignals: injection.signals,
+		});
+	} catch (error) {
+		logger.warn("Failed to record diff info", {
+			mergeRequestId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * 生成と検証の結果
+ */
+interface VerificationOutcome {
+	/** 検証に通ったクイズ */
+	accepted: VerifiedQuiz[];
+	/** 検証で不合格になった問題数 */
+	rejectedCount: number;
+}
+
+/**
+ * クイズを生成して検証し、不合格の問題は上限回数まで生成し直す
+ * 上限に達しても足りない場合は合格した問題だけを返す（1問もない場合は空）
+ */
+async function generateVerifiedQuizzes(
+	generator: QuizGenerator,
+	request: QuizGenerationRequest,
+	questionCount: number,
+): Promise<VerificationOutcome> {
+	const maxAttempts = env.QUIZ_VERIFICATION_MAX_ATTEMPTS;
+	const accepted: VerifiedQuiz[] = [];
+	let rejectedCount = 0;
+
+	for (
+		let attempt = 1;
+		attempt <= maxAttempts && accepted.length < questionCount;
+		attempt++
+	) {
+		const remaining = questionCount - accepted.length;
+		const candidates =
+			remaining === 1
+				? [await generator.generate(request)]
+				: await generator.generateSet({ ...request, questionCount: remaining });
+
+		for (const candidate of candidates
+			.slice(0, remaining)
+			.map(redactQuizText)) {
+			const result = await verifyQuiz(
+				generator,
+				request.diff,
+				candidate,
+				request.context,
+			);
+
+			if (!result.passed) {
+				rejectedCount++;
+				logger.warn("Generated quiz rejected by verification", {
+					attempt,
+					score: result.score,
+					issues: result.issues,
+					questionType: candidate.questionType,
+				});
+				continue;
+			}
+
+			accepted.push({
+				generatedQuiz: candidate,
+				quality: {
+					score: result.score,
+					verifier: result.verifier,
+					attempts: attempt,
+				},
+			});
+		}
+	}
+
+	logger.info("Quiz verification finished", {
+		requested: questionCount,
+		accepted: accepted.length,
+		rejected: rejectedCount,
+	});
+
+	return { accepted, rejectedCount };
+}
+
+/**
+ * 生成実行記録を保存する（プロンプトのバージョン別の分析に使う）
+ * 保存に失敗しても生成結果は返す
+ */
+async function recordGenerationRun(
+	input: CreateGenerationRunInput,
+): Promise<void> {
+	try {
+		await createGenerationRun(input);
+	} catch (error) {
+		logger.warn("Failed to record generation run", {
+			mergeRequestId: input.mergeRequestId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * クイズを生成・検証し、結果を生成実行記録に残す
+ * @throws {QuizQualityError} 1問も検証に通らなかった場合
+ */
+async function generateAndRecordQuizzes(
+	mergeRequestId: string,
+	generator: QuizGenerator,
+	request: QuizGenerationRequest & { promptVersion: string },
+	questionCount: number,
+): Promise<VerifiedQuiz[]> {
+	const run = {
+		mergeRequestId,
+		generator: generator.name,
+		promptVersion: request.promptVersion,
+		requested: questionCount,
+	};
+
+	let outcome: VerificationOutcome;
+	try {
+		outcome = await generateVerifiedQuizzes(generator, request, questionCount);
+	} catch (error) {
+		await recordGenerationRun({
+			...run,
+			accepted: 0,
+			rejected: 0,
+			outcome: "failed",
+			errorCode: error instanceof AppError ? error.code : undefined,
+		});
+		throw error;
+	}
+
+	const { accepted, rejectedCount } = outcome;
+	await recordGenerationRun({
+		...run,
+		accepted: accepted.length,
+		rejected: rejectedCount,
+		outcome: accepted.length > 0 ? "accepted" : "quality_rejected",
+	});
+
+	if (accepted.length === 0) {
+		throw new QuizQualityError(
+			`No generated quiz passed verification after ${env.QUIZ_VERIFICATION_MAX_ATTEMPTS} attempts`,
+		);
+	}
+
+	return accepted;
+}
+
+/**
+ * 出題者のプロファイルとスキル統計を取得する
+ * 取得に失敗してもクイズ生成は続ける（パーソナライズなしで生成）
+ */
+async function loadQuizTaker(
+	accountId: string,
+): Promise<{ profile: UserProfile | null; skillStats: SkillStats[] }> {
+	try {
+		const [profile, skillStats] = await Promise.all([
+			getUserProfile(accountId),
+			getSkillStatsByUser(accountId),
+		]);
+		return { profile, skillStats };
+	} catch (error) {
+		logger.warn(
+			"Failed to load quiz taker, generating without personalization",
+			{
+				accountId,
+				error: error instanceof Error ? error.message : String(error),
+			},
+		);
+		return { profile: null, skillStats: [] };
+	}
+}
+
+/**
+ * 狙いと実際に生成されたカテゴリ・難易度を比較する
+ */
+function toPersonalization(
+	target: GenerationTarget | null,
+	quiz: GeneratedQuiz,
+): QuizPersonalization | undefined {
+	if (!target) {
+		return undefined;
+	}
+
+	return {
+		requestedCategory: target.category,
+		requestedDifficulty: target.difficulty,
+		categoryHonored: quiz.category === target.category,
+		difficultyHonored: quiz.difficulty === target.difficulty,
+	};
+}
+
+/**
+ * 再利用できる生成結果を探す
+ * キャッシュの参照に失敗しても生成は続ける
+ */
+async function lookupCachedGeneration(
+	key: GenerationCacheKeyInput,
+	fingerprint: DiffFingerprint,
+): Promise<GenerateQuizzesResult | null> {
+	try {
+		const cached = await findCachedGeneration(key, fingerprint);
+		if (!cached) {
+			return null;
+		}
+
+		logger.info("Reusing cached quizzes", {
+			mergeRequestId: key.mergeRequestId,
+			reason: cached.reason,
+			changedLinesSinceLast: cached.changedLinesSinceLast,
+			quizIds: cached.entry.quizIds,
+		});
+
+		return {
+			quizzes: cached.quizzes,
+			quizSetId: cached.entry.quizSetId,
+			language: cached.entry.language,
+			cached: true,
+		};
+	} catch (error) {
+		logger.warn("Failed to look up generation cache", {
+			mergeRequestId: key.mergeRequestId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * 生成結果をキャッシュに保存する
+ * 保存に失敗しても生成結果は返す
+ */
+async function storeGeneration(
+	key: GenerationCacheKeyInput,
+	fingerprint: DiffFingerprint,
+	result: GenerateQuizzesResult,
+): Promise<void> {
+	try {
+		await saveGenerationCache({
+			cacheKey: buildGenerationCacheKey(key),
+			mergeRequestId: key.mergeRequestId,
+			generator: key.generator,
+			promptVersion: key.promptVersion,
+			language: key.language,
+			reviewerAccountId: key.reviewerAccountId,
+			quizIds: result.quizzes.map((q) => q.quizId),
+			quizSetId: result.quizSetId,
+			changedLineHashes: fingerprint.changedLineHashes,
+		});
+	} catch (error) {
+		logger.warn("Failed to save generation cache", {
+			mergeRequestId: key.mergeRequestId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
+
+/**
+ * diffからクイズを生成して保存する
+ * 同じ差分や変更量の小さい再プッシュには生成済みのクイズを返す（/quiz コマンドによる追加生成を除く）
+ * @throws {NoQuizzableChangesError} パスフィルターで全ファイルが除外された場合
+ * @throws {PromptInjectionSuspectedError} 差分のプロンプトインジェクションのリスクスコアがしきい値以上の場合
+ */
+export async function generateAndSaveQuizzes(
+	input: GenerateQuizzesInput,
+): Promise<GenerateQuizzesResult> {
+	// 秘密情報をマスクしてから扱う（以降はマスク後の差分だけを使う）
+	const redaction = redactDiff(input.diff);
+	// 生成物・ロックファイル・バイナリなどを除外する
+	const filtered = filterDiffByPath(redaction.text, input.pathFilter);
+	// PR/MRのタイトル・説明・コミットメッセージも整形・マスクしてから扱う
+	const context = input.context ? buildPullRequestContext(input.context) : null;
+	// 出題対象の差分とコンテキストにAIへの指示のような記述がないか調べる
+	const injection = scanDiffForInjection(filtered.diff, context?.text);
+	await recordDiffInfo(input.mergeRequestId, {
+		redaction,
+		filtered,
+		context,
+		injection,
+	});
+
+	if (filtered.included.length === 0) {
+		throw new NoQuizzableChangesError(
+			`All ${filtered.ignored.length} changed files were excluded by path filters`,
+		);
+	}
+	const threshold = env.QUIZ_INJECTION_REFUSAL_THRESHOLD;
+	if (threshold > 0 && injection.score >= threshold) {
+		throw new PromptInjectionSuspectedError(injection.score);
+	}
+	const diff = filtered.diff;
+
+	// 出題に適したハンクを予算内で選ぶ
+	const selection = selectRelevantHunks(diff);
+
+	const questionCount = resolveQuestionCount(diff, input.questionCount);
+	const generator = getQuizGenerator();
+	// 出題の狙いと言語は出題者のプロファイルを優先する
+	const { profile, skillStats } = await loadQuizTaker(input.accountId);
+	const target = selectGenerationTarget(profile, skillStats, input.target);
+	const language = resolveLanguage(profile?.language, input.language);
+	// プロンプトの実験がある場合はPR/MRごとにバージョンを割り当てる
+	const promptVersion =
+		generator.assignPromptVersion?.(input.mergeRequestId) ??
+		generator.promptVersion;
+	// レビュアー向けは出題の観点が違うため、レビュアーごとに生成・キャッシュする
+	const audience = input.audience ?? "author";
+
+	const fingerprint = fingerprintDiff(diff);
+	const cacheKey: GenerationCacheKeyInput = {
+		mergeRequestId: input.mergeRequestId,
+		generator: generator.name,
+		promptVersion,
+		language,
+		reviewerAccountId: audience === "reviewer" ? input.accountId : undefined,
+		questionCount: input.questionCount,
+		diffHash: fingerprint.diffHash,
+	};
+	const cached = input.onDemand
+		? null
+		: await lookupCachedGeneration(cacheKey, fingerprint);
+	if (cached) {
+		return cached;
+	}
+
+	logger.info("Generating quizzes", {
+		mergeRequestId: input.mergeRequestId,
+		provider: generator.name,
+		promptVersion,
+		audience,
+		questionCount,
+		target,
+		language,
+		onDemand: input.onDemand ?? false,
+		contextLength: context?.text.length ?? 0,
+		contextTruncated: context?.truncated ?? false,
+	});
+
+	const verified = await generateAndRecordQuizzes(
+		input.mergeRequestId,
+		generator,
+		{
+			diff: selection.diff,
+			target: target ?? undefined,
+			language,
+			context: context?.text,
+			promptVersion,
+			audience,
+		},
+		questionCount,
+	);
+
+	const quizInputs = verified.map(({ generatedQuiz, quality }) => {
+		const anchored = anchorQuiz(generatedQuiz, selection.hunks);
+		return {
+			generatedQuiz: anchored,
+			sourceHunks: pickSourceHunks(anchored, selection.hunks),
+			quality,
+			personalization: toPersonalization(target, anchored),
+			promptVersion,
+			audience,
+			language,
+			onDemand: input.onDemand,
+		};
+	});
+
+	if (target) {
+		logger.info("Personalization result", {
+			mergeRequestId: input.mergeRequestId,
+			target,
+			categoryHonored: quizInputs.filter(
+				(q) => q.personalization?.categoryHonored,
+			).length,
+			difficultyHonored: quizInputs.filter(
+				(q) => q.personalization?.difficultyHonored,
+			).length,
+			total: quizInputs.length,
+		});
+	}
+
+	const result = await saveQuizzes(input, questionCount, quizInputs, language);
+	// 追加生成したクイズは作成・更新時の出題として再利用しない
+	if (!input.onDemand) {
+		await storeGeneration(cacheKey, fingerprint, result);
+	}
+
+	return result;
+}
+
+/**
+ * 生成したクイズを保存する（2問以上はクイズセットとして保存）
+ */
+async function saveQuizzes(
+	input: GenerateQuizzesInput,
+	questionCount: number,
+	quizInputs: CreateQuizSetInput["quizzes"],
+	language: Language,
+): Promise<GenerateQuizzesResult> {
+	if (questionCount === 1) {
+		const quiz = await createQuiz({
+			mergeRequestId: input.mergeRequestId,
+			accountId: input.accountId,
+			...quizInputs[0],
+		});
+
+		return { quizzes: [quiz], language, cached: false };
+	}
+
+	const { quizSet, quizzes } = await createQuizSet({
+		mergeRequestId: input.mergeRequestId,
+		accountId: input.accountId,
+		quizzes: quizInputs,
+	});
+
+	return { quizzes, quizSetId: quizSet.quizSetId, language, cached: false };
+}
@@ -0,0 +1,214 @@
+import { env } from "../config/env.js";
+import type { AnswerValue } from "../types/entities/answer.js";
+import type {
+	GeneratedQuiz,
+	GenerationTarget,
+	Quiz,
+	QuizAudience,
+	QuizFollowUp,
+} from "../types/entities/quiz.js";
+import { QUIZ_SET_MAX_SIZE } from "../types/entities/quizSet.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { vertexQuizGenerator } from "./gemini.js";
+import { localQuizGenerator } from "./localQuizGenerator.js";
+
+/**
+ * クイズ生成プロバイダー
+ * 生成処理をプロバイダーごとに差し替えられるようにする
+ */
+
+/** プロバイダー名 */
+export type QuizGeneratorProvider = "vertex" | "local";
+
+/**
+ * クイズ生成リクエスト
+ */
+export interface QuizGenerationRequest {
+	/** 対象の差分（unified diff形式） */
+	diff: string;
+	/** 出題の狙い（差分が許す範囲で優先する努力目標） */
+	target?: GenerationTarget;
+	/** 出題言語（省略時は既定言語） */
+	language?: Language;
+	/** PR/MRのタイトル・説明・コミットメッセージ（整形・マスク済み） */
+	context?: string;
+	/** 使用するプロンプトのバージョン（省略時はプロバイダーの promptVersion） */
+	promptVersion?: string;
+	/** 出題先の立場（省略時は作成者） */
+	audience?: QuizAudience;
+}
+
+/**
+ * クイズセット生成リクエスト
+ */
+export interface QuizSetGenerationRequest extends QuizGenerationRequest {
+	/** 生成する問題数 */
+	questionCount: number;
+}
+
+/**
+ * 生成済みクイズの検証リクエスト
+ */
+export interface QuizVerificationRequest extends QuizGenerationRequest {
+	/** 検証対象のクイズ */
+	quiz: GeneratedQuiz;
+}
+
+/**
+ * 検証モデルによるクイズの所見
+ */
+export interface QuizVerificationOpinion {
+	/** 正解を伏せた状態で解き直した回答 */
+	answer: AnswerValue;
+	/** 正解として擁護できる選択肢（0始まり、選択式のみ） */
+	defensibleOptionIndices: number[];
+	/** 解説が正解と矛盾していないか */
+	explanationConsistent: boolean;
+	/** 解き直した回答の確信度 (0.0-1.0) */
+	confidence: number;
+	/** 指摘事項 */
+	notes?: string;
+}
+
+/**
+ * 記述式の回答の採点リクエスト
+ */
+export interface FreeTextGradingRequest {
+	/** 採点対象のクイズ */
+	quiz: Pick<Quiz, "questionText" | "modelAnswer" | "rubric" | "explanation">;
+	/** 回答（利用者の入力そのもの） */
+	answer: string;
+	/** 採点コメントの言語 */
+	language: Language;
+}
+
+/**
+ * 採点モデルによる記述式の回答の所見
+ */
+export interface FreeTextGradingOpinion {
+	/** 採点基準ごとに満たしているか（rubric と同じ順） */
+	criteriaMet: boolean[];
+	/** 採点コメント */
+	feedback: string;
+}
+
+/**
+ * 回答済みクイズへの追加質問（/explain）のリクエスト
+ */
+export interface QuizFollowUpRequest {
+	/** 対象のクイズ */
+	quiz: Pick<Quiz, "questionText" | "questionType" | "options" | "explanation">;
+	/** 出題元のハンク（マスク済みの unified diff、取得できなければ空文字） */
+	diff: string;
+	/** ユーザーの回答（表示用） */
+	userAnswer: string;
+	/** 正解（表示用） */
+	correctAnswer: string;
+	/** 同じユーザーのこれまでの追加質問と回答（質問順） */
+	history: Array<Pick<QuizFollowUp, "question" | "answer">>;
+	/** 今回の質問（利用者の入力そのもの） */
+	question: string;
+	/** 回答の言語 */
+	language: Language;
+}
+
+/**
+ * クイズ生成プロバイダーのインターフェース
+ */
+export interface QuizGenerator {
+	/** プロバイダー名 */
+	readonly name: QuizGeneratorProvider;
+
+	/** 生成内容に影響するプロンプト・テンプレートの既定のバージョン（生成キャッシュのキーに含める） */
+	readonly promptVersion: string;
+
+	/**
+	 * 生成に使うプロンプトのバージョンを割り当てる（省略時は常に promptVersion）
+	 * @param seed 割り当ての単位（PR/MR ID）
+	 */
+	assignPromptVersion?(seed: string): string;
+
+	/** 差分からクイズを1問生成する */
+	generate(request: QuizGenerationRequest): Promise<GeneratedQuiz>;
+
+	/** 差分の異なる箇所から複数問を生成する（問題数は上限であり、少なくなる場合がある） */
+	generateSet(request: QuizSetGenerationRequest): Promise<GeneratedQuiz[]>;
+
+	/**
+	 * 生成済みクイズを差分に照らして解き直す（省略時は静的チェックのみで検証）
+	 */
+	verify?(request: QuizVerificationRequest): Promise<QuizVerificationOpinion>;
+
+	/**
+	 * 記述式の回答を採点基準に照らして採点する（省略時はキーワード照合で採点）
+	 */
+	gradeFreeText?(
+		request: FreeTextGradingRequest,
+	): Promise<FreeTextGradingOpinion>;
+
+	/**
+	 * 回答済みクイズへの追加質問に、クイズと出題元の差分に基づいて回答する（省略時は追加質問に対応しない）
+	 */
+	answerFollowUp?(request: QuizFollowUpRequest): Promise<string>;
+}
+
+let quizGenerator: QuizGenerator | null = null;
+
+/**
+ * 指定したプロバイダーのクイズ生成器を取得
+ */
+export function createQuizGenerator(
+	provider: QuizGeneratorProvider,
+): QuizGenerator {
+	switch (provider) {
+		case "vertex":
+			return vertexQuizGenerator;
+		case "local":
+			return localQuizGenerator;
+	}
+}
+
+/**
+ * 環境変数 QUIZ_GENERATOR で選択されたクイズ生成器を取得（シングルトン）
+ */
+export function getQuizGenerator(): QuizGenerator {
+	if (quizGenerator) {
+		return quizGenerator;
+	}
+
+	quizGenerator = createQuizGenerator(env.QUIZ_GENERATOR);
+	logger.info("Quiz generator initialized", { provider: quizGenerator.name });
+
+	return quizGenerator;
+}
+
+/** 問題数を増やす変更行数のしきい値 */
+const QUESTION_COUNT_THRESHOLDS = [
+	{ minChangedLines: 500, questionCount: QUIZ_SET_MAX_SIZE },
+	{ minChangedLines: 150, questionCount: 3 },
+] as const;
+
+/**
+ * 出題する問題数を決定する
+ * 明示指定がなければ差分の変更行数から決める（小さいPRは1問）
+ */
+export function resolveQuestionCount(diff: string, requested?: number): number {
+	if (requested !== undefined) {
+		return Math.min(Math.max(requested, 1), QUIZ_SET_MAX_SIZE);
+	}
+
+	const changedLines = diff
+		.split("\n")
+		.filter(
+			(line) =>
+				(line.startsWith("+") || line.startsWith("-")) &&
+				!line.startsWith("+++") &&
+				!line.startsWith("---"),
+		).length;
+
+	const threshold = QUESTION_COUNT_THRESHOLDS.find(
+		(t) => changedLines >= t.minChangedLines,
+	);
+	return threshold?.questionCount ?? 1;
+}
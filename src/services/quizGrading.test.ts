@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import type { Quiz } from "../types/entities/quiz.js";
+import {
+	describeAnswerValue,
+	FREE_TEXT_PASS_SCORE,
+	formatAnswerValue,
+	formatCorrectAnswer,
+	getAnswerFormatHint,
+	gradeAnswer,
+	matchRubric,
+	normalizeFillInAnswer,
+	parseAnswerValue,
+} from "./quizGrading.js";
+
+type TestQuiz = Pick<
+	Quiz,
+	| "questionType"
+	| "options"
+	| "correctAnswerIndex"
+	| "correctAnswerIndices"
+	| "acceptedAnswers"
+	| "modelAnswer"
+	| "rubric"
+>;
+
+const multipleChoice: TestQuiz = {
+	questionType: "multiple_choice",
+	options: ["A", "B", "C", "D"],
+	correctAnswerIndex: 1,
+};
+const trueFalse: TestQuiz = {
+	questionType: "true_false",
+	options: ["正しい", "誤り"],
+	correctAnswerIndex: 1,
+};
+const multiSelect: TestQuiz = {
+	questionType: "multi_select",
+	options: ["A", "B", "C", "D"],
+	correctAnswerIndices: [0, 2],
+};
+const ordering: TestQuiz = {
+	questionType: "ordering",
+	options: ["parse", "validate", "save"],
+	correctAnswerIndices: [0, 1, 2],
+};
+const fillInBlank: TestQuiz = {
+	questionType: "fill_in_blank",
+	options: [],
+	acceptedAnswers: ["useMemo", "React.useMemo"],
+};
+const freeText: TestQuiz = {
+	questionType: "free_text",
+	options: [],
+	modelAnswer: "キャッシュが古いままになるため",
+	rubric: [
+		{
+			description: "キャッシュに触れる",
+			keywords: ["キャッシュ", "cache"],
+			points: 3,
+		},
+		{
+			description: "無効化に触れる",
+			keywords: ["無効化", "invalidate"],
+			points: 2,
+		},
+	],
+};
+
+describe("parseAnswerValue", () => {
+	it("parses choice answers within the option range", () => {
+		expect(parseAnswerValue(multipleChoice, "2")).toEqual({
+			selectedAnswerIndex: 1,
+		});
+		expect(parseAnswerValue(multipleChoice, "5")).toBeNull();
+		expect(parseAnswerValue(multipleChoice, "1,2")).toBeNull();
+		expect(parseAnswerValue(multipleChoice, "B")).toBeNull();
+	});
+
+	it("accepts true/false aliases", () => {
+		expect(parseAnswerValue(trueFalse, "false")).toEqual({
+			selectedAnswerIndex: 1,
+		});
+		expect(parseAnswerValue(trueFalse, "T")).toEqual({
+			selectedAnswerIndex: 0,
+		});
+	});
+
+	it("sorts multi-select answers and rejects duplicates", () => {
+		expect(parseAnswerValue(multiSelect, "3,1")).toEqual({
+			selectedAnswerIndices: [0, 2],
+		});
+		expect(parseAnswerValue(multiSelect, "1,1")).toBeNull();
+	});
+
+	it("requires every option exactly once for ordering", () => {
+		expect(parseAnswerValue(ordering, "3,1,2")).toEqual({
+			selectedAnswerIndices: [2, 0, 1],
+		});
+		expect(parseAnswerValue(ordering, "1,2")).toBeNull();
+	});
+
+	it("keeps text answers as typed", () => {
+		expect(parseAnswerValue(fillInBlank, " useMemo ")).toEqual({
+			answerText: "useMemo",
+		});
+		expect(parseAnswerValue(freeText, "because")).toEqual({
+			freeTextAnswer: "because",
+		});
+		expect(parseAnswerValue(freeText, "   ")).toBeNull();
+	});
+
+	it("treats quizzes without a question type as multiple choice", () => {
+		expect(
+			parseAnswerValue({ options: ["A", "B"], correctAnswerIndex: 0 }, "1"),
+		).toEqual({ selectedAnswerIndex: 0 });
+	});
+});
+
+describe("gradeAnswer", () => {
+	it("grades choice answers", () => {
+		expect(gradeAnswer(multipleChoice, { selectedAnswerIndex: 1 })).toBe(true);
+		expect(gradeAnswer(multipleChoice, { selectedAnswerIndex: 0 })).toBe(false);
+		expect(gradeAnswer(trueFalse, { selectedAnswerIndex: 1 })).toBe(true);
+	});
+
+	it("requires the exact set for multi-select", () => {
+		expect(gradeAnswer(multiSelect, { selectedAnswerIndices: [2, 0] })).toBe(
+			true,
+		);
+		expect(gradeAnswer(multiSelect, { selectedAnswerIndices: [0] })).toBe(
+			false,
+		);
+		expect(gradeAnswer(multiSelect, { selectedAnswerIndices: [0, 1, 2] })).toBe(
+			false,
+		);
+	});
+
+	it("requires the exact order for ordering", () => {
+		expect(gradeAnswer(ordering, { selectedAnswerIndices: [0, 1, 2] })).toBe(
+			true,
+		);
+		expect(gradeAnswer(ordering, { selectedAnswerIndices: [1, 0, 2] })).toBe(
+			false,
+		);
+	});
+
+	it("ignores width, case and quotes for fill-in answers", () => {
+		expect(gradeAnswer(fillInBlank, { answerText: "`ＵＳＥＭＥＭＯ`" })).toBe(
+			true,
+		);
+		expect(gradeAnswer(fillInBlank, { answerText: "react.usememo" })).toBe(
+			true,
+		);
+		expect(gradeAnswer(fillInBlank, { answerText: "useCallback" })).toBe(false);
+	});
+
+	it("grades free text by the rubric score", () => {
+		expect(
+			gradeAnswer(freeText, { freeTextAnswer: "キャッシュを無効化しないため" }),
+		).toBe(true);
+		// 配点 3/5 = 0.6 は合格
+		expect(gradeAnswer(freeText, { freeTextAnswer: "Cache is stale" })).toBe(
+			true,
+		);
+		expect(gradeAnswer(freeText, { freeTextAnswer: "invalidate it" })).toBe(
+			false,
+		);
+	});
+});
+
+describe("matchRubric", () => {
+	it("scores met criteria by points", () => {
+		const match = matchRubric(freeText.rubric ?? [], "INVALIDATE the cache");
+
+		expect(match.score).toBe(1);
+		expect(match.missed).toEqual([]);
+	});
+
+	it("reports missed criteria", () => {
+		const match = matchRubric(freeText.rubric ?? [], "無効化する");
+
+		expect(match.score).toBeCloseTo(0.4);
+		expect(match.score).toBeLessThan(FREE_TEXT_PASS_SCORE);
+		expect(match.met.map((c) => c.description)).toEqual(["無効化に触れる"]);
+		expect(match.missed.map((c) => c.description)).toEqual([
+			"キャッシュに触れる",
+		]);
+	});
+
+	it("scores zero without criteria", () => {
+		expect(matchRubric([], "anything").score).toBe(0);
+	});
+});
+
+describe("normalizeFillInAnswer", () => {
+	it("normalizes width, case, surrounding quotes and spaces", () => {
+		expect(normalizeFillInAnswer(' "Use  Client" ')).toBe("use client");
+		expect(normalizeFillInAnswer("ｆｏｏ１")).toBe("foo1");
+	});
+});
+
+describe("formatting", () => {
+	it("formats answers and correct answers per question type", () => {
+		expect(formatAnswerValue(multipleChoice, { selectedAnswerIndex: 2 })).toBe(
+			"3. C",
+		);
+		expect(formatCorrectAnswer(multipleChoice)).toBe("2. B");
+		expect(formatCorrectAnswer(multiSelect)).toBe("1. A / 3. C");
+		expect(
+			formatAnswerValue(ordering, { selectedAnswerIndices: [2, 0, 1] }),
+		).toBe("3 → 1 → 2");
+		expect(formatCorrectAnswer(fillInBlank)).toBe(
+			"`useMemo` / `React.useMemo`",
+		);
+		expect(formatCorrectAnswer(freeText)).toBe(
+			"\n> キャッシュが古いままになるため",
+		);
+	});
+
+	it("describes an answer for logs without its text", () => {
+		expect(describeAnswerValue({ selectedAnswerIndices: [0, 2] })).toEqual({
+			fields: ["selectedAnswerIndices"],
+			textLength: undefined,
+		});
+		expect(
+			describeAnswerValue({
+				freeTextAnswer: "secret reasoning",
+				answerText: undefined,
+			}),
+		).toEqual({ fields: ["freeTextAnswer"], textLength: 16 });
+	});
+
+	it("gives an answer example that parses for the question type", () => {
+		for (const quiz of [multipleChoice, trueFalse, multiSelect, ordering]) {
+			const { example } = getAnswerFormatHint(quiz, "en");
+			expect(parseAnswerValue(quiz, example)).not.toBeNull();
+		}
+	});
+});
@@ -0,0 +1,378 @@
+import { getMessages } from "../locales/index.js";
+import {
+	type AnswerValue,
+	MAX_FREE_TEXT_ANSWER_LENGTH,
+} from "../types/entities/answer.js";
+import type { Quiz, RubricCriterion } from "../types/entities/quiz.js";
+import type { Language, QuestionType } from "../types/index.js";
+
+/**
+ * クイズ採点サービス
+ * 問題形式ごとの回答の解析・正誤判定・表示を行う
+ */
+
+/** 採点・表示に必要なクイズの項目 */
+type GradableQuiz = Pick<
+	Quiz,
+	| "questionType"
+	| "options"
+	| "correctAnswerIndex"
+	| "correctAnswerIndices"
+	| "acceptedAnswers"
+	| "modelAnswer"
+	| "rubric"
+>;
+
+/** 記述式の回答を正解とみなす得点の下限 */
+export const FREE_TEXT_PASS_SCORE = 0.6;
+
+/**
+ * ルーブリックによる記述式の採点結果
+ */
+export interface RubricMatch {
+	/** 得点 (0.0-1.0) - 満たした基準の配点の合計 / 配点の総計 */
+	score: number;
+	/** 満たした基準 */
+	met: RubricCriterion[];
+	/** 満たしていない基準 */
+	missed: RubricCriterion[];
+}
+
+/** ○×問題で「正しい」「誤り」として受け付ける入力 */
+const TRUE_FALSE_ALIASES: Record<string, number> = {
+	true: 0,
+	t: 0,
+	false: 1,
+	f: 1,
+};
+
+/**
+ * クイズの問題形式を取得（未設定の既存クイズは4択）
+ */
+export function getQuestionType(
+	quiz: Pick<Quiz, "questionType">,
+): QuestionType {
+	return quiz.questionType ?? "multiple_choice";
+}
+
+/**
+ * 穴埋め回答の比較用に正規化する
+ * 全角・半角、大文字・小文字、前後の記号や連続する空白の違いを無視する
+ */
+export function normalizeFillInAnswer(text: string): string {
+	return text
+		.normalize("NFKC")
+		.trim()
+		.replace(/^[`'"]+|[`'"]+$/g, "")
+		.replace(/\s+/g, " ")
+		.toLowerCase();
+}
+
+/**
+ * 記述式の回答をルーブリックのキーワードで採点する
+ * 基準ごとにキーワードのいずれかが回答に含まれていれば満たしたとみなす（表記の違いは穴埋めと同じく正規化する）
+ */
+export function matchRubric(
+	rubric: RubricCriterion[],
+	answer: string,
+): RubricMatch {
+	const normalizedAnswer = normalizeFillInAnswer(answer);
+	const met: RubricCriterion[] = [];
+	const missed: RubricCriterion[] = [];
+
+	for (const criterion of rubric) {
+		const matched = criterion.keywords.some((keyword) => {
+			const normalized = normalizeFillInAnswer(keyword);
+			return normalized.length > 0 && normalizedAnswer.includes(normalized);
+		});
+		(matched ? met : missed).push(criterion);
+	}
+
+	const totalPoints = rubric.reduce((sum, c) => sum + c.points, 0);
+	const metPoints = met.reduce((sum, c) => sum + c.points, 0);
+
+	return {
+		score: totalPoints > 0 ? metPoints / totalPoints : 0,
+		met,
+		missed,
+	};
+}
+
+/**
+ * カンマ区切りの番号列（1始まり）を0始まりのインデックスに変換
+ */
+function parseIndexList(raw: string): number[] | null {
+	const parts = raw.split(",").map((p) => p.trim());
+	if (parts.some((p) => !/^\d+$/.test(p))) {
+		return null;
+	}
+	return parts.map((p) => Number.parseInt(p, 10) - 1);
+}
+
+/**
+ * 回答内容がクイズの問題形式に合っているか確認
+ */
+export function isValidAnswerValue(
+	quiz: GradableQuiz,
+	value: AnswerValue,
+): boolean {
+	const optionCount = quiz.options.length;
+	const inRange = (i: number) => i >= 0 && i < optionCount;
+
+	switch (getQuestionType(quiz)) {
+		case "multiple_choice":
+		case "true_false":
+			return (
+				value.selectedAnswerIndex !== undefined &&
+				inRange(value.selectedAnswerIndex)
+			);
+		case "multi_select": {
+			const indices = value.selectedAnswerIndices ?? [];
+			return (
+				indices.length > 0 &&
+				new Set(indices).size === indices.length &&
+				indices.every(inRange)
+			);
+		}
+		case "ordering": {
+			const indices = value.selectedAnswerIndices ?? [];
+			return (
+				indices.length === optionCount &&
+				new Set(indices).size === optionCount &&
+				indices.every(inRange)
+			);
+		}
+		case "fill_in_blank":
+			return (
+				value.answerText !== undefined &&
+				normalizeFillInAnswer(value.answerText).length > 0
+			);
+		case "free_text":
+			return (
+				value.freeTextAnswer !== undefined &&
+				value.freeTextAnswer.trim().length > 0 &&
+				value.freeTextAnswer.length <= MAX_FREE_TEXT_ANSWER_LENGTH
+			);
+	}
+}
+
+/**
+ * /answer コマンドの回答文字列をクイズの問題形式に合わせて解析
+ * 例: 4択 `2` / ○× `1` または `true` / 複数選択 `1,3` / 並べ替え `3,1,2,4` / 穴埋め `useMemo`
+ * 記述式は回答文字列をそのまま回答とする
+ * @returns 回答内容（形式に合わない場合はnull）
+ */
+export function parseAnswerValue(
+	quiz: GradableQuiz,
+	raw: string,
+): AnswerValue | null {
+	let value: AnswerValue | null;
+
+	switch (getQuestionType(quiz)) {
+		case "multiple_choice":
+		case "true_false": {
+			const alias =
+				getQuestionType(quiz) === "true_false"
+					? TRUE_FALSE_ALIASES[raw.toLowerCase()]
+					: undefined;
+			const indices = alias !== undefined ? [alias] : parseIndexList(raw);
+			value =
+				indices && indices.length === 1
+					? { selectedAnswerIndex: indices[0] }
+					: null;
+			break;
+		}
+		case "multi_select": {
+			const indices = parseIndexList(raw);
+			// 複数選択は番号順に揃えて保存する
+			value = indices
+				? { selectedAnswerIndices: [...indices].sort((a, b) => a - b) }
+				: null;
+			break;
+		}
+		case "ordering": {
+			const indices = parseIndexList(raw);
+			value = indices ? { selectedAnswerIndices: indices } : null;
+			break;
+		}
+		case "fill_in_blank":
+			value = { answerText: raw.trim() };
+			break;
+		case "free_text":
+			value = { freeTextAnswer: raw.trim() };
+			break;
+	}
+
+	return value && isValidAnswerValue(quiz, value) ? value : null;
+}
+
+/**
+ * 回答の正誤を判定
+ * 記述式はルーブリックのキーワード照合の得点で判定する（モデルでの採点結果は呼び出し側で上書きする）
+ */
+export function gradeAnswer(quiz: GradableQuiz, value: AnswerValue): boolean {
+	switch (getQuestionType(quiz)) {
+		case "multiple_choice":
+		case "true_false":
+			return value.selectedAnswerIndex === quiz.correctAnswerIndex;
+		case "multi_select": {
+			// 過不足なく正解の選択肢をすべて選んだ場合のみ正解
+			const selected = new Set(value.selectedAnswerIndices ?? []);
+			const correct = quiz.correctAnswerIndices ?? [];
+			return (
+				selected.size === correct.length &&
+				correct.every((i) => selected.has(i))
+			);
+		}
+		case "ordering": {
+			const selected = value.selectedAnswerIndices ?? [];
+			const correct = quiz.correctAnswerIndices ?? [];
+			return (
+				selected.length === correct.length &&
+				correct.every((index, position) => selected[position] === index)
+			);
+		}
+		case "fill_in_blank": {
+			if (value.answerText === undefined) {
+				return false;
+			}
+			const answer = normalizeFillInAnswer(value.answerText);
+			return (quiz.acceptedAnswers ?? []).some(
+				(accepted) => normalizeFillInAnswer(accepted) === answer,
+			);
+		}
+		case "free_text":
+			return (
+				value.freeTextAnswer !== undefined &&
+				matchRubric(quiz.rubric ?? [], value.freeTextAnswer).score >=
+					FREE_TEXT_PASS_SCORE
+			);
+	}
+}
+
+/**
+ * 選択肢を `番号. 内容` 形式で表示
+ */
+function formatOption(quiz: GradableQuiz, index: number): string {
+	return `${index + 1}. ${quiz.options[index] ?? ""}`;
+}
+
+/**
+ * 記述式の文章を引用として表示（ラベルの後に続けるため改行から始める）
+ */
+function formatQuotedText(text: string): string {
+	return `\n> ${text.trim().replace(/\n/g, "\n> ")}`;
+}
+
+/**
+ * 回答内容を表示用の文字列に変換
+ */
+export function formatAnswerValue(
+	quiz: GradableQuiz,
+	value: AnswerValue,
+	language?: Language,
+): string {
+	switch (getQuestionType(quiz)) {
+		case "multiple_choice":
+		case "true_false":
+			return value.selectedAnswerIndex !== undefined
+				? formatOption(quiz, value.selectedAnswerIndex)
+				: getMessages(language).answerFormat.noAnswer;
+		case "multi_select":
+			return (value.selectedAnswerIndices ?? [])
+				.map((i) => formatOption(quiz, i))
+				.join(" / ");
+		case "ordering":
+			return (value.selectedAnswerIndices ?? [])
+				.map((i) => `${i + 1}`)
+				.join(" → ");
+		case "fill_in_blank":
+			return `\`${(value.answerText ?? "").replace(/`/g, "")}\``;
+		case "free_text":
+			return value.freeTextAnswer
+				? formatQuotedText(value.freeTextAnswer)
+				: getMessages(language).answerFormat.noAnswer;
+	}
+}
+
+/**
+ * ログに残す回答の形（使った回答欄と入力した文字数のみ、入力した文章はログに残さない）
+ */
+export function describeAnswerValue(value: AnswerValue): {
+	fields: Array<keyof AnswerValue>;
+	textLength?: number;
+} {
+	const fields = (Object.keys(value) as Array<keyof AnswerValue>).filter(
+		(key) => value[key] !== undefined,
+	);
+	const text = value.freeTextAnswer ?? value.answerText;
+
+	return { fields, textLength: text?.length };
+}
+
+/**
+ * 正解を表示用の文字列に変換
+ */
+export function formatCorrectAnswer(quiz: GradableQuiz): string {
+	switch (getQuestionType(quiz)) {
+		case "multiple_choice":
+		case "true_false":
+			return formatOption(quiz, quiz.correctAnswerIndex ?? 0);
+		case "multi_select":
+			return formatAnswerValue(quiz, {
+				selectedAnswerIndices: [...(quiz.correctAnswerIndices ?? [])].sort(
+					(a, b) => a - b,
+				),
+			});
+		case "ordering":
+			return formatAnswerValue(quiz, {
+				selectedAnswerIndices: quiz.correctAnswerIndices ?? [],
+			});
+		case "fill_in_blank":
+			return (quiz.acceptedAnswers ?? [])
+				.map((answer) => `\`${answer.replace(/`/g, "")}\``)
+				.join(" / ");
+		case "free_text":
+			return formatQuotedText(quiz.modelAnswer ?? "");
+	}
+}
+
+/**
+ * 問題形式ごとの回答方法の説明と回答例
+ */
+export function getAnswerFormatHint(
+	quiz: Pick<Quiz, "questionType" | "options">,
+	language?: Language,
+): {
+	instruction: string;
+	example: string;
+} {
+	const messages = getMessages(language).answerFormat;
+
+	switch (getQuestionType(quiz)) {
+		case "multiple_choice":
+			return {
+				instruction: messages.multipleChoice(quiz.options.length),
+				example: "1",
+			};
+		case "true_false":
+			return { instruction: messages.trueFalse, example: "1" };
+		case "multi_select":
+			return { instruction: messages.multiSelect, example: "1,3" };
+		case "ordering":
+			return {
+				instruction: messages.ordering,
+				example: quiz.options.map((_, i) => quiz.options.length - i).join(","),
+			};
+		case "fill_in_blank":
+			return {
+				instruction: messages.fillInBlank,
+				example: messages.fillInBlankExample,
+			};
+		case "free_text":
+			return {
+				instruction: messages.freeText,
+				example: messages.freeTextExample,
+			};
+	}
+}
@@ -8,12 +8,14 @@ import { logger } from "../utils/logger.js";
  */
 
 /**
- * PRに紐づく最新のクイズを取得
+ * PRで指定したユーザーに出題した最新のクイズを取得
+ * 他のユーザー（作成者・他のレビュアー）に出題したクイズは返さない
  */
 export async function getLatestQuizForPR(
 	owner: string,
 	repo: string,
 	prNumber: number,
+	accountId: string,
 ): Promise<Quiz | null> {
 	try {
 		logger.info("Searching for quiz", { owner, repo, prNumber });
@@ -52,7 +54,6 @@ export async function getLatestQuizForPR(
 		const quizSnapshot = await quizzesRef
 			.where("mergeRequestId", "==", mergeRequestId)
 			.orderBy("createdAt", "desc")
-			.limit(1)
 			.get();
 
 		logger.info("Quiz query completed", { 
@@ -71,11 +72,22 @@ export async function getLatestQuizForPR(
 			return null;
 		}
 
-		const quizData = quizSnapshot.docs[0].data();
-		const quiz = quizData as Quiz;
+		const quiz = quizSnapshot.docs
+			.map((doc) => doc.data() as Quiz)
+			.find((q) => q.accountId === accountId);
+
+		if (!quiz) {
+			logger.warn("Quiz not found for commenter", {
+				mergeRequestId,
+				accountId,
+			});
+			return null;
+		}
 
 		logger.info("Found quiz", {
 			quizId: quiz.quizId,
+			accountId: quiz.accountId,
+			audience: quiz.audience,
 			mergeRequestId,
 			owner,
 			repo,
@@ -143,31 +155,50 @@ export function extractQuizIdFromComment(
 
 /**
  * コメントまたはPR情報からQuizを特定
+ * コメントしたユーザーに出題したクイズだけを返す（他のユーザーのクイズのIDを指定した場合も null）
+ * @param accountId コメントしたユーザー
  */
 export async function findQuizForAnswer(
 	commentBody: string,
 	owner: string,
 	repo: string,
 	prNumber: number,
+	accountId: string,
 ): Promise<Quiz | null> {
 	// 1. コメント内からQuiz IDを抽出
 	const quizId = extractQuizIdFromComment(commentBody);
 
 	if (quizId) {
 		// Quiz IDが見つかった場合、直接取得
-		const { getQuiz } = await import("./firestore.js");
-		const quiz = await getQuiz(quizId);
+		const { getQuiz, getQuizSet } = await import("./firestore.js");
+		let quiz = await getQuiz(quizId);
+		if (!quiz) {
+			// クイズセットIDの場合はセットの1問目
+			const quizSet = await getQuizSet(quizId);
+			quiz = quizSet ? await getQuiz(quizSet.quizIds[0]) : null;
+		}
 
 		if (quiz) {
-			logger.info("Found quiz by ID from comment", { quizId });
+			if (quiz.accountId !== accountId) {
+				logger.warn("Quiz ID in comment belongs to another user", {
+					quizId,
+					accountId,
+				});
+				return null;
+			}
+
+			logger.info("Found quiz by ID from comment", {
+				quizId,
+				resolvedQuizId: quiz.quizId,
+			});
 			return quiz;
 		}
 
 		logger.warn("Quiz ID found in comment but quiz not found", { quizId });
 	}
 
-	// 2. Quiz IDが見つからない or 存在しない場合、PRから最新を取得
-	const quiz = await getLatestQuizForPR(owner, repo, prNumber);
+	// 2. Quiz IDが見つからない or 存在しない場合、PRでコメントしたユーザーに出題した最新を取得
+	const quiz = await getLatestQuizForPR(owner, repo, prNumber, accountId);
 
 	if (quiz) {
 		logger.info("Found latest quiz for PR", {
@@ -187,3 +218,18 @@ export async function findQuizForAnswer(
 
 	return null;
 }
+
+/**
+ * 回答対象となるクイズ一覧を取得
+ * クイズセットに属する場合はセット内の全問題（問題番号順）を返す
+ */
+export async function getAnswerTargetQuizzes(quiz: Quiz): Promise<Quiz[]> {
+	if (!quiz.quizSetId) {
+		return [quiz];
+	}
+
+	const { getQuizzesBySet } = await import("./firestore.js");
+	const quizzes = await getQuizzesBySet(quiz.quizSetId);
+
+	return quizzes.length > 0 ? quizzes : [quiz];
+}
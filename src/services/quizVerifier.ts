@@ -0,0 +1,214 @@
+import type { GeneratedQuiz } from "../types/entities/quiz.js";
+import { logger } from "../utils/logger.js";
+import { containsRedaction } from "../utils/secretRedactor.js";
+import type {
+	QuizGenerator,
+	QuizVerificationOpinion,
+} from "./quizGenerator.js";
+import { gradeAnswer, normalizeFillInAnswer } from "./quizGrading.js";
+
+/**
+ * クイズ検証サービス
+ * 生成されたクイズを静的チェックと解き直しで検証し、品質スコアを付ける
+ */
+
+/** 採用に必要な品質スコアの下限 */
+export const QUALITY_SCORE_THRESHOLD = 0.6;
+
+/** 検証で見つかった問題ごとの減点 */
+const PENALTIES = {
+	staticIssue: 0.5,
+	answerMismatch: 0.6,
+	ambiguous: 0.4,
+	explanationInconsistent: 0.4,
+} as const;
+
+/**
+ * クイズ検証結果
+ */
+export interface QuizVerificationResult {
+	/** 採用してよいか */
+	passed: boolean;
+	/** 品質スコア (0.0-1.0) */
+	score: number;
+	/** 検証方法（static: 静的チェックのみ、それ以外は解き直したプロバイダー名） */
+	verifier: string;
+	/** 見つかった問題 */
+	issues: string[];
+}
+
+/** 解説内で正解の選択肢番号を述べている箇所（日本語・英語） */
+const EXPLANATION_ANSWER_REGEX =
+	/正解は\s*(?:選択肢\s*)?(\d)|選択肢\s*(\d)\s*(?:が|は)正解|correct answer is\s*(?:option\s*)?(\d)|option\s*(\d)\s*is\s*(?:the\s*)?correct/gi;
+
+/**
+ * 解き直しなしで判定できる問題を探す
+ * - 選択肢の重複
+ * - 解説が示す正解番号と correctAnswerIndex の食い違い
+ * - 穴埋めの答えが問題文・ヒントに含まれている
+ * - 問題文・選択肢・正解・模範解答・ヒントがマスクした秘密情報に依存している
+ */
+export function findStaticIssues(quiz: GeneratedQuiz): string[] {
+	const issues: string[] = [];
+
+	const normalizedOptions = quiz.options.map(normalizeFillInAnswer);
+	if (new Set(normalizedOptions).size !== normalizedOptions.length) {
+		issues.push("Options are not unique");
+	}
+
+	if (
+		(quiz.questionType === "multiple_choice" ||
+			quiz.questionType === "true_false") &&
+		quiz.correctAnswerIndex != null
+	) {
+		for (const match of quiz.explanation.matchAll(EXPLANATION_ANSWER_REGEX)) {
+			const stated = Number.parseInt(
+				match[1] ?? match[2] ?? match[3] ?? match[4],
+				10,
+			);
+			if (stated !== quiz.correctAnswerIndex + 1) {
+				issues.push(
+					`Explanation states option ${stated} is correct, but the answer is ${quiz.correctAnswerIndex + 1}`,
+				);
+			}
+		}
+	}
+
+	if (quiz.questionType === "fill_in_blank") {
+		// 数値などの短い答えは偶然の一致が多いので対象外
+		const reveals = (text: string) =>
+			(quiz.acceptedAnswers ?? []).some((answer) => {
+				const normalized = normalizeFillInAnswer(answer);
+				return (
+					normalized.length >= 3 &&
+					normalizeFillInAnswer(text).includes(normalized)
+				);
+			});
+		if (reveals(quiz.questionText)) {
+			issues.push("Question text reveals the accepted answer");
+		}
+		if ((quiz.hints ?? []).some(reveals)) {
+			issues.push("Hint reveals the accepted answer");
+		}
+	}
+
+	if (
+		[
+			quiz.questionText,
+			...quiz.options,
+			...(quiz.acceptedAnswers ?? []),
+			quiz.modelAnswer ?? "",
+			...(quiz.hints ?? []),
+		].some(containsRedaction)
+	) {
+		issues.push("Quiz depends on redacted secret content");
+	}
+
+	return issues;
+}
+
+/**
+ * 解き直した所見から問題を探す
+ */
+function findOpinionIssues(
+	quiz: GeneratedQuiz,
+	opinion: QuizVerificationOpinion,
+): { issues: string[]; penalty: number } {
+	const issues: string[] = [];
+	let penalty = 0;
+
+	const gradable = {
+		...quiz,
+		correctAnswerIndex: quiz.correctAnswerIndex ?? undefined,
+		correctAnswerIndices: quiz.correctAnswerIndices ?? undefined,
+		acceptedAnswers: quiz.acceptedAnswers ?? undefined,
+		modelAnswer: quiz.modelAnswer ?? undefined,
+		rubric: quiz.rubric ?? undefined,
+	};
+	if (!gradeAnswer(gradable, opinion.answer)) {
+		issues.push("Independent answer does not match the marked answer");
+		penalty += PENALTIES.answerMismatch;
+	}
+
+	// 正解以外にも正解と言える選択肢がある
+	const correct = new Set(
+		quiz.questionType === "multi_select"
+			? (quiz.correctAnswerIndices ?? [])
+			: quiz.correctAnswerIndex != null
+				? [quiz.correctAnswerIndex]
+				: [],
+	);
+	const checksAmbiguity =
+		quiz.questionType === "multiple_choice" ||
+		quiz.questionType === "true_false" ||
+		quiz.questionType === "multi_select";
+	const extraDefensible = opinion.defensibleOptionIndices.filter(
+		(i) => !correct.has(i),
+	);
+	if (checksAmbiguity && extraDefensible.length > 0) {
+		issues.push(
+			`Options ${extraDefensible.map((i) => i + 1).join(", ")} are also defensible`,
+		);
+		penalty += PENALTIES.ambiguous;
+	}
+
+	if (!opinion.explanationConsistent) {
+		issues.push("Explanation is inconsistent with the marked answer");
+		penalty += PENALTIES.explanationInconsistent;
+	}
+
+	return { issues, penalty };
+}
+
+/**
+ * 生成されたクイズを検証する
+ * 静的チェックに通ったものだけ、プロバイダーが対応していれば差分に照らして解き直す
+ */
+export async function verifyQuiz(
+	generator: QuizGenerator,
+	diff: string,
+	quiz: GeneratedQuiz,
+	context?: string,
+): Promise<QuizVerificationResult> {
+	const staticIssues = findStaticIssues(quiz);
+	const staticScore = Math.max(
+		0,
+		1 - staticIssues.length * PENALTIES.staticIssue,
+	);
+
+	if (staticIssues.length > 0 || !generator.verify) {
+		return {
+			passed:
+				staticIssues.length === 0 && staticScore >= QUALITY_SCORE_THRESHOLD,
+			score: staticScore,
+			verifier: "static",
+			issues: staticIssues,
+		};
+	}
+
+	let opinion: QuizVerificationOpinion;
+	try {
+		opinion = await generator.verify({ diff, quiz, context });
+	} catch (error) {
+		// 検証呼び出しの失敗で出題自体を止めないよう、静的チェックの結果で判定する
+		logger.warn("Quiz verification call failed, using static checks only", {
+			provider: generator.name,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return { passed: true, score: staticScore, verifier: "static", issues: [] };
+	}
+
+	const { issues, penalty } = findOpinionIssues(quiz, opinion);
+	const confidence = Math.min(Math.max(opinion.confidence, 0), 1);
+	const score =
+		Math.round(Math.max(0, 1 - penalty) * (0.5 + 0.5 * confidence) * 1000) /
+		1000;
+
+	return {
+		passed: issues.length === 0 && score >= QUALITY_SCORE_THRESHOLD,
+		score,
+		verifier: generator.name,
+		issues:
+			opinion.notes && issues.length > 0 ? [...issues, opinion.notes] : issues,
+	};
+}
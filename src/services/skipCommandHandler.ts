@@ -0,0 +1,98 @@
+import { getMessages } from "../locales/index.js";
+import type { Quiz } from "../types/entities/quiz.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { getAnswersByUser, skipQuizzes } from "./firestore.js";
+import { getAnswerTargetQuizzes } from "./quizLookup.js";
+
+/**
+ * スキップコマンドハンドラー
+ * /skip コマンドで自分に出題されたクイズ（クイズセットの場合は未回答の全問題）をスキップする
+ * スキップしたクイズは回答できず、正答率には含めずにスキップ率として集計する
+ */
+
+/**
+ * スキップコマンド処理結果
+ * status: skipped=スキップした, already_skipped=スキップ済み, already_answered=回答済み,
+ *         not_recipient=他のユーザーに出題したクイズ, disabled=リポジトリでスキップを許可していない
+ */
+export interface SkipCommandResult {
+	status:
+		| "skipped"
+		| "already_skipped"
+		| "already_answered"
+		| "not_recipient"
+		| "disabled";
+	/** スキップしたクイズ */
+	skipped: Quiz[];
+	message: string;
+}
+
+/**
+ * /skip コマンドを処理
+ * @param allowSkip リポジトリでスキップを許可するか
+ * @param language 応答メッセージの言語（省略時は既定言語）
+ */
+export async function handleSkipCommand(
+	accountId: string,
+	quiz: Quiz,
+	reason: string | null,
+	allowSkip: boolean,
+	language?: Language,
+): Promise<SkipCommandResult> {
+	const messages = getMessages(language).skip;
+	const result = (
+		status: SkipCommandResult["status"],
+		message: string,
+	): SkipCommandResult => ({ status, skipped: [], message });
+
+	if (!allowSkip) {
+		return result("disabled", messages.disabled);
+	}
+
+	// 作成者向けのクイズに他のユーザーがコメントした場合などは対象にしない
+	if (quiz.accountId !== accountId) {
+		return result("not_recipient", messages.notRecipient);
+	}
+
+	const quizzes = await getAnswerTargetQuizzes(quiz);
+	const existingAnswers = await getAnswersByUser(accountId);
+	const answeredQuizIds = new Set(existingAnswers.map((a) => a.quizId));
+	const pending = quizzes.filter(
+		(q) => q.status === "pending" && !answeredQuizIds.has(q.quizId),
+	);
+
+	if (pending.length === 0) {
+		return quizzes.some((q) => q.status === "skipped")
+			? result("already_skipped", messages.alreadySkipped)
+			: result("already_answered", messages.alreadyAnswered);
+	}
+
+	// 1問も回答していないクイズセットはセットごとスキップとして記録する
+	const skippedQuizIds = await skipQuizzes(
+		pending.map((q) => q.quizId),
+		{ accountId, reason: reason ?? undefined },
+		pending.length === quizzes.length ? quiz.quizSetId : undefined,
+	);
+	const skipped = pending.filter((q) => skippedQuizIds.includes(q.quizId));
+	if (skipped.length === 0) {
+		return result("already_skipped", messages.alreadySkipped);
+	}
+
+	logger.info("Skip command completed", {
+		accountId,
+		quizIds: skippedQuizIds,
+		hasReason: reason !== null,
+	});
+
+	return {
+		status: "skipped",
+		skipped,
+		message: messages.skipped({
+			questionNumbers: quiz.quizSetId
+				? skipped.map((q) => q.questionNumber ?? 1)
+				: [],
+			reason: reason ?? undefined,
+		}),
+	};
+}
@@ -0,0 +1,139 @@
+import { getMessages } from "../locales/index.js";
+import type { AccuracyTrendParams } from "../locales/types.js";
+import type { Answer } from "../types/entities/answer.js";
+import {
+	getAnswerScore,
+	getCategorySkipRates,
+	getSkipRate,
+} from "../types/entities/skillStats.js";
+import type { Language } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { summarizeStats } from "./answerCommandHandler.js";
+import {
+	getAnswersByUser,
+	getGrowthMilestonesByUser,
+	getSkillStatsByUser,
+	getSkippedQuizzesByUser,
+	getUserProfile,
+} from "./firestore.js";
+import { generateLearningRecommendations } from "./personalization.js";
+
+/**
+ * 成績コマンドハンドラー
+ * /stats コマンドで全体・カテゴリ別の正答率、正答率の推移、最近のマイルストーン、学習のおすすめをPRに投稿する
+ */
+
+/** 推移の比較に使う回答数（直近とその前のそれぞれ） */
+const TREND_WINDOW = 10;
+
+/** 推移を表示する最小の回答数（直近とその前のそれぞれ） */
+const MIN_TREND_WINDOW = 5;
+
+/** 表示する最近のマイルストーン数 */
+const RECENT_MILESTONE_COUNT = 3;
+
+/**
+ * 成績コマンド処理結果
+ * status: reported=成績を投稿した, no_data=回答・スキップしたクイズがない
+ */
+export interface StatsCommandResult {
+	status: "reported" | "no_data";
+	message: string;
+}
+
+/**
+ * 直近の回答とその前の回答の正答率を比較する
+ * 回答が少ない場合は比較する回答数を減らし、それでも足りなければ undefined
+ * @param answers 回答履歴（新しい順）
+ */
+function calculateAccuracyTrend(
+	answers: Answer[],
+): AccuracyTrendParams | undefined {
+	const window = Math.min(TREND_WINDOW, Math.floor(answers.length / 2));
+	if (window < MIN_TREND_WINDOW) {
+		return undefined;
+	}
+
+	const rate = (slice: Answer[]) =>
+		(slice.reduce(
+			(sum, a) => sum + getAnswerScore(a.isCorrect, a.hintsUsed, a.score),
+			0,
+		) /
+			slice.length) *
+		100;
+
+	return {
+		window,
+		recentRate: rate(answers.slice(0, window)),
+		previousRate: rate(answers.slice(window, window * 2)),
+	};
+}
+
+/**
+ * /stats コマンドを処理
+ * @param language 応答メッセージの言語（省略時は既定言語）
+ */
+export async function handleStatsCommand(
+	accountId: string,
+	language?: Language,
+): Promise<StatsCommandResult> {
+	const messages = getMessages(language);
+
+	const [profile, skills, skippedQuizzes, answers, milestones] =
+		await Promise.all([
+			getUserProfile(accountId),
+			getSkillStatsByUser(accountId),
+			getSkippedQuizzesByUser(accountId),
+			getAnswersByUser(accountId),
+			getGrowthMilestonesByUser(accountId),
+		]);
+
+	if (skills.length === 0 && skippedQuizzes.length === 0) {
+		return { status: "no_data", message: messages.stats.noData };
+	}
+
+	const overall = summarizeStats(skills);
+	const skipRates = getCategorySkipRates(
+		skills,
+		skippedQuizzes.map((q) => q.category),
+	);
+	const recommendations = generateLearningRecommendations(
+		profile,
+		skills,
+		language,
+	);
+
+	logger.info("Stats command completed", {
+		accountId,
+		totalQuizzes: overall.totalQuizzes,
+		skipped: skippedQuizzes.length,
+		milestones: milestones.length,
+	});
+
+	return {
+		status: "reported",
+		message: messages.stats.report({
+			overall,
+			skipRate: getSkipRate(skippedQuizzes.length, overall.totalQuizzes) * 100,
+			categories: skipRates.map((r) => ({
+				category: messages.labels.category[r.category],
+				totalQuizzes: r.answeredCount,
+				correctRate:
+					(skills.find((s) => s.category === r.category)?.correctRate ?? 0) *
+					100,
+				skipRate: r.skipRate * 100,
+			})),
+			trend: calculateAccuracyTrend(answers),
+			milestones: milestones.slice(0, RECENT_MILESTONE_COUNT).map((m) => ({
+				achievement: m.achievement,
+				achievedAt: new Date(m.achievedAt.seconds * 1000).toLocaleDateString(
+					messages.dateLocale,
+				),
+			})),
+			focusAreas: recommendations.suggestedFocusAreas.map(
+				(category) => messages.labels.category[category],
+			),
+			nextSteps: recommendations.nextSteps,
+		}),
+	};
+}
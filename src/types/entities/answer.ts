@@ -1,8 +1,31 @@
 import { z } from "zod";
 import { CategorySchema, DifficultySchema, TimestampSchema } from "../index.js";
+import { MAX_HINT_COUNT } from "./quiz.js";
 
 // T017: Answerエンティティ型定義
 
+/** 記述式の回答の最大文字数 */
+export const MAX_FREE_TEXT_ANSWER_LENGTH = 2000;
+
+/**
+ * 回答内容（問題形式に応じていずれか1つを指定）
+ */
+export const AnswerValueSchema = z.object({
+	/** 選択した回答（4択・○×、0始まり） */
+	selectedAnswerIndex: z.number().int().min(0).max(5).optional(),
+
+	/** 選択した回答一覧（複数選択: 選んだ選択肢、並べ替え: 回答した順序） */
+	selectedAnswerIndices: z.array(z.number().int().min(0).max(5)).optional(),
+
+	/** 入力した回答（穴埋め） */
+	answerText: z.string().min(1).max(200).optional(),
+
+	/** 記述した回答（記述式） */
+	freeTextAnswer: z.string().min(1).max(MAX_FREE_TEXT_ANSWER_LENGTH).optional(),
+});
+
+export type AnswerValue = z.infer<typeof AnswerValueSchema>;
+
 /**
  * 回答履歴
  */
@@ -19,12 +42,33 @@ export const AnswerSchema = z.object({
 	/** PR/MR ID */
 	mergeRequestId: z.string().min(1),
 
-	/** 選択した回答 (0-3) */
-	selectedAnswerIndex: z.number().int().min(0).max(3),
+	/** 選択した回答（4択・○×、0始まり） */
+	selectedAnswerIndex: AnswerValueSchema.shape.selectedAnswerIndex,
+
+	/** 選択した回答一覧（複数選択・並べ替え） */
+	selectedAnswerIndices: AnswerValueSchema.shape.selectedAnswerIndices,
+
+	/** 入力した回答（穴埋め） */
+	answerText: AnswerValueSchema.shape.answerText,
+
+	/** 記述した回答（記述式） */
+	freeTextAnswer: AnswerValueSchema.shape.freeTextAnswer,
 
-	/** 正誤判定 */
+	/** 正誤判定（記述式は得点が合格点以上なら正解） */
 	isCorrect: z.boolean(),
 
+	/** 得点 (0.0-1.0) - 記述式のルーブリック採点の部分点（未設定の回答は isCorrect で 1 か 0） */
+	score: z.number().min(0).max(1).optional(),
+
+	/** 採点コメント（記述式） */
+	feedback: z.string().optional(),
+
+	/** 採点方法（記述式のみ、rubric: キーワード照合、それ以外は採点したプロバイダー名） */
+	grader: z.string().min(1).optional(),
+
+	/** 回答前に表示したヒントの数（未設定の既存回答はヒントなし） */
+	hintsUsed: z.number().int().min(0).max(MAX_HINT_COUNT).optional(),
+
 	/** カテゴリ（非正規化） */
 	category: CategorySchema,
 
@@ -38,10 +82,9 @@ export const AnswerSchema = z.object({
 export type Answer = z.infer<typeof AnswerSchema>;
 
 /** 回答作成時の入力型 */
-export const CreateAnswerInputSchema = z.object({
+export const CreateAnswerInputSchema = AnswerValueSchema.extend({
 	quizId: z.string().uuid(),
 	accountId: z.string().min(1),
-	selectedAnswerIndex: z.number().int().min(0).max(3),
 });
 
 export type CreateAnswerInput = z.infer<typeof CreateAnswerInputSchema>;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { LanguageSchema, TimestampSchema } from "../index.js";
+import { QUIZ_SET_MAX_SIZE } from "./quizSet.js";
+
+// クイズ生成キャッシュ型定義
+
+/**
+ * クイズ生成キャッシュ
+ * 正規化した差分とプロンプトのバージョンが同じリクエストには、生成済みのクイズを返す
+ */
+export const GenerationCacheSchema = z.object({
+	/** キャッシュキー (PK) - 正規化した差分・プロンプトバージョン等のSHA-256 */
+	cacheKey: z.string().min(1),
+
+	/** 対象PR/MR ID (FK) */
+	mergeRequestId: z.string().min(1),
+
+	/** 生成プロバイダー名 */
+	generator: z.string().min(1),
+
+	/** プロンプトのバージョン */
+	promptVersion: z.string().min(1),
+
+	/** 出題言語 */
+	language: LanguageSchema,
+
+	/** レビュアー向けの場合の出題先ユーザーID（作成者向けの場合はなし） */
+	reviewerAccountId: z.string().min(1).optional(),
+
+	/** 生成されたクイズID（出題順） */
+	quizIds: z.array(z.string().uuid()).min(1).max(QUIZ_SET_MAX_SIZE),
+
+	/** クイズセットID（2問以上の場合のみ） */
+	quizSetId: z.string().uuid().optional(),
+
+	/** 変更行のフィンガープリント（前回生成時からの変更量の算出に使用） */
+	changedLineHashes: z.array(z.string()),
+
+	/** 作成日時 */
+	createdAt: TimestampSchema,
+});
+
+export type GenerationCache = z.infer<typeof GenerationCacheSchema>;
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { TimestampSchema } from "../index.js";
+
+// クイズ生成実行記録型定義
+
+/**
+ * 生成実行の結果
+ * accepted: 1問以上が検証に通った, quality_rejected: 全問が検証で不合格, failed: 生成処理のエラー
+ */
+export const GenerationRunOutcomeSchema = z.enum([
+	"accepted",
+	"quality_rejected",
+	"failed",
+]);
+
+export type GenerationRunOutcome = z.infer<typeof GenerationRunOutcomeSchema>;
+
+/**
+ * クイズ生成実行記録
+ * キャッシュを使わずに生成した1回ごとに、プロンプトのバージョンと検証結果を残す
+ * （検証で不合格になった問題は Quiz として保存されないため、ここで数える）
+ */
+export const GenerationRunSchema = z.object({
+	/** 実行ID (PK, UUID) */
+	runId: z.string().uuid(),
+
+	/** 対象PR/MR ID (FK) */
+	mergeRequestId: z.string().min(1),
+
+	/** 生成プロバイダー名 */
+	generator: z.string().min(1),
+
+	/** プロンプトのバージョン */
+	promptVersion: z.string().min(1),
+
+	/** 要求した問題数 */
+	requested: z.number().int().min(1),
+
+	/** 検証に通った問題数 */
+	accepted: z.number().int().min(0),
+
+	/** 検証で不合格になった問題数 */
+	rejected: z.number().int().min(0),
+
+	/** 結果 */
+	outcome: GenerationRunOutcomeSchema,
+
+	/** エラーコード（failed の場合） */
+	errorCode: z.string().optional(),
+
+	/** 作成日時 */
+	createdAt: TimestampSchema,
+});
+
+export type GenerationRun = z.infer<typeof GenerationRunSchema>;
+
+/** 生成実行記録の作成時の入力型 */
+export const CreateGenerationRunInputSchema = GenerationRunSchema.omit({
+	runId: true,
+	createdAt: true,
+});
+
+export type CreateGenerationRunInput = z.infer<
+	typeof CreateGenerationRunInputSchema
+>;
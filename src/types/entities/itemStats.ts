@@ -0,0 +1,93 @@
+import { z } from "zod";
+import {
+	CategorySchema,
+	DifficultySchema,
+	QuestionTypeSchema,
+	TimestampSchema,
+} from "../index.js";
+
+// 項目分析（アイテム統計）型定義
+
+/**
+ * 集計単位
+ * quiz: クイズ1問, template: 問題の型（プロンプトのバージョン・問題形式・カテゴリ・生成時の難易度が同じクイズ）
+ */
+export const ItemKindSchema = z.enum(["quiz", "template"]);
+
+export type ItemKind = z.infer<typeof ItemKindSchema>;
+
+/**
+ * アイテム統計
+ * 回答から正答率（p値）と識別力を計算し、回答数が十分なら実測の難易度を決める
+ */
+export const ItemStatsSchema = z.object({
+	/** アイテムID (PK) - quiz_{quizId} / template_{templateKey} */
+	itemId: z.string().min(1),
+
+	/** 集計単位 */
+	kind: ItemKindSchema,
+
+	/** クイズID（kind が quiz の場合のみ） */
+	quizId: z.string().uuid().optional(),
+
+	/** 問題の型のキー */
+	templateKey: z.string().min(1),
+
+	/** 生成時にモデルが付けた難易度 */
+	claimedDifficulty: DifficultySchema,
+
+	/** カテゴリ */
+	category: CategorySchema,
+
+	/** 問題形式 */
+	questionType: QuestionTypeSchema,
+
+	/** 対象クイズ数 */
+	quizCount: z.number().int().min(0),
+
+	/** 回答数 */
+	attempts: z.number().int().min(0),
+
+	/** 正解数 */
+	correctCount: z.number().int().min(0),
+
+	/** 正答率 (0.0-1.0、回答がない場合は null) */
+	pValue: z.number().min(0).max(1).nullable(),
+
+	/**
+	 * 識別力 (-1.0 to 1.0)
+	 * 他の問題の正答率で上位・下位に分けた回答者の正答率の差（回答数が足りない場合は null）
+	 */
+	discrimination: z.number().min(-1).max(1).nullable(),
+
+	/** 実測の難易度（回答数が足りない場合は null） */
+	empiricalDifficulty: DifficultySchema.nullable(),
+
+	/** 計算日時 */
+	calculatedAt: TimestampSchema,
+});
+
+export type ItemStats = z.infer<typeof ItemStatsSchema>;
+
+/**
+ * アイテム統計クエリ用の入力型
+ */
+export const ItemStatsQuerySchema = z.object({
+	kind: ItemKindSchema.default("template"),
+	category: CategorySchema.optional(),
+	/** この回答数以上のアイテムのみ */
+	minAttempts: z.coerce.number().int().min(0).default(0),
+	limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type ItemStatsQuery = z.infer<typeof ItemStatsQuerySchema>;
+
+/**
+ * 難易度の再計算リクエスト
+ */
+export const RecalibrateItemsInputSchema = z.object({
+	/** 集計対象期間（日数） */
+	days: z.number().int().min(1).max(730).default(180),
+});
+
+export type RecalibrateItemsInput = z.infer<typeof RecalibrateItemsInputSchema>;
@@ -7,6 +7,38 @@ import {
 
 // T018: MergeRequestエンティティ型定義
 
+/**
+ * 出題対象から除外したファイル
+ * reason: binary=バイナリ, built_in=組み込みの除外パターン, excluded=リポジトリの exclude,
+ *         not_included=リポジトリの include に一致しない
+ */
+export const IgnoredFileSchema = z.object({
+	path: z.string().min(1),
+	reason: z.enum(["binary", "built_in", "excluded", "not_included"]),
+});
+
+export type IgnoredFile = z.infer<typeof IgnoredFileSchema>;
+
+/**
+ * 差分の追加行で見つかったプロンプトインジェクションの兆候
+ * kind: override_instructions=指示の無視・上書き, role_marker=ロール区切り・チャットテンプレート,
+ *       fake_answer=正解・回答JSONの指定, model_directive=AIへの呼びかけ・出力の指示
+ */
+export const InjectionSignalSchema = z.object({
+	kind: z.enum([
+		"override_instructions",
+		"role_marker",
+		"fake_answer",
+		"model_directive",
+	]),
+	/** ファイルパス（PR/MRのタイトル・説明・コミットメッセージの場合は "(pull request)"） */
+	path: z.string().min(1),
+	/** 変更後の行番号（PR/MRのタイトル・説明・コミットメッセージの場合はその中の行番号） */
+	line: z.number().int().positive(),
+});
+
+export type InjectionSignal = z.infer<typeof InjectionSignalSchema>;
+
 /**
  * マージリクエスト（PR/MRメタデータ）
  * mergeRequestId format: {platform}:{owner}/{repo}#{number}
@@ -33,12 +65,24 @@ export const MergeRequestSchema = z.object({
 	/** タイトル */
 	title: z.string().min(1),
 
-	/** 差分の要約 */
+	/** 差分の要約（クイズ生成時はプロンプトに含めたPR/MRのタイトル・説明・コミットメッセージ） */
 	diffSummary: z.string().optional(),
 
-	/** 変更ファイル一覧 */
+	/** 変更ファイル一覧（クイズ生成後は出題対象のファイルのみ） */
 	filesChanged: z.array(z.string()).optional(),
 
+	/** 出題対象から除外した変更ファイル */
+	filesIgnored: z.array(IgnoredFileSchema).optional(),
+
+	/** モデルに送る前に差分からマスクした秘密情報の件数 */
+	redactionCount: z.number().int().nonnegative().optional(),
+
+	/** プロンプトインジェクションのリスクスコア (0-100) */
+	injectionRiskScore: z.number().int().min(0).max(100).optional(),
+
+	/** プロンプトインジェクションの兆候 */
+	injectionSignals: z.array(InjectionSignalSchema).optional(),
+
 	/** ステータス */
 	status: MergeRequestStatusSchema,
 
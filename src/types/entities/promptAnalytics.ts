@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { CategorySchema, DifficultySchema } from "../index.js";
+
+// プロンプトバージョン別分析型定義
+
+/**
+ * 正誤の集計
+ */
+export const CorrectnessStatsSchema = z.object({
+	/** 回答数 */
+	answered: z.number().int().min(0),
+
+	/** 正解数 */
+	correct: z.number().int().min(0),
+
+	/** 正答率（回答がない場合は null） */
+	correctRate: z.number().min(0).max(1).nullable(),
+});
+
+export type CorrectnessStats = z.infer<typeof CorrectnessStatsSchema>;
+
+/**
+ * プロンプトのバージョン別の集計
+ */
+export const PromptVersionStatsSchema = z.object({
+	/** プロンプトのバージョン（記録のない既存クイズは "unversioned"） */
+	promptVersion: z.string().min(1),
+
+	/** 実験での現在の割り当て比率（実験に参加していない場合は 0） */
+	assignmentShare: z.number().min(0).max(1),
+
+	/** 保存されたクイズ数 */
+	quizzes: z.number().int().min(0),
+
+	/** 回答の正誤（全体・難易度別・カテゴリ別） */
+	correctness: CorrectnessStatsSchema.extend({
+		byDifficulty: z.record(DifficultySchema, CorrectnessStatsSchema),
+		byCategory: z.record(CategorySchema, CorrectnessStatsSchema),
+	}),
+
+	/** 異議 */
+	disputes: z.object({
+		/** 異議が1件以上あるクイズ数 */
+		disputedQuizzes: z.number().int().min(0),
+
+		/** 異議のあるクイズの割合（クイズがない場合は null） */
+		disputeRate: z.number().min(0).max(1).nullable(),
+	}),
+
+	/** 生成時の検証 */
+	verification: z.object({
+		/** キャッシュを使わずに生成した回数 */
+		runs: z.number().int().min(0),
+
+		/** 検証に通った問題数 */
+		acceptedQuestions: z.number().int().min(0),
+
+		/** 検証で不合格になった問題数 */
+		rejectedQuestions: z.number().int().min(0),
+
+		/** 生成された問題のうち不合格の割合（生成がない場合は null） */
+		rejectionRate: z.number().min(0).max(1).nullable(),
+
+		/** 1問も検証に通らなかった回数 */
+		qualityRejectedRuns: z.number().int().min(0),
+
+		/** 生成処理がエラーになった回数 */
+		failedRuns: z.number().int().min(0),
+	}),
+});
+
+export type PromptVersionStats = z.infer<typeof PromptVersionStatsSchema>;
+
+/**
+ * プロンプトのバージョン別分析
+ */
+export const PromptVersionAnalyticsSchema = z.object({
+	/** 集計期間（日数） */
+	days: z.number().int().min(1),
+
+	/** 集計開始日時（UNIX秒） */
+	since: z.number().int(),
+
+	/** バージョン別の集計（バージョン名順） */
+	versions: z.array(PromptVersionStatsSchema),
+});
+
+export type PromptVersionAnalytics = z.infer<
+	typeof PromptVersionAnalyticsSchema
+>;
+
+/**
+ * プロンプトのバージョン別分析クエリ用の入力型
+ */
+export const PromptVersionAnalyticsQuerySchema = z.object({
+	days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type PromptVersionAnalyticsQuery = z.infer<
+	typeof PromptVersionAnalyticsQuerySchema
+>;
@@ -2,12 +2,243 @@ import { z } from "zod";
 import {
 	CategorySchema,
 	DifficultySchema,
+	type Language,
+	LanguageSchema,
+	type QuestionType,
+	QuestionTypeSchema,
 	QuizStatusSchema,
 	TimestampSchema,
 } from "../index.js";
 
 // T016: Quizエンティティ型定義
 
+/** 選択肢の最大数 */
+export const MAX_OPTION_COUNT = 6;
+
+/** ヒントの最大数 */
+export const MAX_HINT_COUNT = 3;
+
+/** 記述式の採点基準の最大数 */
+export const MAX_RUBRIC_CRITERIA = 5;
+
+/** 1ユーザーが1つのクイズにできる追加質問（/explain）の最大数 */
+export const MAX_FOLLOW_UPS_PER_USER = 3;
+
+/** 追加質問の予約の有効期間（秒、回答の生成中に処理が止まった場合に枠を戻すため） */
+export const FOLLOW_UP_RESERVATION_TTL_SECONDS = 5 * 60;
+
+/** 追加質問の最大文字数 */
+export const MAX_FOLLOW_UP_QUESTION_LENGTH = 500;
+
+/** スキップ理由の最大文字数 */
+export const MAX_SKIP_REASON_LENGTH = 500;
+
+/** ○×問題の選択肢（出題言語ごとに固定） */
+export const TRUE_FALSE_OPTIONS: Record<Language, [string, string]> = {
+	ja: ["正しい", "誤り"],
+	en: ["True", "False"],
+};
+
+/**
+ * 出題元ハンク（クイズ生成時にモデルへ渡したdiffの範囲）
+ */
+export const SourceHunkSchema = z.object({
+	/** ファイルパス */
+	path: z.string().min(1),
+
+	/** 変更前の開始行・行数 */
+	oldStart: z.number().int().min(0),
+	oldLines: z.number().int().min(0),
+
+	/** 変更後の開始行・行数 */
+	newStart: z.number().int().min(0),
+	newLines: z.number().int().min(0),
+
+	/** 出題適性スコア (0.0-1.0) */
+	score: z.number().min(0).max(1),
+});
+
+export type SourceHunk = z.infer<typeof SourceHunkSchema>;
+
+/**
+ * 出題対象のdiff箇所（GitHubのレビューコメントと同じ指定方法）
+ * side: RIGHT=変更後のファイル（追加行・変更のない行）, LEFT=変更前のファイル（削除行）
+ * 行番号は side 側のファイルの行番号で、1つのハンクに収まる範囲のみ有効
+ */
+export const DiffReferenceSchema = z.object({
+	/** ファイルパス（変更後） */
+	path: z.string().min(1),
+
+	/** 行番号の基準 */
+	side: z.enum(["LEFT", "RIGHT"]),
+
+	/** 開始行・終了行 */
+	startLine: z.number().int().positive(),
+	endLine: z.number().int().positive(),
+});
+
+export type DiffReference = z.infer<typeof DiffReferenceSchema>;
+
+/**
+ * 生成後の検証結果
+ */
+export const QuizQualitySchema = z.object({
+	/** 品質スコア (0.0-1.0) */
+	score: z.number().min(0).max(1),
+
+	/** 検証方法（static: 静的チェックのみ、それ以外は解き直したプロバイダー名） */
+	verifier: z.string().min(1),
+
+	/** 採用されるまでの生成回数 */
+	attempts: z.number().int().min(1),
+});
+
+export type QuizQuality = z.infer<typeof QuizQualitySchema>;
+
+/**
+ * 出題の狙い（パーソナライズで選んだカテゴリ・難易度）
+ */
+export const GenerationTargetSchema = z.object({
+	category: CategorySchema,
+	difficulty: DifficultySchema,
+});
+
+export type GenerationTarget = z.infer<typeof GenerationTargetSchema>;
+
+/**
+ * パーソナライズの反映状況
+ * 実際のカテゴリ・難易度は Quiz の category / difficulty
+ */
+export const QuizPersonalizationSchema = z.object({
+	/** 生成時に指定したカテゴリ */
+	requestedCategory: CategorySchema,
+
+	/** 生成時に指定した難易度 */
+	requestedDifficulty: DifficultySchema,
+
+	/** 指定どおりのカテゴリで生成されたか */
+	categoryHonored: z.boolean(),
+
+	/** 指定どおりの難易度で生成されたか */
+	difficultyHonored: z.boolean(),
+});
+
+export type QuizPersonalization = z.infer<typeof QuizPersonalizationSchema>;
+
+/**
+ * クイズへの異議（正解・解説が誤っている、差分と合わないなどの申し立て）
+ */
+export const QuizDisputeSchema = z.object({
+	/** 申し立てたユーザーID */
+	accountId: z.string().min(1),
+
+	/** 理由 */
+	reason: z.string().min(1).max(500).optional(),
+
+	/** 申し立て日時 */
+	createdAt: TimestampSchema,
+});
+
+export type QuizDispute = z.infer<typeof QuizDisputeSchema>;
+
+/**
+ * 記述式の採点基準
+ * 回答がキーワードのいずれかに触れていれば基準を満たしたとみなす（ローカル採点）
+ */
+export const RubricCriterionSchema = z.object({
+	/** 回答に含まれるべき内容 */
+	description: z.string().min(1),
+
+	/** 基準を満たしたとみなすキーワード（表記揺れを含む） */
+	keywords: z.array(z.string().min(1)).min(1).max(10),
+
+	/** 配点 */
+	points: z.number().int().min(1).max(5),
+});
+
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+
+/**
+ * ユーザーごとのヒントの表示状況
+ */
+export const QuizHintUsageSchema = z.object({
+	/** ヒントを表示したユーザーID */
+	accountId: z.string().min(1),
+
+	/** 表示したヒントの数（弱いものから順に表示する） */
+	hintsRevealed: z.number().int().min(1).max(MAX_HINT_COUNT),
+
+	/** 最後にヒントを表示した日時 */
+	lastRevealedAt: TimestampSchema,
+});
+
+export type QuizHintUsage = z.infer<typeof QuizHintUsageSchema>;
+
+/**
+ * 回答後の追加質問（/explain）とその回答
+ */
+export const QuizFollowUpSchema = z.object({
+	/** 質問したユーザーID */
+	accountId: z.string().min(1),
+
+	/** 質問 */
+	question: z.string().min(1).max(MAX_FOLLOW_UP_QUESTION_LENGTH),
+
+	/** 回答 */
+	answer: z.string().min(1),
+
+	/** 回答したプロバイダー名 */
+	responder: z.string().min(1),
+
+	/** 質問日時 */
+	createdAt: TimestampSchema,
+});
+
+export type QuizFollowUp = z.infer<typeof QuizFollowUpSchema>;
+
+/**
+ * 回答を生成中の追加質問（上限の枠を回答の生成前に予約する）
+ */
+export const QuizFollowUpReservationSchema = z.object({
+	/** 予約ID */
+	reservationId: z.string().min(1),
+
+	/** 質問したユーザーID */
+	accountId: z.string().min(1),
+
+	/** 予約日時 */
+	reservedAt: TimestampSchema,
+});
+
+export type QuizFollowUpReservation = z.infer<
+	typeof QuizFollowUpReservationSchema
+>;
+
+/**
+ * クイズのスキップ（/skip コマンド、出題先のユーザーのみ）
+ */
+export const QuizSkipSchema = z.object({
+	/** スキップしたユーザーID */
+	accountId: z.string().min(1),
+
+	/** 理由 */
+	reason: z.string().min(1).max(MAX_SKIP_REASON_LENGTH).optional(),
+
+	/** スキップ日時 */
+	skippedAt: TimestampSchema,
+});
+
+export type QuizSkip = z.infer<typeof QuizSkipSchema>;
+
+/**
+ * 出題先の立場
+ * author: PR/MRの作成者（変更の意図・効果を問う）
+ * reviewer: レビュー依頼を受けたレビュアー（承認前に確認すべき点を問う）
+ */
+export const QuizAudienceSchema = z.enum(["author", "reviewer"]);
+
+export type QuizAudience = z.infer<typeof QuizAudienceSchema>;
+
 /**
  * クイズ
  */
@@ -18,29 +249,105 @@ export const QuizSchema = z.object({
 	/** 対象PR/MR ID (FK) */
 	mergeRequestId: z.string().min(1),
 
-	/** 対象ユーザーID (FK) */
+	/** 出題先ユーザーID (FK) - 作成者向けはPR/MRの作成者、レビュアー向けはレビュアー */
 	accountId: z.string().min(1),
 
+	/** 出題先の立場（未設定の既存クイズは作成者向け） */
+	audience: QuizAudienceSchema.optional(),
+
 	/** 問題文 */
 	questionText: z.string().min(1),
 
+	/** 問題形式（未設定の場合は4択） */
+	questionType: QuestionTypeSchema.optional(),
+
 	/** カテゴリ */
 	category: CategorySchema,
 
-	/** 難易度 */
+	/** 難易度（生成時にモデルが付けたもの） */
 	difficulty: DifficultySchema,
 
-	/** 選択肢（4つ） */
-	options: z.array(z.string().min(1)).length(4),
+	/** 回答から再計算した実測の難易度（回答数が足りない間はなし） */
+	calibratedDifficulty: DifficultySchema.optional(),
+
+	/** 選択肢（穴埋めの場合は空） */
+	options: z.array(z.string().min(1)).max(MAX_OPTION_COUNT),
+
+	/** 正解インデックス（4択・○×） */
+	correctAnswerIndex: z
+		.number()
+		.int()
+		.min(0)
+		.max(MAX_OPTION_COUNT - 1)
+		.optional(),
+
+	/** 正解インデックス一覧（複数選択: 正解の集合、並べ替え: 正しい順序） */
+	correctAnswerIndices: z
+		.array(
+			z
+				.number()
+				.int()
+				.min(0)
+				.max(MAX_OPTION_COUNT - 1),
+		)
+		.optional(),
+
+	/** 正解とみなす文字列（穴埋め） */
+	acceptedAnswers: z.array(z.string().min(1)).optional(),
 
-	/** 正解インデックス (0-3) */
-	correctAnswerIndex: z.number().int().min(0).max(3),
+	/** 模範解答（記述式） */
+	modelAnswer: z.string().min(1).optional(),
+
+	/** 採点基準（記述式） */
+	rubric: z.array(RubricCriterionSchema).max(MAX_RUBRIC_CRITERIA).optional(),
 
 	/** 解説 */
 	explanation: z.string().min(1),
 
-	/** 対象diff箇所 */
-	diffReference: z.string().nullish(),
+	/** ヒント（弱いものから順、未設定の既存クイズはヒントなし） */
+	hints: z.array(z.string().min(1)).max(MAX_HINT_COUNT).optional(),
+
+	/** ヒントの表示状況（1ユーザー1件） */
+	hintUsage: z.array(QuizHintUsageSchema).optional(),
+
+	/** 回答後の追加質問の履歴（質問順、1ユーザー MAX_FOLLOW_UPS_PER_USER 件まで） */
+	followUps: z.array(QuizFollowUpSchema).optional(),
+
+	/** 回答を生成中の追加質問の予約（上限の確認で記録済みの質問と合わせて数える） */
+	followUpReservations: z.array(QuizFollowUpReservationSchema).optional(),
+
+	/** 対象diff箇所（差分と照合済み、照合できなかった場合は null） */
+	diffReference: DiffReferenceSchema.nullish(),
+
+	/** 出題元ハンク */
+	sourceHunks: z.array(SourceHunkSchema).optional(),
+
+	/** 生成後の検証結果 */
+	quality: QuizQualitySchema.optional(),
+
+	/** パーソナライズの反映状況（指定なしで生成した場合はなし） */
+	personalization: QuizPersonalizationSchema.optional(),
+
+	/** 生成に使ったプロンプトのバージョン（未設定の既存クイズは不明） */
+	promptVersion: z.string().min(1).optional(),
+
+	/** /quiz コマンドで追加生成したクイズか（未設定はPR/MRの作成・更新時の出題） */
+	onDemand: z.boolean().optional(),
+
+	/** 異議（1ユーザー1件） */
+	disputes: z.array(QuizDisputeSchema).optional(),
+
+	/** スキップした場合の記録（status が skipped のクイズのみ） */
+	skip: QuizSkipSchema.optional(),
+
+	/** 出題言語（未設定の既存クイズは日本語） */
+	language: LanguageSchema.optional(),
+
+	/** 所属するクイズセットID（単発出題の場合はなし） */
+	quizSetId: z.string().uuid().optional(),
+
+	/** セット内の問題番号（1始まり） */
+	questionNumber: z.number().int().min(1).optional(),
 
 	/** ステータス */
 	status: QuizStatusSchema,
@@ -51,16 +358,121 @@ export const QuizSchema = z.object({
 
 export type Quiz = z.infer<typeof QuizSchema>;
 
+/**
+ * 問題形式ごとに選択肢と正解の組み合わせを検証する
+ * @returns 不整合の内容（問題なければnull）
+ */
+export function getQuestionShapeIssue(quiz: {
+	questionType?: QuestionType;
+	options: string[];
+	correctAnswerIndex?: number | null;
+	correctAnswerIndices?: number[] | null;
+	acceptedAnswers?: string[] | null;
+	modelAnswer?: string | null;
+	rubric?: RubricCriterion[] | null;
+}): string | null {
+	const optionCount = quiz.options.length;
+	const indices = quiz.correctAnswerIndices ?? [];
+	const inRange = (i: number) => i >= 0 && i < optionCount;
+
+	switch (quiz.questionType ?? "multiple_choice") {
+		case "multiple_choice":
+			if (optionCount !== 4) {
+				return "multiple_choice requires exactly 4 options";
+			}
+			return quiz.correctAnswerIndex != null && inRange(quiz.correctAnswerIndex)
+				? null
+				: "multiple_choice requires correctAnswerIndex within options";
+		case "true_false":
+			if (optionCount !== 2) {
+				return "true_false requires exactly 2 options";
+			}
+			return quiz.correctAnswerIndex != null && inRange(quiz.correctAnswerIndex)
+				? null
+				: "true_false requires correctAnswerIndex 0 or 1";
+		case "multi_select":
+			if (optionCount < 3) {
+				return "multi_select requires at least 3 options";
+			}
+			if (
+				indices.length === 0 ||
+				new Set(indices).size !== indices.length ||
+				!indices.every(inRange)
+			) {
+				return "multi_select requires unique correctAnswerIndices within options";
+			}
+			return null;
+		case "ordering":
+			if (optionCount < 3) {
+				return "ordering requires at least 3 options";
+			}
+			// 全選択肢を1回ずつ含む順列であること
+			if (
+				indices.length !== optionCount ||
+				new Set(indices).size !== optionCount ||
+				!indices.every(inRange)
+			) {
+				return "ordering requires correctAnswerIndices to be a permutation of all options";
+			}
+			return null;
+		case "fill_in_blank":
+			if (optionCount !== 0) {
+				return "fill_in_blank must not have options";
+			}
+			return quiz.acceptedAnswers && quiz.acceptedAnswers.length > 0
+				? null
+				: "fill_in_blank requires at least one accepted answer";
+		case "free_text": {
+			if (optionCount !== 0) {
+				return "free_text must not have options";
+			}
+			if (!quiz.modelAnswer?.trim()) {
+				return "free_text requires a model answer";
+			}
+			const criteria = quiz.rubric ?? [];
+			return criteria.length > 0 && criteria.length <= MAX_RUBRIC_CRITERIA
+				? null
+				: `free_text requires 1-${MAX_RUBRIC_CRITERIA} rubric criteria`;
+		}
+	}
+}
+
 /** Gemini生成時のクイズデータ（ID・ステータス・タイムスタンプなし） */
-export const GeneratedQuizSchema = z.object({
-	questionText: z.string().min(1),
-	category: CategorySchema,
-	difficulty: DifficultySchema,
-	options: z.array(z.string().min(1)).length(4),
-	correctAnswerIndex: z.number().int().min(0).max(3),
-	explanation: z.string().min(1),
-	diffReference: z.string().nullish(),
-});
+export const GeneratedQuizSchema = z
+	.object({
+		questionText: z.string().min(1),
+		questionType: QuestionTypeSchema.default("multiple_choice"),
+		category: CategorySchema,
+		difficulty: DifficultySchema,
+		options: z.array(z.string().min(1)).max(MAX_OPTION_COUNT),
+		correctAnswerIndex: z
+			.number()
+			.int()
+			.min(0)
+			.max(MAX_OPTION_COUNT - 1)
+			.nullish(),
+		correctAnswerIndices: z
+			.array(
+				z
+					.number()
+					.int()
+					.min(0)
+					.max(MAX_OPTION_COUNT - 1),
+			)
+			.nullish(),
+		acceptedAnswers: z.array(z.string().min(1)).nullish(),
+		modelAnswer: z.string().nullish(),
+		rubric: z.array(RubricCriterionSchema).nullish(),
+		explanation: z.string().min(1),
+		hints: z.array(z.string()).nullish(),
+		diffReference: DiffReferenceSchema.nullish(),
+	})
+	.superRefine((quiz, ctx) => {
+		const issue = getQuestionShapeIssue(quiz);
+		if (issue) {
+			ctx.addIssue({ code: "custom", message: issue, path: ["questionType"] });
+		}
+	});
 
 export type GeneratedQuiz = z.infer<typeof GeneratedQuizSchema>;
 
@@ -69,6 +481,13 @@ export const CreateQuizInputSchema = z.object({
 	mergeRequestId: z.string().min(1),
 	accountId: z.string().min(1),
 	generatedQuiz: GeneratedQuizSchema,
+	sourceHunks: z.array(SourceHunkSchema).optional(),
+	quality: QuizQualitySchema.optional(),
+	personalization: QuizPersonalizationSchema.optional(),
+	promptVersion: z.string().min(1).optional(),
+	audience: QuizAudienceSchema.optional(),
+	language: LanguageSchema.optional(),
+	onDemand: z.boolean().optional(),
 });
 
 export type CreateQuizInput = z.infer<typeof CreateQuizInputSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { QuizStatusSchema, TimestampSchema } from "../index.js";
+import { CreateQuizInputSchema, GeneratedQuizSchema } from "./quiz.js";
+
+// クイズセット型定義
+
+/** 1セットあたりの最大問題数 */
+export const QUIZ_SET_MAX_SIZE = 5;
+
+/**
+ * クイズセット
+ * 1つのPR/MRに対して出題される複数問のまとまり
+ */
+export const QuizSetSchema = z.object({
+	/** クイズセットID (PK, UUID) */
+	quizSetId: z.string().uuid(),
+
+	/** 対象PR/MR ID (FK) */
+	mergeRequestId: z.string().min(1),
+
+	/** 対象ユーザーID (FK) */
+	accountId: z.string().min(1),
+
+	/** 含まれるクイズID（出題順） */
+	quizIds: z.array(z.string().uuid()).min(1).max(QUIZ_SET_MAX_SIZE),
+
+	/** ステータス */
+	status: QuizStatusSchema,
+
+	/** 作成日時 */
+	createdAt: TimestampSchema,
+});
+
+export type QuizSet = z.infer<typeof QuizSetSchema>;
+
+/** Gemini生成時のクイズセットデータ */
+export const GeneratedQuizSetSchema = z.object({
+	quizzes: z.array(GeneratedQuizSchema).min(1).max(QUIZ_SET_MAX_SIZE),
+});
+
+export type GeneratedQuizSet = z.infer<typeof GeneratedQuizSetSchema>;
+
+/** クイズセット作成時の入力型 */
+export const CreateQuizSetInputSchema = z.object({
+	mergeRequestId: z.string().min(1),
+	accountId: z.string().min(1),
+	/** 問題ごとの生成結果（出題順） */
+	quizzes: z
+		.array(
+			CreateQuizInputSchema.omit({ mergeRequestId: true, accountId: true }),
+		)
+		.min(1)
+		.max(QUIZ_SET_MAX_SIZE),
+});
+
+export type CreateQuizSetInput = z.infer<typeof CreateQuizSetInputSchema>;
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { CategorySchema, TimestampSchema } from "../index.js";
+import { type Category, CategorySchema, TimestampSchema } from "../index.js";
 
 // スキル統計型定義
 
@@ -23,7 +23,10 @@ export const SkillStatsSchema = z.object({
 	/** 正答数 */
 	correctCount: z.number().int().min(0).default(0),
 
-	/** 正答率 (0.0-1.0) */
+	/** 正解の重み付き合計（記述式は部分点、ヒントを使った正解は減点、未設定の既存統計は correctCount と同じ） */
+	correctScore: z.number().min(0).optional(),
+
+	/** 正答率 (0.0-1.0) - 正解の重み付き合計 / 回答数 */
 	correctRate: z.number().min(0).max(1).default(0),
 
 	/** 平均難易度 (1.0-3.0: easy=1, medium=2, hard=3) */
@@ -52,6 +55,68 @@ export const UpdateSkillStatsInputSchema = z.object({
 	category: CategorySchema,
 	isCorrect: z.boolean(),
 	difficulty: z.enum(["easy", "medium", "hard"]),
+	/** 回答前に表示したヒントの数 */
+	hintsUsed: z.number().int().min(0).optional(),
+	/** 記述式の得点（選択式・穴埋めは isCorrect から決める） */
+	score: z.number().min(0).max(1).optional(),
 });
 
 export type UpdateSkillStatsInput = z.infer<typeof UpdateSkillStatsInputSchema>;
+
+/** ヒント1件あたりの正解の重みの減点 */
+export const HINT_SCORE_PENALTY = 0.25;
+
+/**
+ * スキル統計に反映する正解の重み（正解は1・不正解は0、記述式は得点、ヒントを使うほど小さくする）
+ * @param score 記述式の得点（省略時は isCorrect から決める）
+ */
+export function getAnswerScore(
+	isCorrect: boolean,
+	hintsUsed = 0,
+	score?: number,
+): number {
+	const base = score ?? (isCorrect ? 1 : 0);
+	return Math.max(0, base * (1 - HINT_SCORE_PENALTY * hintsUsed));
+}
+
+/**
+ * スキップ率（スキップ数 / (スキップ数 + 回答数)、どちらもない場合は0）
+ * スキップしたクイズは回答数・正答率に含めず、この割合だけで表す
+ */
+export function getSkipRate(
+	skippedCount: number,
+	answeredCount: number,
+): number {
+	const total = skippedCount + answeredCount;
+	return total > 0 ? skippedCount / total : 0;
+}
+
+/**
+ * カテゴリ別のスキップ率（回答もスキップもないカテゴリは除く）
+ * @param skippedCategories スキップしたクイズのカテゴリ（1件につき1つ）
+ */
+export function getCategorySkipRates(
+	skills: SkillStats[],
+	skippedCategories: Category[],
+): Array<{
+	category: Category;
+	skippedCount: number;
+	answeredCount: number;
+	skipRate: number;
+}> {
+	return CategorySchema.options
+		.map((category) => {
+			const skippedCount = skippedCategories.filter(
+				(c) => c === category,
+			).length;
+			const answeredCount =
+				skills.find((s) => s.category === category)?.totalQuizzes ?? 0;
+			return {
+				category,
+				skippedCount,
+				answeredCount,
+				skipRate: getSkipRate(skippedCount, answeredCount),
+			};
+		})
+		.filter((r) => r.skippedCount + r.answeredCount > 0);
+}
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { CategorySchema, TimestampSchema } from "../index.js";
+import { CategorySchema, LanguageSchema, TimestampSchema } from "../index.js";
 
 // ユーザープロファイル型定義
 
@@ -9,18 +9,22 @@ import { CategorySchema, TimestampSchema } from "../index.js";
 export const ExperienceLevelSchema = z.enum(["junior", "mid", "senior"]);
 export type ExperienceLevel = z.infer<typeof ExperienceLevelSchema>;
 
+/** 自己評価の最小値・最大値 */
+export const MIN_SELF_ASSESSMENT = 1;
+export const MAX_SELF_ASSESSMENT = 5;
+
 /**
- * 自己評価（1-5のスケール）
+ * 自己評価（1-5のスケール、評価したカテゴリのみ）
  */
-export const SelfAssessmentSchema = z.record(
+export const SelfAssessmentSchema = z.partialRecord(
 	CategorySchema,
-	z.number().int().min(1).max(5),
+	z.number().int().min(MIN_SELF_ASSESSMENT).max(MAX_SELF_ASSESSMENT),
 );
 export type SelfAssessment = z.infer<typeof SelfAssessmentSchema>;
 
 /**
  * ユーザープロファイル
- * キャリア目標、経験レベル、注力分野、自己評価を管理
+ * キャリア目標、経験レベル、注力分野、自己評価、表示言語を管理
  */
 export const UserProfileSchema = z.object({
 	/** ユーザーID (PK, FK to User) */
@@ -41,6 +45,9 @@ export const UserProfileSchema = z.object({
 	/** 自己評価（カテゴリごとの1-5評価） */
 	selfAssessment: SelfAssessmentSchema.optional(),
 
+	/** コメント・クイズの表示言語（未設定時はリポジトリの既定言語） */
+	language: LanguageSchema.optional(),
+
 	/** 作成日時 */
 	createdAt: TimestampSchema,
 
@@ -60,6 +67,7 @@ export const CreateUserProfileInputSchema = z.object({
 	yearsOfExperience: z.number().min(0),
 	focusAreas: z.array(CategorySchema).max(5).optional(),
 	selfAssessment: SelfAssessmentSchema.optional(),
+	language: LanguageSchema.optional(),
 });
 
 export type CreateUserProfileInput = z.infer<
@@ -75,6 +83,7 @@ export const UpdateUserProfileInputSchema = z.object({
 	yearsOfExperience: z.number().min(0).optional(),
 	focusAreas: z.array(CategorySchema).max(5).optional(),
 	selfAssessment: SelfAssessmentSchema.optional(),
+	language: LanguageSchema.optional(),
 });
 
 export type UpdateUserProfileInput = z.infer<
@@ -20,6 +20,21 @@ export type Category = z.infer<typeof CategorySchema>;
 export const DifficultySchema = z.enum(["easy", "medium", "hard"]);
 export type Difficulty = z.infer<typeof DifficultySchema>;
 
+/** 問題形式 */
+export const QuestionTypeSchema = z.enum([
+	"multiple_choice",
+	"true_false",
+	"multi_select",
+	"ordering",
+	"fill_in_blank",
+	"free_text",
+]);
+export type QuestionType = z.infer<typeof QuestionTypeSchema>;
+
+/** 表示・出題言語 */
+export const LanguageSchema = z.enum(["ja", "en"]);
+export type Language = z.infer<typeof LanguageSchema>;
+
 /** クイズステータス */
 export const QuizStatusSchema = z.enum([
 	"pending",
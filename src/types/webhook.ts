@@ -1,6 +1,8 @@
 // Webhook型定義
 // GitHub/GitLabからのWebhookペイロード構造
 
+import type { QuizAudience } from "./entities/quiz.js";
+
 /**
  * GitHub Pull Request Webhook Event
  * @see https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request
@@ -65,6 +67,12 @@ export interface GitHubPullRequestEvent {
 		login: string;
 		id: number;
 	};
+	/** レビュー依頼を受けたユーザー（review_requested でユーザーに依頼した場合のみ。チームへの依頼は requested_team） */
+	requested_reviewer?: {
+		login: string;
+		id: number;
+		type: "User" | "Bot" | "Organization";
+	};
 }
 
 /**
@@ -139,8 +147,12 @@ export function isGitLabMergeRequestEvent(payload: unknown): payload is GitLabMe
  */
 export function shouldGenerateQuiz(payload: GitHubPullRequestEvent | GitLabMergeRequestEvent): boolean {
 	if (isGitHubPullRequestEvent(payload)) {
-		// GitHub: PR作成時、またはコード更新時（synchronize）
-		return payload.action === "opened" || payload.action === "synchronize";
+		// GitHub: PR作成時、コード更新時（synchronize）、またはユーザーへのレビュー依頼時（レビュアー向け）
+		return (
+			payload.action === "opened" ||
+			payload.action === "synchronize" ||
+			(payload.action === "review_requested" && payload.requested_reviewer?.type === "User")
+		);
 	}
 
 	if (isGitLabMergeRequestEvent(payload)) {
@@ -159,6 +171,7 @@ export interface GitHubIssueCommentEvent {
 	action: "created" | "edited" | "deleted";
 	issue: {
 		number: number;
+		title: string;
 		pull_request?: {
 			url: string;
 			html_url: string;
@@ -184,6 +197,9 @@ export interface GitHubIssueCommentEvent {
 			login: string;
 		};
 	};
+	installation?: {
+		id: number;
+	}; // GitHub App経由で配信された場合のみ存在
 }
 
 /**
@@ -227,7 +243,12 @@ export interface ExtractedPRInfo {
 	owner: string;
 	repo: string;
 	number: number;
+	/** 出題先ユーザーID（レビュー依頼時はレビュアー） */
 	accountId: string;
+	/** PR/MRの作成者 */
+	authorAccountId: string;
+	/** 出題先の立場 */
+	audience: QuizAudience;
 	title: string;
 	branch: string;
 	url: string;
@@ -236,12 +257,15 @@ export interface ExtractedPRInfo {
 export function extractPRInfo(payload: GitHubPullRequestEvent | GitLabMergeRequestEvent): ExtractedPRInfo {
 	if (isGitHubPullRequestEvent(payload)) {
 		const [owner, repo] = payload.repository.full_name.split("/");
+		const reviewer = payload.action === "review_requested" ? payload.requested_reviewer : undefined;
 		return {
 			platform: "github",
 			owner,
 			repo,
 			number: payload.pull_request.number,
-			accountId: payload.pull_request.user.login,
+			accountId: reviewer?.login ?? payload.pull_request.user.login,
+			authorAccountId: payload.pull_request.user.login,
+			audience: reviewer ? "reviewer" : "author",
 			title: payload.pull_request.title,
 			branch: payload.pull_request.head.ref,
 			url: payload.pull_request.html_url,
@@ -257,6 +281,8 @@ export function extractPRInfo(payload: GitHubPullRequestEvent | GitLabMergeReque
 		repo,
 		number: payload_.object_attributes.iid,
 		accountId: payload_.user.username,
+		authorAccountId: payload_.user.username,
+		audience: "author",
 		title: payload_.object_attributes.title,
 		branch: payload_.object_attributes.source_branch,
 		url: payload_.object_attributes.url,
@@ -0,0 +1,227 @@
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_HISTORY_LIMIT,
+	ExplainCommandSchema,
+	ProfileCommandSchema,
+	parseAnswerCommand,
+	parseExplainCommand,
+	parseHintCommand,
+	parseHistoryCommand,
+	parseProfileCommand,
+	parseQuizCommand,
+	parseSkipCommand,
+	QuizCommandSchema,
+} from "./commandParser.js";
+
+const QUIZ_ID = "eb6577c1-43cd-4c80-a5f5-081998520d88";
+
+describe("parseProfileCommand", () => {
+	it("ignores comments that are not /profile", () => {
+		expect(parseProfileCommand("looks good to me")).toBeNull();
+	});
+
+	it("parses subcommands without parameters", () => {
+		expect(parseProfileCommand("/profile")).toEqual({ action: "help" });
+		expect(parseProfileCommand("/profile show")).toEqual({ action: "show" });
+		expect(parseProfileCommand("/profile RESET")).toEqual({ action: "reset" });
+		expect(parseProfileCommand("/profile show now")).toBeNull();
+	});
+
+	it("parses update parameters including quoted values and aliases", () => {
+		const parsed = parseProfileCommand(
+			'/profile exp=Senior years=3 focus=security,performance goal="フルスタック 目指してます" lang=EN',
+		);
+
+		expect(parsed).toEqual({
+			action: "update",
+			update: {
+				experience: "senior",
+				years: 3,
+				focus: ["security", "performance"],
+				goal: "フルスタック 目指してます",
+				language: "en",
+			},
+		});
+	});
+
+	it("returns values that the schema validates", () => {
+		const parsed = parseProfileCommand("/profile experience=mid years=2");
+
+		expect(ProfileCommandSchema.parse(parsed)).toEqual({
+			action: "update",
+			update: { experience: "mid", years: 2 },
+		});
+		expect(
+			ProfileCommandSchema.safeParse(
+				parseProfileCommand("/profile experience=expert"),
+			).success,
+		).toBe(false);
+	});
+
+	it("passes unknown keys and invalid values through to validation", () => {
+		const parsed = parseProfileCommand("/profile years=many color=blue");
+
+		expect(parsed).toEqual({
+			action: "update",
+			update: { years: "many", color: "blue" },
+		});
+		expect(ProfileCommandSchema.safeParse(parsed).success).toBe(false);
+	});
+
+	it("parses self-assessment scores", () => {
+		const parsed = parseProfileCommand(
+			"/profile assess security=3 performance=4",
+		);
+
+		expect(ProfileCommandSchema.parse(parsed)).toEqual({
+			action: "assess",
+			selfAssessment: { security: 3, performance: 4 },
+		});
+		expect(parseProfileCommand("/profile assess")).toBeNull();
+		expect(
+			ProfileCommandSchema.safeParse(
+				parseProfileCommand("/profile assess security=9"),
+			).success,
+		).toBe(false);
+	});
+
+	it("rejects text that is not key=value", () => {
+		expect(parseProfileCommand("/profile please update me")).toBeNull();
+	});
+});
+
+describe("parseAnswerCommand", () => {
+	it("parses a single answer", () => {
+		expect(parseAnswerCommand("/answer 2")).toEqual([
+			{ questionNumber: null, value: "2" },
+		]);
+	});
+
+	it("parses multi-select and fill-in answers", () => {
+		expect(parseAnswerCommand("/answer 1, 3")).toEqual([
+			{ questionNumber: null, value: "1,3" },
+		]);
+		expect(parseAnswerCommand('/answer "use client"')).toEqual([
+			{ questionNumber: null, value: "use client" },
+		]);
+	});
+
+	it("parses per-question answers for a quiz set and skips quiz IDs", () => {
+		expect(
+			parseAnswerCommand(`/answer ${QUIZ_ID} 1:2 2:1,3 3:"use client"`),
+		).toEqual([
+			{ questionNumber: 1, value: "2" },
+			{ questionNumber: 2, value: "1,3" },
+			{ questionNumber: 3, value: "use client" },
+		]);
+	});
+
+	it("only reads the first line for choice answers", () => {
+		expect(parseAnswerCommand("/answer 2\nthanks!")).toEqual([
+			{ questionNumber: null, value: "2" },
+		]);
+	});
+
+	it("parses multi-line free-text answers without the quiz ID", () => {
+		expect(
+			parseAnswerCommand(
+				`/answer 2 text: キャッシュが古いままになる\n${QUIZ_ID} ため`,
+			),
+		).toEqual([
+			{ questionNumber: 2, value: "キャッシュが古いままになる\n ため" },
+		]);
+		expect(parseAnswerCommand("/answer text:   ")).toBeNull();
+	});
+
+	it("rejects duplicate, zero-numbered and mixed answers", () => {
+		expect(parseAnswerCommand("/answer 1:2 1:3")).toBeNull();
+		expect(parseAnswerCommand("/answer 0:2")).toBeNull();
+		expect(parseAnswerCommand("/answer 2 1:3")).toBeNull();
+		expect(parseAnswerCommand("/answer")).toBeNull();
+	});
+});
+
+describe("parseHintCommand", () => {
+	it("parses an optional question number", () => {
+		expect(parseHintCommand("/hint")).toEqual({ questionNumber: null });
+		expect(parseHintCommand(`/hint ${QUIZ_ID} 2`)).toEqual({
+			questionNumber: 2,
+		});
+	});
+
+	it("rejects invalid arguments", () => {
+		expect(parseHintCommand("/hint two")).toBeNull();
+		expect(parseHintCommand("/hint 1 2")).toBeNull();
+		expect(parseHintCommand("/hint 0")).toBeNull();
+		expect(parseHintCommand("hint 1")).toBeNull();
+	});
+});
+
+describe("parseExplainCommand", () => {
+	it("parses a multi-line question with an optional question number", () => {
+		expect(
+			parseExplainCommand("/explain 2: なぜ逆ではないのですか？\n詳しく"),
+		).toEqual({
+			questionNumber: 2,
+			question: "なぜ逆ではないのですか？\n詳しく",
+		});
+		expect(
+			parseExplainCommand(`/explain ${QUIZ_ID} 選択肢2も正しいのでは？`),
+		).toEqual({
+			questionNumber: null,
+			question: "選択肢2も正しいのでは？",
+		});
+	});
+
+	it("leaves an empty question to the schema", () => {
+		const parsed = parseExplainCommand("/explain");
+
+		expect(parsed).toEqual({ questionNumber: null, question: "" });
+		expect(ExplainCommandSchema.safeParse(parsed).success).toBe(false);
+	});
+});
+
+describe("parseSkipCommand", () => {
+	it("parses an optional reason without the quiz ID", () => {
+		expect(parseSkipCommand("/skip")).toEqual({ reason: null });
+		expect(
+			parseSkipCommand(`/skip ${QUIZ_ID} ドキュメントのみの変更のため`),
+		).toEqual({
+			reason: "ドキュメントのみの変更のため",
+		});
+		expect(parseSkipCommand("skip")).toBeNull();
+	});
+});
+
+describe("parseHistoryCommand", () => {
+	it("parses an optional limit", () => {
+		expect(parseHistoryCommand("/history")).toEqual({
+			limit: DEFAULT_HISTORY_LIMIT,
+		});
+		expect(parseHistoryCommand("/history 20")).toEqual({ limit: 20 });
+		expect(parseHistoryCommand("/history all")).toBeNull();
+	});
+});
+
+describe("parseQuizCommand", () => {
+	it("parses optional category and difficulty", () => {
+		expect(parseQuizCommand("/quiz")).toEqual({
+			category: null,
+			difficulty: null,
+		});
+		expect(
+			QuizCommandSchema.parse(
+				parseQuizCommand("/quiz category=Security difficulty=hard"),
+			),
+		).toEqual({ category: "security", difficulty: "hard" });
+	});
+
+	it("rejects unknown parameters and leaves unknown values to the schema", () => {
+		expect(parseQuizCommand("/quiz level=hard")).toBeNull();
+		expect(parseQuizCommand("/quiz hard")).toBeNull();
+		expect(
+			QuizCommandSchema.safeParse(parseQuizCommand("/quiz category=ui"))
+				.success,
+		).toBe(false);
+	});
+});
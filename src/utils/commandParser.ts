@@ -1,159 +1,254 @@
-import { CategorySchema } from "../types/index.js";
-import type { Category } from "../types/index.js";
+import { z } from "zod";
+import { getMessages } from "../locales/index.js";
+import {
+	MAX_FOLLOW_UP_QUESTION_LENGTH,
+	MAX_SKIP_REASON_LENGTH,
+} from "../types/entities/quiz.js";
+import {
+	ExperienceLevelSchema,
+	SelfAssessmentSchema,
+} from "../types/entities/userProfile.js";
+import {
+	CategorySchema,
+	DifficultySchema,
+	type Language,
+	LanguageSchema,
+} from "../types/index.js";
 import { logger } from "./logger.js";
 
 /**
  * コマンドパーサー
- * PRコメントから /profile や /answer コマンドを解析
+ * PRコメントから /profile や /answer、/hint、/explain、/skip、/history、/quiz コマンドを解析
+ * 解析結果は各コマンドの引数スキーマで検証してからハンドラーに渡す（commandRegistry）
  */
 
+/** クイズセット内の問題番号（1始まり、省略時はnull） */
+const QuestionNumberSchema = z.number().int().positive().nullable();
+
 /**
- * プロファイルコマンドのパラメータ
+ * プロファイル更新のパラメータ（未知の項目は検証エラー）
  */
-export interface ProfileCommand {
-	experience?: "junior" | "mid" | "senior";
-	years?: number;
-	focus?: Category[];
-	goal?: string;
-}
+export const ProfileUpdateSchema = z.strictObject({
+	experience: ExperienceLevelSchema.optional(),
+	years: z.number().int().nonnegative().optional(),
+	focus: z.array(CategorySchema).max(5).optional(),
+	goal: z.string().max(500).optional(),
+	language: LanguageSchema.optional(),
+});
+
+export type ProfileUpdate = z.infer<typeof ProfileUpdateSchema>;
 
 /**
- * コマンドタイプ
+ * プロファイルコマンドの引数
+ * action: help=使い方を表示, show=現在のプロファイルを表示, reset=プロファイルを削除,
+ *         update=パラメータを更新, assess=自己評価を設定（指定したカテゴリのみ）
  */
-export type CommandType = "profile" | "answer" | null;
+export const ProfileCommandSchema = z.discriminatedUnion("action", [
+	z.object({ action: z.literal("help") }),
+	z.object({ action: z.literal("show") }),
+	z.object({ action: z.literal("reset") }),
+	z.object({ action: z.literal("update"), update: ProfileUpdateSchema }),
+	z.object({
+		action: z.literal("assess"),
+		selfAssessment: SelfAssessmentSchema,
+	}),
+]);
+
+export type ProfileCommand = z.infer<typeof ProfileCommandSchema>;
 
 /**
- * コメントからコマンドタイプを判定
+ * key=value 形式のパラメータを解析（goal="..." のような引用符付きの値に対応）
+ * @returns キーは小文字。key=value 以外の文字列を含む場合は null
  */
-export function detectCommandType(text: string): CommandType {
-	const trimmed = text.trim().toLowerCase();
+function parseKeyValueParams(text: string): [string, string][] | null {
+	const paramRegex = /(\w+)=(?:"([^"]*)"|(\S+))/g;
 
-	if (trimmed.startsWith("/profile")) {
-		return "profile";
+	if (text.replace(paramRegex, "").trim().length > 0) {
+		logger.warn("Invalid key=value parameters", { text });
+		return null;
 	}
 
-	if (trimmed.startsWith("/answer")) {
-		return "answer";
-	}
+	return [...text.matchAll(paramRegex)].map((match) => [
+		match[1].toLowerCase(),
+		match[2] ?? match[3],
+	]);
+}
 
-	return null;
+/**
+ * 数値の形式なら数値に変換する（それ以外は検証エラーに値を示すため文字列のまま）
+ */
+function parseNumericValue(value: string): number | string {
+	return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
 }
 
 /**
  * /profile コマンドを解析
+ * 値は検証せずに返し、項目・値の誤りは引数スキーマの検証エラーとして応答する
  * 例: /profile experience=mid years=3 focus=security,performance goal="フルスタック目指してます"
+ * 例: /profile lang=en
+ * 例: /profile assess security=3 performance=4
+ * 例: /profile show
+ * 例: /profile reset
  */
-export function parseProfileCommand(text: string): ProfileCommand | null {
-	try {
-		const trimmed = text.trim();
+export function parseProfileCommand(
+	text: string,
+): Record<string, unknown> | null {
+	const trimmed = text.trim();
 
-		// /profile コマンドか確認
-		if (!trimmed.toLowerCase().startsWith("/profile")) {
-			return null;
-		}
+	// /profile コマンドか確認
+	if (!trimmed.toLowerCase().startsWith("/profile")) {
+		return null;
+	}
 
-		// コマンド部分を削除
-		const paramsText = trimmed.substring("/profile".length).trim();
+	// コマンド部分を削除
+	const paramsText = trimmed.substring("/profile".length).trim();
 
-		// パラメータがない場合は空オブジェクトを返す（ヘルプ表示用）
-		if (!paramsText) {
-			return {};
-		}
+	// パラメータがない場合はヘルプ表示
+	if (!paramsText) {
+		return { action: "help" };
+	}
+
+	const [subcommand] = paramsText.split(/\s+/, 1);
+	const rest = paramsText.substring(subcommand.length).trim();
+
+	switch (subcommand.toLowerCase()) {
+		case "help":
+		case "show":
+		case "reset":
+			// パラメータは受け付けない
+			return rest ? null : { action: subcommand.toLowerCase() };
 
-		const command: ProfileCommand = {};
-
-		// パラメータを解析（key=value 形式）
-		// goal="..." のような引用符付き値に対応
-		const paramRegex = /(\w+)=(?:"([^"]*)"|(\S+))/g;
-		let match: RegExpExecArray | null;
-
-		while ((match = paramRegex.exec(paramsText)) !== null) {
-			const key = match[1];
-			const quotedValue = match[2];
-			const unquotedValue = match[3];
-			const value = quotedValue !== undefined ? quotedValue : unquotedValue;
-
-			switch (key.toLowerCase()) {
-				case "experience":
-				case "exp": {
-					const exp = value.toLowerCase();
-					if (exp === "junior" || exp === "mid" || exp === "senior") {
-						command.experience = exp;
-					} else {
-						logger.warn("Invalid experience level", { value });
-						return null;
-					}
-					break;
-				}
-
-				case "years":
-				case "year": {
-					const years = Number.parseInt(value, 10);
-					if (Number.isNaN(years) || years < 0) {
-						logger.warn("Invalid years", { value });
-						return null;
-					}
-					command.years = years;
-					break;
-				}
-
-				case "focus": {
-					const categories = value
-						.split(",")
-						.map((c) => c.trim())
-						.filter((c) => c.length > 0);
-
-					// 最大5つまで
-					if (categories.length > 5) {
-						logger.warn("Too many focus areas (max 5)", { count: categories.length });
-						return null;
-					}
-
-					// 各カテゴリをバリデーション
-					const validCategories: Category[] = [];
-					for (const cat of categories) {
-						const result = CategorySchema.safeParse(cat);
-						if (result.success) {
-							validCategories.push(result.data);
-						} else {
-							logger.warn("Invalid category", { category: cat });
-							return null;
-						}
-					}
-
-					command.focus = validCategories;
-					break;
-				}
-
-				case "goal": {
-					if (value.length > 500) {
-						logger.warn("Goal too long (max 500 chars)", { length: value.length });
-						return null;
-					}
-					command.goal = value;
-					break;
-				}
-
-				default:
-					logger.warn("Unknown parameter", { key });
-					// 未知のパラメータは無視（エラーにしない）
-					break;
+		case "assess": {
+			const params = parseKeyValueParams(rest);
+			if (!params || params.length === 0) {
+				return null;
 			}
+			return {
+				action: "assess",
+				selfAssessment: Object.fromEntries(
+					params.map(([key, value]) => [key, parseNumericValue(value)]),
+				),
+			};
 		}
+	}
 
-		logger.info("Parsed profile command", { command });
-		return command;
-	} catch (error) {
-		logger.error("Failed to parse profile command", { error, text });
+	const params = parseKeyValueParams(paramsText);
+	if (!params) {
 		return null;
 	}
+
+	const update: Record<string, unknown> = {};
+	for (const [key, value] of params) {
+		switch (key) {
+			case "experience":
+			case "exp":
+				update.experience = value.toLowerCase();
+				break;
+
+			case "years":
+			case "year":
+				update.years = parseNumericValue(value);
+				break;
+
+			case "focus":
+				update.focus = value
+					.split(",")
+					.map((c) => c.trim())
+					.filter((c) => c.length > 0);
+				break;
+
+			case "goal":
+				update.goal = value;
+				break;
+
+			case "lang":
+			case "language":
+				update.language = value.toLowerCase();
+				break;
+
+			default:
+				// 未知の項目はそのまま渡し、検証エラーとして応答する
+				update[key] = value;
+				break;
+		}
+	}
+
+	return { action: "update", update };
+}
+
+/**
+ * /answer コマンドの回答1件分
+ */
+export const AnswerSelectionSchema = z.object({
+	/** クイズセット内の問題番号（1始まり、単問回答の場合はnull） */
+	questionNumber: QuestionNumberSchema,
+	/** 回答文字列（問題形式に応じた解析は回答対象のクイズ確定後に行う） */
+	value: z.string().min(1),
+});
+
+export type AnswerSelection = z.infer<typeof AnswerSelectionSchema>;
+
+/**
+ * /answer コマンドの引数（問題ごとの回答）
+ */
+export const AnswerCommandSchema = z.array(AnswerSelectionSchema).min(1);
+
+/**
+ * 回答トークン
+ * `2` / `1,3` / `useMemo` / `"use client"` と、その前に `問題番号:` を付けた形式
+ */
+const ANSWER_TOKEN_REGEX = /(?:(\d+):)?(?:"([^"]*)"|(\S+))/g;
+
+/** クイズIDとして扱うトークン（UUID形式） */
+const QUIZ_ID_TOKEN_REGEX =
+	/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+
+/**
+ * 記述式の回答
+ * `text:` 以降をコメントの最後まで（複数行可）回答として扱い、前に問題番号を付けられる
+ */
+const FREE_TEXT_ANSWER_REGEX = /^(?:(\d+)\s*:?\s*)?text:\s*([\s\S]*)$/i;
+
+/** 記述式の回答から除くクイズID */
+const QUIZ_ID_IN_TEXT_REGEX =
+	/\b[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}\b/gi;
+
+/**
+ * 記述式の回答（`/answer [問題番号] text: ...`）を解析
+ * @returns 記述式でなければ undefined、記述式だが不正な場合は null
+ */
+function parseFreeTextAnswer(
+	commandText: string,
+): AnswerSelection[] | null | undefined {
+	const match = commandText.match(FREE_TEXT_ANSWER_REGEX);
+	if (!match) {
+		return undefined;
+	}
+
+	const questionNumber =
+		match[1] !== undefined ? Number.parseInt(match[1], 10) : null;
+	const value = match[2].replace(QUIZ_ID_IN_TEXT_REGEX, "").trim();
+
+	if (value.length === 0 || (questionNumber !== null && questionNumber < 1)) {
+		logger.warn("Invalid free-text answer", { questionNumber });
+		return null;
+	}
+
+	logger.info("Parsed free-text answer command", {
+		questionNumber,
+		length: value.length,
+	});
+	return [{ questionNumber, value }];
 }
 
 /**
  * /answer コマンドを解析
  * 例: /answer 2
+ * 例: /answer 1,3（複数選択） / /answer 3,1,2,4（並べ替え） / /answer useMemo（穴埋め）
+ * 例: /answer 1:2 2:1,3 3:"use client"（クイズセットの問題ごとの回答）
+ * 例: /answer text: キャッシュが古いままになるため...（記述式、複数行可）
  */
-export function parseAnswerCommand(text: string): number | null {
+export function parseAnswerCommand(text: string): AnswerSelection[] | null {
 	try {
 		const trimmed = text.trim();
 
@@ -162,23 +257,69 @@ export function parseAnswerCommand(text: string): number | null {
 			return null;
 		}
 
-		// コマンド部分を削除
-		const answerText = trimmed.substring("/answer".length).trim();
+		const freeText = parseFreeTextAnswer(
+			trimmed.substring("/answer".length).trim(),
+		);
+		if (freeText !== undefined) {
+			return freeText;
+		}
+
+		// コマンド部分を削除（1行目のみを対象にする）
+		// `1, 3` のようなカンマ前後の空白は詰める
+		const answerText = trimmed
+			.substring("/answer".length)
+			.split("\n")[0]
+			.replace(/\s*,\s*/g, ",")
+			.trim();
+
+		const selections: AnswerSelection[] = [];
+		const answeredQuestions = new Set<number | null>();
 
-		// 数値を抽出
-		const answerIndex = Number.parseInt(answerText, 10);
+		for (const match of answerText.matchAll(ANSWER_TOKEN_REGEX)) {
+			const token = match[0];
 
-		// 1-4の範囲か確認（ユーザー入力は1始まり、内部は0始まり）
-		if (Number.isNaN(answerIndex) || answerIndex < 1 || answerIndex > 4) {
-			logger.warn("Invalid answer index", { answerText });
+			// クイズIDは回答ではないのでスキップ
+			if (QUIZ_ID_TOKEN_REGEX.test(token) || /^quiz_\w+$/.test(token)) {
+				continue;
+			}
+
+			const questionNumber =
+				match[1] !== undefined ? Number.parseInt(match[1], 10) : null;
+			const value = (match[2] ?? match[3]).trim();
+
+			if (value.length === 0) {
+				logger.warn("Empty answer token", { token });
+				return null;
+			}
+
+			if (questionNumber !== null && questionNumber < 1) {
+				logger.warn("Invalid question number", { token });
+				return null;
+			}
+
+			// 同じ問題への重複回答は受け付けない
+			if (answeredQuestions.has(questionNumber)) {
+				logger.warn("Duplicate answer for question", { token });
+				return null;
+			}
+			answeredQuestions.add(questionNumber);
+
+			selections.push({ questionNumber, value });
+		}
+
+		if (selections.length === 0) {
+			logger.warn("No answer found in command", { answerText });
 			return null;
 		}
 
-		// 0始まりに変換
-		const zeroBasedIndex = answerIndex - 1;
+		// 問題番号なしの回答は単独でのみ指定可能
+		if (selections.length > 1 && answeredQuestions.has(null)) {
+			logger.warn("Mixed answer formats", { answerText });
+			return null;
+		}
 
-		logger.info("Parsed answer command", { answerIndex, zeroBasedIndex });
-		return zeroBasedIndex;
+		logger.info("Parsed answer command", { selections });
+		return selections;
 	} catch (error) {
 		logger.error("Failed to parse answer command", { error, text });
 		return null;
@@ -186,58 +327,235 @@ export function parseAnswerCommand(text: string): number | null {
 }
 
 /**
- * プロファイルコマンドのヘルプメッセージを生成
+ * /hint コマンドのパラメータ
+ */
+export const HintCommandSchema = z.object({
+	/** クイズセット内の問題番号（1始まり、省略時は見つかったクイズ） */
+	questionNumber: QuestionNumberSchema,
+});
+
+export type HintCommand = z.infer<typeof HintCommandSchema>;
+
+/**
+ * /hint コマンドを解析
+ * 例: /hint
+ * 例: /hint 2（クイズセットの2問目）
+ * 例: /hint eb6577c1-43cd-4c80-a5f5-081998520d88（クイズIDの指定）
  */
-export function getProfileCommandHelp(): string {
-	return `## 📝 プロファイルコマンドの使い方
+export function parseHintCommand(text: string): HintCommand | null {
+	const trimmed = text.trim();
 
-プロファイルを設定すると、より最適なクイズが出題されるようになります。
+	if (!trimmed.toLowerCase().startsWith("/hint")) {
+		return null;
+	}
 
-### コマンド形式
-\`\`\`
-/profile experience=mid years=3 focus=security,performance goal="目標"
-\`\`\`
+	// 1行目のみを対象にし、クイズIDは問題番号ではないので除く
+	const tokens = trimmed
+		.substring("/hint".length)
+		.split("\n")[0]
+		.split(/\s+/)
+		.filter(
+			(token) =>
+				token.length > 0 &&
+				!QUIZ_ID_TOKEN_REGEX.test(token) &&
+				!/^quiz_\w+$/.test(token),
+		);
+
+	if (tokens.length === 0) {
+		return { questionNumber: null };
+	}
 
-### パラメータ
+	if (tokens.length > 1 || !/^\d+$/.test(tokens[0])) {
+		logger.warn("Invalid hint command", { text });
+		return null;
+	}
 
-**experience** (または exp)
-- \`junior\` - ジュニア（1-2年）
-- \`mid\` - ミッドレベル（3-5年）
-- \`senior\` - シニア（5年以上）
+	const questionNumber = Number.parseInt(tokens[0], 10);
+	if (questionNumber < 1) {
+		logger.warn("Invalid question number", { text });
+		return null;
+	}
 
-**years** (または year)
-- 経験年数（数値）
+	return { questionNumber };
+}
 
-**focus**
-- 注力したい分野（最大5つ、カンマ区切り）
-- 選択肢: \`bug_fix\`, \`performance\`, \`refactoring\`, \`security\`, \`logic\`
+/**
+ * /explain コマンドのパラメータ
+ */
+export const ExplainCommandSchema = z.object({
+	/** クイズセット内の問題番号（1始まり、省略時は見つかったクイズ） */
+	questionNumber: QuestionNumberSchema,
+	/** 質問 */
+	question: z.string().min(1).max(MAX_FOLLOW_UP_QUESTION_LENGTH),
+});
 
-**goal**
-- キャリア目標（任意、最大500文字）
-- 引用符で囲む: \`goal="フルスタックエンジニアを目指しています"\`
+export type ExplainCommand = z.infer<typeof ExplainCommandSchema>;
 
-### 例
+/**
+ * /explain コマンドを解析
+ * 質問はコメントの最後まで（複数行可）とし、クイズIDは質問から除く
+ * 質問の長さは ExplainCommandSchema で検証する
+ * 例: /explain 選択肢2も正しいのでは？
+ * 例: /explain 2: なぜ並び順が逆ではないのですか？（クイズセットの2問目）
+ */
+export function parseExplainCommand(text: string): ExplainCommand | null {
+	const trimmed = text.trim();
 
-**基本的な設定:**
-\`\`\`
-/profile experience=mid years=3
-\`\`\`
+	if (!trimmed.toLowerCase().startsWith("/explain")) {
+		return null;
+	}
 
-**注力分野を指定:**
-\`\`\`
-/profile experience=senior focus=performance,security
-\`\`\`
+	const match = trimmed
+		.substring("/explain".length)
+		.replace(QUIZ_ID_IN_TEXT_REGEX, "")
+		.trim()
+		.match(/^(?:(\d+)\s*:\s*)?([\s\S]*)$/);
+	const questionNumber =
+		match?.[1] !== undefined ? Number.parseInt(match[1], 10) : null;
+	const question = match?.[2].trim() ?? "";
 
-**すべて指定:**
-\`\`\`
-/profile experience=mid years=3 focus=security,performance goal="セキュリティエンジニアを目指してます"
-\`\`\`
+	return { questionNumber, question };
+}
 
-**部分的な更新も可能:**
-\`\`\`
-/profile focus=refactoring,logic
-\`\`\`
+/**
+ * /skip コマンドのパラメータ
+ */
+export const SkipCommandSchema = z.object({
+	/** 理由（省略時はnull） */
+	reason: z.string().max(MAX_SKIP_REASON_LENGTH).nullable(),
+});
 
----
-*設定したプロファイルはいつでも更新できます*`;
+export type SkipCommand = z.infer<typeof SkipCommandSchema>;
+
+/**
+ * /skip コマンドを解析
+ * 理由はコメントの最後まで（複数行可）とし、クイズIDは理由から除く
+ * 例: /skip
+ * 例: /skip ドキュメントのみの変更のため
+ */
+export function parseSkipCommand(text: string): SkipCommand | null {
+	const trimmed = text.trim();
+
+	if (!trimmed.toLowerCase().startsWith("/skip")) {
+		return null;
+	}
+
+	const reason = trimmed
+		.substring("/skip".length)
+		.replace(QUIZ_ID_IN_TEXT_REGEX, "")
+		.trim();
+
+	return { reason: reason.length > 0 ? reason : null };
+}
+
+/** /history で件数を省略した場合に表示する件数 */
+export const DEFAULT_HISTORY_LIMIT = 10;
+
+/** /history で表示できる最大件数 */
+export const MAX_HISTORY_LIMIT = 30;
+
+/**
+ * 履歴コマンドのパラメータ
+ */
+export const HistoryCommandSchema = z.object({
+	/** 表示する件数 */
+	limit: z.number().int().min(1).max(MAX_HISTORY_LIMIT),
+});
+
+export type HistoryCommand = z.infer<typeof HistoryCommandSchema>;
+
+/**
+ * /history コマンドを解析
+ * 例: /history
+ * 例: /history 20
+ */
+export function parseHistoryCommand(text: string): HistoryCommand | null {
+	const trimmed = text.trim();
+
+	if (!trimmed.toLowerCase().startsWith("/history")) {
+		return null;
+	}
+
+	const tokens = trimmed
+		.substring("/history".length)
+		.split("\n")[0]
+		.split(/\s+/)
+		.filter((token) => token.length > 0);
+
+	if (tokens.length === 0) {
+		return { limit: DEFAULT_HISTORY_LIMIT };
+	}
+
+	if (tokens.length > 1 || !/^\d+$/.test(tokens[0])) {
+		logger.warn("Invalid history command", { text });
+		return null;
+	}
+
+	return { limit: Number.parseInt(tokens[0], 10) };
+}
+
+/**
+ * 追加出題コマンドのパラメータ
+ */
+export const QuizCommandSchema = z.object({
+	/** 出題してほしいカテゴリ（省略時はnull） */
+	category: CategorySchema.nullable(),
+	/** 出題してほしい難易度（省略時はnull） */
+	difficulty: DifficultySchema.nullable(),
+});
+
+export type QuizCommand = z.infer<typeof QuizCommandSchema>;
+
+/**
+ * /quiz コマンドを解析
+ * 値は検証せずに返し、カテゴリ・難易度の誤りは引数スキーマの検証エラーとして応答する
+ * 例: /quiz
+ * 例: /quiz category=security difficulty=hard
+ */
+export function parseQuizCommand(
+	text: string,
+): { category: string | null; difficulty: string | null } | null {
+	const trimmed = text.trim();
+
+	if (!trimmed.toLowerCase().startsWith("/quiz")) {
+		return null;
+	}
+
+	let category: string | null = null;
+	let difficulty: string | null = null;
+	const tokens = trimmed
+		.substring("/quiz".length)
+		.split("\n")[0]
+		.split(/\s+/)
+		.filter((token) => token.length > 0);
+
+	// パラメータを解析（key=value 形式）
+	for (const token of tokens) {
+		const match = token.match(/^(\w+)=(\S+)$/);
+		if (!match) {
+			logger.warn("Invalid quiz command", { text, token });
+			return null;
+		}
+
+		switch (match[1].toLowerCase()) {
+			case "category":
+				category = match[2].toLowerCase();
+				break;
+			case "difficulty":
+				difficulty = match[2].toLowerCase();
+				break;
+			default:
+				logger.warn("Invalid quiz command", { text, token });
+				return null;
+		}
+	}
+
+	return { category, difficulty };
+}
+
+/**
+ * プロファイルコマンドのヘルプメッセージを生成
+ */
+export function getProfileCommandHelp(language?: Language): string {
+	return getMessages(language).profile.help;
 }
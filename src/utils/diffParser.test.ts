@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatHunk,
+	formatHunksAsDiff,
+	getAddedLines,
+	getChangedLines,
+	parseUnifiedDiff,
+} from "./diffParser.js";
+
+const GIT_DIFF = [
+	"diff --git a/src/app.ts b/src/app.ts",
+	"index 1111111..2222222 100644",
+	"--- a/src/app.ts",
+	"+++ b/src/app.ts",
+	"@@ -1,3 +1,4 @@ export function main() {",
+	" const a = 1;",
+	"-const b = 2;",
+	"+const b = 3;",
+	"+const c = 4;",
+	" return a + b;",
+	"@@ -10 +11 @@",
+	"-old();",
+	"+next();",
+	"diff --git a/src/new.ts b/src/new.ts",
+	"new file mode 100644",
+	"--- /dev/null",
+	"+++ b/src/new.ts",
+	"@@ -0,0 +1,2 @@",
+	"+export const x = 1;",
+	"+export const y = 2;",
+	"diff --git a/src/gone.ts b/src/gone.ts",
+	"deleted file mode 100644",
+	"--- a/src/gone.ts",
+	"+++ /dev/null",
+	"@@ -1 +0,0 @@",
+	"-removed();",
+	"diff --git a/logo.png b/logo.png",
+	"Binary files a/logo.png and b/logo.png differ",
+].join("\n");
+
+describe("parseUnifiedDiff", () => {
+	it("splits a git diff into files and hunks", () => {
+		const files = parseUnifiedDiff(GIT_DIFF);
+
+		expect(files.map((f) => f.path)).toEqual([
+			"src/app.ts",
+			"src/new.ts",
+			"src/gone.ts",
+			"logo.png",
+		]);
+
+		const [app] = files;
+		expect(app.hunks).toHaveLength(2);
+		expect(app.hunks[0]).toMatchObject({
+			path: "src/app.ts",
+			oldStart: 1,
+			oldLines: 3,
+			newStart: 1,
+			newLines: 4,
+			header: "@@ -1,3 +1,4 @@ export function main() {",
+			added: 2,
+			removed: 1,
+		});
+		// 行数を省略したハンクヘッダーは1行とみなす
+		expect(app.hunks[1]).toMatchObject({
+			oldStart: 10,
+			oldLines: 1,
+			newStart: 11,
+			newLines: 1,
+			added: 1,
+			removed: 1,
+		});
+	});
+
+	it("records new, deleted and binary files", () => {
+		const [, created, deleted, binary] = parseUnifiedDiff(GIT_DIFF);
+
+		expect(created).toMatchObject({ isNew: true, isDeleted: false });
+		expect(deleted).toMatchObject({
+			path: "src/gone.ts",
+			isDeleted: true,
+		});
+		expect(deleted.hunks[0].removed).toBe(1);
+		expect(binary).toMatchObject({ isBinary: true, hunks: [] });
+	});
+
+	it("treats a trailing-whitespace-stripped empty line as context", () => {
+		const diff = [
+			"diff --git a/a.ts b/a.ts",
+			"@@ -1,3 +1,3 @@",
+			" first();",
+			"",
+			"-second();",
+			"+third();",
+		].join("\n");
+
+		const [file] = parseUnifiedDiff(diff);
+		expect(file.hunks[0].lines).toEqual([
+			" first();",
+			"",
+			"-second();",
+			"+third();",
+		]);
+		expect(file.hunks[0]).toMatchObject({ added: 1, removed: 1 });
+	});
+
+	it("splits a plain diff -u output on --- lines", () => {
+		const diff = [
+			"--- a/one.txt",
+			"+++ b/one.txt",
+			"@@ -1 +1 @@",
+			"-a",
+			"+b",
+			"--- a/two.txt",
+			"+++ b/two.txt",
+			"@@ -1 +1,2 @@",
+			" c",
+			"+d",
+		].join("\n");
+
+		const files = parseUnifiedDiff(diff);
+		expect(files.map((f) => [f.oldPath, f.path])).toEqual([
+			["one.txt", "one.txt"],
+			["two.txt", "two.txt"],
+		]);
+		expect(files[1].hunks[0].added).toBe(1);
+	});
+
+	it("returns no files for an empty diff", () => {
+		expect(parseUnifiedDiff("")).toEqual([]);
+	});
+});
+
+describe("hunk helpers", () => {
+	const [app] = parseUnifiedDiff(GIT_DIFF);
+	const [hunk] = app.hunks;
+
+	it("extracts added and changed lines without markers", () => {
+		expect(getAddedLines(hunk)).toEqual(["const b = 3;", "const c = 4;"]);
+		expect(getChangedLines(hunk)).toEqual([
+			"const b = 2;",
+			"const b = 3;",
+			"const c = 4;",
+		]);
+	});
+
+	it("formats a hunk back to unified diff text", () => {
+		expect(formatHunk(hunk).split("\n")).toEqual([
+			"@@ -1,3 +1,4 @@ export function main() {",
+			" const a = 1;",
+			"-const b = 2;",
+			"+const b = 3;",
+			"+const c = 4;",
+			" return a + b;",
+		]);
+	});
+
+	it("groups hunks of the same file under one header and round-trips", () => {
+		const [appFile, created] = parseUnifiedDiff(GIT_DIFF);
+		const diff = formatHunksAsDiff([
+			appFile.hunks[0],
+			created.hunks[0],
+			appFile.hunks[1],
+		]);
+
+		expect(diff.split("\n").filter((l) => l.startsWith("diff --git"))).toEqual([
+			"diff --git a/src/app.ts b/src/app.ts",
+			"diff --git a/src/new.ts b/src/new.ts",
+		]);
+
+		const reparsed = parseUnifiedDiff(diff);
+		expect(reparsed.map((f) => [f.path, f.hunks.length])).toEqual([
+			["src/app.ts", 2],
+			["src/new.ts", 1],
+		]);
+		expect(reparsed[0].hunks[1].lines).toEqual(appFile.hunks[1].lines);
+	});
+});
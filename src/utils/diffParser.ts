@@ -0,0 +1,212 @@
+/**
+ * Unified diff パーサー
+ * git diff の出力をファイル・ハンク単位に分解する
+ */
+
+/**
+ * ハンク（@@ で始まる変更ブロック）
+ */
+export interface DiffHunk {
+	/** 対象ファイルパス（変更後） */
+	path: string;
+	/** 変更前の開始行 */
+	oldStart: number;
+	/** 変更前の行数 */
+	oldLines: number;
+	/** 変更後の開始行 */
+	newStart: number;
+	/** 変更後の行数 */
+	newLines: number;
+	/** @@ 行（セクション見出しを含む） */
+	header: string;
+	/** ハンク本文（先頭の +/-/空白 記号付き） */
+	lines: string[];
+	/** 追加行数 */
+	added: number;
+	/** 削除行数 */
+	removed: number;
+}
+
+/**
+ * ファイル単位の差分
+ */
+export interface DiffFile {
+	/** 変更後のパス（削除時は変更前のパス） */
+	path: string;
+	/** 変更前のパス */
+	oldPath: string;
+	/** バイナリファイルか */
+	isBinary: boolean;
+	/** 新規ファイルか */
+	isNew: boolean;
+	/** 削除されたファイルか */
+	isDeleted: boolean;
+	/** ハンク一覧 */
+	hunks: DiffHunk[];
+}
+
+const FILE_HEADER_REGEX = /^diff --git a\/(.+?) b\/(.+)$/;
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * unified diff をファイル・ハンク単位に解析する
+ * `diff --git` ヘッダーのない差分は1ファイルとして扱う
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+	const files: DiffFile[] = [];
+	let currentFile: DiffFile | null = null;
+	let currentHunk: DiffHunk | null = null;
+	let oldRemaining = 0;
+	let newRemaining = 0;
+
+	const startFile = (oldPath: string, path: string): DiffFile => {
+		const file: DiffFile = {
+			path,
+			oldPath,
+			isBinary: false,
+			isNew: false,
+			isDeleted: false,
+			hunks: [],
+		};
+		files.push(file);
+		return file;
+	};
+
+	for (const line of diff.split("\n")) {
+		const fileMatch = line.match(FILE_HEADER_REGEX);
+		if (fileMatch) {
+			currentFile = startFile(fileMatch[1], fileMatch[2]);
+			currentHunk = null;
+			continue;
+		}
+
+		const hunkMatch = line.match(HUNK_HEADER_REGEX);
+		if (hunkMatch) {
+			currentFile ??= startFile("unknown", "unknown");
+			currentHunk = {
+				path: currentFile.path,
+				oldStart: Number.parseInt(hunkMatch[1], 10),
+				oldLines:
+					hunkMatch[2] !== undefined ? Number.parseInt(hunkMatch[2], 10) : 1,
+				newStart: Number.parseInt(hunkMatch[3], 10),
+				newLines:
+					hunkMatch[4] !== undefined ? Number.parseInt(hunkMatch[4], 10) : 1,
+				header: line,
+				lines: [],
+				added: 0,
+				removed: 0,
+			};
+			currentFile.hunks.push(currentHunk);
+			oldRemaining = currentHunk.oldLines;
+			newRemaining = currentHunk.newLines;
+			continue;
+		}
+
+		// `diff --git` ヘッダーのない差分（diff -u 等）は --- 行でファイルを区切る
+		if (
+			line.startsWith("--- ") &&
+			!currentHunk &&
+			(!currentFile || currentFile.hunks.length > 0)
+		) {
+			currentFile = startFile("unknown", "unknown");
+		}
+
+		if (!currentFile) {
+			continue;
+		}
+
+		// ハンク外のメタデータ行
+		if (!currentHunk) {
+			if (line.startsWith("new file mode")) {
+				currentFile.isNew = true;
+			} else if (line.startsWith("deleted file mode")) {
+				currentFile.isDeleted = true;
+				currentFile.path = currentFile.oldPath;
+			} else if (
+				line.startsWith("Binary files") ||
+				line.startsWith("GIT binary patch")
+			) {
+				currentFile.isBinary = true;
+			} else if (line.startsWith("--- ") && currentFile.oldPath === "unknown") {
+				currentFile.oldPath = stripPathPrefix(line.slice(4));
+			} else if (line.startsWith("+++ ") && currentFile.path === "unknown") {
+				currentFile.path = stripPathPrefix(line.slice(4));
+			}
+			continue;
+		}
+
+		// ヘッダーの行数に達するまでをハンク本文とする
+		// （空行は末尾空白が削られたコンテキスト行として扱う）
+		if (line.startsWith("+")) {
+			currentHunk.added += 1;
+			newRemaining -= 1;
+		} else if (line.startsWith("-")) {
+			currentHunk.removed += 1;
+			oldRemaining -= 1;
+		} else if (line.startsWith(" ") || line === "") {
+			oldRemaining -= 1;
+			newRemaining -= 1;
+		}
+		currentHunk.lines.push(line);
+
+		if (oldRemaining <= 0 && newRemaining <= 0) {
+			currentHunk = null;
+		}
+	}
+
+	return files;
+}
+
+/**
+ * --- / +++ 行のパスから a/ b/ プレフィックスを取り除く
+ */
+function stripPathPrefix(path: string): string {
+	return path.replace(/^[ab]\//, "").trim();
+}
+
+/**
+ * ハンク内の追加行（+記号を除いた本文）を取得
+ */
+export function getAddedLines(hunk: DiffHunk): string[] {
+	return hunk.lines.filter((l) => l.startsWith("+")).map((l) => l.slice(1));
+}
+
+/**
+ * ハンク内の変更行（追加・削除、記号を除いた本文）を取得
+ */
+export function getChangedLines(hunk: DiffHunk): string[] {
+	return hunk.lines
+		.filter((l) => l.startsWith("+") || l.startsWith("-"))
+		.map((l) => l.slice(1));
+}
+
+/**
+ * ハンクを unified diff 形式のテキストに戻す
+ */
+export function formatHunk(hunk: DiffHunk): string {
+	return [hunk.header, ...hunk.lines].join("\n");
+}
+
+/**
+ * 選択したハンクをファイルごとにまとめて unified diff 形式に戻す
+ * ハンクは渡された順序のまま、同じファイルのものは最初の出現位置にまとめる
+ */
+export function formatHunksAsDiff(hunks: DiffHunk[]): string {
+	const byPath = new Map<string, DiffHunk[]>();
+	for (const hunk of hunks) {
+		const list = byPath.get(hunk.path) ?? [];
+		list.push(hunk);
+		byPath.set(hunk.path, list);
+	}
+
+	return Array.from(byPath.entries())
+		.map(([path, fileHunks]) =>
+			[
+				`diff --git a/${path} b/${path}`,
+				`--- a/${path}`,
+				`+++ b/${path}`,
+				...fileHunks.map(formatHunk),
+			].join("\n"),
+		)
+		.join("\n");
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { JsonRepairError, parseJsonLenient } from "./jsonRepair.js";
+
+describe("parseJsonLenient", () => {
+	it("parses valid JSON without repair", () => {
+		expect(parseJsonLenient(' {"a": 1} ')).toEqual({
+			value: { a: 1 },
+			repaired: false,
+		});
+	});
+
+	it("extracts JSON from a code fence", () => {
+		expect(parseJsonLenient('```json\n{"a": [1, 2]}\n```')).toEqual({
+			value: { a: [1, 2] },
+			repaired: true,
+		});
+	});
+
+	it("drops surrounding prose", () => {
+		expect(
+			parseJsonLenient('Here is the quiz:\n{"a": 1}\nHope this helps!'),
+		).toEqual({ value: { a: 1 }, repaired: true });
+	});
+
+	it("fixes smart quotes and trailing commas", () => {
+		expect(parseJsonLenient("{“a”: [1, 2,], “b”: true,}").value).toEqual({
+			a: [1, 2],
+			b: true,
+		});
+	});
+
+	it("closes output truncated in the middle of a value", () => {
+		expect(parseJsonLenient('{"a": 1, "b": "unfinish').value).toEqual({
+			a: 1,
+			b: "unfinish",
+		});
+		expect(parseJsonLenient('{"a": {"b": 1}, "c":').value).toEqual({
+			a: { b: 1 },
+		});
+	});
+
+	it("throws JsonRepairError with the original text when repair fails", () => {
+		const text = "no json here";
+
+		expect(() => parseJsonLenient(text)).toThrow(JsonRepairError);
+		try {
+			parseJsonLenient(text);
+		} catch (error) {
+			expect((error as JsonRepairError).text).toBe(text);
+		}
+	});
+});
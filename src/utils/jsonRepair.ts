@@ -0,0 +1,125 @@
+/**
+ * LLM出力のJSONパーサー
+ * コードフェンス・前後の説明文・末尾カンマ・途中で切れた出力など、
+ * ほぼ正しいJSONを修復してからパースする
+ */
+
+/**
+ * JSONとして解釈できなかった場合のエラー
+ */
+export class JsonRepairError extends Error {
+	constructor(
+		message: string,
+		public readonly text: string,
+	) {
+		super(message);
+		this.name = "JsonRepairError";
+	}
+}
+
+/**
+ * ```json ... ``` で囲まれていれば中身を取り出す
+ */
+function stripCodeFence(text: string): string {
+	const match = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+	return match ? match[1].trim() : text;
+}
+
+/**
+ * 最初の { または [ から最後の } または ] までを取り出す（前後の説明文を除く）
+ * 閉じ括弧がない（途中で切れた）場合は末尾まで
+ */
+function extractJsonBody(text: string): string {
+	const start = text.search(/[{[]/);
+	if (start === -1) {
+		return text;
+	}
+
+	const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+	return end > start ? text.slice(start, end + 1) : text.slice(start);
+}
+
+/**
+ * スマートクォートと末尾カンマを直す
+ */
+function fixCommonMistakes(text: string): string {
+	return text.replace(/[“”]/g, '"').replace(/,\s*([}\]])/g, "$1");
+}
+
+/**
+ * 途中で切れたJSONの文字列・括弧を閉じる
+ */
+function closeTruncated(text: string): string {
+	const stack: string[] = [];
+	let inString = false;
+	let escaped = false;
+
+	for (const char of text) {
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+			} else if (char === "\\") {
+				escaped = true;
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inString = true;
+		} else if (char === "{") {
+			stack.push("}");
+		} else if (char === "[") {
+			stack.push("]");
+		} else if (char === "}" || char === "]") {
+			stack.pop();
+		}
+	}
+
+	let repaired = inString ? `${text}"` : text;
+	// 値の途中で切れた場合に残るキー・カンマ・コロンを除く
+	repaired = repaired.replace(/,\s*$|,?\s*"[^"]*"\s*:\s*$/, "");
+
+	return repaired + stack.reverse().join("");
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+	try {
+		return { ok: true, value: JSON.parse(text) };
+	} catch {
+		return { ok: false };
+	}
+}
+
+/**
+ * LLM出力をJSONとしてパースする
+ * そのままでパースできなければ段階的に修復して再試行する
+ * @throws {JsonRepairError} 修復してもパースできなかった場合
+ */
+export function parseJsonLenient(text: string): {
+	value: unknown;
+	repaired: boolean;
+} {
+	const trimmed = text.trim();
+	const direct = tryParse(trimmed);
+	if (direct.ok) {
+		return { value: direct.value, repaired: false };
+	}
+
+	const candidates = [
+		stripCodeFence(trimmed),
+		extractJsonBody(stripCodeFence(trimmed)),
+	];
+	candidates.push(fixCommonMistakes(candidates[1]));
+	candidates.push(closeTruncated(candidates[2]));
+
+	for (const candidate of candidates) {
+		const result = tryParse(candidate);
+		if (result.ok) {
+			return { value: result.value, repaired: true };
+		}
+	}
+
+	throw new JsonRepairError("Failed to parse or repair JSON output", text);
+}
@@ -1,3 +1,5 @@
+import { redactSecrets } from "./secretRedactor.js";
+
 // T014: ロギングユーティリティ
 
 type LogLevel = "debug" | "info" | "warn" | "error";
@@ -36,7 +38,10 @@ function formatLog(
 	const timestamp = new Date().toISOString();
 	const base = { timestamp, level, message };
 	const logObject = context ? { ...base, ...context } : base;
-	return JSON.stringify(logObject);
+	// 差分やモデルの応答に含まれる秘密情報をログに残さない
+	return JSON.stringify(logObject, (_key, value) =>
+		typeof value === "string" ? redactSecrets(value).text : value,
+	);
 }
 
 function log(level: LogLevel, message: string, context?: LogContext): void {
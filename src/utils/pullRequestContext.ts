@@ -0,0 +1,171 @@
+import { redactSecrets } from "./secretRedactor.js";
+
+/**
+ * PR/MRのコンテキスト
+ * タイトル・説明・コミットメッセージを整形し、秘密情報をマスクして長さを制限した上でプロンプトに含める
+ * 変更の意図（なぜ変更したか）を問う出題に使う
+ */
+
+/**
+ * 整形前のPR/MR情報
+ */
+export interface PullRequestContextInput {
+	title?: string;
+	/** PR/MRの説明（Markdown） */
+	description?: string;
+	/** コミットメッセージ（古い順） */
+	commitMessages?: string[];
+}
+
+/**
+ * 整形済みのコンテキスト
+ */
+export interface PullRequestContext {
+	/** プロンプトに含めるテキスト */
+	text: string;
+	/** マスクした秘密情報の件数 */
+	redactionCount: number;
+	/** 長さの上限で切り詰めたか */
+	truncated: boolean;
+}
+
+/** タイトルの最大文字数 */
+const MAX_TITLE_LENGTH = 200;
+
+/** 説明の最大文字数 */
+const MAX_DESCRIPTION_LENGTH = 4_000;
+
+/** コミットメッセージ1件の最大文字数 */
+const MAX_COMMIT_MESSAGE_LENGTH = 500;
+
+/** コミットメッセージ全体の最大文字数 */
+const MAX_COMMIT_MESSAGES_LENGTH = 2_000;
+
+/** マージコミットのメッセージ（意図を含まないため除く） */
+const MERGE_COMMIT_PATTERN =
+	/^Merge (?:branch|pull request|remote-tracking branch|tag) /;
+
+/** コミットメッセージの末尾に付くトレーラー行 */
+const TRAILER_LINE_PATTERN =
+	/^(?:Signed-off-by|Co-authored-by|Reviewed-by|Change-Id|Cherry-picked-from):/i;
+
+/**
+ * 上限を超えるテキストを切り詰める
+ */
+function truncate(
+	text: string,
+	maxLength: number,
+): { text: string; truncated: boolean } {
+	if (text.length <= maxLength) {
+		return { text, truncated: false };
+	}
+	return {
+		text: `${text.slice(0, maxLength).trimEnd()}\n... (truncated)`,
+		truncated: true,
+	};
+}
+
+/**
+ * Markdown を平文に近づける
+ * HTMLコメント（PRテンプレートの案内文など）・画像を除き、リンクは表示テキストだけ残し、URLは伏せる
+ */
+function normalizeMarkdown(text: string): string {
+	return text
+		.replace(/\r\n?/g, "\n")
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+		.replace(/https?:\/\/\S+/g, "[URL]")
+		.replace(/[ \t]+$/gm, "")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * コミットメッセージを整形する（マージコミット・トレーラー行・重複を除く）
+ */
+function normalizeCommitMessages(messages: string[], title: string): string[] {
+	const seen = new Set([title]);
+	const normalized: string[] = [];
+
+	for (const message of messages) {
+		const text = normalizeMarkdown(
+			message
+				.split("\n")
+				.filter((line) => !TRAILER_LINE_PATTERN.test(line.trim()))
+				.join("\n"),
+		);
+		if (!text || MERGE_COMMIT_PATTERN.test(text) || seen.has(text)) {
+			continue;
+		}
+		seen.add(text);
+		normalized.push(text);
+	}
+
+	return normalized;
+}
+
+/**
+ * コミットメッセージを箇条書きにする（2行目以降は字下げ）
+ * 全体の上限を超えた分は件数だけ示す
+ */
+function formatCommitMessages(messages: string[]): {
+	text: string;
+	truncated: boolean;
+} {
+	const items: string[] = [];
+	let length = 0;
+	let truncated = false;
+
+	for (const [i, message] of messages.entries()) {
+		const entry = truncate(message, MAX_COMMIT_MESSAGE_LENGTH);
+		const item = `- ${entry.text.replace(/\n(?!\n)/g, "\n  ")}`;
+		truncated ||= entry.truncated;
+
+		if (length + item.length > MAX_COMMIT_MESSAGES_LENGTH) {
+			items.push(`- ... (${messages.length - i} more commits omitted)`);
+			truncated = true;
+			break;
+		}
+		items.push(item);
+		length += item.length + 1;
+	}
+
+	return { text: items.join("\n"), truncated };
+}
+
+/**
+ * PR/MRのタイトル・説明・コミットメッセージからプロンプト用のコンテキストを作る
+ * @returns 含める情報がなければ null
+ */
+export function buildPullRequestContext(
+	input: PullRequestContextInput,
+): PullRequestContext | null {
+	const title = truncate(
+		normalizeMarkdown(input.title ?? "").replace(/\n/g, " "),
+		MAX_TITLE_LENGTH,
+	);
+	const description = truncate(
+		normalizeMarkdown(input.description ?? ""),
+		MAX_DESCRIPTION_LENGTH,
+	);
+	const commits = formatCommitMessages(
+		normalizeCommitMessages(input.commitMessages ?? [], title.text),
+	);
+
+	const sections = [
+		title.text && `Title: ${title.text}`,
+		description.text && `Description:\n${description.text}`,
+		commits.text && `Commit messages:\n${commits.text}`,
+	].filter(Boolean);
+	if (sections.length === 0) {
+		return null;
+	}
+
+	const redaction = redactSecrets(sections.join("\n\n"));
+	return {
+		text: redaction.text,
+		redactionCount: redaction.count,
+		truncated: title.truncated || description.truncated || commits.truncated,
+	};
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { computeBackoffDelay, type RetryOptions, withRetry } from "./retry.js";
+
+const options: RetryOptions = {
+	maxAttempts: 3,
+	baseDelayMs: 0,
+	shouldRetry: (error) => error instanceof Error && error.message === "busy",
+	operation: "test",
+};
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe("computeBackoffDelay", () => {
+	it("doubles the upper bound per attempt up to the maximum", () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+
+		expect(computeBackoffDelay(1, 100)).toBe(100);
+		expect(computeBackoffDelay(3, 100)).toBe(400);
+		expect(computeBackoffDelay(10, 100, 1000)).toBe(1000);
+	});
+
+	it("applies full jitter", () => {
+		vi.spyOn(Math, "random").mockReturnValue(0.25);
+
+		expect(computeBackoffDelay(2, 100)).toBe(50);
+	});
+});
+
+describe("withRetry", () => {
+	it("returns the first successful result", async () => {
+		const fn = vi
+			.fn<(attempt: number) => Promise<string>>()
+			.mockRejectedValueOnce(new Error("busy"))
+			.mockResolvedValueOnce("ok");
+
+		await expect(withRetry(fn, options)).resolves.toBe("ok");
+		expect(fn.mock.calls).toEqual([[1], [2]]);
+	});
+
+	it("throws after the maximum number of attempts", async () => {
+		const fn = vi.fn().mockRejectedValue(new Error("busy"));
+
+		await expect(withRetry(fn, options)).rejects.toThrow("busy");
+		expect(fn).toHaveBeenCalledTimes(3);
+	});
+
+	it("does not retry errors that are not retryable", async () => {
+		const fn = vi.fn().mockRejectedValue(new Error("invalid request"));
+
+		await expect(withRetry(fn, options)).rejects.toThrow("invalid request");
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,73 @@
+import { logger } from "./logger.js";
+
+/**
+ * 指数バックオフ付きの再試行
+ */
+
+/**
+ * 再試行の設定
+ */
+export interface RetryOptions {
+	/** 最大試行回数（初回を含む） */
+	maxAttempts: number;
+	/** 初回の待機時間（ミリ秒）。以降は2倍ずつ増やす */
+	baseDelayMs: number;
+	/** 待機時間の上限（ミリ秒） */
+	maxDelayMs?: number;
+	/** 再試行するエラーか判定する */
+	shouldRetry: (error: unknown) => boolean;
+	/** ログ出力用の処理名 */
+	operation: string;
+}
+
+/** 待機時間の上限の既定値 */
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+/**
+ * 試行回数に応じた待機時間を計算する（フルジッター）
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	maxDelayMs = DEFAULT_MAX_DELAY_MS,
+): number {
+	const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+	return Math.round(Math.random() * exponential);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 処理を実行し、再試行対象のエラーなら待機してから再実行する
+ * 最大試行回数に達した場合や再試行対象外のエラーはそのまま投げる
+ */
+export async function withRetry<T>(
+	fn: (attempt: number) => Promise<T>,
+	options: RetryOptions,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn(attempt);
+		} catch (error) {
+			if (attempt >= options.maxAttempts || !options.shouldRetry(error)) {
+				throw error;
+			}
+
+			const delayMs = computeBackoffDelay(
+				attempt,
+				options.baseDelayMs,
+				options.maxDelayMs,
+			);
+			logger.warn("Retrying after transient error", {
+				operation: options.operation,
+				attempt,
+				maxAttempts: options.maxAttempts,
+				delayMs,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			await sleep(delayMs);
+		}
+	}
+}
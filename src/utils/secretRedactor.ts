@@ -0,0 +1,230 @@
+/**
+ * 秘密情報のマスク
+ * 差分をモデルに送る前やログ出力前に、APIキー・トークン・秘密鍵などを伏せ字に置き換える
+ */
+
+/** 検出する秘密情報の種類 */
+export type SecretKind =
+	| "private_key"
+	| "aws_access_key"
+	| "github_token"
+	| "google_api_key"
+	| "slack_token"
+	| "jwt"
+	| "credential_assignment"
+	| "env_value"
+	| "high_entropy_string";
+
+/**
+ * マスク結果
+ */
+export interface RedactionResult {
+	/** マスク後のテキスト */
+	text: string;
+	/** マスクした件数 */
+	count: number;
+	/** 種類ごとの件数 */
+	byKind: Partial<Record<SecretKind, number>>;
+}
+
+/** マスクした箇所の置き換え文字列 */
+export function redactionPlaceholder(kind: SecretKind): string {
+	return `[REDACTED:${kind}]`;
+}
+
+/** マスク済みの箇所を含むか */
+export function containsRedaction(text: string): boolean {
+	return text.includes("[REDACTED:");
+}
+
+/**
+ * PEM形式の秘密鍵
+ * 差分中では各行に +/- が付くため行頭記号を許容し、END行がない（途中までの）場合も対象にする
+ */
+const PRIVATE_KEY_PATTERN =
+	/-----BEGIN ((?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?)-----(?:[\s\S]*?-----END \1-----|(?:\n[+\- ]?[A-Za-z0-9+/=:-]+)*)/g;
+
+/** 形式が決まっているトークン */
+const TOKEN_PATTERNS: { kind: SecretKind; pattern: RegExp }[] = [
+	{
+		kind: "aws_access_key",
+		pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g,
+	},
+	{
+		kind: "github_token",
+		pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+	},
+	{ kind: "google_api_key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+	{ kind: "slack_token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+	{
+		kind: "jwt",
+		pattern:
+			/\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g,
+	},
+];
+
+/**
+ * 秘密情報らしい名前の変数への文字列リテラルの代入
+ * 例: apiKey = "...", "client_secret": "...", PASSWORD: '...'
+ */
+const CREDENTIAL_ASSIGNMENT_PATTERN =
+	/((?:api[_-]?key|secret|token|passw(?:or)?d|pwd|private[_-]?key|access[_-]?key|credential)\w*["']?\s*[:=]\s*)(["'`])([^"'`\s]{8,})\2/gi;
+
+/** 代入値として明らかにダミー・参照のもの（マスクしない） */
+const PLACEHOLDER_VALUE_PATTERN =
+	/^(?:\$\{.*\}|<.*>|\{\{.*\}\}|process\.env\..*|(?:x+|\*+|changeme|your[_-].*|example.*|dummy.*|test.*|REDACTED.*))$/i;
+
+/** .env 系ファイル（サンプルは除く） */
+const ENV_FILE_PATTERN =
+	/(^|\/)\.env(?:\.(?!example$|sample$|template$)[\w.-]+)?$/;
+
+/** .env ファイルの代入行（行頭の差分記号を含む） */
+const ENV_ASSIGNMENT_PATTERN =
+	/^([+\- ]\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*)(.+)$/;
+
+/** 高エントロピー文字列の候補（32文字以上、英大文字・小文字と2つ以上の数字を含むものを判定する） */
+const HIGH_ENTROPY_CANDIDATE_PATTERN = /[A-Za-z0-9+/_=-]{32,}/g;
+
+/** 高エントロピーとみなすシャノンエントロピー（bit/文字）のしきい値 */
+const HIGH_ENTROPY_THRESHOLD = 4.3;
+
+/**
+ * 文字列のシャノンエントロピー（bit/文字）を計算する
+ */
+export function shannonEntropy(value: string): number {
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const p = count / value.length;
+		entropy -= p * Math.log2(p);
+	}
+	return entropy;
+}
+
+function isHighEntropySecret(token: string): boolean {
+	return (
+		/[A-Z]/.test(token) &&
+		/[a-z]/.test(token) &&
+		/[0-9].*[0-9]/.test(token) &&
+		!token.includes("[REDACTED") &&
+		shannonEntropy(token) >= HIGH_ENTROPY_THRESHOLD
+	);
+}
+
+/**
+ * マスク件数の集計
+ */
+type RedactionCounter = Omit<RedactionResult, "text">;
+
+function countRedaction(counter: RedactionCounter, kind: SecretKind): void {
+	counter.count++;
+	counter.byKind[kind] = (counter.byKind[kind] ?? 0) + 1;
+}
+
+/**
+ * 1行（または1つの文字列）に含まれる秘密情報をマスクする
+ */
+function redactLine(line: string, counter: RedactionCounter): string {
+	let result = line;
+
+	for (const { kind, pattern } of TOKEN_PATTERNS) {
+		result = result.replace(pattern, () => {
+			countRedaction(counter, kind);
+			return redactionPlaceholder(kind);
+		});
+	}
+
+	result = result.replace(
+		CREDENTIAL_ASSIGNMENT_PATTERN,
+		(match, prefix: string, quote: string, value: string) => {
+			if (PLACEHOLDER_VALUE_PATTERN.test(value) || containsRedaction(value)) {
+				return match;
+			}
+			countRedaction(counter, "credential_assignment");
+			return `${prefix}${quote}${redactionPlaceholder("credential_assignment")}${quote}`;
+		},
+	);
+
+	return result.replace(HIGH_ENTROPY_CANDIDATE_PATTERN, (token) => {
+		if (!isHighEntropySecret(token)) {
+			return token;
+		}
+		countRedaction(counter, "high_entropy_string");
+		return redactionPlaceholder("high_entropy_string");
+	});
+}
+
+/**
+ * 秘密鍵ブロックをマスクする（差分の行構造を保つため、行ごとに置き換える）
+ */
+function redactPrivateKeys(text: string, counter: RedactionCounter): string {
+	return text.replace(PRIVATE_KEY_PATTERN, (block) => {
+		countRedaction(counter, "private_key");
+		const placeholder = redactionPlaceholder("private_key");
+		return block
+			.split("\n")
+			.map((line, i) =>
+				i > 0 && /^[+\- ]/.test(line)
+					? `${line[0]}${placeholder}`
+					: placeholder,
+			)
+			.join("\n");
+	});
+}
+
+/**
+ * 任意のテキストに含まれる秘密情報をマスクする（ログ・生成結果用）
+ */
+export function redactSecrets(text: string): RedactionResult {
+	const counter: RedactionCounter = { count: 0, byKind: {} };
+	const redacted = redactPrivateKeys(text, counter)
+		.split("\n")
+		.map((line) => redactLine(line, counter))
+		.join("\n");
+
+	return { text: redacted, count: counter.count, byKind: counter.byKind };
+}
+
+/**
+ * unified diff に含まれる秘密情報をマスクする
+ * ヘッダー行はそのまま残し、.env 系ファイルでは代入値をすべて伏せる
+ */
+export function redactDiff(diff: string): RedactionResult {
+	const counter: RedactionCounter = { count: 0, byKind: {} };
+	let inEnvFile = false;
+
+	const redacted = redactPrivateKeys(diff, counter)
+		.split("\n")
+		.map((line) => {
+			if (line.startsWith("diff --git ")) {
+				const path = line.match(/ b\/(.+)$/)?.[1] ?? "";
+				inEnvFile = ENV_FILE_PATTERN.test(path);
+				return line;
+			}
+			if (
+				line.startsWith("+++ ") ||
+				line.startsWith("--- ") ||
+				line.startsWith("@@") ||
+				line.startsWith("index ")
+			) {
+				return line;
+			}
+
+			if (inEnvFile) {
+				const match = line.match(ENV_ASSIGNMENT_PATTERN);
+				if (match && !containsRedaction(match[2])) {
+					countRedaction(counter, "env_value");
+					return `${match[1]}${redactionPlaceholder("env_value")}`;
+				}
+			}
+
+			return redactLine(line, counter);
+		})
+		.join("\n");
+
+	return { text: redacted, count: counter.count, byKind: counter.byKind };
+}
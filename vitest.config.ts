@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	test: {
+		include: ["src/**/*.test.ts"],
+		// GCP認証なしで実行できるようにローカル生成プロバイダーを使う
+		// （NODE_ENV は vitest の既定値 test ではなく env.ts の許容値に合わせる）
+		env: {
+			NODE_ENV: "development",
+			QUIZ_GENERATOR: "local",
+			DEFAULT_LANGUAGE: "ja",
+			LOG_LEVEL: "error",
+		},
+	},
+});